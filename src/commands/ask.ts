@@ -0,0 +1,172 @@
+import fs from 'fs/promises';
+import path from 'path';
+import readline from 'readline/promises';
+import JSON5 from 'json5';
+import { analyzeFile } from '../services/analysis';
+import { Conversation, ConversationContext, createConversation } from '../services/conversation';
+import { buildLlmProvider, LlmOptions } from '../services/llm';
+import { createRedactor } from '../services/redaction';
+import { createSettingsResolver } from '../services/settings';
+import { simulatePolicies } from '../services/simulation';
+import { LlmProvider, TurnkeyTransactionRequest } from '../types';
+import { detectFileType, readJsonFile, resolvePath } from '../utils';
+import { loadPolicies } from './simulate';
+
+// Simple color functions to replace chalk
+const colors = {
+  red: (text: string) => `\x1b[31m${text}\x1b[0m`,
+  green: (text: string) => `\x1b[32m${text}\x1b[0m`,
+  blue: (text: string) => `\x1b[34m${text}\x1b[0m`,
+  yellow: (text: string) => `\x1b[33m${text}\x1b[0m`,
+  cyan: (text: string) => `\x1b[36m${text}\x1b[0m`
+};
+
+const REPL_HELP = `Commands:
+  /export <file>  Save the conversation (.md for Markdown, otherwise JSON)
+  /history        Show the conversation so far
+  /reset          Forget the previous questions and answers
+  /exit           Leave the session`;
+
+interface AskOptions extends LlmOptions {
+  interactive?: boolean;
+  export?: string;
+  request?: string;
+  chainId?: string;
+  /** Profile of configurations with profiles; all profiles when omitted */
+  profile?: string;
+}
+
+/**
+ * Answers questions about a Turnkey configuration, policy or transaction file, either once
+ * or in an interactive session with follow-up questions
+ * @param filePath Path to the JSON file
+ * @param question Question to ask; starts an interactive session when omitted
+ * @param options Command options
+ * @param provider LLM provider; built from the options and environment when omitted
+ */
+export async function askCopilot(filePath: string, question: string | undefined, options: AskOptions, provider?: LlmProvider): Promise<void> {
+  const resolveSettings = createSettingsResolver();
+  const report = await analyzeFile(filePath, options, await resolveSettings(filePath));
+
+  // Unreadable or unparseable files have a single file-level finding and nothing to discuss
+  if (!report.fileType) {
+    throw new Error(report.findings[0].message);
+  }
+
+  const source = await fs.readFile(resolvePath(filePath), 'utf-8');
+  const redactor = createRedactor();
+  redactor.registerValues(JSON5.parse(source));
+
+  const context: ConversationContext = {
+    file: filePath,
+    fileType: report.fileType,
+    source,
+    findings: report.findings,
+    details: report.details
+  };
+
+  if (options.request) {
+    const request = await readJsonFile<TurnkeyTransactionRequest>(options.request);
+    if (detectFileType(request) !== 'transaction') {
+      throw new Error(`Not a Turnkey transaction signing request: ${options.request}`);
+    }
+    redactor.registerValues(request);
+    context.request = {
+      file: options.request,
+      source: await fs.readFile(resolvePath(options.request), 'utf-8'),
+      // Lets the model explain why the policy allows or denies the request
+      simulation: report.fileType === 'policy' ? simulatePolicies(await loadPolicies(filePath), request) : undefined
+    };
+  }
+
+  const llm = provider ?? buildLlmProvider(options, redactor);
+  if (llm.name === 'template') {
+    throw new Error('The ask command needs an LLM. Set OPENAI_API_KEY, or use --llm-base-url for an OpenAI-compatible server');
+  }
+  if (options.redact === false) {
+    console.error(colors.yellow(`⚠ Redaction is disabled: the file is sent to the ${llm.name} provider unmodified`));
+  }
+
+  const conversation = createConversation(context, llm);
+
+  if (question && !options.interactive) {
+    console.log(await conversation.ask(question));
+  } else {
+    await runSession(conversation, filePath, question);
+  }
+
+  if (options.export) {
+    await exportConversation(conversation, options.export);
+  }
+}
+
+/**
+ * Runs an interactive question and answer session until /exit or end of input
+ * @param conversation The conversation
+ * @param filePath Path to the file being discussed
+ * @param firstQuestion Question to answer before reading input
+ */
+async function runSession(conversation: Conversation, filePath: string, firstQuestion?: string): Promise<void> {
+  console.log(colors.blue(`💬 Ask anything about ${filePath}. Type /help for commands, /exit to leave.`));
+
+  const answer = async (question: string) => {
+    try {
+      console.log(`${colors.cyan('copilot>')} ${await conversation.ask(question)}\n`);
+    } catch (error) {
+      console.log(colors.red(`Error: ${error instanceof Error ? error.message : String(error)}\n`));
+    }
+  };
+
+  if (firstQuestion) {
+    console.log(`${colors.green('you>')} ${firstQuestion}`);
+    await answer(firstQuestion);
+  }
+
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout, prompt: colors.green('you> ') });
+  rl.prompt();
+
+  try {
+    for await (const line of rl) {
+      const input = line.trim();
+
+      if (input === '/exit' || input === '/quit') {
+        break;
+      } else if (input === '/help') {
+        console.log(REPL_HELP);
+      } else if (input === '/reset') {
+        conversation.reset();
+        console.log(colors.yellow('Conversation history cleared'));
+      } else if (input === '/history') {
+        for (const message of conversation.history()) {
+          console.log(`${message.role === 'user' ? colors.green('you>') : colors.cyan('copilot>')} ${message.content}`);
+        }
+      } else if (input.startsWith('/export')) {
+        const target = input.slice('/export'.length).trim();
+        if (!target) {
+          console.log(colors.yellow('Usage: /export <file>'));
+        } else {
+          await exportConversation(conversation, target).catch(error => console.log(colors.red(`Error: ${error.message}`)));
+        }
+      } else if (input.startsWith('/')) {
+        console.log(colors.yellow(`Unknown command: ${input}\n${REPL_HELP}`));
+      } else if (input) {
+        await answer(input);
+      }
+
+      rl.prompt();
+    }
+  } finally {
+    rl.close();
+  }
+}
+
+/**
+ * Writes the transcript of a conversation, as Markdown for .md files and JSON otherwise
+ * @param conversation The conversation
+ * @param outputPath Path of the transcript file
+ */
+async function exportConversation(conversation: Conversation, outputPath: string): Promise<void> {
+  const format = path.extname(outputPath).toLowerCase() === '.md' ? 'markdown' : 'json';
+  await fs.writeFile(resolvePath(outputPath), `${conversation.export(format)}\n`, 'utf-8');
+  console.log(colors.green(`📄 Conversation saved to ${outputPath}`));
+}
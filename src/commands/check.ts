@@ -1,11 +1,14 @@
 import fs from 'fs/promises';
-import path from 'path';
 import JSON5 from 'json5';
-import { analyzeConfig } from '../services/config';
-import { analyzePolicy } from '../services/policy';
-import { analyzeTransaction } from '../services/transaction';
-import { generateExplanation } from '../services/ai';
-import { TurnkeyConfig, TurnkeyPolicy, TurnkeyTransactionRequest } from '../types';
+import { addWorkspaceFindings, analyzeFile } from '../services/analysis';
+import { createExplanationCache, defaultCacheDirectory, explainFindings } from '../services/explanations';
+import { buildLlmProvider, LlmOptions } from '../services/llm';
+import { createRedactor, Redactor } from '../services/redaction';
+import { createSettingsResolver } from '../services/settings';
+import { countFindings, formatJsonReport, formatJunitReport, formatSarifReport, getExitCode } from '../services/report';
+import { CheckReport, Finding, LlmProvider, OutputFormat } from '../types';
+import { mapWithConcurrency, resolvePath } from '../utils';
+import { expandPaths } from '../utils/files';
 
 // Simple color functions to replace chalk
 const colors = {
@@ -16,106 +19,261 @@ const colors = {
   cyan: (text: string) => `\x1b[36m${text}\x1b[0m`
 };
 
-interface CheckOptions {
+// Used instead of colors when text output is written to a file
+const plain: typeof colors = {
+  red: text => text,
+  green: text => text,
+  blue: text => text,
+  yellow: text => text,
+  cyan: text => text
+};
+
+const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'sarif', 'junit'];
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_LLM_CONCURRENCY = 2;
+
+interface CheckOptions extends LlmOptions {
   verbose?: boolean;
+  chainId?: string;
+  /** Profile of configurations with profiles; all profiles when omitted */
+  profile?: string;
+  format?: string;
+  output?: string;
+  concurrency?: string;
+  llmConcurrency?: string;
+  batchExplanations?: boolean;
+  /** False when --no-cache is given */
+  cache?: boolean;
+  cacheDir?: string;
+  /** Also check the files against each other */
+  workspace?: boolean;
 }
 
 /**
- * Checks a Turnkey configuration or policy file for potential issues
- * @param filePath Path to the config or policy JSON file
+ * Checks Turnkey configuration, policy and transaction files for potential issues
+ * @param patterns Paths, directories or glob patterns of the files to check
  * @param options Command options
+ * @param provider LLM provider for --verbose explanations; resolved from the options and environment when omitted
+ * @returns Process exit code: 0 when clean, 1 when errors were found, 2 when only warnings were found
  */
-export async function checkConfig(filePath: string, options: CheckOptions): Promise<void> {
-  console.log(colors.blue('🔍 Analyzing Turnkey configuration...'));
-  
-  try {
-    // Resolve the file path
-    const resolvedPath = path.resolve(process.cwd(), filePath);
-    
-    // Check if file exists
-    try {
-      await fs.access(resolvedPath);
-    } catch (error) {
-      throw new Error(`File not found: ${filePath}`);
-    }
-    
-    // Read and parse the file
-    const fileContent = await fs.readFile(resolvedPath, 'utf-8');
-    let data: TurnkeyConfig | TurnkeyPolicy | TurnkeyTransactionRequest;
-    
-    try {
-      data = JSON5.parse(fileContent);
-    } catch (error) {
-      throw new Error(`Invalid JSON format in file: ${filePath}`);
-    }
-    
-    // Determine file type based on content
-    let issues: string[] = [];
-    let suggestions: string[] = [];
-    let fileType: 'transaction' | 'policy' | 'config' = 'config';
-    
-    // Check if it's a transaction signing request
-    if ('type' in data && data.type === 'ACTIVITY_TYPE_SIGN_TRANSACTION_V2') {
-      console.log(colors.green('📝 Detected Turnkey transaction signing request'));
-      const { issues: txIssues, suggestions: txSuggestions } = await analyzeTransaction(data as TurnkeyTransactionRequest);
-      issues = txIssues;
-      suggestions = txSuggestions;
-      fileType = 'transaction';
+export async function checkConfig(patterns: string[], options: CheckOptions, provider?: LlmProvider): Promise<number> {
+  const format = (options.format ?? 'text') as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new Error(`Unsupported output format: ${options.format}. Use one of: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+
+  const concurrency = parseConcurrency(options.concurrency, DEFAULT_CONCURRENCY);
+  const llmConcurrency = parseConcurrency(options.llmConcurrency, DEFAULT_LLM_CONCURRENCY);
+
+  // Resolve the provider up front so invalid LLM settings fail before any file is analyzed.
+  // The redactor learns the values of the checked files once they are parsed.
+  const redactor = createRedactor();
+  const explainer = options.verbose ? provider ?? buildLlmProvider(options, redactor) : undefined;
+  if (explainer && explainer.name !== 'template' && options.redact === false) {
+    console.error(colors.yellow(`⚠ Redaction is disabled: issue text is sent to the ${explainer.name} provider unmodified`));
+  }
+
+  const files = await expandPaths(patterns);
+  if (files.length === 0) {
+    throw new Error(`No files matched: ${patterns.join(', ')}`);
+  }
+
+  // Each file uses the nearest .turnkeycopilotrc above it
+  const resolveSettings = createSettingsResolver();
+  const analyze = async (file: string) => analyzeFile(file, options, await resolveSettings(file));
+  const analyzeAll = async () => {
+    const reports = await mapWithConcurrency(files, concurrency, analyze);
+    return options.workspace ? addWorkspaceFindings(reports, options, resolveSettings) : reports;
+  };
+
+  if (format !== 'text') {
+    const reports = await analyzeAll();
+    const output = format === 'json'
+      ? formatJsonReport(reports)
+      : format === 'sarif'
+        ? formatSarifReport(reports)
+        : formatJunitReport(reports);
+
+    await writeOutput(output, options.output);
+    return getExitCode(reports);
+  }
+
+  // Text reports written to a file are collected and stripped of colors
+  const lines: string[] = [];
+  const write = options.output ? (line: string) => lines.push(line) : (line: string) => console.log(line);
+  const paint = options.output ? plain : colors;
+
+  write(paint.blue(files.length === 1 ? '🔍 Analyzing Turnkey configuration...' : `🔍 Analyzing ${files.length} Turnkey files${options.workspace ? ' as a workspace' : ''}...`));
+  const reports = await analyzeAll();
+  if (explainer) {
+    await registerFileValues(reports, redactor);
+  }
+
+  // Explain all findings before printing, so requests for different files run concurrently
+  const explanations = explainer
+    ? await explainFindings(reports.map(report => report.findings), explainer, {
+      concurrency: llmConcurrency,
+      batch: options.batchExplanations,
+      // Template explanations are computed locally and are not worth caching
+      cache: options.cache === false || explainer.name === 'template' ? undefined : createExplanationCache(options.cacheDir ?? defaultCacheDirectory()),
+      redactor: options.redact === false ? undefined : redactor
+    })
+    : undefined;
+
+  for (const report of reports) {
+    if (reports.length > 1) {
+      write(paint.cyan(`\n📄 ${report.file}`));
     }
-    // Check if it's a policy file (traditional format or simplified format)
-    else if (
-      'required_approvals' in data || 
-      'signing_keys' in data || 
-      ('policyName' in data && 'effect' in data && 'condition' in data)
-    ) {
-      console.log(colors.green('📋 Detected Turnkey policy file'));
-      const { issues: policyIssues, suggestions: policySuggestions } = await analyzePolicy(data as TurnkeyPolicy);
-      issues = policyIssues;
-      suggestions = policySuggestions;
-      fileType = 'policy';
+    printTextReport(report, explanations, write, paint);
+  }
+
+  if (reports.length > 1) {
+    printSummaryTable(reports, write, paint);
+  }
+
+  if (options.output) {
+    await writeOutput(lines.join('\n'), options.output);
+  }
+
+  return getExitCode(reports);
+}
+
+/**
+ * Registers the values of sensitive keys of the checked files with the redactor, so explanations
+ * do not send organization, wallet or key IDs to the provider
+ * @param reports Reports of the checked files
+ * @param redactor The redactor of the explanation provider
+ */
+async function registerFileValues(reports: CheckReport[], redactor: Redactor): Promise<void> {
+  // Unreadable or unparseable files have no values to register
+  for (const report of reports.filter(item => item.fileType)) {
+    redactor.registerValues(JSON5.parse(await fs.readFile(resolvePath(report.file), 'utf-8')));
+  }
+}
+
+/**
+ * Prints a report as human-readable text
+ * @param report The report to print
+ * @param explanations Detailed explanations of the findings, when --verbose is set
+ * @param write Writes one line of output
+ * @param paint Color functions
+ */
+function printTextReport(
+  report: CheckReport,
+  explanations: Map<Finding, string> | undefined,
+  write: (line: string) => void,
+  paint: typeof colors
+): void {
+  const { findings } = report;
+
+  if (report.fileType === 'transaction') {
+    write(paint.green('📝 Detected Turnkey transaction signing request'));
+
+    // Show the decoded transaction fields
+    if (report.details) {
+      write(paint.blue('\n📦 Decoded transaction:'));
+      for (const [label, value] of Object.entries(report.details)) {
+        write(`  ${label}: ${paint.cyan(value)}`);
+      }
     }
-    // Otherwise assume it's a config file
-    else {
-      console.log(colors.green('⚙️ Detected Turnkey configuration file'));
-      const { issues: configIssues, suggestions: configSuggestions } = await analyzeConfig(data as TurnkeyConfig);
-      issues = configIssues;
-      suggestions = configSuggestions;
-      fileType = 'config';
+  } else if (report.fileType === 'policy') {
+    write(paint.green('📋 Detected Turnkey policy file'));
+  } else if (report.fileType === 'config') {
+    write(paint.green('⚙️ Detected Turnkey configuration file'));
+  }
+
+  // Display results
+  if (findings.length === 0) {
+    write(paint.green('✅ No issues found!'));
+
+    // Display helpful next steps even when there are no issues
+    if (report.nextSteps) {
+      write(paint.blue('\n📋 Next steps:'));
+      write(report.nextSteps);
     }
-    
-    // Display results
-    if (issues.length === 0) {
-      console.log(colors.green('✅ No issues found!'));
-      
-      // Display helpful suggestions even when there are no issues
-      if (suggestions.length > 0 && fileType === 'transaction') {
-        console.log(colors.blue('\n📋 Next steps:'));
-        console.log(suggestions[0]);
-      }
-      
-      return;
+
+    return;
+  }
+
+  const counts = countFindings(findings);
+  write(paint.yellow(`\n🚨 Found ${findings.length} potential issues (${counts.error} errors, ${counts.warning} warnings):`));
+
+  for (let i = 0; i < findings.length; i++) {
+    const finding = findings[i];
+    const color = finding.severity === 'error' ? paint.red : finding.severity === 'warning' ? paint.yellow : paint.blue;
+    const location = finding.location ? `${report.file}:${finding.location.start.line}:${finding.location.start.column}` : report.file;
+    write(color(`\n[Issue ${i + 1}] ${finding.severity.toUpperCase()} ${finding.ruleId} at ${location} (${finding.pointer || '/'}):`));
+    write(finding.message);
+
+    if (finding.suggestion) {
+      write(paint.green('\n[Suggested Fix]:'));
+      write(finding.suggestion);
     }
-    
-    console.log(colors.yellow(`\n🚨 Found ${issues.length} potential issues:`));
-    
-    for (let i = 0; i < issues.length; i++) {
-      console.log(colors.yellow(`\n[Issue ${i + 1}]:`));
-      console.log(issues[i]);
-      
-      if (suggestions[i]) {
-        console.log(colors.green('\n[Suggested Fix]:'));
-        console.log(suggestions[i]);
-      }
-      
-      // Generate AI explanation if verbose mode is enabled
-      if (options.verbose) {
-        console.log(colors.blue('\n[Detailed Explanation]:'));
-        const explanation = await generateExplanation(issues[i], suggestions[i]);
-        console.log(explanation);
-      }
+
+    // Show the AI explanation if verbose mode is enabled
+    const explanation = explanations?.get(finding);
+    if (explanation !== undefined) {
+      write(paint.blue('\n[Detailed Explanation]:'));
+      write(explanation);
     }
-    
-  } catch (error) {
-    throw error;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Prints a table with the finding counts of every file and the totals
+ * @param reports Reports of the checked files
+ * @param write Writes one line of output
+ * @param paint Color functions
+ */
+function printSummaryTable(reports: CheckReport[], write: (line: string) => void, paint: typeof colors): void {
+  const totals = countFindings(reports.flatMap(report => report.findings));
+  const rows = reports.map(report => {
+    const counts = countFindings(report.findings);
+    return [report.file, report.fileType ?? 'unknown', String(counts.error), String(counts.warning), String(counts.info)];
+  });
+  const header = ['File', 'Type', 'Errors', 'Warnings', 'Info'];
+  const footer = [`Total (${reports.length} files)`, '', String(totals.error), String(totals.warning), String(totals.info)];
+  const widths = header.map((_, column) => Math.max(...[header, ...rows, footer].map(row => row[column].length)));
+  const format = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+
+  write(paint.blue('\n📊 Summary:'));
+  write(`  ${format(header)}`);
+  write(`  ${widths.map(width => '-'.repeat(width)).join('  ')}`);
+  rows.forEach((row, i) => {
+    const counts = countFindings(reports[i].findings);
+    const color = counts.error > 0 ? paint.red : counts.warning > 0 ? paint.yellow : paint.green;
+    write(color(`  ${format(row)}`));
+  });
+  write(`  ${widths.map(width => '-'.repeat(width)).join('  ')}`);
+  write(`  ${format(footer)}`);
+}
+
+/**
+ * Parses a concurrency option
+ * @param value Option value
+ * @param fallback Default when the option is not given
+ * @returns The concurrency
+ * @throws Error if the value is not a positive integer
+ */
+function parseConcurrency(value: string | undefined, fallback: number): number {
+  const concurrency = value === undefined ? fallback : Number(value);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Invalid concurrency: ${value}. Use a positive integer`);
+  }
+  return concurrency;
+}
+
+/**
+ * Writes a rendered report to a file, or to stdout when no file is given
+ * @param output Rendered report
+ * @param outputPath Optional path of the output file
+ */
+export async function writeOutput(output: string, outputPath: string | undefined): Promise<void> {
+  if (!outputPath) {
+    console.log(output);
+    return;
+  }
+
+  await fs.writeFile(resolvePath(outputPath), output.endsWith('\n') ? output : `${output}\n`, 'utf-8');
+  console.error(colors.green(`📄 Report written to ${outputPath}`));
+}
@@ -0,0 +1,79 @@
+import { diagnoseAuth, toAuthCapture } from '../services/auth';
+import { loadConfig } from '../services/secrets';
+import { STAMP_HEADER } from '../services/stamp';
+import { AuthCheck } from '../types';
+import { readJsonFile } from '../utils';
+
+// Simple color functions to replace chalk
+const colors = {
+  red: (text: string) => `\x1b[31m${text}\x1b[0m`,
+  green: (text: string) => `\x1b[32m${text}\x1b[0m`,
+  blue: (text: string) => `\x1b[34m${text}\x1b[0m`,
+  yellow: (text: string) => `\x1b[33m${text}\x1b[0m`,
+  cyan: (text: string) => `\x1b[36m${text}\x1b[0m`
+};
+
+const STATUS_ICONS: Record<AuthCheck['status'], string> = {
+  pass: '✅',
+  fail: '❌',
+  skipped: '➖'
+};
+
+interface DiagnoseAuthOptions {
+  config: string;
+  profile?: string;
+}
+
+/**
+ * Diagnoses a 401/403 response by replaying the authentication of the captured request locally
+ * @param capturePath Path to the captured request/response pair, or to an API error body
+ * @param options Command options
+ * @returns Process exit code: 0 when every local check passed, 1 when one failed
+ */
+export async function diagnoseAuthFailure(capturePath: string, options: DiagnoseAuthOptions): Promise<number> {
+  const config = await loadConfig(options.config, options.profile);
+  const capture = toAuthCapture(await readJsonFile(capturePath));
+
+  console.log(colors.blue(`🔍 Replaying the authentication of ${capturePath}...`));
+
+  const diagnosis = diagnoseAuth(config, capture);
+
+  if (diagnosis.response) {
+    const status = diagnosis.response.status ? `${diagnosis.response.status} ` : '';
+    console.log(colors.cyan(`\nThe API answered: ${status}${diagnosis.response.message}`));
+    if (diagnosis.response.points && diagnosis.response.points !== 'registration') {
+      console.log(colors.cyan(`This message points to the ${diagnosis.response.points} check`));
+    }
+  }
+
+  console.log('');
+  for (const check of diagnosis.checks) {
+    const line = `${STATUS_ICONS[check.status]} ${check.name}: ${check.message}`;
+    console.log(check.status === 'fail' ? colors.red(line) : check.status === 'pass' ? colors.green(line) : line);
+    if (check.status === 'fail' && check.suggestion) {
+      console.log(`   ${check.suggestion}`);
+    }
+  }
+
+  const failed = diagnosis.checks.filter(check => check.status === 'fail');
+  if (failed.length > 0) {
+    console.log(colors.red(`\nBroken: ${failed.map(check => check.name).join(', ')}`));
+    return 1;
+  }
+
+  const skipped = diagnosis.checks.filter(check => check.status === 'skipped');
+  if (skipped.length > 0) {
+    console.log(colors.yellow(`\nNot checked: ${skipped.map(check => check.name).join(', ')}. Capture the request with its ${STAMP_HEADER} header and exact body, and the response with its Date header, to check them`));
+  }
+
+  if (diagnosis.response) {
+    const organization = config.org_id ? ` ${config.org_id}` : '';
+    console.log(colors.yellow(
+      `\nEverything that could be checked locally is correct. The API key is probably not registered in organization${organization}, ` +
+      'or it was deleted or has expired. Check the API keys of the user in the Turnkey dashboard'
+    ));
+  } else {
+    console.log(colors.green('\nEverything that can be checked locally is correct'));
+  }
+  return 0;
+}
@@ -0,0 +1,104 @@
+import { compareDecisions, comparePolicySets } from '../services/comparison';
+import { ChangeImpact, TurnkeyTransactionRequest } from '../types';
+import { detectFileType, readJsonFile } from '../utils';
+import { expandPaths } from '../utils/files';
+import { loadPolicies } from './simulate';
+
+// Simple color functions to replace chalk
+const colors = {
+  red: (text: string) => `\x1b[31m${text}\x1b[0m`,
+  green: (text: string) => `\x1b[32m${text}\x1b[0m`,
+  blue: (text: string) => `\x1b[34m${text}\x1b[0m`,
+  yellow: (text: string) => `\x1b[33m${text}\x1b[0m`,
+  cyan: (text: string) => `\x1b[36m${text}\x1b[0m`
+};
+
+const IMPACT_LABELS: Record<ChangeImpact, string> = {
+  wider: colors.yellow('▲ wider   '),
+  narrower: colors.cyan('▼ narrower'),
+  changed: colors.yellow('◆ changed '),
+  neutral: '= neutral '
+};
+
+interface DiffOptions {
+  /** Files, directories or glob patterns of requests to run through both versions */
+  request?: string[];
+  format?: string;
+}
+
+/**
+ * Compares two versions of a policy file semantically and shows which requests get a different decision
+ * @param oldFile Path to the old version of the policies
+ * @param newFile Path to the new version of the policies
+ * @param options Command options
+ * @returns Process exit code, always 0
+ * @throws Error if the format is invalid, a file does not hold policies or a request file is not a request
+ */
+export async function diffPolicies(oldFile: string, newFile: string, options: DiffOptions): Promise<number> {
+  const format = options.format ?? 'text';
+  if (format !== 'text' && format !== 'json') {
+    throw new Error(`Unsupported output format: ${format}. Use one of: text, json`);
+  }
+
+  const before = await loadPolicies(oldFile);
+  const after = await loadPolicies(newFile);
+
+  const requests: Array<{ name: string; request: TurnkeyTransactionRequest }> = [];
+  for (const file of await expandPaths(options.request ?? [])) {
+    const request = await readJsonFile<TurnkeyTransactionRequest>(file);
+    if (detectFileType(request) !== 'transaction') {
+      throw new Error(`Not a Turnkey transaction signing request: ${file}`);
+    }
+    requests.push({ name: file, request });
+  }
+
+  const changes = comparePolicySets(before, after);
+  const decisions = compareDecisions(before, after, requests);
+
+  if (format === 'json') {
+    console.log(JSON.stringify({
+      changes,
+      decisions: decisions.map(({ request, before: old, after: current, flipped }) => ({
+        request,
+        before: { decision: old.decision, reason: old.reason },
+        after: { decision: current.decision, reason: current.reason },
+        flipped
+      }))
+    }, null, 2));
+    return 0;
+  }
+
+  console.log(colors.blue(`🔀 Comparing ${oldFile} with ${newFile}...`));
+
+  if (changes.length === 0) {
+    console.log(colors.green('\nNo changes to what the policies permit'));
+  }
+  let current: string | undefined;
+  for (const change of changes) {
+    if (change.policy !== current) {
+      current = change.policy;
+      console.log(`\n${change.policy}`);
+    }
+    console.log(`  ${IMPACT_LABELS[change.impact]} ${change.pointer || '/'}: ${change.message}`);
+    for (const detail of change.details) {
+      console.log(`      ${detail}`);
+    }
+  }
+
+  if (decisions.length > 0) {
+    const flipped = decisions.filter(decision => decision.flipped).length;
+    console.log(colors.blue(`\n📨 ${decisions.length} ${decisions.length === 1 ? 'request' : 'requests'}, ${flipped} with a different decision`));
+    for (const { request, before: old, after: updated, flipped: changed } of decisions) {
+      if (!changed) {
+        console.log(`  = ${request}: ${updated.decision}`);
+        continue;
+      }
+      const paint = updated.decision === 'ALLOW' ? colors.yellow : colors.cyan;
+      console.log(paint(`  ≠ ${request}: ${old.decision} → ${updated.decision}`));
+      console.log(`      Before: ${old.reason}`);
+      console.log(`      After:  ${updated.reason}`);
+    }
+  }
+
+  return 0;
+}
@@ -0,0 +1,132 @@
+import fs from 'fs/promises';
+import readline from 'readline/promises';
+import { analyzeFile } from '../services/analysis';
+import { applyFix, missingVariables, parseAssignments } from '../services/fixes';
+import { createSettingsResolver } from '../services/settings';
+import { resolvePath } from '../utils';
+import { createUnifiedDiff } from '../utils/diff';
+
+// Simple color functions to replace chalk
+const colors = {
+  red: (text: string) => `\x1b[31m${text}\x1b[0m`,
+  green: (text: string) => `\x1b[32m${text}\x1b[0m`,
+  blue: (text: string) => `\x1b[34m${text}\x1b[0m`,
+  yellow: (text: string) => `\x1b[33m${text}\x1b[0m`,
+  cyan: (text: string) => `\x1b[36m${text}\x1b[0m`
+};
+
+interface FixOptions {
+  dryRun?: boolean;
+  interactive?: boolean;
+  set?: string[];
+  chainId?: string;
+  /** Profile of configurations with profiles; all profiles when omitted */
+  profile?: string;
+}
+
+/**
+ * Applies the automatic fixes of a Turnkey configuration, policy or transaction file
+ * @param filePath Path to the JSON file
+ * @param options Command options
+ */
+export async function fixFile(filePath: string, options: FixOptions): Promise<void> {
+  console.log(colors.blue('🔧 Fixing Turnkey file...'));
+
+  const variables = parseAssignments(options.set);
+  const resolveSettings = createSettingsResolver();
+  const report = await analyzeFile(filePath, options, await resolveSettings(filePath));
+
+  // Unreadable or unparseable files have a single file-level finding and cannot be edited
+  if (!report.fileType) {
+    throw new Error(report.findings[0].message);
+  }
+
+  const fixable = report.findings.filter(finding => finding.fix);
+  const manual = report.findings.length - fixable.length;
+
+  if (fixable.length === 0) {
+    console.log(colors.green(report.findings.length === 0 ? '✅ No issues found!' : `No automatic fixes available for ${manual} ${manual === 1 ? 'issue' : 'issues'}; run check for suggestions`));
+    return;
+  }
+
+  const original = await fs.readFile(resolvePath(filePath), 'utf-8');
+  const prompt = options.interactive ? readline.createInterface({ input: process.stdin, output: process.stdout }) : undefined;
+  let text = original;
+  let applied = 0;
+
+  try {
+    for (const finding of fixable) {
+      const fix = finding.fix!;
+      const missing = missingVariables(fix, variables);
+      if (missing.length > 0) {
+        console.log(colors.yellow(`⏭  Skipped ${finding.ruleId}: ${fix.description} (pass ${missing.map(name => `--set ${name}=<value>`).join(' ')})`));
+        continue;
+      }
+
+      let next: string;
+      try {
+        next = applyFix(text, finding, variables);
+      } catch (error) {
+        console.log(colors.yellow(`⏭  Skipped ${finding.ruleId}: ${error instanceof Error ? error.message : String(error)}`));
+        continue;
+      }
+
+      if (prompt) {
+        console.log(colors.yellow(`\n[${finding.ruleId}] ${finding.message}`));
+        console.log(colors.green(`Fix: ${fix.description}`));
+        console.log(colorDiff(createUnifiedDiff(text, next, filePath)));
+
+        const answer = (await prompt.question('Apply this fix? [y/N/q] ')).trim().toLowerCase();
+        if (answer === 'q') {
+          break;
+        }
+        if (answer !== 'y' && answer !== 'yes') {
+          continue;
+        }
+      }
+
+      text = next;
+      applied++;
+      console.log(colors.green(`✔ ${fix.description} (${finding.ruleId})`));
+    }
+  } finally {
+    prompt?.close();
+  }
+
+  if (text === original) {
+    console.log(colors.yellow('\nNo changes made'));
+    return;
+  }
+
+  const remaining = report.findings.length - applied;
+
+  if (options.dryRun) {
+    console.log(colors.blue('\n📝 Changes that would be made:'));
+    console.log(colorDiff(createUnifiedDiff(original, text, filePath)));
+    console.log(colors.yellow(`\nDry run: ${applied} ${applied === 1 ? 'fix' : 'fixes'} not written to ${filePath}`));
+    return;
+  }
+
+  await fs.writeFile(resolvePath(filePath), text, 'utf-8');
+  console.log(colors.green(`\n✅ Applied ${applied} ${applied === 1 ? 'fix' : 'fixes'} to ${filePath}`));
+  if (remaining > 0) {
+    console.log(colors.yellow(`${remaining} ${remaining === 1 ? 'issue needs' : 'issues need'} manual attention; run check for details`));
+  }
+}
+
+/**
+ * Colors the added and removed lines of a unified diff
+ * @param diff Unified diff
+ * @returns Colored diff
+ */
+function colorDiff(diff: string): string {
+  return diff
+    .split('\n')
+    .map(line => {
+      if (line.startsWith('+++') || line.startsWith('---')) {
+        return line;
+      }
+      return line.startsWith('+') ? colors.green(line) : line.startsWith('-') ? colors.red(line) : line.startsWith('@@') ? colors.cyan(line) : line;
+    })
+    .join('\n');
+}
@@ -0,0 +1,80 @@
+import fs from 'fs/promises';
+import { generatePolicy } from '../services/generation';
+import { buildLlmProvider, LlmOptions } from '../services/llm';
+import { LlmProvider } from '../types';
+import { fileExists, resolvePath } from '../utils';
+
+// Simple color functions to replace chalk
+const colors = {
+  red: (text: string) => `\x1b[31m${text}\x1b[0m`,
+  green: (text: string) => `\x1b[32m${text}\x1b[0m`,
+  blue: (text: string) => `\x1b[34m${text}\x1b[0m`,
+  yellow: (text: string) => `\x1b[33m${text}\x1b[0m`,
+  cyan: (text: string) => `\x1b[36m${text}\x1b[0m`
+};
+
+const DEFAULT_OUTPUT = 'policy.json';
+
+interface GeneratePolicyOptions extends LlmOptions {
+  output?: string;
+  force?: boolean;
+  maxAttempts?: string;
+}
+
+/**
+ * Generates a simplified Turnkey policy from a natural-language description and writes it to a file
+ * @param description What the policy should allow or deny
+ * @param options Command options
+ * @param provider LLM provider; built from the options and environment when omitted
+ * @returns Process exit code: 0 when the policy passed analysis, 1 when it still has errors
+ */
+export async function generatePolicyFile(description: string, options: GeneratePolicyOptions, provider?: LlmProvider): Promise<number> {
+  const output = options.output ?? DEFAULT_OUTPUT;
+  const maxAttempts = options.maxAttempts === undefined ? undefined : Number(options.maxAttempts);
+  if (maxAttempts !== undefined && (!Number.isInteger(maxAttempts) || maxAttempts < 1)) {
+    throw new Error(`Invalid max attempts: ${options.maxAttempts}. Use a positive integer`);
+  }
+  if (!options.force && (await fileExists(resolvePath(output)))) {
+    throw new Error(`${output} already exists. Use --output to choose another file or --force to overwrite it`);
+  }
+
+  const llm = provider ?? buildLlmProvider(options);
+  if (llm.name === 'template') {
+    throw new Error('The generate-policy command needs an LLM. Set OPENAI_API_KEY, or use --llm-base-url for an OpenAI-compatible server');
+  }
+
+  console.log(colors.blue('🤖 Generating Turnkey policy...'));
+
+  const result = await generatePolicy(description, llm, {
+    maxAttempts,
+    onRetry: (attempt, problems) => {
+      console.log(colors.yellow(`↻ Attempt ${attempt} had ${problems.length} ${problems.length === 1 ? 'problem' : 'problems'}; asking for a correction`));
+    }
+  });
+
+  if (!result.policy) {
+    throw new Error(`No policy could be generated after ${result.attempts} ${result.attempts === 1 ? 'attempt' : 'attempts'}. Try rephrasing the description`);
+  }
+
+  await fs.writeFile(resolvePath(output), `${JSON.stringify(result.policy, null, 2)}\n`, 'utf-8');
+
+  console.log(colors.cyan(`\n  policyName: ${result.policy.policyName}`));
+  console.log(colors.cyan(`  effect:     ${result.policy.effect}`));
+  console.log(colors.cyan(`  condition:  ${result.policy.condition}`));
+  if (result.policy.notes) {
+    console.log(`\n${result.policy.notes}`);
+  }
+
+  if (result.valid) {
+    console.log(colors.green(`\n✅ Policy written to ${output} after ${result.attempts} ${result.attempts === 1 ? 'attempt' : 'attempts'}`));
+    console.log(`Review it, then check it offline with: turnkey-copilot check ${output}`);
+    return 0;
+  }
+
+  console.log(colors.red(`\n⚠️ Policy written to ${output}, but it still has errors after ${result.attempts} attempts:`));
+  for (const finding of result.findings.filter(item => item.severity === 'error')) {
+    console.log(colors.red(`  ${finding.ruleId}: ${finding.message}`));
+  }
+  console.log(`Fix it by hand, or run: turnkey-copilot check ${output}`);
+  return 1;
+}
@@ -0,0 +1,127 @@
+import fs from 'fs/promises';
+import { countFindings, formatJsonReport, getExitCode } from '../services/report';
+import { reviewPolicySet } from '../services/review';
+import { ActivityCoverage, CheckReport, PolicySource } from '../types';
+import { resolvePath } from '../utils';
+import { expandPaths } from '../utils/files';
+import { locateJsonPointer } from '../utils/json';
+import { loadPolicies } from './simulate';
+
+// Simple color functions to replace chalk
+const colors = {
+  red: (text: string) => `\x1b[31m${text}\x1b[0m`,
+  green: (text: string) => `\x1b[32m${text}\x1b[0m`,
+  blue: (text: string) => `\x1b[34m${text}\x1b[0m`,
+  yellow: (text: string) => `\x1b[33m${text}\x1b[0m`,
+  cyan: (text: string) => `\x1b[36m${text}\x1b[0m`
+};
+
+const STATUS_LABELS: Record<ActivityCoverage['status'], string> = {
+  'allowed': 'allowed',
+  'allowed-with-exceptions': 'allowed, with exceptions',
+  'conditional': 'allowed if a condition holds',
+  'denied': 'denied',
+  'not-allowed': 'not allowed (implicit deny)'
+};
+
+interface ReviewOptions {
+  format?: string;
+}
+
+/**
+ * Reviews a set of policies as a whole and prints the findings and the coverage of each activity type
+ * @param patterns Paths, directories or glob patterns of the policy files
+ * @param options Command options
+ * @returns Process exit code: 0 when clean, 1 when errors were found, 2 when only warnings were found
+ * @throws Error if the format is unsupported or no policies were found
+ */
+export async function reviewPolicies(patterns: string[], options: ReviewOptions): Promise<number> {
+  const format = options.format ?? 'text';
+  if (format !== 'text' && format !== 'json') {
+    throw new Error(`Unsupported output format: ${format}. Use one of: text, json`);
+  }
+
+  const files = new Map<PolicySource, string>();
+  for (const file of await expandPaths(patterns)) {
+    try {
+      for (const policy of await loadPolicies(file)) {
+        files.set(policy, file);
+      }
+    } catch (error) {
+      // Directories may hold configurations and requests next to the policies
+      console.error(colors.yellow(`⚠ Skipping ${file}: ${error instanceof Error ? error.message : String(error)}`));
+    }
+  }
+
+  const policies = [...files.keys()];
+  if (policies.length === 0) {
+    throw new Error(`No policies found in: ${patterns.join(', ')}`);
+  }
+
+  const review = reviewPolicySet(policies);
+
+  // Findings point into the policy; reports point into its file
+  const reports = new Map<string, CheckReport>();
+  for (const file of new Set(files.values())) {
+    reports.set(file, { file, fileType: 'policy', findings: [] });
+  }
+  const texts = new Map<string, string>();
+  for (const { policy, finding } of review.findings) {
+    const file = files.get(policy)!;
+    if (!texts.has(file)) {
+      texts.set(file, await fs.readFile(resolvePath(file), 'utf-8'));
+    }
+    const pointer = `${policy.pointer ?? ''}${finding.pointer}`;
+    reports.get(file)!.findings.push({ ...finding, pointer, location: locateJsonPointer(texts.get(file)!, pointer) });
+  }
+
+  if (format === 'json') {
+    console.log(JSON.stringify({ ...JSON.parse(formatJsonReport([...reports.values()])), coverage: review.coverage }, null, 2));
+    return getExitCode([...reports.values()]);
+  }
+
+  console.log(colors.blue(`🔍 Reviewing ${policies.length} ${policies.length === 1 ? 'policy' : 'policies'} from ${reports.size} ${reports.size === 1 ? 'file' : 'files'}...`));
+
+  const findings = [...reports.values()].flatMap(report => report.findings.map(finding => ({ file: report.file, finding })));
+  if (findings.length === 0) {
+    console.log(colors.green('✅ No conflicts or redundant policies found'));
+  } else {
+    const counts = countFindings(findings.map(({ finding }) => finding));
+    console.log(colors.yellow(`\n🚨 Found ${findings.length} potential issues (${counts.error} errors, ${counts.warning} warnings):`));
+    findings.forEach(({ file, finding }, i) => {
+      const color = finding.severity === 'error' ? colors.red : finding.severity === 'warning' ? colors.yellow : colors.blue;
+      const location = finding.location ? `${file}:${finding.location.start.line}:${finding.location.start.column}` : file;
+      console.log(color(`\n[Issue ${i + 1}] ${finding.severity.toUpperCase()} ${finding.ruleId} at ${location} (${finding.pointer || '/'}):`));
+      console.log(finding.message);
+      if (finding.suggestion) {
+        console.log(colors.green('\n[Suggested Fix]:'));
+        console.log(finding.suggestion);
+      }
+    });
+  }
+
+  printCoverage(review.coverage);
+  return getExitCode([...reports.values()]);
+}
+
+/**
+ * Prints what the policy set effectively permits for each activity type
+ * @param coverage Coverage of each activity type
+ */
+function printCoverage(coverage: ActivityCoverage[]): void {
+  const describe = (rules: ActivityCoverage['allowedBy']) =>
+    rules.length === 0 ? '-' : rules.map(rule => `${rule.name}${rule.conditional ? ' (conditional)' : ''}`).join(', ');
+  const rows = coverage.map(row => [row.activityType, STATUS_LABELS[row.status], describe(row.allowedBy), describe(row.deniedBy)]);
+  const header = ['Activity type', 'Effect', 'Allowed by', 'Denied by'];
+  const widths = header.map((_, column) => Math.max(...[header, ...rows].map(row => row[column].length)));
+  const format = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+
+  console.log(colors.blue('\n📊 Coverage:'));
+  console.log(`  ${format(header)}`);
+  console.log(`  ${widths.map(width => '-'.repeat(width)).join('  ')}`);
+  rows.forEach((row, i) => {
+    const status = coverage[i].status;
+    const color = status === 'allowed' || status === 'allowed-with-exceptions' ? colors.green : status === 'conditional' ? colors.cyan : colors.yellow;
+    console.log(color(`  ${format(row)}`));
+  });
+}
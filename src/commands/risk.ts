@@ -0,0 +1,100 @@
+import { assessPolicyRisk } from '../services/risk';
+import { policyName } from '../services/simulation';
+import { RiskAssessment, RiskLevel } from '../types';
+import { expandPaths } from '../utils/files';
+import { loadPolicies } from './simulate';
+
+// Simple color functions to replace chalk
+const colors = {
+  red: (text: string) => `\x1b[31m${text}\x1b[0m`,
+  green: (text: string) => `\x1b[32m${text}\x1b[0m`,
+  blue: (text: string) => `\x1b[34m${text}\x1b[0m`,
+  yellow: (text: string) => `\x1b[33m${text}\x1b[0m`,
+  cyan: (text: string) => `\x1b[36m${text}\x1b[0m`
+};
+
+const RISK_LEVELS: RiskLevel[] = ['low', 'medium', 'high', 'critical'];
+
+const LEVEL_COLORS: Record<RiskLevel, (text: string) => string> = {
+  low: colors.green,
+  medium: colors.cyan,
+  high: colors.yellow,
+  critical: colors.red
+};
+
+interface RiskOptions {
+  format?: string;
+  /** Lowest risk level that makes the command fail */
+  failOn?: string;
+}
+
+/**
+ * Scores the security risk of policies and prints each score with its reasons, highest risk first
+ * @param patterns Paths, directories or glob patterns of the policy files
+ * @param options Command options
+ * @returns Process exit code: 1 when a policy reaches the --fail-on level, 0 otherwise
+ * @throws Error if an option is invalid or no policies were found
+ */
+export async function scorePolicyRisk(patterns: string[], options: RiskOptions): Promise<number> {
+  const format = options.format ?? 'text';
+  if (format !== 'text' && format !== 'json') {
+    throw new Error(`Unsupported output format: ${format}. Use one of: text, json`);
+  }
+  if (options.failOn !== undefined && !RISK_LEVELS.includes(options.failOn as RiskLevel)) {
+    throw new Error(`Invalid risk level: ${options.failOn}. Use one of: ${RISK_LEVELS.join(', ')}`);
+  }
+
+  const results: Array<{ file: string; policy: string; pointer: string; assessment: RiskAssessment }> = [];
+  for (const file of await expandPaths(patterns)) {
+    try {
+      for (const entry of await loadPolicies(file)) {
+        results.push({ file, policy: policyName(entry), pointer: entry.pointer ?? '', assessment: assessPolicyRisk(entry.policy) });
+      }
+    } catch (error) {
+      // Directories may hold configurations and requests next to the policies
+      console.error(colors.yellow(`⚠ Skipping ${file}: ${error instanceof Error ? error.message : String(error)}`));
+    }
+  }
+
+  if (results.length === 0) {
+    throw new Error(`No policies found in: ${patterns.join(', ')}`);
+  }
+
+  // Riskiest policies first; the sort is stable, so ties keep file order
+  results.sort((a, b) => b.assessment.score - a.assessment.score);
+
+  if (format === 'json') {
+    console.log(JSON.stringify({
+      policies: results.map(({ file, policy, pointer, assessment }) => ({
+        file,
+        policy,
+        score: assessment.score,
+        level: assessment.level,
+        reasons: assessment.reasons.map(reason => ({ ...reason, pointer: `${pointer}${reason.pointer}` }))
+      }))
+    }, null, 2));
+  } else {
+    console.log(colors.blue(`🛡️ Scoring the risk of ${results.length} ${results.length === 1 ? 'policy' : 'policies'}...`));
+
+    for (const { file, policy, pointer, assessment } of results) {
+      const paint = LEVEL_COLORS[assessment.level];
+      console.log(paint(`\n${assessment.score.toString().padStart(3)} ${assessment.level.toUpperCase()} ${policy} (${file}${pointer ? `#${pointer}` : ''})`));
+
+      if (assessment.reasons.length === 0) {
+        console.log('    No risks found');
+      }
+      assessment.reasons.forEach((reason, i) => {
+        console.log(`    ${i + 1}. +${reason.weight} ${reason.ruleId} at ${`${pointer}${reason.pointer}` || '/'}: ${reason.message}`);
+        if (reason.suggestion) {
+          console.log(colors.green(`       ${reason.suggestion}`));
+        }
+      });
+    }
+  }
+
+  if (options.failOn === undefined) {
+    return 0;
+  }
+  const threshold = RISK_LEVELS.indexOf(options.failOn as RiskLevel);
+  return results.some(result => RISK_LEVELS.indexOf(result.assessment.level) >= threshold) ? 1 : 0;
+}
@@ -0,0 +1,35 @@
+import fs from 'fs/promises';
+import { getSchema } from '../services/schema';
+import { resolvePath } from '../utils';
+
+// Simple color functions to replace chalk
+const colors = {
+  red: (text: string) => `\x1b[31m${text}\x1b[0m`,
+  green: (text: string) => `\x1b[32m${text}\x1b[0m`,
+  blue: (text: string) => `\x1b[34m${text}\x1b[0m`,
+  yellow: (text: string) => `\x1b[33m${text}\x1b[0m`,
+  cyan: (text: string) => `\x1b[36m${text}\x1b[0m`
+};
+
+interface SchemaOptions {
+  output?: string;
+}
+
+/**
+ * Prints or writes the JSON Schema of a kind of file, for editor autocomplete and validation
+ * @param kind config, policy or transaction
+ * @param options Command options
+ * @throws Error if the kind is unknown
+ */
+export async function exportSchema(kind: string, options: SchemaOptions): Promise<void> {
+  const schema = `${JSON.stringify(getSchema(kind), null, 2)}\n`;
+
+  if (!options.output) {
+    process.stdout.write(schema);
+    return;
+  }
+
+  await fs.writeFile(resolvePath(options.output), schema, 'utf-8');
+  console.log(colors.green(`✅ Wrote the ${kind} schema to ${options.output}`));
+  console.log(`Reference it from your files with "$schema": "${options.output}", or map it in your editor's JSON schema settings`);
+}
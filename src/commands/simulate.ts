@@ -0,0 +1,103 @@
+import path from 'path';
+import { simulatePolicies } from '../services/simulation';
+import { PolicySource, SimplifiedPolicy, TurnkeyPolicy, TurnkeyTransactionRequest } from '../types';
+import { detectFileType, readJsonFile } from '../utils';
+
+// Simple color functions to replace chalk
+const colors = {
+  red: (text: string) => `\x1b[31m${text}\x1b[0m`,
+  green: (text: string) => `\x1b[32m${text}\x1b[0m`,
+  blue: (text: string) => `\x1b[34m${text}\x1b[0m`,
+  yellow: (text: string) => `\x1b[33m${text}\x1b[0m`,
+  cyan: (text: string) => `\x1b[36m${text}\x1b[0m`
+};
+
+interface SimulateOptions {
+  policy: string[];
+  request: string;
+  verbose?: boolean;
+}
+
+/**
+ * Loads the policies from a policy file. A file may hold a single policy, an array
+ * of policies, or an object with a "policies" array.
+ * @param filePath Path to the policy file
+ * @returns Policies with their source file
+ */
+export async function loadPolicies(filePath: string): Promise<PolicySource[]> {
+  const data = await readJsonFile(filePath);
+  const source = path.basename(filePath);
+  const list = data && typeof data === 'object' && 'policies' in data ? data.policies : undefined;
+  const policies: unknown[] = Array.isArray(data) ? data : Array.isArray(list) ? list : [data];
+
+  return policies.map((policy, index) => {
+    if (!isPolicy(policy)) {
+      throw new Error(`Not a Turnkey policy: ${filePath}${policies.length > 1 ? ` (entry ${index})` : ''}`);
+    }
+    const entry: PolicySource = { source: policies.length > 1 ? `${source}#${index}` : source, policy };
+    if (policy !== data) {
+      entry.pointer = Array.isArray(data) ? `/${index}` : `/policies/${index}`;
+    }
+    return entry;
+  });
+}
+
+/**
+ * Simulates how one or more policies evaluate a transaction signing request
+ * @param options Command options with the policy files and request file
+ */
+export async function simulatePolicy(options: SimulateOptions): Promise<void> {
+  console.log(colors.blue('🧪 Simulating Turnkey policy evaluation...'));
+
+  const request = await readJsonFile<TurnkeyTransactionRequest>(options.request);
+  if (detectFileType(request) !== 'transaction') {
+    throw new Error(`Not a Turnkey transaction signing request: ${options.request}`);
+  }
+
+  const policies: PolicySource[] = [];
+  for (const file of options.policy) {
+    policies.push(...(await loadPolicies(file)));
+  }
+
+  console.log(colors.green(`📋 Loaded ${policies.length} ${policies.length === 1 ? 'policy' : 'policies'} from ${options.policy.length} ${options.policy.length === 1 ? 'file' : 'files'}`));
+
+  const result = simulatePolicies(policies, request);
+
+  for (const evaluation of result.evaluations) {
+    const effect = evaluation.effect === 'EFFECT_ALLOW' ? 'ALLOW' : 'DENY';
+    const outcome = evaluation.outcome === 'matched'
+      ? colors.green('matched')
+      : evaluation.outcome === 'error' ? colors.red('error') : colors.yellow('not matched');
+
+    console.log(`\n  [${effect}] ${evaluation.policyName} (${evaluation.source}): ${outcome}`);
+
+    if (evaluation.error) {
+      console.log(`    ${colors.red(evaluation.error)}`);
+    }
+    if (evaluation.decidedBy && (options.verbose || evaluation === result.decidingPolicy)) {
+      console.log(`    Decided by: ${colors.cyan(evaluation.decidedBy)}`);
+    }
+    if (evaluation.detail && (options.verbose || evaluation === result.decidingPolicy)) {
+      console.log(`    ${evaluation.detail}`);
+    }
+  }
+
+  if (result.decision === 'ALLOW') {
+    console.log(colors.green(`\n✅ ALLOW: ${result.reason}`));
+  } else {
+    console.log(colors.red(`\n⛔ DENY: ${result.reason}`));
+  }
+
+  if (result.decidingPolicy?.decidedBy) {
+    console.log(`Deciding expression: ${colors.cyan(result.decidingPolicy.decidedBy)}`);
+  }
+}
+
+/**
+ * Checks that a parsed value is a traditional or simplified policy, detected like the check command does
+ * @param value The parsed value
+ * @returns True if the value is a policy
+ */
+export function isPolicy(value: unknown): value is TurnkeyPolicy | SimplifiedPolicy {
+  return !!value && typeof value === 'object' && detectFileType(value as TurnkeyPolicy) === 'policy';
+}
@@ -0,0 +1,129 @@
+import { analyzeFile } from '../services/analysis';
+import { buildSignedRequest, sendSignedRequest } from '../services/api';
+import { loadConfig } from '../services/secrets';
+import { TurnkeyTransactionRequest } from '../types';
+import { readJsonFile } from '../utils';
+
+// Simple color functions to replace chalk
+const colors = {
+  red: (text: string) => `\x1b[31m${text}\x1b[0m`,
+  green: (text: string) => `\x1b[32m${text}\x1b[0m`,
+  blue: (text: string) => `\x1b[34m${text}\x1b[0m`,
+  yellow: (text: string) => `\x1b[33m${text}\x1b[0m`,
+  cyan: (text: string) => `\x1b[36m${text}\x1b[0m`
+};
+
+// Fields that are filled in from the configuration and the current time before signing
+const FILLED_IN_RULES = ['transaction/missing-organization-id', 'transaction/missing-timestamp'];
+
+/**
+ * The fields of the activity in an API response that are shown after submitting
+ */
+interface SubmittedActivity {
+  id?: string;
+  status?: string;
+  signedTransaction?: string;
+}
+
+interface SubmitOptions {
+  config: string;
+  dryRun?: boolean;
+  skipCheck?: boolean;
+  chainId?: string;
+  profile?: string;
+}
+
+/**
+ * Checks a transaction signing request, signs it with the API key of a configuration and sends it
+ * @param requestPath Path to the transaction signing request
+ * @param options Command options
+ * @returns Process exit code: 0 when the request was accepted or printed, 1 when the API returned an error
+ * @throws Error if the request has errors, is not a transaction signing request or cannot be signed
+ */
+export async function submitRequest(requestPath: string, options: SubmitOptions): Promise<number> {
+  const report = await analyzeFile(requestPath, { chainId: options.chainId });
+  if (report.fileType && report.fileType !== 'transaction') {
+    throw new Error(`${requestPath} is a ${report.fileType} file, not a transaction signing request`);
+  }
+
+  const errors = report.findings.filter(finding => finding.severity === 'error' && !FILLED_IN_RULES.includes(finding.ruleId));
+  if (errors.length > 0 && !options.skipCheck) {
+    for (const finding of errors) {
+      console.log(colors.red(`  ${finding.ruleId}: ${finding.message}`));
+    }
+    throw new Error(`${requestPath} has ${errors.length} ${errors.length === 1 ? 'error' : 'errors'}. Fix them, or use --skip-check to submit anyway`);
+  }
+
+  const config = await loadConfig(options.config, options.profile);
+  const request = await readJsonFile<TurnkeyTransactionRequest>(requestPath);
+  const signed = buildSignedRequest(request, config);
+
+  if (options.dryRun) {
+    console.log(`${signed.method} ${signed.url}`);
+    for (const [name, value] of Object.entries(signed.headers)) {
+      console.log(`${name}: ${value}`);
+    }
+    console.log(`\n${signed.body}`);
+    return 0;
+  }
+
+  console.log(colors.blue(`📤 Submitting ${requestPath} to ${signed.url}...`));
+
+  const result = await sendSignedRequest(signed);
+  if (!result.ok) {
+    console.log(colors.red(`\n❌ ${result.error.status ? `${result.error.status} ` : ''}${result.error.message}`));
+    if (result.error.details) {
+      console.log(result.error.details);
+    }
+    return 1;
+  }
+
+  const activity = readActivity(result.data);
+  console.log(colors.green(`\n✅ Request accepted (${result.status})`));
+  if (activity) {
+    console.log(colors.cyan(`  Activity: ${activity.id ?? 'unknown'}`));
+    console.log(colors.cyan(`  Status:   ${activity.status ?? 'unknown'}`));
+
+    const signedTransaction = activity.signedTransaction;
+    if (signedTransaction) {
+      console.log(colors.cyan(`  Signed transaction: ${signedTransaction}`));
+      console.log('\nBroadcast the signed transaction to the network to execute it.');
+    } else if (activity.status === 'ACTIVITY_STATUS_CONSENSUS_NEEDED') {
+      console.log('\nThe activity needs more approvals before it is signed.');
+    }
+  } else {
+    console.log(JSON.stringify(result.data, null, 2));
+  }
+  return 0;
+}
+
+/**
+ * Reads the activity of an API response, whose shape is not checked by the client
+ * @param data Parsed response body
+ * @returns The activity fields that are strings, or undefined if the response has no activity object
+ */
+function readActivity(data: unknown): SubmittedActivity | undefined {
+  const activity = field(data, 'activity');
+  if (!activity || typeof activity !== 'object') {
+    return undefined;
+  }
+
+  const id = field(activity, 'id');
+  const status = field(activity, 'status');
+  const signedTransaction = field(field(field(activity, 'result'), 'signTransactionResult'), 'signedTransaction');
+  return {
+    id: typeof id === 'string' ? id : undefined,
+    status: typeof status === 'string' ? status : undefined,
+    signedTransaction: typeof signedTransaction === 'string' ? signedTransaction : undefined,
+  };
+}
+
+/**
+ * Reads a field of a parsed JSON value
+ * @param value The value
+ * @param key Field name
+ * @returns The field, or undefined if the value is not an object or has no such field
+ */
+function field(value: unknown, key: string): unknown {
+  return value && typeof value === 'object' && key in value ? (value as Record<string, unknown>)[key] : undefined;
+}
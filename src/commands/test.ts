@@ -0,0 +1,189 @@
+import path from 'path';
+import { formatPolicyTestJunitReport } from '../services/report';
+import { explainDecision, runPolicyTests } from '../services/regression';
+import { PolicySource, PolicyTestCase, PolicyTestFixture, PolicyTestResult, PolicyTestRun, TurnkeyTransactionRequest } from '../types';
+import { detectFileType, readJsonFile } from '../utils';
+import { expandPaths } from '../utils/files';
+import { writeOutput } from './check';
+import { isPolicy, loadPolicies } from './simulate';
+
+// Simple color functions to replace chalk
+const colors = {
+  red: (text: string) => `\x1b[31m${text}\x1b[0m`,
+  green: (text: string) => `\x1b[32m${text}\x1b[0m`,
+  blue: (text: string) => `\x1b[34m${text}\x1b[0m`,
+  yellow: (text: string) => `\x1b[33m${text}\x1b[0m`,
+  cyan: (text: string) => `\x1b[36m${text}\x1b[0m`
+};
+
+const TEST_FORMATS = ['text', 'json', 'junit'];
+const DECISIONS: Array<PolicyTestCase['expect']> = ['ALLOW', 'DENY'];
+
+interface TestOptions {
+  format?: string;
+  output?: string;
+}
+
+/**
+ * Runs policy regression tests: every request of each fixture file goes through the fixture's
+ * policy set and the decision is compared with the expected one. JSON files that are not fixtures,
+ * such as the policies and requests the fixtures refer to, are skipped. A file that cannot be read
+ * or a malformed fixture is reported as an error and fails the run.
+ * @param patterns Paths, directories or glob patterns of the fixture files
+ * @param options Command options
+ * @returns Process exit code: 1 when a test fails or a fixture cannot be loaded, 0 otherwise
+ * @throws Error if an option is invalid or no fixtures were found
+ */
+export async function testPolicies(patterns: string[], options: TestOptions): Promise<number> {
+  const format = options.format ?? 'text';
+  if (!TEST_FORMATS.includes(format)) {
+    throw new Error(`Unsupported output format: ${format}. Use one of: ${TEST_FORMATS.join(', ')}`);
+  }
+  if (options.output && format === 'text') {
+    throw new Error('--output requires --format json or junit');
+  }
+
+  const runs: PolicyTestRun[] = [];
+  for (const file of await expandPaths(patterns)) {
+    let fixture: PolicyTestFixture | undefined;
+    try {
+      fixture = await loadFixture(file);
+    } catch (error) {
+      // The other fixtures still run, so one broken file does not hide their results
+      runs.push({ file, name: file, results: [], error: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+    if (fixture) {
+      runs.push({ file, name: fixture.name, results: runPolicyTests(fixture) });
+    }
+  }
+  if (runs.length === 0) {
+    throw new Error(`No policy test fixtures found in: ${patterns.join(', ')}`);
+  }
+
+  const results = runs.flatMap(run => run.results);
+  const failed = results.filter(result => !result.passed).length;
+  const errors = runs.filter(run => run.error).length;
+
+  if (format === 'json') {
+    await writeOutput(JSON.stringify({
+      passed: results.length - failed,
+      failed,
+      errors,
+      fixtures: runs.map(({ file, name, results: fixtureResults, error }) => ({
+        file,
+        name,
+        ...(error ? { error } : {}),
+        cases: fixtureResults.map(result => ({
+          name: result.name,
+          expected: result.expected,
+          actual: result.result.decision,
+          passed: result.passed,
+          reason: result.result.reason,
+          ...(result.passed ? {} : { explanation: explainDecision(result.result) })
+        }))
+      }))
+    }, null, 2), options.output);
+  } else if (format === 'junit') {
+    await writeOutput(formatPolicyTestJunitReport(runs), options.output);
+  } else {
+    const fixtures = runs.length - errors;
+    console.log(colors.blue(`🧪 Running ${results.length} policy ${results.length === 1 ? 'test' : 'tests'} from ${fixtures} ${fixtures === 1 ? 'fixture' : 'fixtures'}...`));
+    for (const { file, name, results: fixtureResults, error } of runs) {
+      console.log(colors.cyan(`\n📄 ${name}${name === file ? '' : ` (${file})`}`));
+      if (error) {
+        console.log(colors.red(`  ✗ ${error}`));
+      }
+      fixtureResults.forEach(printResult);
+    }
+
+    const summary = `${results.length - failed} passed, ${failed} failed` + (errors > 0 ? `, ${errors} ${errors === 1 ? 'fixture' : 'fixtures'} could not be loaded` : '');
+    console.log(failed > 0 || errors > 0 ? colors.red(`\n❌ ${summary}`) : colors.green(`\n✅ ${summary}`));
+  }
+
+  return failed > 0 || errors > 0 ? 1 : 0;
+}
+
+/**
+ * Prints the outcome of a test case, explaining the decision when it was not the expected one
+ * @param result The test result
+ */
+function printResult(result: PolicyTestResult): void {
+  if (result.passed) {
+    console.log(colors.green(`  ✓ ${result.name}`) + ` (${result.expected})`);
+    return;
+  }
+  console.log(colors.red(`  ✗ ${result.name}: expected ${result.expected}, got ${result.result.decision}`));
+  for (const line of explainDecision(result.result)) {
+    console.log(`      ${line}`);
+  }
+}
+
+/**
+ * Loads a fixture file: an object with the policies to test, as paths relative to the fixture or
+ * inline policies, and the test cases, each with a name, a request (a path or an inline request)
+ * and the expected decision
+ * @param file Path to the file
+ * @returns The fixture, or undefined if the file has no "cases" array
+ * @throws Error if the file cannot be read, the fixture is malformed or a policy or request file is invalid
+ */
+async function loadFixture(file: string): Promise<PolicyTestFixture | undefined> {
+  const data = await readJsonFile(file);
+  if (!data || typeof data !== 'object' || !('cases' in data) || !Array.isArray(data.cases)) {
+    return undefined;
+  }
+  const directory = path.dirname(file);
+
+  const listed = 'policies' in data ? data.policies : undefined;
+  const entries: unknown[] = typeof listed === 'string' ? [listed] : Array.isArray(listed) ? listed : [];
+  if (entries.length === 0) {
+    throw new Error(`Fixture ${file} has no policies: list policy files or inline policies in "policies"`);
+  }
+  const policies: PolicySource[] = [];
+  for (const [index, entry] of entries.entries()) {
+    if (typeof entry === 'string') {
+      policies.push(...(await loadPolicies(path.join(directory, entry))));
+    } else if (isPolicy(entry)) {
+      policies.push({ source: `${path.basename(file)}#/policies/${index}`, policy: entry, pointer: `/policies/${index}` });
+    } else {
+      throw new Error(`Not a Turnkey policy: ${file} (policies/${index})`);
+    }
+  }
+
+  const cases: PolicyTestCase[] = [];
+  const caseEntries: unknown[] = data.cases;
+  for (const [index, entry] of caseEntries.entries()) {
+    if (!entry || typeof entry !== 'object') {
+      throw new Error(`Invalid test case in ${file} (cases/${index}): use an object with "request" and "expect"`);
+    }
+    const testCase = entry as Record<string, unknown>;
+
+    const expected = testCase.expect;
+    const expect = DECISIONS.find(decision => typeof expected === 'string' && expected.toUpperCase() === decision);
+    if (!expect) {
+      throw new Error(`Invalid expected decision in ${file} (cases/${index}): ${JSON.stringify(expected)}. Use one of: ${DECISIONS.join(', ')}`);
+    }
+
+    const request: unknown = typeof testCase.request === 'string'
+      ? await readJsonFile(path.join(directory, testCase.request))
+      : testCase.request;
+    if (!isTransactionRequest(request)) {
+      throw new Error(`Not a Turnkey transaction signing request: ${file} (cases/${index})`);
+    }
+
+    const name = typeof testCase.name === 'string' ? testCase.name : typeof testCase.request === 'string' ? testCase.request : `Case ${index + 1}`;
+    cases.push({ name, request, expect });
+  }
+
+  return { file, name: 'name' in data && typeof data.name === 'string' ? data.name : file, policies, cases };
+}
+
+/**
+ * Checks that a test case request is a transaction signing request. Requests are detected like the
+ * check command does, so a fixture cannot test a configuration by mistake.
+ * @param value The request, parsed from its file or inline in the fixture
+ * @returns True if the value is a transaction signing request
+ */
+function isTransactionRequest(value: unknown): value is TurnkeyTransactionRequest {
+  return !!value && typeof value === 'object' && detectFileType(value as TurnkeyTransactionRequest) === 'transaction';
+}
@@ -1,8 +1,19 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import dotenv from 'dotenv';
+import { askCopilot } from './commands/ask';
 import { checkConfig } from './commands/check';
+import { diagnoseAuthFailure } from './commands/diagnose';
+import { diffPolicies } from './commands/diff';
+import { fixFile } from './commands/fix';
+import { generatePolicyFile } from './commands/generate';
+import { reviewPolicies } from './commands/review';
+import { scorePolicyRisk } from './commands/risk';
+import { exportSchema } from './commands/schema';
+import { simulatePolicy } from './commands/simulate';
+import { submitRequest } from './commands/submit';
+import { testPolicies } from './commands/test';
 
 // Load environment variables
 dotenv.config();
@@ -20,16 +31,214 @@ const program = new Command();
 program
   .name('turnkey-copilot')
   .description('A smart assistant that fixes common Turnkey integration blockers and simulates policy behavior')
-  .version('0.1.0');
+  .version('0.1.0')
+  .addOption(new Option('--profile <name>', 'Profile of configurations with profiles, e.g. dev or prod; check and fix use all profiles when omitted').env('TURNKEY_COPILOT_PROFILE'))
+  .configureHelp({ showGlobalOptions: true });
 
-program
+/**
+ * Adds the LLM provider, redaction and audit options shared by the commands that talk to an LLM
+ * @param command The command
+ * @returns The command
+ */
+function addLlmOptions(command: Command): Command {
+  return command
+    .option('--llm-provider <name>', 'LLM provider: openai, openai-compatible or template (offline)')
+    .option('--llm-model <model>', 'Model of the LLM provider')
+    .option('--llm-base-url <url>', 'Base URL of an OpenAI-compatible server, e.g. http://localhost:11434/v1')
+    .option('--temperature <n>', 'Sampling temperature of the LLM, between 0 and 2')
+    .option('--max-tokens <n>', 'Maximum number of tokens per answer')
+    .option('--no-redact', 'Send keys, IDs and addresses to the LLM without masking them')
+    .option('--audit-log <file>', 'Append every LLM request to a JSON Lines audit log');
+}
+
+addLlmOptions(program
   .command('check')
-  .description('Check a Turnkey policy or configuration file for issues')
-  .argument('<file>', 'Path to the policy JSON or config file')
-  .option('-v, --verbose', 'Show detailed output')
-  .action(async (file, options) => {
+  .description('Check Turnkey policy, configuration or transaction files for issues')
+  .argument('<paths...>', 'Files, directories or glob patterns of the policy, config or transaction JSON files')
+  .option('-v, --verbose', 'Explain each issue with the configured LLM provider')
+  .option('--chain-id <id>', 'Expected chain ID of Ethereum transactions')
+  .option('-w, --workspace', 'Also check configurations, policies and requests against each other')
+  .option('-f, --format <format>', 'Output format: text, json, sarif or junit', 'text')
+  .option('-o, --output <file>', 'Write the report to a file instead of stdout')
+  .option('-c, --concurrency <n>', 'Number of files to analyze concurrently', '4')
+  .option('--llm-concurrency <n>', 'Number of explanation requests in flight', '2')
+  .option('--batch-explanations', 'Explain all issues of a file with a single request')
+  .option('--no-cache', 'Do not read or write cached explanations')
+  .option('--cache-dir <dir>', 'Directory of the explanation cache'))
+  .action(async (paths, options, command) => {
+    try {
+      process.exitCode = await checkConfig(paths, command.optsWithGlobals());
+    } catch (error) {
+      console.error(colors.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('fix')
+  .description('Apply automatic fixes to a Turnkey policy, configuration or transaction file')
+  .argument('<file>', 'Path to the JSON file to fix')
+  .option('--dry-run', 'Print a unified diff of the fixes without changing the file')
+  .option('-i, --interactive', 'Ask before applying each fix')
+  .option('-s, --set <assignments...>', 'Values for fixes that need them, e.g. SENDER_ADDRESS=<address>')
+  .option('--chain-id <id>', 'Expected chain ID of Ethereum transactions')
+  .action(async (file, options, command) => {
+    try {
+      await fixFile(file, command.optsWithGlobals());
+    } catch (error) {
+      console.error(colors.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+addLlmOptions(program
+  .command('ask')
+  .description('Ask questions about a Turnkey policy, configuration or transaction file')
+  .argument('<file>', 'Path to the JSON file to discuss')
+  .argument('[question]', 'Question to ask; starts an interactive session when omitted')
+  .option('-i, --interactive', 'Keep the session open for follow-up questions')
+  .option('-r, --request <file>', 'Transaction signing request to discuss together with a policy file')
+  .option('-e, --export <file>', 'Save the conversation when done (.md for Markdown, otherwise JSON)')
+  .option('--chain-id <id>', 'Expected chain ID of Ethereum transactions'))
+  .action(async (file, question, options, command) => {
+    try {
+      await askCopilot(file, question, command.optsWithGlobals());
+    } catch (error) {
+      console.error(colors.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+addLlmOptions(program
+  .command('generate-policy')
+  .description('Generate a Turnkey policy from a description and validate it')
+  .argument('<description>', 'What the policy should allow or deny, e.g. "allow USDC transfers under 1000 to these addresses"')
+  .option('-o, --output <file>', 'File to write the policy to', 'policy.json')
+  .option('--force', 'Overwrite the output file if it exists')
+  .option('--max-attempts <n>', 'Maximum number of generation attempts', '3'))
+  .action(async (description, options) => {
+    try {
+      process.exitCode = await generatePolicyFile(description, options);
+    } catch (error) {
+      console.error(colors.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('simulate')
+  .description('Simulate how policies evaluate a transaction signing request')
+  .requiredOption('-p, --policy <files...>', 'Paths to the policy JSON files')
+  .requiredOption('-r, --request <file>', 'Path to the transaction signing request JSON file')
+  .option('-v, --verbose', 'Show the deciding expression for every policy')
+  .action(async (options) => {
+    try {
+      await simulatePolicy(options);
+    } catch (error) {
+      console.error(colors.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('review-policies')
+  .description('Find conflicting, redundant and overly broad policies in a policy set and show what it permits')
+  .argument('<paths...>', 'Files, directories or glob patterns of the policy JSON files')
+  .option('-f, --format <format>', 'Output format: text or json', 'text')
+  .action(async (paths, options) => {
+    try {
+      process.exitCode = await reviewPolicies(paths, options);
+    } catch (error) {
+      console.error(colors.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('risk')
+  .description('Score the security risk of policies and list the reasons, highest risk first')
+  .argument('<paths...>', 'Files, directories or glob patterns of the policy JSON files')
+  .option('-f, --format <format>', 'Output format: text or json', 'text')
+  .option('--fail-on <level>', 'Exit with 1 when a policy reaches this risk level: low, medium, high or critical')
+  .action(async (paths, options) => {
+    try {
+      process.exitCode = await scorePolicyRisk(paths, options);
+    } catch (error) {
+      console.error(colors.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('diff')
+  .description('Compare two versions of a policy file and show what they permit differently')
+  .argument('<old>', 'Path to the old version of the policy JSON file')
+  .argument('<new>', 'Path to the new version of the policy JSON file')
+  .option('-r, --request <paths...>', 'Requests to run through both versions to see which decisions change')
+  .option('-f, --format <format>', 'Output format: text or json', 'text')
+  .action(async (oldFile, newFile, options) => {
+    try {
+      process.exitCode = await diffPolicies(oldFile, newFile, options);
+    } catch (error) {
+      console.error(colors.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('test')
+  .description('Run policy regression tests: check that fixture requests get the expected ALLOW or DENY decision')
+  .argument('<paths...>', 'Files, directories or glob patterns of the fixture JSON files')
+  .option('-f, --format <format>', 'Output format: text, json or junit', 'text')
+  .option('-o, --output <file>', 'Write the json or junit report to a file')
+  .action(async (paths, options) => {
+    try {
+      process.exitCode = await testPolicies(paths, options);
+    } catch (error) {
+      console.error(colors.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('submit')
+  .description('Check a transaction signing request, stamp it with the API key of a configuration and send it to the Turnkey API')
+  .argument('<request>', 'Path to the transaction signing request JSON file')
+  .requiredOption('-c, --config <file>', 'Configuration with org_id, base_url, api_public_key and api_private_key')
+  .option('--dry-run', 'Print the stamped request instead of sending it')
+  .option('--skip-check', 'Submit even if the request has errors')
+  .option('--chain-id <id>', 'Expected chain ID of Ethereum transactions')
+  .action(async (request, options, command) => {
+    try {
+      process.exitCode = await submitRequest(request, command.optsWithGlobals());
+    } catch (error) {
+      console.error(colors.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('diagnose-auth')
+  .description('Find out why the API rejected a request with 401/403 by replaying its stamp locally')
+  .argument('<capture>', 'JSON file with the captured "request" ({ headers, body }) and "response" ({ status, headers, body }), or only the API error body')
+  .requiredOption('-c, --config <file>', 'Configuration the request was made with')
+  .action(async (capture, options, command) => {
+    try {
+      process.exitCode = await diagnoseAuthFailure(capture, command.optsWithGlobals());
+    } catch (error) {
+      console.error(colors.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('schema')
+  .description('Print the JSON Schema of a file kind, for editor autocomplete')
+  .argument('<kind>', 'Kind of file: config, policy or transaction')
+  .option('-o, --output <file>', 'Write the schema to a file instead of stdout')
+  .action(async (kind, options) => {
     try {
-      await checkConfig(file, options);
+      await exportSchema(kind, options);
     } catch (error) {
       console.error(colors.red('Error:'), error instanceof Error ? error.message : String(error));
       process.exit(1);
@@ -40,7 +249,23 @@ program
 program.addHelpText('after', `
 Examples:
   $ turnkey-copilot check ./config.json
+  $ turnkey-copilot check ./config.json --profile prod
   $ turnkey-copilot check ./policy.json --verbose
+  $ turnkey-copilot check ./policy.json --verbose --llm-provider template
+  $ turnkey-copilot check ./policy.json --format sarif --output results.sarif
+  $ turnkey-copilot check ./policies 'requests/**/*.json'
+  $ turnkey-copilot check ./turnkey --workspace
+  $ turnkey-copilot fix ./policy.json --set SENDER_ADDRESS=<address> --dry-run
+  $ turnkey-copilot ask ./policy.json "Why would this policy deny my request?" --request ./request.json
+  $ turnkey-copilot generate-policy "allow SOL transfers under 1 SOL to <address>" --output ./policy.json
+  $ turnkey-copilot simulate --policy ./policy.json --request ./request.json
+  $ turnkey-copilot review-policies ./policies
+  $ turnkey-copilot risk ./policies --fail-on high
+  $ turnkey-copilot diff ./policy.old.json ./policy.json --request ./requests
+  $ turnkey-copilot test ./policy-tests --format junit --output policy-tests.xml
+  $ turnkey-copilot submit ./request.json --config ./config.json --dry-run
+  $ turnkey-copilot diagnose-auth ./capture.json --config ./config.json
+  $ turnkey-copilot schema policy --output policy.schema.json
 `);
 
 // Parse command line arguments
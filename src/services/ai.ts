@@ -1,34 +1,26 @@
-import { OpenAI } from 'openai';
-import dotenv from 'dotenv';
+import { ChatMessage, Finding, LlmProvider } from '../types';
+import { extractJsonObject } from '../utils/json';
 
-// Load environment variables
-dotenv.config();
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+const SYSTEM_MESSAGE: ChatMessage = {
+  role: 'system',
+  content: 'You are a helpful assistant that explains Turnkey API integration issues clearly and concisely.'
+};
 
 /**
- * Generates an explanation for an issue using OpenAI
- * @param issue The issue description
- * @param suggestion The suggested fix
+ * Generates an explanation for a finding
+ * @param finding The finding to explain
+ * @param provider LLM provider that answers the request
  * @returns AI-generated explanation
+ * @throws Error if the provider request fails
  */
-export async function generateExplanation(issue: string, suggestion: string): Promise<string> {
-  try {
-    // Check if OpenAI API key is configured
-    if (!process.env.OPENAI_API_KEY) {
-      return 'OpenAI API key not configured. Please set the OPENAI_API_KEY environment variable to enable detailed explanations.';
-    }
-
-    const prompt = `
+export async function generateExplanation(finding: Finding, provider: LlmProvider): Promise<string> {
+  const prompt = `
 You are an expert in Turnkey API integration and crypto wallet infrastructure.
 Explain the following issue in simple terms and why it's important to fix:
 
-Issue: ${issue}
+Issue: ${finding.message}
 
-Suggested fix: ${suggestion}
+Suggested fix: ${finding.suggestion ?? ''}
 
 Provide a clear explanation of:
 1. Why this issue occurs
@@ -37,25 +29,47 @@ Provide a clear explanation of:
 4. Any additional context that would help a developer understand
 `;
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-3.5-turbo',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a helpful assistant that explains Turnkey API integration issues clearly and concisely.'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      max_tokens: 500,
-      temperature: 0.7,
-    });
-
-    return response.choices[0]?.message?.content || 'Unable to generate explanation.';
-  } catch (error) {
-    console.error('Error generating explanation:', error);
-    return 'Failed to generate explanation. Please check your OpenAI API key and try again.';
-  }
-}
\ No newline at end of file
+  return provider.complete({
+    messages: [SYSTEM_MESSAGE, { role: 'user', content: prompt }],
+    findings: [finding]
+  });
+}
+
+/**
+ * Generates explanations for several findings of the same file with a single request
+ * @param findings The findings to explain
+ * @param provider LLM provider that answers the request
+ * @returns One explanation per finding, in the order of the findings
+ * @throws Error if the provider request fails or the answer does not contain an explanation for every finding
+ */
+export async function generateBatchExplanations(findings: Finding[], provider: LlmProvider): Promise<string[]> {
+  const issues = findings
+    .map((finding, i) => `Issue ${i + 1} (${finding.ruleId}): ${finding.message}\nSuggested fix: ${finding.suggestion ?? ''}`)
+    .join('\n\n');
+
+  const prompt = `
+You are an expert in Turnkey API integration and crypto wallet infrastructure.
+The following issues were found in the same file. For each issue, explain in simple terms
+why it occurs, what problems it might cause and how the suggested fix resolves it.
+
+${issues}
+
+Answer with a JSON object only, whose keys are the issue numbers and whose values are the explanations, e.g.
+{"1": "...", "2": "..."}
+`;
+
+  const answer = await provider.complete({
+    messages: [SYSTEM_MESSAGE, { role: 'user', content: prompt }],
+    findings
+  });
+
+  const explanations = extractJsonObject(answer);
+
+  return findings.map((_, i) => {
+    const explanation = explanations[String(i + 1)];
+    if (typeof explanation !== 'string') {
+      throw new Error(`The batched answer has no explanation for issue ${i + 1}`);
+    }
+    return explanation;
+  });
+}
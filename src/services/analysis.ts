@@ -0,0 +1,227 @@
+import fs from 'fs/promises';
+import JSON5 from 'json5';
+import { analyzePolicy } from './policy';
+import { analyzeProfiledConfig } from './profiles';
+import { validateSchema } from './schema';
+import { analyzeReferences, dropReferencedFixes, maskSecrets, resolveConfig } from './secrets';
+import { analyzeTransaction } from './transaction';
+import { applyIgnoreComments, applyProjectSettings, LoadedSettings } from './settings';
+import { analyzeWorkspace, WorkspaceFile } from './workspace';
+import { AnalysisResult, CheckReport, Finding, SourceRange, TurnkeyConfig, TurnkeyPolicy, TurnkeyTransactionRequest } from '../types';
+import { detectFileType, resolvePath } from '../utils';
+import { locateJsonPointer, parsePointer } from '../utils/json';
+
+/**
+ * Options for analyzing a file
+ */
+export interface AnalyzeFileOptions {
+  /** Expected chain ID of Ethereum transactions */
+  chainId?: string;
+  /** Environment that ${VAR} references in configurations are resolved from */
+  env?: NodeJS.ProcessEnv;
+  /** Profile of configurations with profiles to check; all profiles when omitted */
+  profile?: string;
+}
+
+/**
+ * Analyzes a Turnkey configuration, policy or transaction file and resolves the source location of every finding.
+ * Project settings and ignore comments in the file are applied to the findings.
+ * @param filePath Path to the JSON file
+ * @param options Analysis options
+ * @param settings Project settings that apply to the file, if any
+ * @returns Report for the file
+ */
+export async function analyzeFile(filePath: string, options: AnalyzeFileOptions = {}, settings?: LoadedSettings): Promise<CheckReport> {
+  const { report, text } = await runAnalyzers(filePath, options);
+  const findings = applyProjectSettings(report.findings, filePath, settings);
+
+  return { ...report, findings: text === undefined ? findings : applyIgnoreComments(findings, text) };
+}
+
+/**
+ * Checks the analyzed files against each other and adds the findings to their reports. Files that
+ * could not be parsed do not take part. Project settings and ignore comments are applied like in analyzeFile.
+ * @param reports Reports of the analyzed files
+ * @param options Analysis options
+ * @param resolveSettings Finds the project settings that apply to a file
+ * @returns The reports with the workspace findings added
+ */
+export async function addWorkspaceFindings(
+  reports: CheckReport[],
+  options: AnalyzeFileOptions = {},
+  resolveSettings?: (filePath: string) => Promise<LoadedSettings | undefined>
+): Promise<CheckReport[]> {
+  const texts = new Map<string, string>();
+  const files: WorkspaceFile[] = [];
+  for (const report of reports.filter(item => item.fileType)) {
+    const text = await fs.readFile(resolvePath(report.file), 'utf-8');
+    texts.set(report.file, text);
+    files.push({ file: report.file, fileType: report.fileType, data: JSON5.parse(text) });
+  }
+
+  const results = await analyzeWorkspace(files, options);
+  const updated: CheckReport[] = [];
+  for (const report of reports) {
+    const text = texts.get(report.file);
+    const found = results.get(report.file);
+    if (!text || !found) {
+      updated.push(report);
+      continue;
+    }
+
+    const located = found.map(finding => ({ ...finding, location: locateJsonPointer(text, finding.pointer) }));
+    const findings = applyIgnoreComments(applyProjectSettings(located, report.file, await resolveSettings?.(report.file)), text);
+    updated.push({ ...report, findings: [...report.findings, ...findings] });
+  }
+  return updated;
+}
+
+/**
+ * Reads, parses and analyzes a file. Files that cannot be read or parsed produce a report with a
+ * single file-level finding instead of throwing.
+ * @param filePath Path to the JSON file
+ * @param options Analysis options
+ * @returns Report for the file and its source text, when it could be read
+ */
+async function runAnalyzers(filePath: string, options: AnalyzeFileOptions): Promise<{ report: CheckReport; text?: string }> {
+  let text: string;
+  try {
+    text = await fs.readFile(resolvePath(filePath), 'utf-8');
+  } catch (error) {
+    const notFound = (error as NodeJS.ErrnoException).code === 'ENOENT';
+    return { report: fileErrorReport(filePath, {
+      ruleId: notFound ? 'file/not-found' : 'file/unreadable',
+      severity: 'error',
+      message: notFound ? `File not found: ${filePath}` : `Unable to read file: ${filePath} (${error instanceof Error ? error.message : String(error)})`,
+      suggestion: 'Check the path and file permissions',
+      pointer: '',
+    }) };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON5.parse(text);
+  } catch (error) {
+    const { lineNumber, columnNumber } = error as { lineNumber?: number; columnNumber?: number };
+    return { text, report: fileErrorReport(filePath, {
+      ruleId: 'file/invalid-json',
+      severity: 'error',
+      message: `Invalid JSON format in file: ${filePath} (${error instanceof Error ? error.message : String(error)})`,
+      suggestion: 'Fix the JSON syntax at the reported position; JSON5 comments and trailing commas are allowed',
+      pointer: '',
+      location: lineNumber && columnNumber ? pointRange(text, lineNumber, columnNumber) : undefined,
+    }) };
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { text, report: fileErrorReport(filePath, {
+      ruleId: 'file/not-an-object',
+      severity: 'error',
+      message: `File does not contain a JSON object: ${filePath}`,
+      suggestion: 'Check a single Turnkey configuration, policy or transaction signing request object per file',
+      pointer: '',
+      location: locateJsonPointer(text, ''),
+    }) };
+  }
+
+  // Determine file type based on content
+  const fileType = detectFileType(data as TurnkeyConfig | TurnkeyPolicy | TurnkeyTransactionRequest);
+
+  // Values of the wrong type are hidden from the analyzers, which expect the types of the schema
+  const schemaFindings = validateSchema(data, fileType);
+  const invalid = schemaFindings.filter(finding => finding.ruleId === 'schema/invalid-type').map(finding => finding.pointer);
+  const analyzable = removePointers(data, invalid);
+  let result: AnalysisResult;
+
+  try {
+    if (fileType === 'transaction') {
+      result = await analyzeTransaction(analyzable as TurnkeyTransactionRequest, { expectedChainId: options.chainId });
+    } else if (fileType === 'policy') {
+      result = await analyzePolicy(analyzable as TurnkeyPolicy);
+    } else {
+      // Configurations are analyzed with their references resolved; an unresolved reference replaces the findings about its value
+      const resolution = await resolveConfig(analyzable as TurnkeyConfig, filePath, options.env);
+      const unresolved = new Set(resolution.references.filter(reference => !reference.source).map(reference => reference.pointer));
+      const findings = [
+        ...analyzeReferences(resolution, analyzable as TurnkeyConfig, options.profile),
+        ...(await analyzeProfiledConfig(resolution.config, options.profile)).filter(finding => !unresolved.has(finding.pointer)),
+      ];
+      result = { findings: maskSecrets(dropReferencedFixes(findings, resolution.references), resolution.secrets) };
+    }
+  } catch (error) {
+    result = { findings: [{
+      ruleId: 'file/analysis-failed',
+      severity: 'error',
+      message: `Unable to analyze ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+      suggestion: 'Fix the schema findings of the file; if there are none, report this as a bug',
+      pointer: '',
+    }] };
+  }
+
+  // Findings about hidden values would only say they are missing
+  const hidden = (pointer: string) => invalid.some(prefix => pointer === prefix || pointer.startsWith(`${prefix}/`));
+  result = { ...result, findings: result.findings.filter(finding => !hidden(finding.pointer)) };
+
+  // Schema findings about values an analyzer already reported on would repeat them
+  const analyzed = new Set(result.findings.map(finding => finding.pointer));
+  const findings = [...result.findings, ...schemaFindings.filter(finding => !analyzed.has(finding.pointer))]
+    .map(finding => ({ ...finding, location: locateJsonPointer(text, finding.pointer) }));
+
+  return { text, report: { ...result, findings, file: filePath, fileType } };
+}
+
+/**
+ * Copies a parsed file without the values at the given pointers: object keys are left out and
+ * array items become undefined, so that the indexes of the other items stay the same
+ * @param data Parsed file
+ * @param pointers JSON pointers of the values to remove
+ * @returns The copy, or the file itself when there is nothing to remove
+ */
+function removePointers(data: unknown, pointers: string[]): unknown {
+  if (pointers.length === 0) {
+    return data;
+  }
+  const copy: unknown = JSON.parse(JSON.stringify(data));
+  for (const pointer of pointers) {
+    const segments = parsePointer(pointer);
+    const key = segments.pop();
+    const parent = segments.reduce<unknown>(
+      (value, segment) => value && typeof value === 'object' ? (value as Record<string, unknown>)[segment] : undefined,
+      copy
+    );
+    if (key === undefined || !parent || typeof parent !== 'object') {
+      continue;
+    }
+    if (Array.isArray(parent)) {
+      parent[Number(key)] = undefined;
+    } else {
+      delete (parent as Record<string, unknown>)[key];
+    }
+  }
+  return copy;
+}
+
+/**
+ * Builds the report of a file that could not be analyzed
+ * @param filePath Path to the file
+ * @param finding The finding describing why the file could not be analyzed
+ * @returns Report with the single finding
+ */
+function fileErrorReport(filePath: string, finding: Finding): CheckReport {
+  return { file: filePath, findings: [finding] };
+}
+
+/**
+ * Builds a one-character source range at a line and column
+ * @param text Source text
+ * @param line 1-based line number
+ * @param column 1-based column number
+ * @returns Source range
+ */
+function pointRange(text: string, line: number, column: number): SourceRange {
+  const offset = text.split('\n').slice(0, line - 1).reduce((sum, current) => sum + current.length + 1, 0) + column - 1;
+  return {
+    start: { line, column, offset },
+    end: { line, column: column + 1, offset: offset + 1 },
+  };
+}
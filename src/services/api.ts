@@ -0,0 +1,94 @@
+import axios from 'axios';
+import { ApiErrorResponse, TurnkeyConfig, TurnkeyTransactionRequest } from '../types';
+import { parseApiError } from '../utils';
+import { createApiStamp, STAMP_HEADER } from './stamp';
+
+/**
+ * API paths of the activity types that can be submitted
+ */
+const ACTIVITY_PATHS: Record<string, string> = {
+  ACTIVITY_TYPE_SIGN_TRANSACTION_V2: '/public/v1/submit/sign_transaction'
+};
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * A request signed with an API key, ready to be sent as is
+ */
+export interface SignedRequest {
+  method: 'POST';
+  url: string;
+  headers: Record<string, string>;
+  /** Exact body the stamp was made over */
+  body: string;
+}
+
+/**
+ * Outcome of sending a signed request
+ */
+export type SubmitResult =
+  | { ok: true; status: number; data: unknown }
+  | { ok: false; error: ApiErrorResponse };
+
+/**
+ * Builds the stamped API request for an activity
+ * @param request The activity request; organizationId and timestampMs are filled in when missing
+ * @param config Configuration with org_id, base_url and the API key pair
+ * @param now Current time in milliseconds, used for a missing timestampMs
+ * @returns The signed request
+ * @throws Error if the activity type is not supported, the configuration is incomplete or the organization IDs disagree
+ */
+export function buildSignedRequest(request: TurnkeyTransactionRequest, config: TurnkeyConfig, now: number = Date.now()): SignedRequest {
+  const path = request.type ? ACTIVITY_PATHS[request.type] : undefined;
+  if (!path) {
+    throw new Error(`Unsupported activity type: ${request.type ?? '(missing)'}. Supported types: ${Object.keys(ACTIVITY_PATHS).join(', ')}`);
+  }
+
+  const missing = ['base_url', 'api_public_key', 'api_private_key'].filter(key => typeof config[key] !== 'string' || !config[key]);
+  if (missing.length > 0) {
+    throw new Error(`The configuration is missing ${missing.join(', ')}`);
+  }
+
+  const organizationId = request.organizationId ?? config.org_id;
+  if (!organizationId) {
+    throw new Error('Neither the request (organizationId) nor the configuration (org_id) has an organization ID');
+  }
+  if (config.org_id && organizationId !== config.org_id) {
+    throw new Error(`The request's organizationId ${organizationId} does not match the configuration's org_id ${config.org_id}`);
+  }
+
+  const body = JSON.stringify({ ...request, organizationId, timestampMs: request.timestampMs ?? String(now) });
+
+  return {
+    method: 'POST',
+    url: `${config.base_url!.replace(/\/+$/, '')}${path}`,
+    headers: {
+      'Content-Type': 'application/json',
+      [STAMP_HEADER]: createApiStamp(body, config.api_public_key!, config.api_private_key!)
+    },
+    body
+  };
+}
+
+/**
+ * Sends a signed request. The body is sent byte for byte as it was stamped.
+ * @param signed The signed request
+ * @param timeoutMs Request timeout in milliseconds
+ * @returns The response data, or the API error
+ */
+export async function sendSignedRequest(signed: SignedRequest, timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<SubmitResult> {
+  try {
+    const response = await axios.request({
+      method: signed.method,
+      url: signed.url,
+      headers: signed.headers,
+      data: signed.body,
+      timeout: timeoutMs,
+      // Keep the string as is so the stamp still matches
+      transformRequest: [data => data]
+    });
+    return { ok: true, status: response.status, data: response.data };
+  } catch (error) {
+    return { ok: false, error: parseApiError(error) };
+  }
+}
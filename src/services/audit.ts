@@ -0,0 +1,47 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ChatMessage, LlmProvider, LlmProviderName } from '../types';
+import { resolvePath } from '../utils';
+
+/**
+ * One request sent to an LLM provider, as recorded in the audit log
+ */
+export interface AuditEntry {
+  timestamp: string;
+  provider: LlmProviderName;
+  model: string;
+  /** False when redaction was disabled with --no-redact */
+  redacted: boolean;
+  /** Messages exactly as they were sent */
+  messages: ChatMessage[];
+}
+
+/**
+ * Wraps a provider so that every request is appended to a JSON Lines audit log before it is sent
+ * @param provider The provider to wrap
+ * @param logPath Path of the audit log, created if it does not exist
+ * @param redacted Whether the messages reaching this provider have been redacted
+ * @returns Provider with an audit log
+ */
+export function withAuditLog(provider: LlmProvider, logPath: string, redacted: boolean): LlmProvider {
+  const resolvedPath = resolvePath(logPath);
+
+  return {
+    ...provider,
+    async complete(request) {
+      const entry: AuditEntry = {
+        timestamp: new Date().toISOString(),
+        provider: provider.name,
+        model: provider.model,
+        redacted,
+        messages: request.messages
+      };
+
+      // Written before the request, so failed requests are audited too
+      await fs.mkdir(path.dirname(resolvedPath), { recursive: true });
+      await fs.appendFile(resolvedPath, `${JSON.stringify(entry)}\n`, 'utf-8');
+
+      return provider.complete(request);
+    }
+  };
+}
@@ -0,0 +1,313 @@
+import { AuthCapture, AuthCheck, AuthCheckName, AuthDiagnosis, TurnkeyConfig } from '../types';
+import { ApiStamp, decodeApiStamp, derivePublicKey, STAMP_HEADER, STAMP_SCHEME, verifyApiStamp } from './stamp';
+
+// Timestamps further from the time the request was received are considered stale
+const MAX_TIMESTAMP_AGE_MS = 60 * 60 * 1000;
+const MAX_TIMESTAMP_SKEW_MS = 5 * 60 * 1000;
+
+// Error messages of the API and the check they point to, in order of precedence
+const ERROR_PATTERNS: Array<{ pattern: RegExp; points: AuthCheckName | 'registration' }> = [
+  { pattern: /signature|stamp/i, points: 'signature' },
+  { pattern: /timestamp|expired|too old|stale/i, points: 'timestamp' },
+  { pattern: /public key|api key|credential/i, points: 'registration' },
+  { pattern: /organi[sz]ation|org[ _-]?id/i, points: 'organization' },
+  { pattern: /not found|unauthori[sz]ed|authenticat/i, points: 'registration' }
+];
+
+/**
+ * Replays the authentication of a captured API request locally: checks the key pair of the
+ * configuration, the stamp and its signature over the exact body, the organization ID and the timestamp
+ * @param config Configuration the request was made with
+ * @param capture Captured request and response, or only the response
+ * @returns The result of every check and what the API said
+ */
+export function diagnoseAuth(config: TurnkeyConfig, capture: AuthCapture): AuthDiagnosis {
+  const body = capture.request?.body;
+  const bodyText = typeof body === 'string' ? body : body === undefined ? undefined : JSON.stringify(body);
+  let parsedBody: Record<string, any> | undefined;
+  try {
+    parsedBody = bodyText === undefined ? undefined : JSON.parse(bodyText);
+  } catch {
+    // Reported by the organization and timestamp checks
+  }
+
+  const stampHeader = findHeader(capture.request?.headers, STAMP_HEADER);
+  let stamp: ApiStamp | undefined;
+  let stampError: string | undefined;
+  if (capture.request && !stampHeader) {
+    stampError = `The request has no ${STAMP_HEADER} header`;
+  } else if (stampHeader) {
+    try {
+      stamp = decodeApiStamp(stampHeader);
+    } catch (error) {
+      stampError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  const receivedAt = Date.parse(findHeader(capture.response?.headers, 'date') ?? '');
+
+  return {
+    checks: [
+      checkKeyPair(config),
+      checkStamp(config, stamp, stampError),
+      checkSignature(bodyText, typeof body !== 'string', stamp),
+      checkOrganization(config, bodyText, parsedBody),
+      checkTimestamp(bodyText, parsedBody, Number.isNaN(receivedAt) ? undefined : receivedAt)
+    ],
+    response: describeResponse(capture)
+  };
+}
+
+/**
+ * Reads a captured request/response file. A file without "request" or "response" is taken to be an error body.
+ * @param data Parsed capture file
+ * @returns The capture
+ * @throws Error if the file is not an object
+ */
+export function toAuthCapture(data: unknown): AuthCapture {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('The capture must be a JSON object with "request" and/or "response", or an API error body');
+  }
+  const capture = data as Record<string, unknown>;
+  if ('request' in capture || 'response' in capture) {
+    return capture as AuthCapture;
+  }
+  return { response: { body: capture } };
+}
+
+/**
+ * Checks that the API private key derives to the API public key
+ * @param config The configuration
+ * @returns Check result
+ */
+function checkKeyPair(config: TurnkeyConfig): AuthCheck {
+  if (!config.api_public_key || !config.api_private_key) {
+    return { name: 'key-pair', status: 'skipped', message: 'The configuration does not have both api_public_key and api_private_key' };
+  }
+
+  let derived: string;
+  try {
+    derived = derivePublicKey(config.api_private_key);
+  } catch (error) {
+    return {
+      name: 'key-pair',
+      status: 'fail',
+      message: error instanceof Error ? error.message : String(error),
+      suggestion: 'Copy the API private key again; it is the 64-character hex string shown once when the API key was created'
+    };
+  }
+
+  if (derived !== config.api_public_key.toLowerCase()) {
+    return {
+      name: 'key-pair',
+      status: 'fail',
+      message: `api_private_key belongs to public key ${derived}, not to api_public_key ${config.api_public_key}`,
+      suggestion: 'Use the public and private key of the same API key'
+    };
+  }
+  return { name: 'key-pair', status: 'pass', message: 'api_private_key belongs to api_public_key' };
+}
+
+/**
+ * Checks that the stamp is well formed and names the API key of the configuration
+ * @param config The configuration
+ * @param stamp The decoded stamp, if any
+ * @param error Why the stamp could not be decoded, if it could not
+ * @returns Check result
+ */
+function checkStamp(config: TurnkeyConfig, stamp: ApiStamp | undefined, error: string | undefined): AuthCheck {
+  if (error) {
+    return { name: 'stamp', status: 'fail', message: error, suggestion: `Send the base64url-encoded stamp in the ${STAMP_HEADER} header` };
+  }
+  if (!stamp) {
+    return { name: 'stamp', status: 'skipped', message: 'No request was captured' };
+  }
+  if (stamp.scheme !== STAMP_SCHEME) {
+    return { name: 'stamp', status: 'fail', message: `The stamp uses scheme ${stamp.scheme}`, suggestion: `API key stamps use ${STAMP_SCHEME}` };
+  }
+  if (config.api_public_key && stamp.publicKey.toLowerCase() !== config.api_public_key.toLowerCase()) {
+    return {
+      name: 'stamp',
+      status: 'fail',
+      message: `The request was stamped with public key ${stamp.publicKey}, not with api_public_key ${config.api_public_key}`,
+      suggestion: 'The client signed with a different API key than the configuration; check which credentials it loads'
+    };
+  }
+  return { name: 'stamp', status: 'pass', message: `The stamp names ${stamp.publicKey} with ${STAMP_SCHEME}` };
+}
+
+/**
+ * Checks that the stamp signature verifies over the exact body. When it does not, common
+ * re-serializations of the body are tried to tell a changed body from a wrong key.
+ * @param body The body as sent
+ * @param reserialized True if the body was captured as an object instead of the exact string
+ * @param stamp The decoded stamp, if any
+ * @returns Check result
+ */
+function checkSignature(body: string | undefined, reserialized: boolean, stamp: ApiStamp | undefined): AuthCheck {
+  if (!stamp || body === undefined) {
+    return { name: 'signature', status: 'skipped', message: 'The capture does not have both a stamp and a request body' };
+  }
+  if (verifyApiStamp(body, stamp)) {
+    return {
+      name: 'signature',
+      status: 'pass',
+      message: reserialized
+        ? 'The signature verifies over the body serialized as compact JSON; capture the body as a string to check the exact bytes'
+        : 'The signature verifies over the exact body'
+    };
+  }
+
+  let variants: Array<[string, string]> = [];
+  try {
+    const parsed = JSON.parse(body);
+    variants = [['compact JSON', JSON.stringify(parsed)], ['indented JSON', JSON.stringify(parsed, null, 2)], ['4-space indented JSON', JSON.stringify(parsed, null, 4)]];
+  } catch {
+    // Only the exact body can be checked
+  }
+  const match = variants.find(([, text]) => text !== body && verifyApiStamp(text, stamp));
+  if (match) {
+    return {
+      name: 'signature',
+      status: 'fail',
+      message: `The signature was made over the body formatted as ${match[0]}, but a differently formatted body was sent`,
+      suggestion: 'Serialize the body once and send exactly the string you signed; do not let the HTTP client re-encode it'
+    };
+  }
+
+  return {
+    name: 'signature',
+    status: 'fail',
+    message: 'The signature does not verify over the body with the stamp\'s public key',
+    suggestion: 'The body was changed after signing, or it was signed with a private key that does not belong to the stamp\'s public key'
+  };
+}
+
+/**
+ * Checks that the organization ID of the body is the one of the configuration
+ * @param config The configuration
+ * @param body The body as sent
+ * @param parsed The parsed body, if it is JSON
+ * @returns Check result
+ */
+function checkOrganization(config: TurnkeyConfig, body: string | undefined, parsed: Record<string, any> | undefined): AuthCheck {
+  if (body === undefined) {
+    return { name: 'organization', status: 'skipped', message: 'No request body was captured' };
+  }
+  if (!parsed) {
+    return { name: 'organization', status: 'fail', message: 'The request body is not JSON', suggestion: 'Send the activity as a JSON object' };
+  }
+  if (!parsed.organizationId) {
+    return { name: 'organization', status: 'fail', message: 'The request body has no organizationId', suggestion: 'Set organizationId to your org_id' };
+  }
+  if (!config.org_id) {
+    return { name: 'organization', status: 'skipped', message: `The configuration has no org_id to compare with ${parsed.organizationId}` };
+  }
+  if (parsed.organizationId !== config.org_id) {
+    return {
+      name: 'organization',
+      status: 'fail',
+      message: `The body is for organization ${parsed.organizationId}, but the configuration's org_id is ${config.org_id}`,
+      suggestion: 'API keys only authenticate requests for the organization (or sub-organization) they belong to'
+    };
+  }
+  return { name: 'organization', status: 'pass', message: `The body and the configuration both use organization ${config.org_id}` };
+}
+
+/**
+ * Checks that timestampMs is close to the time the request was received
+ * @param body The body as sent
+ * @param parsed The parsed body, if it is JSON
+ * @param receivedAt When the request was received, in milliseconds, from the Date header of the response
+ * @returns Check result; skipped without a Date header, since captures are often replayed long after they were made
+ */
+function checkTimestamp(body: string | undefined, parsed: Record<string, any> | undefined, receivedAt: number | undefined): AuthCheck {
+  if (body === undefined || !parsed) {
+    return { name: 'timestamp', status: 'skipped', message: 'No JSON request body was captured' };
+  }
+  if (parsed.timestampMs === undefined) {
+    return { name: 'timestamp', status: 'fail', message: 'The request body has no timestampMs', suggestion: 'Set timestampMs to the current time in milliseconds, as a string' };
+  }
+
+  const timestamp = Number(parsed.timestampMs);
+  if (!/^\d+$/.test(String(parsed.timestampMs)) || !Number.isSafeInteger(timestamp)) {
+    return { name: 'timestamp', status: 'fail', message: `timestampMs is not a number of milliseconds: ${parsed.timestampMs}`, suggestion: 'Use String(Date.now())' };
+  }
+
+  if (receivedAt === undefined) {
+    return {
+      name: 'timestamp',
+      status: 'skipped',
+      message: `The response has no Date header to compare timestampMs (${new Date(timestamp).toISOString()}) with`
+    };
+  }
+
+  const age = receivedAt - timestamp;
+  if (age > MAX_TIMESTAMP_AGE_MS) {
+    return {
+      name: 'timestamp',
+      status: 'fail',
+      message: `timestampMs is ${formatDuration(age)} older than the response`,
+      suggestion: 'Set timestampMs when the request is sent, not when it is built or cached, and check the clock of the machine'
+    };
+  }
+  if (-age > MAX_TIMESTAMP_SKEW_MS) {
+    return {
+      name: 'timestamp',
+      status: 'fail',
+      message: `timestampMs is ${formatDuration(-age)} ahead of the response`,
+      suggestion: 'The clock of the machine that built the request is ahead; sync it with NTP'
+    };
+  }
+  return { name: 'timestamp', status: 'pass', message: `timestampMs is within ${formatDuration(Math.abs(age))} of the response` };
+}
+
+/**
+ * Summarizes the captured response and recognizes which check its error message points to
+ * @param capture The capture
+ * @returns What the API said, if a response was captured
+ */
+function describeResponse(capture: AuthCapture): AuthDiagnosis['response'] {
+  const response = capture.response;
+  if (!response) {
+    return undefined;
+  }
+
+  const body = response.body;
+  const message = typeof body === 'string'
+    ? body
+    : body && typeof body === 'object' && 'message' in body && typeof body.message === 'string' ? body.message : JSON.stringify(body ?? null);
+  return {
+    status: response.status,
+    message,
+    points: ERROR_PATTERNS.find(({ pattern }) => pattern.test(message))?.points
+  };
+}
+
+/**
+ * Looks up a header case-insensitively
+ * @param headers Captured headers
+ * @param name Header name
+ * @returns The header value, if present
+ */
+function findHeader(headers: Record<string, string> | undefined, name: string): string | undefined {
+  const key = Object.keys(headers ?? {}).find(header => header.toLowerCase() === name.toLowerCase());
+  return key === undefined ? undefined : headers![key];
+}
+
+/**
+ * Formats a duration for messages
+ * @param ms Duration in milliseconds
+ * @returns e.g. "3h 12m", "4m 5s" or "800ms"
+ */
+function formatDuration(ms: number): string {
+  if (ms < 1000) {
+    return `${ms}ms`;
+  }
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 3600) {
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  }
+  const hours = Math.floor(seconds / 3600);
+  return hours < 48 ? `${hours}h ${Math.floor((seconds % 3600) / 60)}m` : `${Math.floor(hours / 24)} days`;
+}
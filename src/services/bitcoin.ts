@@ -0,0 +1,427 @@
+import crypto from 'crypto';
+import {
+  BitcoinAddressInfo,
+  BitcoinInput,
+  BitcoinNetwork,
+  BitcoinOutput,
+  DecodedBitcoinTransaction,
+} from '../types';
+import { base58Decode, base58Encode, bech32Decode, bech32Encode, convertBits, decodeBinaryPayload } from '../utils/encoding';
+
+const PSBT_MAGIC = Buffer.from('70736274ff', 'hex');
+const PSBT_GLOBAL_UNSIGNED_TX = 0x00;
+const PSBT_GLOBAL_VERSION = 0xfb;
+const PSBT_IN_NON_WITNESS_UTXO = 0x00;
+const PSBT_IN_WITNESS_UTXO = 0x01;
+
+const NETWORKS: Record<BitcoinNetwork, { p2pkh: number; p2sh: number; hrp: string }> = {
+  mainnet: { p2pkh: 0x00, p2sh: 0x05, hrp: 'bc' },
+  testnet: { p2pkh: 0x6f, p2sh: 0xc4, hrp: 'tb' },
+  regtest: { p2pkh: 0x6f, p2sh: 0xc4, hrp: 'bcrt' },
+};
+
+/**
+ * Minimum output values (in satoshis) that Bitcoin Core relays, per script type
+ */
+export const DUST_THRESHOLDS: Partial<Record<BitcoinOutput['scriptType'], number>> = {
+  p2pkh: 546,
+  p2sh: 540,
+  p2wpkh: 294,
+  p2wsh: 330,
+  p2tr: 330,
+};
+
+interface RawTransaction {
+  version: number;
+  segwit: boolean;
+  inputs: Array<{ txid: string; vout: number; sequence: number }>;
+  outputs: Array<{ value: bigint; script: Buffer }>;
+  locktime: number;
+}
+
+/**
+ * Sequential reader over Bitcoin wire-format data
+ */
+class ByteReader {
+  private offset = 0;
+
+  constructor(private readonly bytes: Buffer) {}
+
+  get remaining(): number {
+    return this.bytes.length - this.offset;
+  }
+
+  peek(ahead = 0): number | undefined {
+    return this.bytes[this.offset + ahead];
+  }
+
+  take(length: number, what: string): Buffer {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error(`Unexpected end of data while reading ${what} at byte ${this.offset}`);
+    }
+    const slice = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  u8(what: string): number {
+    return this.take(1, what)[0];
+  }
+
+  u32(what: string): number {
+    return this.take(4, what).readUInt32LE(0);
+  }
+
+  u64(what: string): bigint {
+    return this.take(8, what).readBigUInt64LE(0);
+  }
+
+  /**
+   * Reads a CompactSize unsigned integer
+   */
+  varint(what: string): number {
+    const first = this.u8(what);
+    if (first < 0xfd) {
+      return first;
+    }
+    if (first === 0xfd) {
+      return this.take(2, what).readUInt16LE(0);
+    }
+    if (first === 0xfe) {
+      return this.u32(what);
+    }
+    const value = this.u64(what);
+    if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+      throw new Error(`${what} is too large`);
+    }
+    return Number(value);
+  }
+
+  varbytes(what: string): Buffer {
+    return this.take(this.varint(`${what} length`), what);
+  }
+}
+
+function sha256d(data: Buffer): Buffer {
+  const first = crypto.createHash('sha256').update(data).digest();
+  return crypto.createHash('sha256').update(first).digest();
+}
+
+function base58CheckEncode(version: number, payload: Buffer): string {
+  const body = Buffer.concat([Buffer.from([version]), payload]);
+  return base58Encode(Buffer.concat([body, sha256d(body).subarray(0, 4)]));
+}
+
+/**
+ * Parses a serialized transaction, with or without segwit marker and witnesses
+ * @param reader Reader positioned at the start of the transaction
+ * @returns Parsed transaction
+ */
+function parseRawTransaction(reader: ByteReader): RawTransaction {
+  const version = reader.u32('version');
+
+  // A zero input count followed by flag 0x01 is the segwit marker
+  const segwit = reader.peek() === 0x00 && reader.peek(1) === 0x01;
+  if (segwit) {
+    reader.take(2, 'segwit marker');
+  }
+
+  const inputs: RawTransaction['inputs'] = [];
+  const inputCount = reader.varint('input count');
+  for (let i = 0; i < inputCount; i++) {
+    const txid = Buffer.from(reader.take(32, `input ${i} txid`)).reverse().toString('hex');
+    const vout = reader.u32(`input ${i} vout`);
+    reader.varbytes(`input ${i} scriptSig`);
+    const sequence = reader.u32(`input ${i} sequence`);
+    inputs.push({ txid, vout, sequence });
+  }
+
+  const outputs: RawTransaction['outputs'] = [];
+  const outputCount = reader.varint('output count');
+  for (let i = 0; i < outputCount; i++) {
+    const value = reader.u64(`output ${i} value`);
+    const script = reader.varbytes(`output ${i} scriptPubKey`);
+    outputs.push({ value, script });
+  }
+
+  if (segwit) {
+    for (let i = 0; i < inputCount; i++) {
+      const items = reader.varint(`input ${i} witness count`);
+      for (let j = 0; j < items; j++) {
+        reader.varbytes(`input ${i} witness item ${j}`);
+      }
+    }
+  }
+
+  const locktime = reader.u32('locktime');
+  return { version, segwit, inputs, outputs, locktime };
+}
+
+/**
+ * Classifies an output script and derives its address where one exists
+ * @param script The scriptPubKey
+ * @param network Network used to encode the address
+ * @returns Script type and address
+ */
+export function classifyScript(script: Buffer, network: BitcoinNetwork = 'mainnet'): { type: BitcoinOutput['scriptType']; address?: string } {
+  const params = NETWORKS[network];
+
+  if (script.length === 25 && script[0] === 0x76 && script[1] === 0xa9 && script[2] === 0x14 && script[23] === 0x88 && script[24] === 0xac) {
+    return { type: 'p2pkh', address: base58CheckEncode(params.p2pkh, script.subarray(3, 23)) };
+  }
+  if (script.length === 23 && script[0] === 0xa9 && script[1] === 0x14 && script[22] === 0x87) {
+    return { type: 'p2sh', address: base58CheckEncode(params.p2sh, script.subarray(2, 22)) };
+  }
+  if (script.length === 22 && script[0] === 0x00 && script[1] === 0x14) {
+    return { type: 'p2wpkh', address: bech32Encode(params.hrp, [0, ...convertBits(script.subarray(2), 8, 5, true)], 'bech32') };
+  }
+  if (script.length === 34 && script[0] === 0x00 && script[1] === 0x20) {
+    return { type: 'p2wsh', address: bech32Encode(params.hrp, [0, ...convertBits(script.subarray(2), 8, 5, true)], 'bech32') };
+  }
+  if (script.length === 34 && script[0] === 0x51 && script[1] === 0x20) {
+    return { type: 'p2tr', address: bech32Encode(params.hrp, [1, ...convertBits(script.subarray(2), 8, 5, true)], 'bech32m') };
+  }
+  if (script.length > 0 && script[0] === 0x6a) {
+    return { type: 'op_return' };
+  }
+  return { type: 'nonstandard' };
+}
+
+/**
+ * Validates a Bitcoin address: base58check (P2PKH/P2SH), bech32 (segwit v0) or bech32m (segwit v1+)
+ * @param address The address to validate
+ * @returns Validity, network and address type, or the reason it is invalid
+ */
+export function validateBitcoinAddress(address: string): BitcoinAddressInfo {
+  if (/^(bc|tb|bcrt)1/i.test(address)) {
+    try {
+      const { hrp, words, variant } = bech32Decode(address);
+      const network = (Object.keys(NETWORKS) as BitcoinNetwork[]).find(name => NETWORKS[name].hrp === hrp);
+      if (!network) {
+        return { valid: false, error: `Unknown bech32 prefix '${hrp}'` };
+      }
+
+      const [version, ...data] = words;
+      const program = convertBits(data, 5, 8, false);
+      if (version === undefined || version > 16) {
+        return { valid: false, error: 'Invalid witness version' };
+      }
+      if (program.length < 2 || program.length > 40) {
+        return { valid: false, error: `Invalid witness program length ${program.length}` };
+      }
+      if (version === 0 && variant !== 'bech32') {
+        return { valid: false, error: 'Segwit v0 addresses must use the bech32 checksum' };
+      }
+      if (version > 0 && variant !== 'bech32m') {
+        return { valid: false, error: `Segwit v${version} addresses must use the bech32m checksum` };
+      }
+      if (version === 0 && program.length !== 20 && program.length !== 32) {
+        return { valid: false, error: `Segwit v0 program must be 20 or 32 bytes, found ${program.length}` };
+      }
+
+      const type = version === 0
+        ? (program.length === 20 ? 'p2wpkh' : 'p2wsh')
+        : version === 1 && program.length === 32 ? 'p2tr' : 'witness_unknown';
+      return { valid: true, network, type };
+    } catch (error) {
+      return { valid: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  try {
+    const bytes = base58Decode(address);
+    if (bytes.length !== 25) {
+      return { valid: false, error: `Base58 address must decode to 25 bytes, found ${bytes.length}` };
+    }
+    if (!sha256d(bytes.subarray(0, 21)).subarray(0, 4).equals(bytes.subarray(21))) {
+      return { valid: false, error: 'Base58 checksum does not match' };
+    }
+
+    switch (bytes[0]) {
+      case NETWORKS.mainnet.p2pkh:
+        return { valid: true, network: 'mainnet', type: 'p2pkh' };
+      case NETWORKS.mainnet.p2sh:
+        return { valid: true, network: 'mainnet', type: 'p2sh' };
+      case NETWORKS.testnet.p2pkh:
+        return { valid: true, network: 'testnet', type: 'p2pkh' };
+      case NETWORKS.testnet.p2sh:
+        return { valid: true, network: 'testnet', type: 'p2sh' };
+      default:
+        return { valid: false, error: `Unknown address version byte 0x${bytes[0].toString(16).padStart(2, '0')}` };
+    }
+  } catch (error) {
+    return { valid: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Parses a PSBT (BIP-174, version 0) key-value map section
+ * @param reader Reader positioned at the start of the map
+ * @param what Name of the section for error messages
+ * @returns Entries as [key, value] pairs
+ */
+function readPsbtMap(reader: ByteReader, what: string): Array<[Buffer, Buffer]> {
+  const entries: Array<[Buffer, Buffer]> = [];
+
+  for (;;) {
+    const keyLength = reader.varint(`${what} key length`);
+    if (keyLength === 0) {
+      return entries;
+    }
+    const key = reader.take(keyLength, `${what} key`);
+    const value = reader.varbytes(`${what} value`);
+    entries.push([key, value]);
+  }
+}
+
+/**
+ * Decodes a PSBT's global unsigned transaction and per-input UTXO information
+ * @param bytes PSBT bytes, starting with the magic
+ * @returns Transaction with input values where the PSBT provides them
+ */
+function decodePsbt(bytes: Buffer): Omit<DecodedBitcoinTransaction, 'outputs' | 'fee'> & { rawOutputs: RawTransaction['outputs']; utxoScripts: Array<Buffer | undefined> } {
+  const reader = new ByteReader(bytes.subarray(PSBT_MAGIC.length));
+  const global = readPsbtMap(reader, 'global map');
+
+  const version = global.find(([key]) => key[0] === PSBT_GLOBAL_VERSION);
+  if (version && version[1].readUInt32LE(0) !== 0) {
+    throw new Error(`PSBT version ${version[1].readUInt32LE(0)} is not supported`);
+  }
+
+  const unsigned = global.find(([key]) => key[0] === PSBT_GLOBAL_UNSIGNED_TX);
+  if (!unsigned) {
+    throw new Error('PSBT is missing the global unsigned transaction');
+  }
+  const tx = parseRawTransaction(new ByteReader(unsigned[1]));
+
+  const inputs: BitcoinInput[] = [];
+  const utxoScripts: Array<Buffer | undefined> = [];
+  tx.inputs.forEach((input, i) => {
+    const entries = readPsbtMap(reader, `input ${i} map`);
+    const witnessUtxo = entries.find(([key]) => key[0] === PSBT_IN_WITNESS_UTXO);
+    const nonWitnessUtxo = entries.find(([key]) => key[0] === PSBT_IN_NON_WITNESS_UTXO);
+    let value: bigint | undefined;
+    let script: Buffer | undefined;
+
+    if (witnessUtxo) {
+      const utxo = new ByteReader(witnessUtxo[1]);
+      value = utxo.u64('witness_utxo amount');
+      script = utxo.varbytes('witness_utxo scriptPubKey');
+    } else if (nonWitnessUtxo) {
+      const previous = parseRawTransaction(new ByteReader(nonWitnessUtxo[1]));
+      const spent = previous.outputs[input.vout];
+      if (!spent) {
+        throw new Error(`PSBT input ${i} spends output ${input.vout}, but its non_witness_utxo has only ${previous.outputs.length} outputs`);
+      }
+      value = spent.value;
+      script = spent.script;
+    }
+
+    inputs.push({ ...input, value, scriptPubKey: script?.toString('hex') });
+    utxoScripts.push(script);
+  });
+
+  tx.outputs.forEach((_, i) => readPsbtMap(reader, `output ${i} map`));
+
+  if (reader.remaining > 0) {
+    throw new Error(`Unexpected ${reader.remaining} trailing byte(s) after PSBT`);
+  }
+
+  return { format: 'psbt', version: tx.version, locktime: tx.locktime, segwit: tx.segwit, inputs, rawOutputs: tx.outputs, utxoScripts };
+}
+
+/**
+ * Decodes a Bitcoin PSBT (hex or base64) or raw transaction (hex)
+ * @param payload The encoded transaction
+ * @param network Network used to render addresses
+ * @returns Inputs, outputs and the fee when every input amount is known
+ * @throws Error if the payload is neither a valid PSBT nor a valid raw transaction
+ */
+export function decodeBitcoinTransaction(payload: string, network: BitcoinNetwork = 'mainnet'): DecodedBitcoinTransaction {
+  const { bytes } = decodeBinaryPayload(payload);
+
+  if (bytes.length === 0) {
+    throw new Error('Payload is empty');
+  }
+
+  let decoded: DecodedBitcoinTransaction;
+
+  if (bytes.subarray(0, PSBT_MAGIC.length).equals(PSBT_MAGIC)) {
+    const { rawOutputs, utxoScripts, ...psbt } = decodePsbt(bytes);
+    decoded = { ...psbt, outputs: rawOutputs.map(output => toOutput(output, network)) };
+    decoded.inputs.forEach((input, i) => {
+      const script = utxoScripts[i];
+      if (script) {
+        input.address = classifyScript(script, network).address;
+      }
+    });
+  } else {
+    const reader = new ByteReader(bytes);
+    const tx = parseRawTransaction(reader);
+    if (reader.remaining > 0) {
+      throw new Error(`Unexpected ${reader.remaining} trailing byte(s) after transaction`);
+    }
+    decoded = {
+      format: 'raw',
+      version: tx.version,
+      locktime: tx.locktime,
+      segwit: tx.segwit,
+      inputs: tx.inputs,
+      outputs: tx.outputs.map(output => toOutput(output, network)),
+    };
+  }
+
+  if (decoded.inputs.length > 0 && decoded.inputs.every(input => input.value !== undefined)) {
+    const totalIn = decoded.inputs.reduce((sum, input) => sum + input.value!, BigInt(0));
+    const totalOut = decoded.outputs.reduce((sum, output) => sum + output.value, BigInt(0));
+    decoded.fee = totalIn - totalOut;
+  }
+
+  return decoded;
+}
+
+function toOutput(output: { value: bigint; script: Buffer }, network: BitcoinNetwork): BitcoinOutput {
+  const { type, address } = classifyScript(output.script, network);
+  return { value: output.value, scriptPubKey: output.script.toString('hex'), scriptType: type, address };
+}
+
+/**
+ * Formats a satoshi amount as BTC without losing precision
+ * @param sats Amount in satoshis
+ * @returns Decimal BTC amount
+ */
+export function formatBtc(sats: bigint): string {
+  const unit = BigInt(100000000);
+  const sign = sats < BigInt(0) ? '-' : '';
+  const abs = sats < BigInt(0) ? -sats : sats;
+  const fraction = (abs % unit).toString().padStart(8, '0').replace(/0+$/, '');
+  return `${sign}${abs / unit}${fraction ? `.${fraction}` : ''}`;
+}
+
+/**
+ * Summarizes a decoded Bitcoin transaction as labelled fields for display
+ * @param tx The decoded transaction
+ * @returns Field labels mapped to display values
+ */
+export function describeBitcoinTransaction(tx: DecodedBitcoinTransaction): Record<string, string> {
+  const details: Record<string, string> = {
+    'Format': tx.format === 'psbt' ? 'PSBT' : `Raw transaction${tx.segwit ? ' (segwit)' : ''}`,
+    'Version': tx.version.toString(),
+    'Locktime': tx.locktime.toString(),
+  };
+
+  tx.inputs.forEach((input, i) => {
+    const utxo = input.value !== undefined
+      ? ` (${input.address ?? 'nonstandard script'}, ${formatBtc(input.value)} BTC)`
+      : ' (no UTXO information)';
+    details[`Input ${i}`] = `${input.txid}:${input.vout}${utxo}`;
+  });
+
+  tx.outputs.forEach((output, i) => {
+    details[`Output ${i}`] = `${output.address ?? output.scriptType}: ${formatBtc(output.value)} BTC`;
+  });
+
+  details['Fee'] = tx.fee !== undefined ? `${formatBtc(tx.fee)} BTC (${tx.fee} sats)` : 'unknown (missing input amounts)';
+
+  return details;
+}
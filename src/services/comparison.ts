@@ -0,0 +1,449 @@
+import {
+  AllowedActivity,
+  ChangeImpact,
+  DecisionComparison,
+  ExpressionNode,
+  PolicyChange,
+  PolicySource,
+  SigningKey,
+  SimplifiedPolicy,
+  TurnkeyPolicy,
+  TurnkeyTransactionRequest,
+} from '../types';
+import { impliesCondition, normalizeCondition, NormalizedCondition, normalizeExpression, printExpression } from './logic';
+import { normalizeActivityType, policyName, simulatePolicies } from './simulation';
+
+// Impact on the policy set when a condition that decides whether a DENY policy applies changes
+const INVERTED_IMPACTS: Record<ChangeImpact, ChangeImpact> = {
+  wider: 'narrower',
+  narrower: 'wider',
+  changed: 'changed',
+  neutral: 'neutral',
+};
+
+const CONDITION_CHANGES: Record<ChangeImpact, string> = {
+  wider: 'now matches more requests',
+  narrower: 'now matches fewer requests',
+  changed: 'matches different requests',
+  neutral: 'was rewritten but matches the same requests',
+};
+
+/**
+ * How one condition differs from another
+ */
+interface ConditionChange {
+  /** Whether the new condition matches more, fewer or different requests */
+  impact: ChangeImpact;
+  /** Added, removed and changed terms of the condition */
+  details: string[];
+}
+
+/**
+ * Compares two versions of a policy set and lists what changed in terms of what the set permits:
+ * added and removed policies and signing keys, changed quorums, activity types and resources,
+ * and conditions that match more or fewer requests. Policies are paired by name; when each
+ * version holds a single policy, the two are paired even if the name changed.
+ * @param before Policies of the old version
+ * @param after Policies of the new version
+ * @returns Changes, in the order of the new version followed by the removed policies
+ */
+export function comparePolicySets(before: PolicySource[], after: PolicySource[]): PolicyChange[] {
+  const changes: PolicyChange[] = [];
+
+  if (before.length === 1 && after.length === 1) {
+    changes.push(...comparePolicies(before[0], after[0]));
+    return changes;
+  }
+
+  const previous = keyPolicies(before);
+  for (const [key, entry] of keyPolicies(after)) {
+    const old = previous.get(key);
+    previous.delete(key);
+    changes.push(...(old ? comparePolicies(old, entry) : [policyPresenceChange(entry, 'added')]));
+  }
+  for (const entry of previous.values()) {
+    changes.push(policyPresenceChange(entry, 'removed'));
+  }
+  return changes;
+}
+
+/**
+ * Runs requests through two versions of a policy set
+ * @param before Policies of the old version
+ * @param after Policies of the new version
+ * @param requests Requests with a name to show for each, such as their file
+ * @returns Both decisions for each request, and whether the decision flipped
+ */
+export function compareDecisions(
+  before: PolicySource[],
+  after: PolicySource[],
+  requests: Array<{ name: string; request: TurnkeyTransactionRequest }>
+): DecisionComparison[] {
+  return requests.map(({ name, request }) => {
+    const old = simulatePolicies(before, request);
+    const current = simulatePolicies(after, request);
+    return { request: name, before: old, after: current, flipped: old.decision !== current.decision };
+  });
+}
+
+/**
+ * Keys policies by name so that versions of the same policy can be paired. Unnamed policies and
+ * repeated names are told apart by how many came before them.
+ * @param policies The policies
+ * @returns Policies by key, in their original order
+ */
+function keyPolicies(policies: PolicySource[]): Map<string, PolicySource> {
+  const keyed = new Map<string, PolicySource>();
+  const seen = new Map<string, number>();
+  for (const entry of policies) {
+    const name = String(entry.policy.policyName ?? entry.policy.name ?? '');
+    const occurrence = seen.get(name) ?? 0;
+    seen.set(name, occurrence + 1);
+    keyed.set(`${name}#${occurrence}`, entry);
+  }
+  return keyed;
+}
+
+/**
+ * Describes a policy that only one version of the set has
+ * @param entry The policy
+ * @param presence Whether the policy was added or removed
+ * @returns The change; an ALLOW policy widens the set when added, a DENY policy narrows it
+ */
+function policyPresenceChange(entry: PolicySource, presence: 'added' | 'removed'): PolicyChange {
+  const deny = isSimplified(entry.policy) && entry.policy.effect === 'EFFECT_DENY';
+  const impact: ChangeImpact = deny === (presence === 'added') ? 'narrower' : 'wider';
+  return {
+    policy: policyName(entry),
+    pointer: entry.pointer ?? '',
+    impact,
+    message: `${deny ? 'DENY' : 'ALLOW'} policy ${presence}`,
+    details: [],
+  };
+}
+
+/**
+ * Compares two versions of a policy
+ * @param before The old version
+ * @param after The new version
+ * @returns Changes, with pointers into the new version
+ */
+function comparePolicies(before: PolicySource, after: PolicySource): PolicyChange[] {
+  const prefix = after.pointer ?? '';
+  const changes: PolicyChange[] = [];
+  const report = (pointer: string, impact: ChangeImpact, message: string, details: string[] = []) =>
+    changes.push({ policy: policyName(after), pointer: `${prefix}${pointer}`, impact, message, details });
+
+  const oldName = before.policy.policyName ?? before.policy.name;
+  const newName = after.policy.policyName ?? after.policy.name;
+  if (oldName !== undefined && newName !== undefined && oldName !== newName) {
+    report(after.policy.policyName !== undefined ? '/policyName' : '/name', 'neutral', `Renamed from "${oldName}"`);
+  }
+
+  const simplified = isSimplified(after.policy);
+  if (isSimplified(before.policy) !== simplified) {
+    report('', 'changed', simplified ? 'Converted to a simplified policy' : 'Converted to a traditional policy');
+    return changes;
+  }
+
+  if (simplified) {
+    compareSimplifiedPolicies(before.policy as SimplifiedPolicy, after.policy as SimplifiedPolicy, report);
+  } else {
+    compareTraditionalPolicies(before.policy as TurnkeyPolicy, after.policy as TurnkeyPolicy, report);
+  }
+  return changes;
+}
+
+/**
+ * Compares the effect, condition and consensus of two versions of a simplified policy
+ * @param before The old version
+ * @param after The new version
+ * @param report Records a change at a pointer into the policy
+ */
+function compareSimplifiedPolicies(
+  before: SimplifiedPolicy,
+  after: SimplifiedPolicy,
+  report: (pointer: string, impact: ChangeImpact, message: string, details?: string[]) => void
+): void {
+  const flipped = before.effect !== after.effect;
+  if (flipped) {
+    const impact: ChangeImpact = after.effect === 'EFFECT_DENY' ? 'narrower' : after.effect === 'EFFECT_ALLOW' ? 'wider' : 'changed';
+    report('/effect', impact, `Effect changed from ${before.effect} to ${after.effect}`);
+  }
+
+  // The policy applies when both its condition and its consensus hold, so they widen an ALLOW
+  // policy and narrow a DENY policy the same way
+  const direction = (impact: ChangeImpact) => flipped ? 'changed' : after.effect === 'EFFECT_DENY' ? INVERTED_IMPACTS[impact] : impact;
+
+  const condition = compareConditions(before.condition, after.condition);
+  if (condition) {
+    report('/condition', direction(condition.impact), `Condition ${CONDITION_CHANGES[condition.impact]}`, condition.details);
+  }
+
+  const consensus = compareConditions(before.consensus, after.consensus);
+  if (consensus) {
+    const message = consensus.impact === 'wider'
+      ? 'Consensus is now easier to reach'
+      : consensus.impact === 'narrower' ? 'Consensus is now harder to reach' : `Consensus ${CONDITION_CHANGES[consensus.impact]}`;
+    report('/consensus', direction(consensus.impact), message, consensus.details);
+  }
+
+  if (before.notes !== after.notes) {
+    report('/notes', 'neutral', 'Notes changed');
+  }
+}
+
+/**
+ * Compares the quorum, signing keys and allowed activities of two versions of a traditional policy
+ * @param before The old version
+ * @param after The new version
+ * @param report Records a change at a pointer into the policy
+ */
+function compareTraditionalPolicies(
+  before: TurnkeyPolicy,
+  after: TurnkeyPolicy,
+  report: (pointer: string, impact: ChangeImpact, message: string, details?: string[]) => void
+): void {
+  const oldQuorum = before.required_approvals;
+  const newQuorum = after.required_approvals;
+  if (oldQuorum !== newQuorum) {
+    const impact: ChangeImpact = typeof oldQuorum !== 'number' || typeof newQuorum !== 'number'
+      ? 'changed'
+      : newQuorum < oldQuorum ? 'wider' : 'narrower';
+    report('/required_approvals', impact, `required_approvals changed from ${oldQuorum ?? 'unset'} to ${newQuorum ?? 'unset'}`);
+  }
+
+  // Signing keys are matched by key_id, falling back to the public key
+  const keyId = (key: SigningKey) => String(key?.key_id ?? (typeof key?.public_key === 'string' ? key.public_key.toLowerCase() : key?.name) ?? '');
+  const oldKeys = new Map(asArray(before.signing_keys).map((key, index) => [keyId(key), { key, index }]));
+  asArray(after.signing_keys).forEach((key, index) => {
+    const old = oldKeys.get(keyId(key));
+    oldKeys.delete(keyId(key));
+    if (!old) {
+      report(`/signing_keys/${index}`, 'wider', `Signing key ${keyId(key)} added`);
+      return;
+    }
+    const changed = ['public_key', 'algorithm'].filter(field =>
+      String(old.key?.[field] ?? '').toLowerCase() !== String(key?.[field] ?? '').toLowerCase());
+    if (changed.length > 0) {
+      report(`/signing_keys/${index}`, 'changed', `Signing key ${keyId(key)} has a different ${changed.join(' and ')}`);
+    }
+  });
+  for (const [id, { index }] of oldKeys) {
+    report(`/signing_keys/${index}`, 'narrower', `Signing key ${id} removed`);
+  }
+
+  // Allowed activities are matched by activity type, in order
+  const group = (activities: AllowedActivity[] | undefined) => {
+    const groups = new Map<string, Array<{ activity: AllowedActivity; index: number }>>();
+    asArray(activities).forEach((activity, index) => {
+      const type = normalizeActivityType(String(activity?.type ?? ''));
+      groups.set(type, [...(groups.get(type) ?? []), { activity, index }]);
+    });
+    return groups;
+  };
+  const oldActivities = group(before.allowed_activities);
+  for (const [type, entries] of group(after.allowed_activities)) {
+    const olds = oldActivities.get(type) ?? [];
+    oldActivities.delete(type);
+    entries.forEach(({ activity, index }, i) => {
+      const pointer = `/allowed_activities/${index}`;
+      if (i >= olds.length) {
+        report(pointer, 'wider', olds.length === 0 ? `Activity type ${type} now allowed` : `Another allowed activity of type ${type} added`);
+        return;
+      }
+      compareAllowedActivities(olds[i].activity, activity, type, (inner, impact, message, details) => report(`${pointer}${inner}`, impact, message, details));
+    });
+    olds.slice(entries.length).forEach(({ index }) =>
+      report(`/allowed_activities/${index}`, 'narrower', `An allowed activity of type ${type} removed`));
+  }
+  for (const [type, entries] of oldActivities) {
+    report(`/allowed_activities/${entries[0].index}`, 'narrower', `Activity type ${type} no longer allowed`);
+  }
+}
+
+/**
+ * Compares the resources and condition of two versions of an allowed activity
+ * @param before The old version
+ * @param after The new version
+ * @param type The normalized activity type
+ * @param report Records a change at a pointer into the allowed activity
+ */
+function compareAllowedActivities(
+  before: AllowedActivity,
+  after: AllowedActivity,
+  type: string,
+  report: (pointer: string, impact: ChangeImpact, message: string, details?: string[]) => void
+): void {
+  const oldResources = asArray(before?.resources);
+  const newResources = asArray(after?.resources);
+  if (!oldResources.includes('*') && newResources.includes('*')) {
+    report('/resources', 'wider', `${type} now allowed for every resource`);
+  } else if (oldResources.includes('*') && !newResources.includes('*')) {
+    report('/resources', 'narrower', `${type} now only allowed for ${newResources.join(', ') || 'no resources'}`);
+  } else if (!newResources.includes('*')) {
+    const added = newResources.filter(resource => !oldResources.includes(resource));
+    const removed = oldResources.filter(resource => !newResources.includes(resource));
+    if (added.length > 0) {
+      report('/resources', 'wider', `${type} now allowed for ${added.join(', ')}`);
+    }
+    if (removed.length > 0) {
+      report('/resources', 'narrower', `${type} no longer allowed for ${removed.join(', ')}`);
+    }
+  }
+
+  const condition = compareConditions(before?.parameters?.condition, after?.parameters?.condition);
+  if (condition) {
+    report(after?.parameters?.condition === undefined ? '' : '/parameters/condition', condition.impact,
+      `Condition of ${type} ${CONDITION_CHANGES[condition.impact]}`, condition.details);
+  }
+}
+
+/**
+ * Compares two versions of a condition. A missing condition always holds.
+ * @param before The old condition
+ * @param after The new condition
+ * @returns How the condition changed, or undefined if only its formatting did
+ */
+function compareConditions(before: unknown, after: unknown): ConditionChange | undefined {
+  if (before === after) {
+    return undefined;
+  }
+  const parse = (condition: unknown) => typeof condition === 'string' ? normalizeCondition(condition) : undefined;
+  const old = parse(before);
+  const current = parse(after);
+  if ((typeof before === 'string' && !old) || (typeof after === 'string' && !current)) {
+    return { impact: 'changed', details: ['The condition does not parse in one of the versions'] };
+  }
+  if (old && current && printExpression(old.ast) === printExpression(current.ast)) {
+    return undefined;
+  }
+
+  const always: Pick<NormalizedCondition, 'clauses' | 'negation'> = { clauses: [[]], negation: [] };
+  const oldForm = old ?? always;
+  const newForm = current ?? always;
+  const wider = impliesCondition(oldForm.clauses, newForm.clauses, newForm.negation);
+  const narrower = impliesCondition(newForm.clauses, oldForm.clauses, oldForm.negation);
+  const impact: ChangeImpact = wider && narrower ? 'neutral' : wider ? 'wider' : narrower ? 'narrower' : 'changed';
+  const details = describeTermChanges(old?.ast, current?.ast);
+
+  // Terms that only differ in how they are written, such as the case of an address, are no change
+  return impact === 'neutral' && details.length === 0 ? undefined : { impact, details };
+}
+
+/**
+ * Lists the terms of the top-level && or || that were added, removed or changed. Terms that match
+ * the same requests are the same term; a removed and an added term that test the same field are
+ * reported as one changed term.
+ * @param before AST of the old condition, if any
+ * @param after AST of the new condition, if any
+ * @returns One line for each changed term
+ */
+function describeTermChanges(before: ExpressionNode | undefined, after: ExpressionNode | undefined): string[] {
+  if (!before || !after) {
+    return after ? [`Added condition: ${printExpression(after)}`] : before ? [`Removed condition: ${printExpression(before)}`] : [];
+  }
+
+  // A single test is a chain of one term, so a && b compared with c still lists the dropped terms
+  const operatorOf = (node: ExpressionNode) => node.kind === 'binary' && (node.operator === '&&' || node.operator === '||') ? node.operator : undefined;
+  const oldOperator = operatorOf(before);
+  const newOperator = operatorOf(after);
+  if (oldOperator && newOperator && oldOperator !== newOperator) {
+    return [`Changed ${printExpression(before)} to ${printExpression(after)}`];
+  }
+
+  const operator = oldOperator ?? newOperator;
+  const oldTerms = splitTerms(before, operator);
+  const newTerms = splitTerms(after, operator);
+  const removed = oldTerms.filter(term => !newTerms.some(other => isSameTerm(term, other)));
+  const added = newTerms.filter(term => !oldTerms.some(other => isSameTerm(term, other)));
+
+  const details: string[] = [];
+  for (const term of added) {
+    const subject = subjectOf(term);
+    const replaced = subject === undefined ? -1 : removed.findIndex(old => subjectOf(old) === subject);
+    if (replaced >= 0) {
+      details.push(`Changed ${printExpression(removed[replaced])} to ${printExpression(term)}`);
+      removed.splice(replaced, 1);
+    } else {
+      details.push(`Added ${printExpression(term)}`);
+    }
+  }
+  for (const term of removed) {
+    details.push(`Removed ${printExpression(term)}`);
+  }
+  return details;
+}
+
+/**
+ * Checks whether two terms match the same requests
+ * @param a The first term
+ * @param b The second term
+ * @returns True if the terms are written the same way or imply each other
+ */
+function isSameTerm(a: ExpressionNode, b: ExpressionNode): boolean {
+  if (printExpression(a) === printExpression(b)) {
+    return true;
+  }
+  const left = normalizeExpression(a);
+  const right = normalizeExpression(b);
+  return impliesCondition(left.clauses, right.clauses, right.negation) && impliesCondition(right.clauses, left.clauses, left.negation);
+}
+
+/**
+ * Splits a chain of the same logical operator into its terms
+ * @param node The condition AST
+ * @param operator The top-level operator, if the condition has one
+ * @returns The terms, or the condition itself
+ */
+function splitTerms(node: ExpressionNode, operator: '&&' | '||' | undefined): ExpressionNode[] {
+  if (operator && node.kind === 'binary' && node.operator === operator) {
+    return [...splitTerms(node.left, operator), ...splitTerms(node.right, operator)];
+  }
+  return [node];
+}
+
+/**
+ * Gets the first field a term tests, such as eth.tx.to
+ * @param node The term
+ * @returns The field path, or undefined if the term does not reference a field
+ */
+function subjectOf(node: ExpressionNode): string | undefined {
+  switch (node.kind) {
+    case 'identifier':
+      return node.name;
+    case 'member': {
+      const object = subjectOf(node.object);
+      return node.object.kind === 'identifier' || node.object.kind === 'member' ? object && `${object}.${node.property}` : object;
+    }
+    case 'call':
+      return subjectOf(node.target);
+    case 'index':
+    case 'slice':
+      return subjectOf(node.object);
+    case 'unary':
+      return subjectOf(node.operand);
+    case 'binary':
+      return subjectOf(node.left) ?? subjectOf(node.right);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Gets a list from a policy, ignoring values of the wrong type, which the schema check reports
+ * @param value The value of the list
+ * @returns The list, or an empty one if the value is not an array
+ */
+function asArray<T>(value: T[] | undefined): T[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Checks whether a policy uses the simplified format
+ * @param policy The policy
+ * @returns True for policies with policyName, effect and condition
+ */
+function isSimplified(policy: TurnkeyPolicy | SimplifiedPolicy): policy is SimplifiedPolicy {
+  return 'policyName' in policy && 'effect' in policy && 'condition' in policy;
+}
@@ -1,53 +1,122 @@
-import { TurnkeyConfig, AnalysisResult } from '../types';
+import { TurnkeyConfig, AnalysisResult, Finding } from '../types';
+import { derivePublicKey } from './stamp';
+
+// Compressed P-256 public key and raw P-256 private key, hex
+const PUBLIC_KEY_PATTERN = /^0[23][0-9a-fA-F]{64}$/;
+const PRIVATE_KEY_PATTERN = /^(0x)?[0-9a-fA-F]{64}$/;
 
 /**
  * Analyzes a Turnkey configuration for potential issues
  * @param config The Turnkey configuration object
- * @returns Analysis result with issues and suggestions
+ * @returns Analysis result with findings
  */
 export async function analyzeConfig(config: TurnkeyConfig): Promise<AnalysisResult> {
-  const issues: string[] = [];
-  const suggestions: string[] = [];
+  const findings: Finding[] = [];
 
   // Check for missing required fields
   if (!config.org_id) {
-    issues.push('Missing organization ID (org_id)');
-    suggestions.push('Add your Turnkey organization ID to the configuration:\n```json\n{\n  "org_id": "your-org-id",\n  ...\n}\n```');
+    findings.push({
+      ruleId: 'config/missing-org-id',
+      severity: 'error',
+      message: 'Missing organization ID (org_id)',
+      suggestion: 'Add your Turnkey organization ID to the configuration:\n```json\n{\n  "org_id": "your-org-id",\n  ...\n}\n```',
+      pointer: '/org_id',
+      fix: { description: 'Set org_id to the value of --set ORG_ID=<id>', edits: [{ op: 'set', pointer: '/org_id', variable: 'ORG_ID' }] },
+    });
   }
 
   if (!config.wallet_id) {
-    issues.push('Missing wallet ID (wallet_id)');
-    suggestions.push('Add your Turnkey wallet ID to the configuration:\n```json\n{\n  "wallet_id": "your-wallet-id",\n  ...\n}\n```');
+    findings.push({
+      ruleId: 'config/missing-wallet-id',
+      severity: 'error',
+      message: 'Missing wallet ID (wallet_id)',
+      suggestion: 'Add your Turnkey wallet ID to the configuration:\n```json\n{\n  "wallet_id": "your-wallet-id",\n  ...\n}\n```',
+      pointer: '/wallet_id',
+      fix: { description: 'Set wallet_id to the value of --set WALLET_ID=<id>', edits: [{ op: 'set', pointer: '/wallet_id', variable: 'WALLET_ID' }] },
+    });
   }
 
   // Check for API key issues
   if (!config.api_public_key) {
-    issues.push('Missing API public key (api_public_key)');
-    suggestions.push('Add your Turnkey API public key to the configuration:\n```json\n{\n  "api_public_key": "your-api-public-key",\n  ...\n}\n```');
+    findings.push({
+      ruleId: 'config/missing-api-public-key',
+      severity: 'error',
+      message: 'Missing API public key (api_public_key)',
+      suggestion: 'Add your Turnkey API public key to the configuration:\n```json\n{\n  "api_public_key": "your-api-public-key",\n  ...\n}\n```',
+      pointer: '/api_public_key',
+      fix: { description: 'Set api_public_key to the value of --set API_PUBLIC_KEY=<key>', edits: [{ op: 'set', pointer: '/api_public_key', variable: 'API_PUBLIC_KEY' }] },
+    });
   }
 
   if (!config.api_private_key) {
-    issues.push('Missing API private key (api_private_key)');
-    suggestions.push('Add your Turnkey API private key to the configuration. For security, consider using environment variables:\n```json\n{\n  "api_private_key": "${TURNKEY_API_PRIVATE_KEY}",\n  ...\n}\n```');
+    findings.push({
+      ruleId: 'config/missing-api-private-key',
+      severity: 'error',
+      message: 'Missing API private key (api_private_key)',
+      suggestion: 'Add your Turnkey API private key to the configuration. For security, consider using environment variables:\n```json\n{\n  "api_private_key": "${TURNKEY_API_PRIVATE_KEY}",\n  ...\n}\n```',
+      pointer: '/api_private_key',
+      fix: { description: 'Reference the TURNKEY_API_PRIVATE_KEY environment variable', edits: [{ op: 'set', pointer: '/api_private_key', value: '${TURNKEY_API_PRIVATE_KEY}' }] },
+    });
   } else if (config.api_private_key.length < 20 && !config.api_private_key.includes('$')) {
-    issues.push('API private key appears to be invalid or too short');
-    suggestions.push('Ensure your API private key is correctly formatted. For security, consider using environment variables:\n```json\n{\n  "api_private_key": "${TURNKEY_API_PRIVATE_KEY}",\n  ...\n}\n```');
+    findings.push({
+      ruleId: 'config/short-api-private-key',
+      severity: 'warning',
+      message: 'API private key appears to be invalid or too short',
+      suggestion: 'Ensure your API private key is correctly formatted. For security, consider using environment variables:\n```json\n{\n  "api_private_key": "${TURNKEY_API_PRIVATE_KEY}",\n  ...\n}\n```',
+      pointer: '/api_private_key',
+    });
   }
 
   // Check for base URL issues
   if (!config.base_url) {
-    issues.push('Missing base URL (base_url)');
-    suggestions.push('Add the Turnkey API base URL to the configuration:\n```json\n{\n  "base_url": "https://api.turnkey.com",\n  ...\n}\n```');
+    findings.push({
+      ruleId: 'config/missing-base-url',
+      severity: 'error',
+      message: 'Missing base URL (base_url)',
+      suggestion: 'Add the Turnkey API base URL to the configuration:\n```json\n{\n  "base_url": "https://api.turnkey.com",\n  ...\n}\n```',
+      pointer: '/base_url',
+      fix: { description: 'Set base_url to https://api.turnkey.com', edits: [{ op: 'set', pointer: '/base_url', value: 'https://api.turnkey.com' }] },
+    });
   } else if (!config.base_url.startsWith('https://')) {
-    issues.push('Base URL should use HTTPS for security');
-    suggestions.push(`Update the base URL to use HTTPS:\n\`\`\`json\n{\n  "base_url": "https://${config.base_url.replace(/^http:\/\//, '')}",\n  ...\n}\n\`\`\``);
+    findings.push({
+      ruleId: 'config/insecure-base-url',
+      severity: 'error',
+      message: 'Base URL should use HTTPS for security',
+      suggestion: `Update the base URL to use HTTPS:\n\`\`\`json\n{\n  "base_url": "https://${config.base_url.replace(/^http:\/\//, '')}",\n  ...\n}\n\`\`\``,
+      pointer: '/base_url',
+      fix: { description: 'Upgrade base_url to HTTPS', edits: [{ op: 'set', pointer: '/base_url', value: `https://${config.base_url.replace(/^http:\/\//, '')}` }] },
+    });
   }
 
   // Check for potential 401 error causes
-  if (config.api_public_key && config.api_private_key && (!config.api_public_key.includes('TK') || config.api_public_key.length < 10)) {
-    issues.push('API public key format appears invalid (might cause 401 errors)');
-    suggestions.push('Ensure your API public key starts with "TK" and is correctly formatted according to Turnkey documentation');
+  if (config.api_public_key && config.api_private_key && !PUBLIC_KEY_PATTERN.test(config.api_public_key) && (!config.api_public_key.includes('TK') || config.api_public_key.length < 10)) {
+    findings.push({
+      ruleId: 'config/api-public-key-format',
+      severity: 'warning',
+      message: 'API public key format appears invalid (might cause 401 errors)',
+      suggestion: 'Ensure your API public key is the compressed P-256 public key shown for the API key in the Turnkey dashboard (66 hex characters starting with 02 or 03)',
+      pointer: '/api_public_key',
+    });
+  }
+
+  // A key pair that does not belong together produces stamps Turnkey cannot verify
+  if (config.api_public_key && config.api_private_key && PUBLIC_KEY_PATTERN.test(config.api_public_key) && PRIVATE_KEY_PATTERN.test(config.api_private_key)) {
+    let derived: string | undefined;
+    try {
+      derived = derivePublicKey(config.api_private_key);
+    } catch {
+      // Out-of-range keys are reported by diagnose-auth
+    }
+    if (derived && derived !== config.api_public_key.toLowerCase()) {
+      findings.push({
+        ruleId: 'config/api-key-mismatch',
+        severity: 'error',
+        message: 'api_public_key does not belong to api_private_key (causes 401 errors)',
+        suggestion: `The public key of api_private_key is ${derived}. Use the public key and private key of the same API key, or run \`turnkey-copilot diagnose-auth <capture.json> --config <config.json>\` on a captured request`,
+        pointer: '/api_public_key',
+      });
+    }
   }
 
-  return { issues, suggestions };
-}
\ No newline at end of file
+  return { findings };
+}
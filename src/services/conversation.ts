@@ -0,0 +1,132 @@
+import { ChatMessage, CheckedFileType, Finding, LlmProvider, SimulationResult } from '../types';
+
+// Question and answer pairs kept in each request; older turns are dropped to bound the prompt size
+const MAX_TURNS = 10;
+
+/**
+ * What the copilot knows about the file a conversation is about
+ */
+export interface ConversationContext {
+  file: string;
+  fileType: CheckedFileType;
+  /** Source text of the file */
+  source: string;
+  findings: Finding[];
+  /** Decoded transaction fields */
+  details?: Record<string, string>;
+  /** A transaction signing request to discuss together with a policy file */
+  request?: { file: string; source: string; simulation?: SimulationResult };
+}
+
+/**
+ * Transcript format of an exported conversation
+ */
+export type TranscriptFormat = 'json' | 'markdown';
+
+/**
+ * A conversation with the copilot about a single file. The history is kept for the lifetime of the conversation.
+ */
+export interface Conversation {
+  /**
+   * Asks a question, sending the file context and the previous turns along with it
+   * @throws Error if the provider request fails; the question is then not added to the history
+   */
+  ask(question: string): Promise<string>;
+  /** Questions and answers so far, without the file context */
+  history(): ChatMessage[];
+  /** Forgets the previous turns */
+  reset(): void;
+  /** Renders the questions and answers so far */
+  export(format: TranscriptFormat): string;
+}
+
+/**
+ * Starts a conversation about a file
+ * @param context The file, its findings and any related request
+ * @param provider LLM provider that answers the questions
+ * @returns The conversation
+ */
+export function createConversation(context: ConversationContext, provider: LlmProvider): Conversation {
+  const system: ChatMessage = { role: 'system', content: buildContextMessage(context) };
+  let turns: ChatMessage[] = [];
+
+  return {
+    async ask(question) {
+      const recent = turns.slice(-MAX_TURNS * 2);
+      const answer = await provider.complete({ messages: [system, ...recent, { role: 'user', content: question }] });
+      turns.push({ role: 'user', content: question }, { role: 'assistant', content: answer });
+      return answer;
+    },
+
+    history() {
+      return [...turns];
+    },
+
+    reset() {
+      turns = [];
+    },
+
+    export(format) {
+      if (format === 'json') {
+        return JSON.stringify({ file: context.file, exportedAt: new Date().toISOString(), messages: turns }, null, 2);
+      }
+
+      const lines = [`# Turnkey Copilot conversation about ${context.file}`];
+      for (const turn of turns) {
+        lines.push('', turn.role === 'user' ? '**You:**' : '**Copilot:**', '', turn.content);
+      }
+      return lines.join('\n');
+    }
+  };
+}
+
+/**
+ * Builds the system message with everything the model needs to know about the file
+ * @param context The conversation context
+ * @returns System message content
+ */
+export function buildContextMessage(context: ConversationContext): string {
+  const sections = [
+    'You are Turnkey Copilot, an expert in Turnkey API integration, Turnkey policies and crypto wallet infrastructure.',
+    'Answer questions about the file below. Base your answers on its contents and the analyzer findings, say so when the file does not contain enough information, and keep answers concise.',
+    `## ${describeFileType(context.fileType)} (${context.file})\n\`\`\`json\n${context.source}\n\`\`\``
+  ];
+
+  if (context.findings.length > 0) {
+    const findings = context.findings.map(finding =>
+      `- ${finding.severity.toUpperCase()} ${finding.ruleId} at ${finding.pointer || '/'}: ${finding.message}${finding.suggestion ? `\n  Suggested fix: ${finding.suggestion}` : ''}`
+    );
+    sections.push(`## Analyzer findings\n${findings.join('\n')}`);
+  } else {
+    sections.push('## Analyzer findings\nNo issues found.');
+  }
+
+  if (context.details) {
+    sections.push(`## Decoded transaction\n${Object.entries(context.details).map(([label, value]) => `- ${label}: ${value}`).join('\n')}`);
+  }
+
+  if (context.request) {
+    sections.push(`## Transaction signing request (${context.request.file})\n\`\`\`json\n${context.request.source}\n\`\`\``);
+
+    const simulation = context.request.simulation;
+    if (simulation) {
+      const evaluations = simulation.evaluations.map(evaluation =>
+        `- ${evaluation.policyName} (${evaluation.effect}): ${evaluation.outcome}${evaluation.decidedBy ? `, decided by ${evaluation.decidedBy}` : ''}${evaluation.error ? `, error: ${evaluation.error}` : ''}`
+      );
+      sections.push(`## Offline policy simulation\nDecision: ${simulation.decision}. ${simulation.reason}\n${evaluations.join('\n')}`);
+    }
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Names a file type for the model
+ * @param fileType The file type
+ * @returns Human-readable name
+ */
+function describeFileType(fileType: CheckedFileType): string {
+  return fileType === 'transaction'
+    ? 'Turnkey transaction signing request'
+    : fileType === 'policy' ? 'Turnkey policy' : 'Turnkey configuration';
+}
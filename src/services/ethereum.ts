@@ -0,0 +1,306 @@
+import { AccessListEntry, DecodedEthereumTransaction } from '../types';
+
+type RlpItem = Buffer | RlpItem[];
+
+/**
+ * Chain IDs of well-known EVM networks, used to label decoded transactions
+ */
+export const KNOWN_CHAINS: Record<string, string> = {
+  '1': 'Ethereum Mainnet',
+  '10': 'OP Mainnet',
+  '56': 'BNB Smart Chain',
+  '137': 'Polygon',
+  '8453': 'Base',
+  '17000': 'Holesky',
+  '42161': 'Arbitrum One',
+  '43114': 'Avalanche C-Chain',
+  '84532': 'Base Sepolia',
+  '11155111': 'Sepolia',
+};
+
+/**
+ * Converts a hex string, with or without 0x prefix, into bytes
+ * @param hex Hex string
+ * @returns Decoded bytes
+ * @throws Error if the string is not valid hex
+ */
+export function hexToBytes(hex: string): Buffer {
+  const body = hex.startsWith('0x') || hex.startsWith('0X') ? hex.slice(2) : hex;
+
+  if (!/^[0-9a-f]*$/i.test(body)) {
+    throw new Error('Payload contains non-hexadecimal characters');
+  }
+  if (body.length % 2 !== 0) {
+    throw new Error('Payload has an odd number of hex digits');
+  }
+
+  return Buffer.from(body, 'hex');
+}
+
+/**
+ * Reads a big-endian length prefix
+ */
+function readLength(bytes: Buffer, offset: number, size: number): number {
+  if (offset + size > bytes.length) {
+    throw new Error('Unexpected end of RLP data while reading a length prefix');
+  }
+  if (bytes[offset] === 0) {
+    throw new Error('RLP length prefix has leading zeros');
+  }
+
+  let length = 0;
+  for (let i = 0; i < size; i++) {
+    length = length * 256 + bytes[offset + i];
+  }
+  return length;
+}
+
+/**
+ * Decodes one RLP item starting at an offset
+ * @returns The item and the offset just past it
+ */
+function decodeItem(bytes: Buffer, offset: number): [RlpItem, number] {
+  if (offset >= bytes.length) {
+    throw new Error('Unexpected end of RLP data');
+  }
+
+  const prefix = bytes[offset];
+
+  // Single byte
+  if (prefix < 0x80) {
+    return [bytes.subarray(offset, offset + 1), offset + 1];
+  }
+
+  // String
+  if (prefix <= 0xbf) {
+    const lengthSize = prefix > 0xb7 ? prefix - 0xb7 : 0;
+    const length = lengthSize ? readLength(bytes, offset + 1, lengthSize) : prefix - 0x80;
+    const start = offset + 1 + lengthSize;
+    if (start + length > bytes.length) {
+      throw new Error(`RLP string at byte ${offset} runs past the end of the payload`);
+    }
+    return [bytes.subarray(start, start + length), start + length];
+  }
+
+  // List
+  const lengthSize = prefix > 0xf7 ? prefix - 0xf7 : 0;
+  const length = lengthSize ? readLength(bytes, offset + 1, lengthSize) : prefix - 0xc0;
+  const start = offset + 1 + lengthSize;
+  const end = start + length;
+  if (end > bytes.length) {
+    throw new Error(`RLP list at byte ${offset} runs past the end of the payload`);
+  }
+
+  const items: RlpItem[] = [];
+  let cursor = start;
+  while (cursor < end) {
+    const [item, next] = decodeItem(bytes, cursor);
+    items.push(item);
+    cursor = next;
+  }
+  if (cursor !== end) {
+    throw new Error(`RLP list at byte ${offset} has inconsistent length`);
+  }
+
+  return [items, end];
+}
+
+/**
+ * Decodes a complete RLP payload
+ * @param bytes RLP-encoded bytes
+ * @returns Decoded item tree
+ * @throws Error if the payload is malformed or has trailing bytes
+ */
+export function decodeRlp(bytes: Buffer): RlpItem {
+  const [item, next] = decodeItem(bytes, 0);
+  if (next !== bytes.length) {
+    throw new Error(`Unexpected ${bytes.length - next} trailing byte(s) after RLP payload`);
+  }
+  return item;
+}
+
+function asBytes(item: RlpItem, field: string): Buffer {
+  if (Array.isArray(item)) {
+    throw new Error(`Expected ${field} to be a byte string, found a list`);
+  }
+  return item;
+}
+
+function asList(item: RlpItem, field: string): RlpItem[] {
+  if (!Array.isArray(item)) {
+    throw new Error(`Expected ${field} to be a list`);
+  }
+  return item;
+}
+
+function asBigInt(item: RlpItem, field: string): bigint {
+  const bytes = asBytes(item, field);
+  return bytes.length === 0 ? BigInt(0) : BigInt(`0x${bytes.toString('hex')}`);
+}
+
+function asAddress(item: RlpItem, field: string): string | undefined {
+  const bytes = asBytes(item, field);
+  if (bytes.length === 0) {
+    return undefined;
+  }
+  if (bytes.length !== 20) {
+    throw new Error(`Expected ${field} to be a 20-byte address, found ${bytes.length} bytes`);
+  }
+  return `0x${bytes.toString('hex')}`;
+}
+
+function asAccessList(item: RlpItem): AccessListEntry[] {
+  return asList(item, 'accessList').map((entry, index) => {
+    const [address, storageKeys] = asList(entry, `accessList[${index}]`);
+    return {
+      address: asAddress(address, `accessList[${index}].address`) ?? '0x',
+      storageKeys: asList(storageKeys, `accessList[${index}].storageKeys`)
+        .map((key, keyIndex) => `0x${asBytes(key, `accessList[${index}].storageKeys[${keyIndex}]`).toString('hex')}`),
+    };
+  });
+}
+
+/**
+ * Decodes an Ethereum transaction payload: legacy (optionally EIP-155), EIP-2930 (type 1) or EIP-1559 (type 2)
+ * @param hex The transaction as a hex string, with or without 0x prefix
+ * @returns Decoded transaction fields
+ * @throws Error if the payload is not a valid transaction encoding
+ */
+export function decodeEthereumTransaction(hex: string): DecodedEthereumTransaction {
+  const bytes = hexToBytes(hex);
+
+  if (bytes.length === 0) {
+    throw new Error('Payload is empty');
+  }
+
+  // Legacy transactions are a bare RLP list
+  if (bytes[0] >= 0xc0) {
+    const fields = asList(decodeRlp(bytes), 'transaction');
+    if (fields.length !== 6 && fields.length !== 9) {
+      throw new Error(`Legacy transaction must have 6 or 9 fields, found ${fields.length}`);
+    }
+
+    const [nonce, gasPrice, gasLimit, to, value, data] = fields;
+    let chainId: bigint | undefined;
+    let signed = false;
+
+    if (fields.length === 9) {
+      const v = asBigInt(fields[6], 'v');
+      const r = asBigInt(fields[7], 'r');
+      const s = asBigInt(fields[8], 's');
+      signed = r !== BigInt(0) || s !== BigInt(0);
+      if (!signed) {
+        // EIP-155 signing payload: [..., chainId, 0, 0]
+        chainId = v;
+      } else if (v >= BigInt(35)) {
+        chainId = (v - BigInt(35)) / BigInt(2);
+      }
+    }
+
+    return {
+      type: 'legacy',
+      chainId,
+      nonce: asBigInt(nonce, 'nonce'),
+      gasPrice: asBigInt(gasPrice, 'gasPrice'),
+      gasLimit: asBigInt(gasLimit, 'gasLimit'),
+      to: asAddress(to, 'to'),
+      value: asBigInt(value, 'value'),
+      data: `0x${asBytes(data, 'data').toString('hex')}`,
+      accessList: [],
+      signed,
+    };
+  }
+
+  const envelope = bytes[0];
+  const fields = asList(decodeRlp(bytes.subarray(1)), 'transaction');
+
+  if (envelope === 0x01) {
+    if (fields.length !== 8 && fields.length !== 11) {
+      throw new Error(`EIP-2930 transaction must have 8 or 11 fields, found ${fields.length}`);
+    }
+    const [chainId, nonce, gasPrice, gasLimit, to, value, data, accessList] = fields;
+    return {
+      type: 'eip2930',
+      chainId: asBigInt(chainId, 'chainId'),
+      nonce: asBigInt(nonce, 'nonce'),
+      gasPrice: asBigInt(gasPrice, 'gasPrice'),
+      gasLimit: asBigInt(gasLimit, 'gasLimit'),
+      to: asAddress(to, 'to'),
+      value: asBigInt(value, 'value'),
+      data: `0x${asBytes(data, 'data').toString('hex')}`,
+      accessList: asAccessList(accessList),
+      signed: fields.length === 11,
+    };
+  }
+
+  if (envelope === 0x02) {
+    if (fields.length !== 9 && fields.length !== 12) {
+      throw new Error(`EIP-1559 transaction must have 9 or 12 fields, found ${fields.length}`);
+    }
+    const [chainId, nonce, maxPriorityFeePerGas, maxFeePerGas, gasLimit, to, value, data, accessList] = fields;
+    return {
+      type: 'eip1559',
+      chainId: asBigInt(chainId, 'chainId'),
+      nonce: asBigInt(nonce, 'nonce'),
+      maxPriorityFeePerGas: asBigInt(maxPriorityFeePerGas, 'maxPriorityFeePerGas'),
+      maxFeePerGas: asBigInt(maxFeePerGas, 'maxFeePerGas'),
+      gasLimit: asBigInt(gasLimit, 'gasLimit'),
+      to: asAddress(to, 'to'),
+      value: asBigInt(value, 'value'),
+      data: `0x${asBytes(data, 'data').toString('hex')}`,
+      accessList: asAccessList(accessList),
+      signed: fields.length === 12,
+    };
+  }
+
+  throw new Error(`Unsupported transaction envelope type 0x${envelope.toString(16).padStart(2, '0')}`);
+}
+
+/**
+ * Formats a wei amount as ether without losing precision
+ * @param wei Amount in wei
+ * @returns Decimal ether amount
+ */
+export function formatEther(wei: bigint): string {
+  const unit = BigInt('1000000000000000000');
+  const whole = wei / unit;
+  const fraction = (wei % unit).toString().padStart(18, '0').replace(/0+$/, '');
+  return fraction ? `${whole}.${fraction}` : whole.toString();
+}
+
+/**
+ * Summarizes a decoded transaction as labelled fields for display
+ * @param tx The decoded transaction
+ * @returns Field labels mapped to display values
+ */
+export function describeEthereumTransaction(tx: DecodedEthereumTransaction): Record<string, string> {
+  const details: Record<string, string> = {
+    'Envelope': tx.type === 'eip1559' ? 'EIP-1559 (type 2)' : tx.type === 'eip2930' ? 'EIP-2930 (type 1)' : 'Legacy',
+  };
+
+  if (tx.chainId !== undefined) {
+    const name = KNOWN_CHAINS[tx.chainId.toString()];
+    details['Chain ID'] = name ? `${tx.chainId} (${name})` : tx.chainId.toString();
+  }
+  details['Nonce'] = tx.nonce.toString();
+  if (tx.gasPrice !== undefined) {
+    details['Gas price'] = `${tx.gasPrice} wei`;
+  }
+  if (tx.maxPriorityFeePerGas !== undefined) {
+    details['Max priority fee per gas'] = `${tx.maxPriorityFeePerGas} wei`;
+  }
+  if (tx.maxFeePerGas !== undefined) {
+    details['Max fee per gas'] = `${tx.maxFeePerGas} wei`;
+  }
+  details['Gas limit'] = tx.gasLimit.toString();
+  details['To'] = tx.to ?? '(contract creation)';
+  details['Value'] = `${tx.value} wei (${formatEther(tx.value)} ETH)`;
+  details['Data'] = tx.data === '0x' ? '(empty)' : `${tx.data.slice(0, 66)}${tx.data.length > 66 ? '…' : ''} (${(tx.data.length - 2) / 2} bytes)`;
+  if (tx.accessList.length > 0) {
+    details['Access list'] = tx.accessList
+      .map(entry => `${entry.address} (${entry.storageKeys.length} storage key${entry.storageKeys.length === 1 ? '' : 's'})`)
+      .join(', ');
+  }
+
+  return details;
+}
@@ -0,0 +1,270 @@
+import { BinaryNode, CallNode, ConditionEvaluation, ExpressionNode } from '../types';
+
+/**
+ * Values available to a condition, keyed by namespace (activity, eth, solana, ...)
+ */
+export type EvaluationContext = Record<string, unknown>;
+
+interface Evaluation {
+  value: unknown;
+  decidedBy: ExpressionNode;
+  detail?: string;
+}
+
+/**
+ * Normalizes a value for equality and ordering: integers become bigints so that wei
+ * amounts compare exactly, and hex strings are compared case-insensitively
+ * @param value The value to normalize
+ * @returns Normalized value
+ */
+function normalize(value: unknown): unknown {
+  if (typeof value === 'number' && Number.isInteger(value)) {
+    return BigInt(value);
+  }
+  if (typeof value === 'string' && /^0x[0-9a-f]*$/i.test(value)) {
+    return value.toLowerCase();
+  }
+  return value;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  const left = normalize(a);
+  const right = normalize(b);
+
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return left.length === right.length && left.every((item, i) => isEqual(item, right[i]));
+  }
+
+  return left === right;
+}
+
+function toNumeric(value: unknown, text: string): bigint | number {
+  if (typeof value === 'bigint') {
+    return value;
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? BigInt(value) : value;
+  }
+  throw new Error(`'${text}' is not a number`);
+}
+
+function compareNumeric(a: bigint | number, b: bigint | number): number {
+  if (typeof a === 'bigint' && typeof b === 'bigint') {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  const left = Number(a);
+  const right = Number(b);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+/**
+ * Formats a runtime value for explanations
+ * @param value The value
+ * @returns Short textual rendering
+ */
+export function formatValue(value: unknown): string {
+  if (typeof value === 'string') {
+    return `'${value}'`;
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(formatValue).join(', ')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return JSON.stringify(value, (_, v) => (typeof v === 'bigint' ? v.toString() : v));
+  }
+  return String(value);
+}
+
+/**
+ * Evaluates condition ASTs against a request context, tracking which sub-expression decided the result
+ */
+class ConditionEvaluator {
+  constructor(private readonly source: string) {}
+
+  evaluate(node: ExpressionNode, scope: EvaluationContext): Evaluation {
+    switch (node.kind) {
+      case 'literal':
+        // Integer literals become bigints so that large wei amounts keep their precision
+        if (node.valueType === 'number' && /^[0-9]+$/.test(node.raw)) {
+          return { value: BigInt(node.raw), decidedBy: node };
+        }
+        return { value: node.value, decidedBy: node };
+
+      case 'identifier':
+        if (!(node.name in scope) || scope[node.name] === undefined) {
+          throw new Error(`'${node.name}' is not available for this request`);
+        }
+        return { value: scope[node.name], decidedBy: node };
+
+      case 'member': {
+        const object = this.evaluate(node.object, scope).value;
+        const value = object && typeof object === 'object' ? (object as Record<string, unknown>)[node.property] : undefined;
+        if (value === undefined) {
+          throw new Error(`'${this.text(node)}' is not available for this request`);
+        }
+        return { value, decidedBy: node };
+      }
+
+      case 'index': {
+        const object = this.evaluate(node.object, scope).value;
+        const index = Number(toNumeric(this.evaluate(node.index, scope).value, this.text(node.index)));
+        if (!Array.isArray(object) || index < 0 || index >= object.length) {
+          throw new Error(`Index ${index} is out of range for '${this.text(node.object)}'`);
+        }
+        return { value: object[index], decidedBy: node };
+      }
+
+      case 'slice': {
+        const object = this.evaluate(node.object, scope).value;
+        const from = node.from ? Number(toNumeric(this.evaluate(node.from, scope).value, this.text(node.from))) : undefined;
+        const to = node.to ? Number(toNumeric(this.evaluate(node.to, scope).value, this.text(node.to))) : undefined;
+        if (typeof object !== 'string' && !Array.isArray(object)) {
+          throw new Error(`'${this.text(node.object)}' cannot be sliced`);
+        }
+        return { value: object.slice(from, to), decidedBy: node };
+      }
+
+      case 'list':
+        return { value: node.elements.map(element => this.evaluate(element, scope).value), decidedBy: node };
+
+      case 'unary': {
+        const operand = this.evaluate(node.operand, scope);
+        return { value: !this.toBoolean(operand.value, node.operand), decidedBy: node, detail: operand.detail };
+      }
+
+      case 'binary':
+        return this.evaluateBinary(node, scope);
+
+      case 'call':
+        return this.evaluateCall(node, scope);
+    }
+  }
+
+  private evaluateBinary(node: BinaryNode, scope: EvaluationContext): Evaluation {
+    if (node.operator === '&&' || node.operator === '||') {
+      // Short-circuit: the first operand that settles the result is the one that decided it
+      const settles = node.operator === '||';
+      const left = this.evaluate(node.left, scope);
+      if (this.toBoolean(left.value, node.left) === settles) {
+        return { value: settles, decidedBy: left.decidedBy, detail: left.detail };
+      }
+      const right = this.evaluate(node.right, scope);
+      if (this.toBoolean(right.value, node.right) === settles) {
+        return { value: settles, decidedBy: right.decidedBy, detail: right.detail };
+      }
+      return { value: !settles, decidedBy: node };
+    }
+
+    const left = this.evaluate(node.left, scope).value;
+    const right = this.evaluate(node.right, scope).value;
+    const detail = this.describeOperand(node.left, left) ?? this.describeOperand(node.right, right);
+    let value: boolean;
+
+    switch (node.operator) {
+      case '==':
+        value = isEqual(left, right);
+        break;
+      case '!=':
+        value = !isEqual(left, right);
+        break;
+      case 'in':
+        if (!Array.isArray(right)) {
+          throw new Error(`'${this.text(node.right)}' is not a list`);
+        }
+        value = right.some(item => isEqual(left, item));
+        break;
+      default: {
+        const order = compareNumeric(toNumeric(left, this.text(node.left)), toNumeric(right, this.text(node.right)));
+        value = node.operator === '<' ? order < 0
+          : node.operator === '<=' ? order <= 0
+          : node.operator === '>' ? order > 0
+          : order >= 0;
+      }
+    }
+
+    return { value, decidedBy: node, detail };
+  }
+
+  private evaluateCall(node: CallNode, scope: EvaluationContext): Evaluation {
+    const target = this.evaluate(node.target, scope).value;
+    const targetText = this.text(node.target);
+
+    if (!Array.isArray(target)) {
+      throw new Error(`'${targetText}' is not a list`);
+    }
+
+    if (node.method === 'count') {
+      return { value: BigInt(target.length), decidedBy: node, detail: `${targetText} has ${target.length} item(s)` };
+    }
+
+    if (node.method === 'contains') {
+      const needle = this.evaluate(node.args[0], scope).value;
+      return { value: target.some(item => isEqual(item, needle)), decidedBy: node };
+    }
+
+    const [variable, predicate] = node.args;
+    if (variable?.kind !== 'identifier' || !predicate) {
+      throw new Error(`Quantifier '${node.method}' on '${targetText}' is missing its bound variable`);
+    }
+
+    if (node.method === 'filter') {
+      const value = target.filter(item => this.toBoolean(this.evaluate(predicate, { ...scope, [variable.name]: item }).value, predicate));
+      return { value, decidedBy: node };
+    }
+
+    // all() is decided by the first item that fails, any() by the first item that matches
+    const settles = node.method === 'any';
+    for (let i = 0; i < target.length; i++) {
+      const result = this.evaluate(predicate, { ...scope, [variable.name]: target[i] });
+      if (this.toBoolean(result.value, predicate) === settles) {
+        const detail = `item ${i} of ${targetText}${result.detail ? `; ${result.detail}` : ''}`;
+        return { value: settles, decidedBy: result.decidedBy, detail };
+      }
+    }
+
+    const detail = target.length === 0
+      ? `${targetText} is empty`
+      : `${settles ? 'no' : 'every'} item of ${targetText} matched`;
+    return { value: !settles, decidedBy: node, detail };
+  }
+
+  private describeOperand(node: ExpressionNode, value: unknown): string | undefined {
+    if (node.kind === 'literal' || node.kind === 'list') {
+      return undefined;
+    }
+    return `${this.text(node)} is ${formatValue(value)}`;
+  }
+
+  private toBoolean(value: unknown, node: ExpressionNode): boolean {
+    if (typeof value !== 'boolean') {
+      throw new Error(`'${this.text(node)}' does not evaluate to a boolean`);
+    }
+    return value;
+  }
+
+  text(node: ExpressionNode): string {
+    return this.source.slice(node.start.offset, node.end.offset);
+  }
+}
+
+/**
+ * Evaluates a parsed condition against a request context
+ * @param source The condition expression the AST was parsed from
+ * @param ast The parsed condition
+ * @param context Namespace values derived from the request
+ * @returns The boolean result and the sub-expression that decided it
+ * @throws Error if the condition references data the request does not provide
+ */
+export function evaluateCondition(source: string, ast: ExpressionNode, context: EvaluationContext): ConditionEvaluation {
+  const evaluator = new ConditionEvaluator(source);
+  const result = evaluator.evaluate(ast, context);
+
+  if (typeof result.value !== 'boolean') {
+    throw new Error('Condition does not evaluate to a boolean');
+  }
+
+  return { value: result.value, decidedBy: evaluator.text(result.decidedBy), detail: result.detail };
+}
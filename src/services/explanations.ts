@@ -0,0 +1,176 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Finding, LlmProvider } from '../types';
+import { mapWithConcurrency } from '../utils';
+import { generateBatchExplanations, generateExplanation } from './ai';
+import { Redactor } from './redaction';
+
+/**
+ * Stores explanations between runs
+ */
+export interface ExplanationCache {
+  get(key: string): Promise<string | undefined>;
+  set(key: string, explanation: string): Promise<void>;
+}
+
+/**
+ * Options for explaining the findings of a check run
+ */
+export interface ExplainOptions {
+  /** Maximum number of LLM requests in flight */
+  concurrency: number;
+  /** Explain all findings of a file with one request instead of one request per finding */
+  batch?: boolean;
+  cache?: ExplanationCache;
+  /** Redactor of the provider when redaction is on; cached explanations are stored redacted */
+  redactor?: Redactor;
+}
+
+/**
+ * Returns the default explanation cache directory: TURNKEY_COPILOT_CACHE_DIR, or
+ * turnkey-copilot/explanations inside XDG_CACHE_HOME or ~/.cache
+ * @param env Environment variables
+ * @returns Path of the cache directory
+ */
+export function defaultCacheDirectory(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.TURNKEY_COPILOT_CACHE_DIR) {
+    return env.TURNKEY_COPILOT_CACHE_DIR;
+  }
+  return path.join(env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache'), 'turnkey-copilot', 'explanations');
+}
+
+/**
+ * Creates an on-disk explanation cache with one JSON file per entry. The cache is best-effort:
+ * entries that cannot be read or written are treated as missing.
+ * @param directory Directory of the cache files, created on the first write
+ * @returns The cache
+ */
+export function createExplanationCache(directory: string): ExplanationCache {
+  const entryPath = (key: string) => path.join(directory, `${key}.json`);
+
+  return {
+    async get(key) {
+      try {
+        const entry = JSON.parse(await fs.readFile(entryPath(key), 'utf-8'));
+        return typeof entry.explanation === 'string' ? entry.explanation : undefined;
+      } catch {
+        return undefined;
+      }
+    },
+    async set(key, explanation) {
+      try {
+        await fs.mkdir(directory, { recursive: true });
+        await fs.writeFile(entryPath(key), JSON.stringify({ explanation, createdAt: new Date().toISOString() }), 'utf-8');
+      } catch {
+        // A read-only or full disk only costs a repeated request on the next run
+      }
+    }
+  };
+}
+
+/**
+ * Computes the cache key of an explanation from the rule, the issue text, the model that explains it
+ * and whether the model saw redacted text
+ * @param finding The finding
+ * @param provider The provider that explains it
+ * @param redacted True when the request was redacted
+ * @returns Hex-encoded SHA-256 key
+ */
+export function explanationCacheKey(finding: Finding, provider: LlmProvider, redacted: boolean): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify([provider.name, provider.model, redacted, finding.ruleId, finding.message, finding.suggestion ?? '']))
+    .digest('hex');
+}
+
+/**
+ * Explains the findings of one or more files, reusing cached explanations and running
+ * the remaining requests with bounded concurrency. Failed requests produce an error
+ * message as the explanation and are not cached. With a redactor, the cache holds the redacted
+ * explanations and their values are put back when they are read.
+ * @param groups Findings of each checked file
+ * @param provider LLM provider that answers the requests
+ * @param options Concurrency, batching and cache options
+ * @returns Explanation of every finding
+ */
+export async function explainFindings(groups: Finding[][], provider: LlmProvider, options: ExplainOptions): Promise<Map<Finding, string>> {
+  const explanations = new Map<Finding, string>();
+  const pending: Finding[][] = [];
+
+  for (const findings of groups) {
+    const uncached: Finding[] = [];
+    for (const finding of findings) {
+      const cached = await options.cache?.get(explanationCacheKey(finding, provider, !!options.redactor));
+      if (cached !== undefined) {
+        explanations.set(finding, options.redactor ? entryRedactor(finding, options.redactor).restore(cached) : cached);
+      } else {
+        uncached.push(finding);
+      }
+    }
+
+    // The template provider answers locally, so batching would only lose structure
+    if (options.batch && provider.name !== 'template' && uncached.length > 1) {
+      pending.push(uncached);
+    } else {
+      pending.push(...uncached.map(finding => [finding]));
+    }
+  }
+
+  await mapWithConcurrency(pending, options.concurrency, async batch => {
+    for (const [finding, result] of await explainBatch(batch, provider)) {
+      if (result instanceof Error) {
+        explanations.set(finding, `Failed to generate explanation with the ${provider.name} provider: ${result.message}. Please check your LLM settings and try again.`);
+      } else {
+        explanations.set(finding, result);
+        const stored = options.redactor ? entryRedactor(finding, options.redactor).redact(result) : result;
+        await options.cache?.set(explanationCacheKey(finding, provider, !!options.redactor), stored);
+      }
+    }
+  });
+
+  return explanations;
+}
+
+/**
+ * Explains a batch of findings with one request, or one request per finding when the batch has a
+ * single finding or the batched answer is unusable
+ * @param batch Findings to explain
+ * @param provider LLM provider
+ * @returns Each finding with its explanation, or the error of its failed request
+ */
+async function explainBatch(batch: Finding[], provider: LlmProvider): Promise<Array<[Finding, string | Error]>> {
+  if (batch.length > 1) {
+    try {
+      const results = await generateBatchExplanations(batch, provider);
+      return batch.map((finding, i) => [finding, results[i]]);
+    } catch {
+      // Fall back to separate requests below
+    }
+  }
+
+  // Sequential, so a failed batch stays within its concurrency slot
+  const results: Array<[Finding, string | Error]> = [];
+  for (const finding of batch) {
+    try {
+      results.push([finding, await generateExplanation(finding, provider)]);
+    } catch (error) {
+      results.push([finding, error instanceof Error ? error : new Error(String(error))]);
+    }
+  }
+  return results;
+}
+
+/**
+ * Creates the redactor of one cache entry. Placeholders are numbered by the issue text alone, so an
+ * entry written in one run is restored with the same values in the next, whatever else was redacted.
+ * @param finding The finding the explanation belongs to
+ * @param redactor Redactor of the session, whose registered values are used
+ * @returns The redactor
+ */
+function entryRedactor(finding: Finding, redactor: Redactor): Redactor {
+  const entry = redactor.fork();
+  entry.redact(`${finding.message}\n${finding.suggestion ?? ''}`);
+  return entry;
+}
@@ -0,0 +1,780 @@
+import {
+  BinaryNode,
+  CallNode,
+  ConditionAnalysis,
+  ConditionDiagnostic,
+  ExpressionNode,
+  FieldType,
+  LiteralNode,
+  SourcePosition,
+} from '../types';
+import { CONDITION_NAMESPACES, describeType } from './namespaces';
+import { suggestClosest } from '../utils';
+
+type TokenType = 'identifier' | 'number' | 'string' | 'operator' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+/**
+ * Raised by the lexer and parser; converted into a diagnostic by parseCondition
+ */
+class ConditionSyntaxError extends Error {
+  constructor(message: string, public readonly position: SourcePosition) {
+    super(message);
+  }
+}
+
+// Longest operators first so that '==' wins over '='
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '..', '<', '>', '!', '.', '(', ')', '[', ']', ','];
+const COMPARISON_OPERATORS = ['==', '!=', '<', '<=', '>', '>=', 'in'];
+const KEYWORDS: Record<string, LiteralNode['value']> = { true: true, false: false, null: null };
+const QUANTIFIERS = ['all', 'any', 'filter'];
+const LIST_METHODS = [...QUANTIFIERS, 'count', 'contains'];
+
+const BOOLEAN: FieldType = { kind: 'boolean' };
+const NUMBER: FieldType = { kind: 'number' };
+const STRING: FieldType = { kind: 'string' };
+const ANY: FieldType = { kind: 'any' };
+
+/**
+ * Formats a source position for use in messages
+ * @param position The source position
+ * @returns Text like "line 1, column 5"
+ */
+export function formatPosition(position: { line: number; column: number }): string {
+  return `line ${position.line}, column ${position.column}`;
+}
+
+/**
+ * Splits a condition expression into tokens
+ * @param source The condition expression
+ * @returns Tokens, terminated by an eof token
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let offset = 0;
+  let line = 1;
+  let column = 1;
+
+  const position = (): SourcePosition => ({ line, column, offset });
+  const advance = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      if (source[offset] === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      offset++;
+    }
+  };
+
+  while (offset < source.length) {
+    const char = source[offset];
+
+    if (/\s/.test(char)) {
+      advance(1);
+      continue;
+    }
+
+    const start = position();
+
+    // String literals, single or double quoted, with backslash escapes
+    if (char === '\'' || char === '"') {
+      let value = '';
+      advance(1);
+      while (offset < source.length && source[offset] !== char) {
+        if (source[offset] === '\\' && offset + 1 < source.length) {
+          advance(1);
+        }
+        value += source[offset];
+        advance(1);
+      }
+      if (offset >= source.length) {
+        throw new ConditionSyntaxError(`Unterminated string literal starting at ${formatPosition(start)}`, start);
+      }
+      advance(1);
+      tokens.push({ type: 'string', value, start, end: position() });
+      continue;
+    }
+
+    // Number literals; a '.' only belongs to the number when followed by a digit so that 0..10 lexes as a range
+    if (/[0-9]/.test(char)) {
+      const match = /^[0-9]+(\.[0-9]+)?/.exec(source.slice(offset))!;
+      const trailing = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(offset + match[0].length));
+      if (trailing) {
+        const raw = match[0] + trailing[0];
+        throw new ConditionSyntaxError(`Invalid number literal '${raw}'; wrap hex values and addresses in quotes`, start);
+      }
+      advance(match[0].length);
+      tokens.push({ type: 'number', value: match[0], start, end: position() });
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(offset))!;
+      advance(match[0].length);
+      tokens.push({ type: 'identifier', value: match[0], start, end: position() });
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, offset));
+    if (operator) {
+      advance(operator.length);
+      tokens.push({ type: 'operator', value: operator, start, end: position() });
+      continue;
+    }
+
+    const hint = char === '=' ? '; did you mean \'==\'?'
+      : char === '&' ? '; did you mean \'&&\'?'
+      : char === '|' ? '; did you mean \'||\'?'
+      : '';
+    throw new ConditionSyntaxError(`Unexpected character '${char}'${hint}`, start);
+  }
+
+  const end = position();
+  tokens.push({ type: 'eof', value: '', start: end, end });
+  return tokens;
+}
+
+/**
+ * Describes a token for use in syntax error messages
+ * @param token The token
+ * @returns Human-readable token description
+ */
+function describeToken(token: Token): string {
+  switch (token.type) {
+    case 'eof':
+      return 'end of expression';
+    case 'string':
+      return `string '${token.value}'`;
+    case 'number':
+      return `number ${token.value}`;
+    case 'identifier':
+      return `identifier '${token.value}'`;
+    default:
+      return `'${token.value}'`;
+  }
+}
+
+/**
+ * Recursive-descent parser for the Turnkey policy condition language.
+ *
+ * Precedence, lowest first: ||, &&, comparisons (==, !=, <, <=, >, >=, in), !, postfix (.field, .method(...), [i], [a..b])
+ */
+class ConditionParser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const expression = this.parseOr();
+    const token = this.peek();
+
+    if (token.type !== 'eof') {
+      if (token.value === ')' || token.value === ']') {
+        throw new ConditionSyntaxError(`Unmatched '${token.value}'`, token.start);
+      }
+      throw new ConditionSyntaxError(`Unexpected ${describeToken(token)}; expected '&&', '||' or end of expression`, token.start);
+    }
+
+    return expression;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'eof') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private isOperator(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'operator' && token.value === value;
+  }
+
+  private expectClosing(value: string, opener: Token): Token {
+    const token = this.peek();
+    if (token.type === 'operator' && token.value === value) {
+      return this.next();
+    }
+    if (token.type === 'eof') {
+      throw new ConditionSyntaxError(`Missing '${value}' to close '${opener.value}' opened at ${formatPosition(opener.start)}`, opener.start);
+    }
+    throw new ConditionSyntaxError(`Unexpected ${describeToken(token)}; expected '${value}' to close '${opener.value}' opened at ${formatPosition(opener.start)}`, token.start);
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.isOperator('||')) {
+      this.next();
+      const right = this.parseAnd();
+      left = binary('||', left, right);
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseComparison();
+    while (this.isOperator('&&')) {
+      this.next();
+      const right = this.parseComparison();
+      left = binary('&&', left, right);
+    }
+    return left;
+  }
+
+  private parseComparison(): ExpressionNode {
+    const left = this.parseUnary();
+    if (!this.isComparison()) {
+      return left;
+    }
+
+    const operator = this.next().value as BinaryNode['operator'];
+    const right = this.parseUnary();
+
+    if (this.isComparison()) {
+      throw new ConditionSyntaxError('Comparison operators cannot be chained; combine comparisons with \'&&\'', this.peek().start);
+    }
+
+    return binary(operator, left, right);
+  }
+
+  private isComparison(): boolean {
+    const token = this.peek();
+    return (token.type === 'operator' || token.type === 'identifier') && COMPARISON_OPERATORS.includes(token.value);
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.isOperator('!')) {
+      const operator = this.next();
+      const operand = this.parseUnary();
+      return { kind: 'unary', operator: '!', operand, start: operator.start, end: operand.end };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let expression = this.parsePrimary();
+
+    for (;;) {
+      if (this.isOperator('.')) {
+        this.next();
+        const name = this.peek();
+        if (name.type !== 'identifier') {
+          throw new ConditionSyntaxError(`Expected field name after '.', found ${describeToken(name)}`, name.start);
+        }
+        this.next();
+
+        if (this.isOperator('(')) {
+          const opener = this.next();
+          const args: ExpressionNode[] = [];
+          if (!this.isOperator(')')) {
+            args.push(this.parseOr());
+            while (this.isOperator(',')) {
+              this.next();
+              args.push(this.parseOr());
+            }
+          }
+          const closer = this.expectClosing(')', opener);
+          expression = { kind: 'call', target: expression, method: name.value, args, start: expression.start, end: closer.end };
+        } else {
+          expression = { kind: 'member', object: expression, property: name.value, start: expression.start, end: name.end };
+        }
+      } else if (this.isOperator('[')) {
+        const opener = this.next();
+        const from = this.isOperator('..') ? undefined : this.parseOr();
+
+        if (this.isOperator('..')) {
+          this.next();
+          const to = this.isOperator(']') ? undefined : this.parseOr();
+          const closer = this.expectClosing(']', opener);
+          expression = { kind: 'slice', object: expression, from, to, start: expression.start, end: closer.end };
+        } else {
+          const closer = this.expectClosing(']', opener);
+          expression = { kind: 'index', object: expression, index: from!, start: expression.start, end: closer.end };
+        }
+      } else {
+        return expression;
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'number':
+        this.next();
+        return { kind: 'literal', valueType: 'number', value: Number(token.value), raw: token.value, start: token.start, end: token.end };
+      case 'string':
+        this.next();
+        return { kind: 'literal', valueType: 'string', value: token.value, raw: token.value, start: token.start, end: token.end };
+      case 'identifier':
+        if (token.value in KEYWORDS) {
+          this.next();
+          const value = KEYWORDS[token.value];
+          return { kind: 'literal', valueType: value === null ? 'null' : 'boolean', value, raw: token.value, start: token.start, end: token.end };
+        }
+        if (token.value === 'in') {
+          throw new ConditionSyntaxError('Unexpected \'in\'; expected a value before it', token.start);
+        }
+        this.next();
+        return { kind: 'identifier', name: token.value, start: token.start, end: token.end };
+      case 'eof':
+        throw new ConditionSyntaxError('Unexpected end of expression', token.start);
+      default:
+        break;
+    }
+
+    if (token.value === '(') {
+      this.next();
+      const expression = this.parseOr();
+      this.expectClosing(')', token);
+      return expression;
+    }
+
+    if (token.value === '[') {
+      this.next();
+      const elements: ExpressionNode[] = [];
+      if (!this.isOperator(']')) {
+        elements.push(this.parseOr());
+        while (this.isOperator(',')) {
+          this.next();
+          elements.push(this.parseOr());
+        }
+      }
+      const closer = this.expectClosing(']', token);
+      return { kind: 'list', elements, start: token.start, end: closer.end };
+    }
+
+    if (token.value === ')' || token.value === ']') {
+      throw new ConditionSyntaxError(`Unmatched '${token.value}'`, token.start);
+    }
+
+    throw new ConditionSyntaxError(`Unexpected ${describeToken(token)}`, token.start);
+  }
+}
+
+function binary(operator: BinaryNode['operator'], left: ExpressionNode, right: ExpressionNode): BinaryNode {
+  return { kind: 'binary', operator, left, right, start: left.start, end: right.end };
+}
+
+/**
+ * Checks whether two types may be compared with == or !=
+ * @param a First type
+ * @param b Second type
+ * @returns True if the types are compatible
+ */
+function isComparable(a: FieldType, b: FieldType): boolean {
+  if (a.kind === 'any' || b.kind === 'any' || a.kind === 'null' || b.kind === 'null') {
+    return true;
+  }
+
+  const textual = ['string', 'address'];
+  if (textual.includes(a.kind) && textual.includes(b.kind)) {
+    return true;
+  }
+
+  if (a.kind === 'list' && b.kind === 'list') {
+    return isComparable(a.element, b.element);
+  }
+
+  if (a.kind === 'object' && b.kind === 'object') {
+    return a.name === b.name;
+  }
+
+  return a.kind === b.kind;
+}
+
+/**
+ * Type-checks a condition AST against the known policy namespaces
+ */
+class ConditionTypeChecker {
+  readonly diagnostics: ConditionDiagnostic[] = [];
+
+  constructor(private readonly source: string) {}
+
+  check(node: ExpressionNode, scope: Record<string, FieldType>): FieldType {
+    switch (node.kind) {
+      case 'literal':
+        return { kind: node.valueType } as FieldType;
+
+      case 'identifier': {
+        const type = scope[node.name];
+        if (!type) {
+          const suggestion = suggestClosest(node.name, Object.keys(scope));
+          this.report(node, `Unknown identifier '${node.name}'${suggestion ? `; did you mean '${suggestion}'?` : ''}`, 'unknown-identifier');
+          return ANY;
+        }
+        return type;
+      }
+
+      case 'member': {
+        const objectType = this.check(node.object, scope);
+        if (objectType.kind === 'any') {
+          return ANY;
+        }
+        if (objectType.kind === 'list') {
+          const path = this.text(node.object);
+          this.report(node, `'${path}' is a list and must be used with a quantifier such as ${path}.all(x, x.${node.property} == ...) or ${path}.any(...) to access '${node.property}'`, 'missing-quantifier');
+          return ANY;
+        }
+        if (objectType.kind !== 'object') {
+          this.report(node, `Cannot access field '${node.property}' on ${describeType(objectType)} '${this.text(node.object)}'`);
+          return ANY;
+        }
+        const fieldType = objectType.fields[node.property];
+        if (!fieldType) {
+          const suggestion = suggestClosest(node.property, Object.keys(objectType.fields));
+          this.report(node, `Unknown field '${node.property}' on '${this.text(node.object)}'${suggestion ? `; did you mean '${suggestion}'?` : ''}`, 'unknown-field');
+          return ANY;
+        }
+        return fieldType;
+      }
+
+      case 'call':
+        return this.checkCall(node, scope);
+
+      case 'index': {
+        const objectType = this.check(node.object, scope);
+        const indexType = this.check(node.index, scope);
+        this.expectType(node.index, indexType, 'number', 'List index');
+        if (objectType.kind === 'list') {
+          return objectType.element;
+        }
+        if (objectType.kind !== 'any') {
+          this.report(node, `Cannot index into ${describeType(objectType)} '${this.text(node.object)}'`);
+        }
+        return ANY;
+      }
+
+      case 'slice': {
+        const objectType = this.check(node.object, scope);
+        for (const bound of [node.from, node.to]) {
+          if (bound) {
+            this.expectType(bound, this.check(bound, scope), 'number', 'Slice bound');
+          }
+        }
+        if (objectType.kind === 'string' || objectType.kind === 'address') {
+          return STRING;
+        }
+        if (objectType.kind === 'list' || objectType.kind === 'any') {
+          return objectType;
+        }
+        this.report(node, `Cannot slice ${describeType(objectType)} '${this.text(node.object)}'`);
+        return ANY;
+      }
+
+      case 'list': {
+        const elementTypes = node.elements.map(element => this.check(element, scope));
+        const first = elementTypes.find(type => type.kind !== 'any' && type.kind !== 'null');
+        if (!first) {
+          return { kind: 'list', element: ANY };
+        }
+        const mixed = elementTypes.some(type => !isComparable(first, type));
+        return { kind: 'list', element: mixed ? ANY : first };
+      }
+
+      case 'unary': {
+        const operandType = this.check(node.operand, scope);
+        this.expectType(node.operand, operandType, 'boolean', 'Operand of \'!\'');
+        return BOOLEAN;
+      }
+
+      case 'binary':
+        return this.checkBinary(node, scope);
+    }
+  }
+
+  private checkBinary(node: BinaryNode, scope: Record<string, FieldType>): FieldType {
+    const left = this.check(node.left, scope);
+    const right = this.check(node.right, scope);
+
+    switch (node.operator) {
+      case '&&':
+      case '||':
+        this.expectType(node.left, left, 'boolean', `Left operand of '${node.operator}'`);
+        this.expectType(node.right, right, 'boolean', `Right operand of '${node.operator}'`);
+        break;
+
+      case '<':
+      case '<=':
+      case '>':
+      case '>=':
+        this.expectType(node.left, left, 'number', `Left operand of '${node.operator}'`);
+        this.expectType(node.right, right, 'number', `Right operand of '${node.operator}'`);
+        break;
+
+      case 'in':
+        if (right.kind === 'any') {
+          break;
+        }
+        if (right.kind !== 'list') {
+          this.report(node.right, `Right operand of 'in' must be a list, but '${this.text(node.right)}' is ${describeType(right)}`);
+        } else if (!isComparable(left, right.element)) {
+          this.report(node, `Cannot look up ${describeType(left)} '${this.text(node.left)}' in ${describeType(right)} '${this.text(node.right)}'`);
+        }
+        break;
+
+      default:
+        if (!isComparable(left, right)) {
+          const listHint = left.kind === 'list' || right.kind === 'list'
+            ? '; lists must be used with a quantifier (all/any)'
+            : '';
+          this.report(node, `Cannot compare ${describeType(left)} '${this.text(node.left)}' with ${describeType(right)} '${this.text(node.right)}'${listHint}`, listHint ? 'missing-quantifier' : 'type-mismatch');
+        }
+        break;
+    }
+
+    return BOOLEAN;
+  }
+
+  private checkCall(node: CallNode, scope: Record<string, FieldType>): FieldType {
+    const targetType = this.check(node.target, scope);
+    const target = this.text(node.target);
+
+    if (targetType.kind === 'any') {
+      node.args.forEach(arg => this.check(arg, scope));
+      return ANY;
+    }
+
+    if (targetType.kind !== 'list') {
+      this.report(node, `Method '${node.method}' is not available on ${describeType(targetType)} '${target}'`);
+      return ANY;
+    }
+
+    if (!LIST_METHODS.includes(node.method)) {
+      const suggestion = suggestClosest(node.method, LIST_METHODS);
+      this.report(node, `Unknown method '${node.method}' on '${target}'${suggestion ? `; did you mean '${suggestion}'?` : ''}`, 'unknown-method');
+      return ANY;
+    }
+
+    if (node.method === 'count') {
+      if (node.args.length > 0) {
+        this.report(node, `'${target}.count()' takes no arguments`);
+      }
+      return NUMBER;
+    }
+
+    if (node.method === 'contains') {
+      if (node.args.length !== 1) {
+        this.report(node, `'${target}.contains(...)' takes exactly one argument`);
+        return BOOLEAN;
+      }
+      const argType = this.check(node.args[0], scope);
+      if (!isComparable(argType, targetType.element)) {
+        this.report(node.args[0], `Cannot look up ${describeType(argType)} '${this.text(node.args[0])}' in ${describeType(targetType)} '${target}'`);
+      }
+      return BOOLEAN;
+    }
+
+    // Quantifiers: all, any, filter
+    const [variable, predicate] = node.args;
+    if (node.args.length === 0) {
+      this.report(node, `Quantifier '${node.method}' on '${target}' expects a bound variable and a predicate, e.g. ${target}.${node.method}(x, <predicate>)`, 'missing-bound-variable');
+      return node.method === 'filter' ? targetType : BOOLEAN;
+    }
+    if (node.args.length === 1 || variable.kind !== 'identifier') {
+      this.report(variable, `Quantifier '${node.method}' on '${target}' is missing its bound variable; expected ${target}.${node.method}(x, <predicate>)`, 'missing-bound-variable');
+      node.args.forEach(arg => this.check(arg, { ...scope, [this.guessVariable(arg)]: targetType.element }));
+      return node.method === 'filter' ? targetType : BOOLEAN;
+    }
+    if (node.args.length > 2) {
+      this.report(node.args[2], `Quantifier '${node.method}' takes exactly two arguments: a bound variable and a predicate`);
+    }
+
+    const predicateType = this.check(predicate, { ...scope, [variable.name]: targetType.element });
+    this.expectType(predicate, predicateType, 'boolean', `Predicate of '${node.method}'`);
+
+    return node.method === 'filter' ? targetType : BOOLEAN;
+  }
+
+  /**
+   * Finds the name the author most likely meant as the bound variable, so that a
+   * predicate written without one (e.g. transfers.all(transfer.from == 'x')) does not
+   * produce a cascade of unknown identifier errors
+   */
+  private guessVariable(node: ExpressionNode): string {
+    let current = node;
+    while (current.kind !== 'identifier') {
+      if (current.kind === 'member' || current.kind === 'index' || current.kind === 'slice') {
+        current = current.object;
+      } else if (current.kind === 'call') {
+        current = current.target;
+      } else if (current.kind === 'binary') {
+        current = current.left;
+      } else if (current.kind === 'unary') {
+        current = current.operand;
+      } else {
+        return '';
+      }
+    }
+    return current.name;
+  }
+
+  private expectType(node: ExpressionNode, actual: FieldType, expected: FieldType['kind'], label: string): void {
+    if (actual.kind !== expected && actual.kind !== 'any') {
+      this.report(node, `${label} must be ${expected}, but '${this.text(node)}' is ${describeType(actual)}`);
+    }
+  }
+
+  private report(node: ExpressionNode, message: string, code: ConditionDiagnostic['code'] = 'type-mismatch'): void {
+    this.diagnostics.push({ kind: 'type', code, message, line: node.start.line, column: node.start.column });
+  }
+
+  private text(node: ExpressionNode): string {
+    return this.source.slice(node.start.offset, node.end.offset);
+  }
+}
+
+/**
+ * Parses a policy condition expression into an AST
+ * @param source The condition expression
+ * @returns The AST, or a syntax diagnostic
+ */
+export function parseCondition(source: string): ConditionAnalysis {
+  try {
+    const ast = new ConditionParser(tokenize(source)).parse();
+    return { ast, diagnostics: [] };
+  } catch (error) {
+    if (error instanceof ConditionSyntaxError) {
+      return {
+        diagnostics: [{ kind: 'syntax', code: 'syntax', message: error.message, line: error.position.line, column: error.position.column }],
+      };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parses and type-checks a policy condition expression against the known namespaces
+ * @param source The condition expression
+ * @returns The AST with any syntax or type diagnostics
+ */
+export function analyzeCondition(source: string): ConditionAnalysis {
+  const parsed = parseCondition(source);
+  if (!parsed.ast) {
+    return parsed;
+  }
+
+  const checker = new ConditionTypeChecker(source);
+  const type = checker.check(parsed.ast, CONDITION_NAMESPACES);
+
+  if (type.kind !== 'boolean' && type.kind !== 'any') {
+    checker.diagnostics.push({
+      kind: 'type',
+      code: 'type-mismatch',
+      message: `Condition must evaluate to a boolean, but evaluates to ${describeType(type)}`,
+      line: parsed.ast.start.line,
+      column: parsed.ast.start.column,
+    });
+  }
+
+  return { ast: parsed.ast, diagnostics: checker.diagnostics };
+}
+
+/**
+ * Visits every node of a condition AST, parents before children
+ * @param node The root node
+ * @param visit Callback invoked for each node
+ */
+export function walkExpression(node: ExpressionNode, visit: (node: ExpressionNode) => void): void {
+  visit(node);
+
+  switch (node.kind) {
+    case 'member':
+      walkExpression(node.object, visit);
+      break;
+    case 'call':
+      walkExpression(node.target, visit);
+      node.args.forEach(arg => walkExpression(arg, visit));
+      break;
+    case 'index':
+      walkExpression(node.object, visit);
+      walkExpression(node.index, visit);
+      break;
+    case 'slice':
+      walkExpression(node.object, visit);
+      if (node.from) walkExpression(node.from, visit);
+      if (node.to) walkExpression(node.to, visit);
+      break;
+    case 'list':
+      node.elements.forEach(element => walkExpression(element, visit));
+      break;
+    case 'unary':
+      walkExpression(node.operand, visit);
+      break;
+    case 'binary':
+      walkExpression(node.left, visit);
+      walkExpression(node.right, visit);
+      break;
+    default:
+      break;
+  }
+}
+
+/**
+ * Finds string literals that still contain template placeholders such as <SENDER_ADDRESS>
+ * @param ast The condition AST
+ * @returns Placeholder literals in source order
+ */
+export function findPlaceholders(ast: ExpressionNode): LiteralNode[] {
+  const placeholders: LiteralNode[] = [];
+
+  walkExpression(ast, node => {
+    if (node.kind === 'literal' && node.valueType === 'string' && /<[A-Z0-9_]+>/.test(String(node.value))) {
+      placeholders.push(node);
+    }
+  });
+
+  return placeholders;
+}
+
+/**
+ * Finds the wallet IDs a condition compares wallet.id with, e.g. in wallet.id == '...' or wallet.id in ['...']
+ * @param condition The condition expression
+ * @returns Wallet IDs in source order; none if the condition does not parse
+ */
+export function findWalletIds(condition: string): string[] {
+  const { ast } = parseCondition(condition);
+  if (!ast) {
+    return [];
+  }
+
+  const ids: string[] = [];
+  walkExpression(ast, node => {
+    if (node.kind !== 'binary' || !['==', '!=', 'in'].includes(node.operator)) {
+      return;
+    }
+    const [field, values] = isWalletId(node.left) ? [node.left, node.right] : isWalletId(node.right) && node.operator !== 'in' ? [node.right, node.left] : [];
+    if (!field || !values) {
+      return;
+    }
+    for (const value of values.kind === 'list' ? values.elements : [values]) {
+      if (value.kind === 'literal' && value.valueType === 'string' && !ids.includes(String(value.value))) {
+        ids.push(String(value.value));
+      }
+    }
+  });
+  return ids;
+}
+
+/**
+ * Checks whether a condition node is wallet.id
+ * @param node The node
+ * @returns True for wallet.id
+ */
+function isWalletId(node: ExpressionNode): boolean {
+  return node.kind === 'member' && node.property === 'id' && node.object.kind === 'identifier' && node.object.name === 'wallet';
+}
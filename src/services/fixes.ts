@@ -0,0 +1,65 @@
+import { Finding, Fix, JsonEdit } from '../types';
+import { applyJsonEdit } from '../utils/json';
+
+/**
+ * Parses NAME=value assignments given with --set
+ * @param assignments Assignments from the command line
+ * @returns Variable values by name
+ * @throws Error if an assignment has no "="
+ */
+export function parseAssignments(assignments: string[] = []): Record<string, string> {
+  const variables: Record<string, string> = {};
+
+  for (const assignment of assignments) {
+    const separator = assignment.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`Invalid --set value: ${assignment}. Use NAME=value, e.g. --set SENDER_ADDRESS=<address>`);
+    }
+    variables[assignment.slice(0, separator).trim()] = assignment.slice(separator + 1);
+  }
+
+  return variables;
+}
+
+/**
+ * Lists the variables a fix needs that have not been supplied
+ * @param fix The fix
+ * @param variables Variable values supplied with --set
+ * @returns Names of the missing variables
+ */
+export function missingVariables(fix: Fix, variables: Record<string, string>): string[] {
+  return fix.edits
+    .map(edit => edit.variable)
+    .filter((name): name is string => name !== undefined && variables[name] === undefined);
+}
+
+/**
+ * Applies the fix of a finding to the source text of the checked file
+ * @param text Source text
+ * @param finding Finding with a fix
+ * @param variables Variable values supplied with --set
+ * @returns The fixed source text
+ * @throws Error if the finding has no fix, a variable is missing, or an edit does not apply
+ */
+export function applyFix(text: string, finding: Finding, variables: Record<string, string>): string {
+  if (!finding.fix) {
+    throw new Error(`${finding.ruleId} has no automatic fix`);
+  }
+
+  const missing = missingVariables(finding.fix, variables);
+  if (missing.length > 0) {
+    throw new Error(`Missing value for ${missing.map(name => `--set ${name}=<value>`).join(', ')}`);
+  }
+
+  return finding.fix.edits.reduce((current, edit) => applyJsonEdit(current, resolveEdit(edit, variables)), text);
+}
+
+/**
+ * Substitutes the variable of an edit with its value
+ * @param edit The edit
+ * @param variables Variable values supplied with --set
+ * @returns Edit with a concrete value
+ */
+function resolveEdit(edit: JsonEdit, variables: Record<string, string>): JsonEdit {
+  return edit.variable === undefined ? edit : { ...edit, value: variables[edit.variable] };
+}
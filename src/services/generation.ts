@@ -0,0 +1,123 @@
+import { ChatMessage, Finding, LlmProvider, SimplifiedPolicy } from '../types';
+import { extractJsonObject } from '../utils/json';
+import { listConditionFields } from './namespaces';
+import { analyzePolicy } from './policy';
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+/**
+ * Outcome of generating a policy
+ */
+export interface PolicyGenerationResult {
+  /** The last policy the model produced, or undefined if it never produced a policy object */
+  policy?: SimplifiedPolicy;
+  /** True when the policy passed analysis without errors */
+  valid: boolean;
+  /** Number of requests made */
+  attempts: number;
+  /** Findings of the last policy */
+  findings: Finding[];
+}
+
+/**
+ * Options for generating a policy
+ */
+export interface PolicyGenerationOptions {
+  /** Maximum number of requests, including the first one */
+  maxAttempts?: number;
+  /** Called after each attempt that did not produce a valid policy */
+  onRetry?: (attempt: number, problems: string[]) => void;
+}
+
+/**
+ * Generates a simplified Turnkey policy from a natural-language description. Each answer is
+ * checked with analyzePolicy, and the model is asked to correct the problems until the policy
+ * has no errors or the attempts are used up.
+ * @param description What the policy should allow or deny
+ * @param provider LLM provider that writes the policy
+ * @param options Retry options
+ * @returns The last policy with its findings
+ */
+export async function generatePolicy(description: string, provider: LlmProvider, options: PolicyGenerationOptions = {}): Promise<PolicyGenerationResult> {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const messages: ChatMessage[] = [
+    { role: 'system', content: buildGenerationPrompt() },
+    { role: 'user', content: description }
+  ];
+  let result: PolicyGenerationResult = { valid: false, attempts: 0, findings: [] };
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const answer = await provider.complete({ messages });
+    messages.push({ role: 'assistant', content: answer });
+
+    let problems: string[];
+    try {
+      const policy = toSimplifiedPolicy(extractJsonObject(answer));
+      const { findings } = await analyzePolicy(policy);
+      result = { policy, valid: !findings.some(finding => finding.severity === 'error'), attempts: attempt, findings };
+      problems = findings
+        .filter(finding => finding.severity !== 'info')
+        .map(finding => `${finding.severity.toUpperCase()} ${finding.ruleId}: ${finding.message}${finding.suggestion ? `\n${finding.suggestion}` : ''}`);
+    } catch (error) {
+      result = { ...result, attempts: attempt };
+      problems = [error instanceof Error ? error.message : String(error)];
+    }
+
+    if (result.valid) {
+      return result;
+    }
+
+    if (attempt < maxAttempts) {
+      options.onRetry?.(attempt, problems);
+      messages.push({
+        role: 'user',
+        content: `The policy is not valid yet. Fix these problems and answer with the complete corrected policy JSON only:\n\n${problems.join('\n\n')}`
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Builds the system prompt that describes the policy format and the condition language
+ * @returns System message content
+ */
+function buildGenerationPrompt(): string {
+  return `You write Turnkey policies from a description of what they should allow or deny.
+
+Answer with a single JSON object and nothing else, in this format:
+{
+  "policyName": "Short description of the policy",
+  "effect": "EFFECT_ALLOW" or "EFFECT_DENY",
+  "condition": "expression in the Turnkey policy language",
+  "consensus": "optional expression over approvers, e.g. approvers.count() >= 2",
+  "notes": "optional explanation of the policy"
+}
+
+Conditions support ==, !=, <, <=, >, >=, in, &&, ||, !, string and number literals, lists like ['a', 'b'],
+and the list methods all, any, filter, count and contains, e.g.
+solana.tx.transfers.all(transfer, transfer.to in ['9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM'] && transfer.amount < 1000000000)
+
+Available fields:
+${listConditionFields().join('\n')}
+
+Amounts are in base units (wei, lamports, satoshis or token base units). Use the exact addresses,
+amounts and identifiers from the description. Never use placeholders like <ADDRESS>; if the
+description leaves out a value the policy needs, choose the most restrictive reasonable value
+and say so in "notes".`;
+}
+
+/**
+ * Checks that a parsed answer has the shape of a simplified policy
+ * @param data Parsed answer
+ * @returns The policy
+ * @throws Error describing what is wrong with the shape
+ */
+function toSimplifiedPolicy(data: Record<string, unknown>): SimplifiedPolicy {
+  const missing = ['policyName', 'effect', 'condition'].filter(key => typeof data[key] !== 'string');
+  if (missing.length > 0) {
+    throw new Error(`The policy must have string fields ${missing.map(key => `"${key}"`).join(', ')}`);
+  }
+  return data as SimplifiedPolicy;
+}
@@ -0,0 +1,528 @@
+/**
+ * What the bundled knowledge base knows about a rule
+ */
+export interface RuleKnowledge {
+  /** Why the finding occurs */
+  cause: string;
+  /** What goes wrong if it is not fixed */
+  impact: string;
+  /** Turnkey documentation with more context */
+  docs?: string;
+}
+
+const DOCS = {
+  credentials: 'https://docs.turnkey.com/developer-reference/api-overview/stamps',
+  policies: 'https://docs.turnkey.com/concepts/policies/overview',
+  policyLanguage: 'https://docs.turnkey.com/concepts/policies/language',
+  signing: 'https://docs.turnkey.com/api-reference/activities/sign-transaction',
+  ethereum: 'https://docs.turnkey.com/networks/ethereum',
+  solana: 'https://docs.turnkey.com/networks/solana',
+  bitcoin: 'https://docs.turnkey.com/networks/bitcoin'
+};
+
+// Explanations of individual rules, keyed by rule ID
+const RULES: Record<string, RuleKnowledge> = {
+  'config/missing-org-id': {
+    cause: 'Every Turnkey API request is scoped to an organization, and the org_id tells the SDK which one to use.',
+    impact: 'Requests fail before they reach your resources, usually with an authentication or "organization not found" error.',
+    docs: DOCS.credentials
+  },
+  'config/missing-wallet-id': {
+    cause: 'Signing and address derivation operate on a specific wallet, identified by its wallet_id.',
+    impact: 'Wallet operations cannot be performed, and code that falls back to a default wallet may sign with the wrong keys.'
+  },
+  'config/missing-api-public-key': {
+    cause: 'Turnkey authenticates API requests with a stamp: a signature made with your API private key plus the matching public key.',
+    impact: 'Without the public key, Turnkey cannot look up the API key and rejects every request.',
+    docs: DOCS.credentials
+  },
+  'config/api-public-key-format': {
+    cause: 'The API public key does not look like a Turnkey API key (a compressed P-256 public key in hex), so it may be a different credential or a truncated copy.',
+    impact: 'A malformed key does not match any registered API key, so stamps are rejected.',
+    docs: DOCS.credentials
+  },
+  'config/api-key-mismatch': {
+    cause: 'The public key derived from api_private_key is not api_public_key, usually because the two were copied from different API keys.',
+    impact: 'Every stamp names a public key whose private key did not make the signature, so Turnkey rejects all requests with 401.',
+    docs: DOCS.credentials
+  },
+  'config/missing-api-private-key': {
+    cause: 'The API private key signs the stamp attached to every request.',
+    impact: 'No request can be authenticated. Load the key from an environment variable or secret manager rather than committing it.',
+    docs: DOCS.credentials
+  },
+  'config/short-api-private-key': {
+    cause: 'The API private key is much shorter than a real key, so it is usually truncated, a placeholder, or the wrong credential.',
+    impact: 'Stamps cannot be produced or do not verify, and requests fail with signature errors.',
+    docs: DOCS.credentials
+  },
+  'config/unresolved-variable': {
+    cause: 'The value references an environment variable with ${VAR} that is not set in the environment or the .env file next to the configuration, and has no ${VAR:-default}.',
+    impact: 'The client sends the literal ${VAR} text instead of the value, so authentication or the request fails.',
+    docs: DOCS.credentials
+  },
+  'config/unreadable-secret-file': {
+    cause: 'The value references a key file with file: that does not exist or cannot be read. Paths are relative to the configuration file.',
+    impact: 'The client has no key to sign with, so no request can be authenticated.',
+    docs: DOCS.credentials
+  },
+  'config/plaintext-secret': {
+    cause: 'A private key or other secret is written directly in the configuration file instead of being referenced with ${VAR} or file:.',
+    impact: 'Anyone with access to the file, its repository or its history can sign requests as your API key. Rotate keys that were committed.',
+    docs: DOCS.credentials
+  },
+  'config/unknown-profile': {
+    cause: 'The profile chosen with --profile is not defined in the "profiles" section of the configuration.',
+    impact: 'The configuration cannot be used for that environment.'
+  },
+  'config/invalid-profile': {
+    cause: 'An entry of the "profiles" section is null, a string or another value instead of an object of fields.',
+    impact: 'The profile cannot be resolved, so the configuration cannot be used for that environment.'
+  },
+  'config/invalid-profile-extends': {
+    cause: 'The profile extends a profile that does not exist, or inherits from itself through a chain of "extends".',
+    impact: 'The fields of the profile cannot be resolved, so the profile cannot be used.'
+  },
+  'config/profile-shared-api-key': {
+    cause: 'The production profile uses the same API key as a development or staging profile.',
+    impact: 'Anyone with the development credentials, including CI jobs and laptops, can sign production requests.',
+    docs: DOCS.credentials
+  },
+  'config/profile-non-production-url': {
+    cause: 'The production profile points at a local, development, test or staging endpoint.',
+    impact: 'Production requests go to the wrong deployment and fail, or are handled by an environment with weaker controls.'
+  },
+  'config/profile-shared-wallet': {
+    cause: 'Two profiles use the same wallet ID, although each environment normally has its own wallets.',
+    impact: 'Tests can sign with the keys of another environment, including production funds.'
+  },
+  'config/missing-base-url': {
+    cause: 'The base URL tells the client which Turnkey API endpoint to call.',
+    impact: 'The client may call the wrong host or fail to connect at all.'
+  },
+  'config/insecure-base-url': {
+    cause: 'The base URL uses plain HTTP instead of HTTPS.',
+    impact: 'Request bodies, stamps and responses travel unencrypted and can be read or altered in transit.'
+  },
+  'policy/missing-required-approvals': {
+    cause: 'required_approvals sets how many approvers must sign off before an activity is executed.',
+    impact: 'Without it the quorum is ambiguous, and a single compromised credential may be enough to move funds.',
+    docs: DOCS.policies
+  },
+  'policy/invalid-required-approvals': {
+    cause: 'required_approvals must be a positive integer.',
+    impact: 'A zero or negative quorum either disables approvals or makes the policy impossible to satisfy.',
+    docs: DOCS.policies
+  },
+  'policy/no-signing-keys': {
+    cause: 'A policy must name the keys it governs.',
+    impact: 'A policy without signing keys does not protect anything, and requests may fall through to broader policies.',
+    docs: DOCS.policies
+  },
+  'policy/signing-key-missing-key-id': {
+    cause: 'Signing keys are matched by their key_id.',
+    impact: 'The entry cannot be matched to a key, so the policy silently does not apply to it.'
+  },
+  'policy/signing-key-missing-public-key': {
+    cause: 'The public key identifies which key a signature will come from.',
+    impact: 'Reviewers and tooling cannot verify which key the policy refers to.'
+  },
+  'policy/no-allowed-activities': {
+    cause: 'Turnkey denies activities by default, and allowed_activities lists what the policy permits.',
+    impact: 'Every request governed by this policy is denied.',
+    docs: DOCS.policies
+  },
+  'policy/activity-missing-type': {
+    cause: 'Each allowed activity must name the activity type it permits, e.g. ACTIVITY_TYPE_SIGN_TRANSACTION_V2.',
+    impact: 'An entry without a type matches nothing, so the activity you meant to allow is denied.'
+  },
+  'policy/activity-missing-resources': {
+    cause: 'Resources scope an allowed activity to specific wallets or keys.',
+    impact: 'An unscoped activity may be allowed on every resource in the organization.'
+  },
+  'policy/missing-policy-name': {
+    cause: 'Policies are identified by name in the dashboard, activity logs and simulation results.',
+    impact: 'Unnamed policies are hard to review and to trace when a request is allowed or denied.',
+    docs: DOCS.policies
+  },
+  'policy/missing-effect': {
+    cause: 'The effect decides whether a matching policy allows or denies the request.',
+    impact: 'Turnkey rejects the policy when it is created.',
+    docs: DOCS.policies
+  },
+  'policy/invalid-effect': {
+    cause: 'The effect must be exactly EFFECT_ALLOW or EFFECT_DENY.',
+    impact: 'Turnkey rejects the policy when it is created.',
+    docs: DOCS.policies
+  },
+  'policy/missing-condition': {
+    cause: 'The condition is the expression that decides which requests the policy matches.',
+    impact: 'A policy without a condition matches every request, which is rarely what an allow policy should do.',
+    docs: DOCS.policyLanguage
+  },
+  'policy/condition-not-string': {
+    cause: 'Conditions are written in the Turnkey policy language and stored as a single string.',
+    impact: 'Turnkey rejects the policy when it is created.',
+    docs: DOCS.policyLanguage
+  },
+  'policy/condition-placeholder': {
+    cause: 'The condition still contains a template placeholder such as <SENDER_ADDRESS> instead of a real value.',
+    impact: 'The placeholder never equals a real address, so the policy never matches, or is rejected as invalid syntax.',
+    docs: DOCS.policyLanguage
+  },
+  'policy/intent-missing-action': {
+    cause: 'A SIGN_WITH_INTENT activity must name the signing method it allows in intent_action, e.g. eth_signTypedData_v4.',
+    impact: 'The activity matches no signing requests, so intent signing is denied.'
+  },
+  'policy/intent-missing-parameters': {
+    cause: 'A SIGN_WITH_INTENT activity needs a parameters object that describes which intents it allows.',
+    impact: 'The activity matches no signing requests, or allows far more than intended.'
+  },
+  'transaction/missing-type': {
+    cause: 'The activity type tells Turnkey which operation to perform.',
+    impact: 'The request is rejected before any signing happens.',
+    docs: DOCS.signing
+  },
+  'transaction/unsupported-type': {
+    cause: 'Only ACTIVITY_TYPE_SIGN_TRANSACTION_V2 requests are signing requests this tool understands, and older versions are deprecated.',
+    impact: 'The request may be rejected or behave differently from what the policy expects.',
+    docs: DOCS.signing
+  },
+  'transaction/missing-timestamp': {
+    cause: 'timestampMs is part of the signed request body and protects against replays.',
+    impact: 'Turnkey rejects the request as malformed.',
+    docs: DOCS.signing
+  },
+  'transaction/missing-organization-id': {
+    cause: 'Activities are submitted to an organization identified by organizationId.',
+    impact: 'Turnkey cannot route the request and rejects it.',
+    docs: DOCS.signing
+  },
+  'transaction/missing-parameters': {
+    cause: 'Signing requests carry the key and transaction in their parameters object.',
+    impact: 'There is nothing to sign, so the request is rejected.',
+    docs: DOCS.signing
+  },
+  'transaction/missing-sign-with': {
+    cause: 'signWith selects the wallet account, private key or address that signs the transaction.',
+    impact: 'Turnkey cannot pick a key and rejects the request.',
+    docs: DOCS.signing
+  },
+  'transaction/missing-unsigned-transaction': {
+    cause: 'unsignedTransaction holds the serialized transaction to sign.',
+    impact: 'There is nothing to sign, so the request is rejected.',
+    docs: DOCS.signing
+  },
+  'transaction/invalid-hex': {
+    cause: 'The unsigned transaction must be a hex-encoded serialized transaction.',
+    impact: 'Turnkey cannot parse the payload, and policies that inspect it cannot evaluate.'
+  },
+  'transaction/missing-transaction-type': {
+    cause: 'parameters.type names the chain format of the transaction, e.g. TRANSACTION_TYPE_ETHEREUM.',
+    impact: 'Turnkey cannot decode the transaction and rejects the request.',
+    docs: DOCS.signing
+  },
+  'transaction/unsupported-blockchain': {
+    cause: 'The transaction type is not one Turnkey can decode and sign.',
+    impact: 'The request is rejected.'
+  },
+  'transaction/invalid-ethereum-address': {
+    cause: 'Ethereum addresses are 20 bytes written as 0x followed by 40 hex characters.',
+    impact: 'signWith does not match any account, so the request fails.',
+    docs: DOCS.ethereum
+  },
+  'transaction/invalid-solana-address': {
+    cause: 'Solana addresses are 32-byte public keys encoded in base58.',
+    impact: 'signWith does not match any account, so the request fails.',
+    docs: DOCS.solana
+  },
+  'transaction/invalid-bitcoin-address': {
+    cause: 'Bitcoin addresses must be valid base58check, bech32 or bech32m strings with a correct checksum.',
+    impact: 'signWith does not match any account, so the request fails.',
+    docs: DOCS.bitcoin
+  },
+  'ethereum/decode-failed': {
+    cause: 'The unsigned transaction is not a valid RLP-encoded legacy, EIP-2930 or EIP-1559 transaction.',
+    impact: 'Turnkey and any policy on eth.tx fields cannot read the transaction.',
+    docs: DOCS.ethereum
+  },
+  'ethereum/already-signed': {
+    cause: 'The payload already includes a signature.',
+    impact: 'Signing it again produces an invalid transaction or signs something other than intended.'
+  },
+  'ethereum/missing-chain-id': {
+    cause: 'Legacy transactions without EIP-155 replay protection do not commit to a chain ID.',
+    impact: 'The signed transaction can be replayed on any other EVM chain.'
+  },
+  'ethereum/chain-id-mismatch': {
+    cause: 'The transaction is for a different chain than the one you expected.',
+    impact: 'Funds may be sent on the wrong network, or the transaction is rejected by the node.'
+  },
+  'ethereum/zero-gas-limit': {
+    cause: 'Every transaction needs gas to execute.',
+    impact: 'Nodes reject the transaction.'
+  },
+  'ethereum/gas-limit-below-intrinsic': {
+    cause: 'Every transaction costs at least 21,000 gas plus a cost per calldata byte.',
+    impact: 'Nodes reject the transaction as intrinsic gas too low.'
+  },
+  'ethereum/zero-fee': {
+    cause: 'The transaction offers no fee to validators.',
+    impact: 'It will not be included in a block on most networks.'
+  },
+  'ethereum/priority-fee-above-max-fee': {
+    cause: 'In EIP-1559 transactions the priority fee is part of, and cannot exceed, the max fee per gas.',
+    impact: 'Nodes reject the transaction.'
+  },
+  'ethereum/contract-creation': {
+    cause: 'The transaction has no recipient, so it deploys a contract.',
+    impact: 'If you meant to send a transfer, the value ends up in a new contract instead.'
+  },
+  'ethereum/contract-creation-without-code': {
+    cause: 'The transaction deploys a contract but has no init code.',
+    impact: 'Any value sent is locked in an empty contract.'
+  },
+  'solana/decode-failed': {
+    cause: 'The unsigned transaction is not a valid legacy or v0 Solana message.',
+    impact: 'Turnkey and any policy on solana.tx fields cannot read the transaction.',
+    docs: DOCS.solana
+  },
+  'solana/no-instructions': {
+    cause: 'The message contains no instructions.',
+    impact: 'The transaction does nothing but still costs a fee.'
+  },
+  'solana/empty-blockhash': {
+    cause: 'Solana transactions must reference a recent blockhash.',
+    impact: 'Validators reject the transaction.'
+  },
+  'solana/sign-with-not-signer': {
+    cause: 'signWith is not one of the required signers of the message.',
+    impact: 'The signature does not authorize the transaction, so it fails on submission.',
+    docs: DOCS.solana
+  },
+  'solana/zero-transfer': {
+    cause: 'The transfer moves an amount of zero.',
+    impact: 'The transaction pays a fee without moving funds, which usually means the amount was not filled in.'
+  },
+  'bitcoin/decode-failed': {
+    cause: 'The unsigned transaction is neither a valid PSBT nor a raw Bitcoin transaction.',
+    impact: 'Turnkey cannot read or sign it.',
+    docs: DOCS.bitcoin
+  },
+  'bitcoin/no-inputs-or-outputs': {
+    cause: 'A Bitcoin transaction needs at least one input and one output.',
+    impact: 'Nodes reject the transaction.'
+  },
+  'bitcoin/psbt-missing-utxo': {
+    cause: 'Inputs of a PSBT should include the UTXO they spend.',
+    impact: 'The signer cannot verify input amounts, so fees cannot be checked and segwit signatures cannot be produced.',
+    docs: DOCS.bitcoin
+  },
+  'bitcoin/raw-missing-utxo': {
+    cause: 'Raw transactions do not carry the amounts of the outputs they spend.',
+    impact: 'Fees and the total amount spent cannot be verified before signing. Prefer a PSBT with UTXO information.'
+  },
+  'bitcoin/negative-fee': {
+    cause: 'The outputs are worth more than the inputs.',
+    impact: 'Nodes reject the transaction.'
+  },
+  'bitcoin/dust-output': {
+    cause: 'The output is below the dust limit for its script type.',
+    impact: 'Nodes will not relay the transaction.'
+  },
+  'bitcoin/sign-with-not-input': {
+    cause: 'signWith does not own any of the inputs being spent.',
+    impact: 'The signature does not unlock any input, so the transaction stays invalid.',
+    docs: DOCS.bitcoin
+  },
+  'file/not-found': {
+    cause: 'The file path does not exist.',
+    impact: 'Nothing can be checked.'
+  },
+  'file/unreadable': {
+    cause: 'The file exists but could not be read, usually because of permissions or because it is a directory.',
+    impact: 'Nothing can be checked.'
+  },
+  'schema/unknown-key': {
+    cause: 'The key is not part of the file format, usually because of a typo such as orgId for org_id or signwith for signWith.',
+    impact: 'Unknown keys are ignored, so the value you meant to set has no effect and the real key keeps its default or stays missing.'
+  },
+  'schema/invalid-type': {
+    cause: 'The value has a different JSON type than the file format expects, e.g. a number where a string is required.',
+    impact: 'Turnkey rejects the payload, or the value is misread.'
+  },
+  'schema/invalid-value': {
+    cause: 'The value is not one of the values the file format allows.',
+    impact: 'Turnkey rejects the payload.'
+  },
+  'policy/required-approvals-exceed-keys': {
+    cause: 'The policy requires more approvals than it has signing keys.',
+    impact: 'The quorum can never be reached, so every activity the policy covers stays pending.',
+    docs: DOCS.policies
+  },
+  'risk/unsatisfiable-quorum': {
+    cause: 'required_approvals is larger than the number of signing keys.',
+    impact: 'No activity can be approved; teams under pressure then tend to replace the policy with a much weaker one.',
+    docs: DOCS.policies
+  },
+  'risk/single-approver': {
+    cause: 'One approval is enough for an activity that moves funds or exports keys.',
+    impact: 'A single compromised key or careless approver can drain the wallet.',
+    docs: DOCS.policies
+  },
+  'risk/duplicate-public-key': {
+    cause: 'Two signing keys have the same public key, so they are the same key pair.',
+    impact: 'One key holder counts twice toward the quorum, defeating multi-party approval.',
+    docs: DOCS.policies
+  },
+  'risk/weak-algorithm': {
+    cause: 'The signing key uses an algorithm or curve that is considered weak.',
+    impact: 'Signatures may be forgeable, so approvals can be faked.',
+    docs: DOCS.credentials
+  },
+  'risk/algorithm-mismatch': {
+    cause: 'The algorithm of the signing key does not match the format of its public key.',
+    impact: 'Signatures with the key fail to verify, or the key is not the one you think it is.',
+    docs: DOCS.credentials
+  },
+  'risk/unknown-algorithm': {
+    cause: 'The algorithm of the signing key is not one of the curves Turnkey supports.',
+    impact: 'The key may be rejected, and its strength cannot be assessed.',
+    docs: DOCS.credentials
+  },
+  'risk/wildcard-resources': {
+    cause: 'The allowed activity applies to every resource ("*").',
+    impact: 'Every current and future key or wallet account can be used for the activity.',
+    docs: DOCS.policies
+  },
+  'risk/unrestricted-allow': {
+    cause: 'The ALLOW rule does not restrict the destination or the amount of a signing activity.',
+    impact: 'Anyone who can use the policy can send any amount anywhere.',
+    docs: DOCS.policyLanguage
+  },
+  'policy-set/shadowed-allow': {
+    cause: 'A DENY policy matches every request the ALLOW policy matches, and DENY policies always win.',
+    impact: 'The ALLOW policy never takes effect, so the requests it was written for are denied.',
+    docs: DOCS.policies
+  },
+  'policy-set/duplicate-condition': {
+    cause: 'Two policies with the same effect match exactly the same requests, usually because one was copied and never changed.',
+    impact: 'One of them is redundant, and editing only one later leaves the old behavior in place.',
+    docs: DOCS.policies
+  },
+  'policy-set/subsumed-condition': {
+    cause: 'Every request the policy matches is also matched by a broader policy with the same effect.',
+    impact: 'The policy has no effect; removing or tightening it changes nothing until the broader policy changes.',
+    docs: DOCS.policies
+  },
+  'policy-set/tautological-condition': {
+    cause: 'The condition holds for every request, e.g. true or x == 1 || x != 1.',
+    impact: 'An ALLOW policy permits every activity of its users; a DENY policy blocks everything, whatever the ALLOW policies say.',
+    docs: DOCS.policyLanguage
+  },
+  'policy-set/unsatisfiable-condition': {
+    cause: 'The condition can never hold, e.g. it requires a value to be below 1 and above 5 at once.',
+    impact: 'The policy never matches, so it neither allows nor denies anything.',
+    docs: DOCS.policyLanguage
+  },
+  'policy-set/overly-broad-allow': {
+    cause: 'The ALLOW rule only restricts the activity type, or allows it on every resource ("*") without a condition.',
+    impact: 'Anyone who can use the API key can sign any transaction of that type to any address for any amount.',
+    docs: DOCS.policies
+  },
+  'workspace/organization-mismatch': {
+    cause: 'The request names a different organization than the configurations, usually because it was copied from another environment or the org_id was rotated.',
+    impact: 'Turnkey rejects the request, because the API key that stamps it belongs to another organization.',
+    docs: DOCS.signing
+  },
+  'workspace/orphaned-sign-with': {
+    cause: 'The request signs with a key that none of the policies lists in its signing_keys.',
+    impact: 'No policy governs the key, so its requests are denied, or the policies you reviewed do not apply to it.',
+    docs: DOCS.policies
+  },
+  'workspace/request-denied': {
+    cause: 'None of the policies in the workspace allows the request, or a DENY policy matches it.',
+    impact: 'Turnkey denies the request when it is submitted.',
+    docs: DOCS.policies
+  },
+  'workspace/simulation-failed': {
+    cause: 'The policy or the request has a structure the simulator cannot evaluate, e.g. a field that should be a list is not.',
+    impact: 'The request is simulated without the policy, so the workspace check cannot tell whether the policy allows or denies it.',
+    docs: DOCS.policies
+  },
+  'workspace/unknown-wallet': {
+    cause: 'The policy condition compares wallet.id with a wallet that is not the wallet_id of any configuration, often a wallet of another environment.',
+    impact: 'The condition never matches the requests of the configured wallets, so they are denied or a DENY rule does not protect them.',
+    docs: DOCS.policyLanguage
+  },
+  'file/invalid-json': {
+    cause: 'The file is not valid JSON or JSON5.',
+    impact: 'Turnkey would reject the payload, and nothing else in the file can be checked.'
+  },
+  'file/not-an-object': {
+    cause: 'Turnkey configurations, policies and requests are JSON objects.',
+    impact: 'The file cannot be recognized or checked.'
+  },
+  'file/analysis-failed': {
+    cause: 'A value in the file has a shape the checks did not expect, so they stopped before finishing.',
+    impact: 'Only the schema findings of the file are reported; other problems in it may go unnoticed.'
+  }
+};
+
+// Explanations used for rules without an entry of their own, keyed by rule ID prefix
+const CATEGORIES: Record<string, RuleKnowledge> = {
+  'policy/condition-': {
+    cause: 'The policy condition is not a valid expression in the Turnkey policy language, or compares values of incompatible types.',
+    impact: 'Turnkey rejects the policy, or the condition never matches the requests you meant it for.',
+    docs: DOCS.policyLanguage
+  },
+  'config/': {
+    cause: 'The Turnkey client configuration is incomplete or inconsistent.',
+    impact: 'API requests may fail to authenticate or reach the wrong endpoint.',
+    docs: DOCS.credentials
+  },
+  'policy/': {
+    cause: 'The policy does not have the structure Turnkey expects.',
+    impact: 'The policy may be rejected, or allow or deny more than intended.',
+    docs: DOCS.policies
+  },
+  'transaction/': {
+    cause: 'The signing request does not have the structure Turnkey expects.',
+    impact: 'Turnkey rejects the request.',
+    docs: DOCS.signing
+  },
+  'ethereum/': {
+    cause: 'The decoded Ethereum transaction has an unusual or invalid field.',
+    impact: 'The transaction may be rejected by the network or behave differently than intended.',
+    docs: DOCS.ethereum
+  },
+  'solana/': {
+    cause: 'The decoded Solana transaction has an unusual or invalid field.',
+    impact: 'The transaction may be rejected by the network or behave differently than intended.',
+    docs: DOCS.solana
+  },
+  'bitcoin/': {
+    cause: 'The decoded Bitcoin transaction has an unusual or invalid field.',
+    impact: 'The transaction may be rejected by the network or behave differently than intended.',
+    docs: DOCS.bitcoin
+  }
+};
+
+const GENERIC: RuleKnowledge = {
+  cause: 'The file does not match what Turnkey expects.',
+  impact: 'Requests built from it may be rejected or behave differently than intended.'
+};
+
+/**
+ * Looks up the knowledge base entry of a rule, falling back to its category
+ * @param ruleId Rule ID of a finding
+ * @returns Knowledge about the rule
+ */
+export function findRuleKnowledge(ruleId: string): RuleKnowledge {
+  if (RULES[ruleId]) {
+    return RULES[ruleId];
+  }
+
+  const prefix = Object.keys(CATEGORIES).find(category => ruleId.startsWith(category));
+  return prefix ? CATEGORIES[prefix] : GENERIC;
+}
@@ -0,0 +1,216 @@
+import { APIConnectionError, APIError, OpenAI } from 'openai';
+import { CompletionRequest, Finding, LlmProvider, LlmProviderName, LlmSettings } from '../types';
+import { retryWithBackoff } from '../utils';
+import { withAuditLog } from './audit';
+import { findRuleKnowledge } from './knowledge';
+import { createRedactor, Redactor, withRedaction } from './redaction';
+
+const PROVIDERS: LlmProviderName[] = ['openai', 'openai-compatible', 'template'];
+
+const DEFAULT_MODEL = 'gpt-3.5-turbo';
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_TOKENS = 500;
+const DEFAULT_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+
+/**
+ * LLM command line options; each one overrides the matching environment variable
+ */
+export interface LlmOptions {
+  llmProvider?: string;
+  llmModel?: string;
+  llmBaseUrl?: string;
+  temperature?: string;
+  maxTokens?: string;
+  /** False when --no-redact is given */
+  redact?: boolean;
+  auditLog?: string;
+}
+
+/**
+ * Resolves the LLM settings from command line options and environment variables.
+ * Without an explicit provider, a base URL selects an OpenAI-compatible server, an
+ * OPENAI_API_KEY selects OpenAI, and otherwise the offline template provider is used.
+ * @param options Command line options
+ * @param env Environment variables
+ * @returns The validated settings
+ * @throws Error if a setting is invalid or the chosen provider is missing its API key or base URL
+ */
+export function resolveLlmSettings(options: LlmOptions = {}, env: NodeJS.ProcessEnv = process.env): LlmSettings {
+  const baseUrl = options.llmBaseUrl ?? env.TURNKEY_COPILOT_LLM_BASE_URL;
+  const apiKey = env.TURNKEY_COPILOT_LLM_API_KEY ?? env.OPENAI_API_KEY;
+  const provider = options.llmProvider ?? env.TURNKEY_COPILOT_LLM_PROVIDER ?? (baseUrl ? 'openai-compatible' : apiKey ? 'openai' : 'template');
+
+  if (!PROVIDERS.includes(provider as LlmProviderName)) {
+    throw new Error(`Unsupported LLM provider: ${provider}. Use one of: ${PROVIDERS.join(', ')}`);
+  }
+  if (provider === 'openai' && !apiKey) {
+    throw new Error('OpenAI API key not configured. Set the OPENAI_API_KEY environment variable, or use --llm-provider template for offline explanations');
+  }
+  if (provider === 'openai-compatible' && !baseUrl) {
+    throw new Error('The openai-compatible provider needs a server URL. Use --llm-base-url or set TURNKEY_COPILOT_LLM_BASE_URL, e.g. http://localhost:11434/v1');
+  }
+
+  const temperature = Number(options.temperature ?? env.TURNKEY_COPILOT_LLM_TEMPERATURE ?? DEFAULT_TEMPERATURE);
+  if (Number.isNaN(temperature) || temperature < 0 || temperature > 2) {
+    throw new Error(`Invalid temperature: ${options.temperature ?? env.TURNKEY_COPILOT_LLM_TEMPERATURE}. Use a number between 0 and 2`);
+  }
+
+  const maxTokens = Number(options.maxTokens ?? env.TURNKEY_COPILOT_LLM_MAX_TOKENS ?? DEFAULT_MAX_TOKENS);
+  if (!Number.isInteger(maxTokens) || maxTokens < 1) {
+    throw new Error(`Invalid max tokens: ${options.maxTokens ?? env.TURNKEY_COPILOT_LLM_MAX_TOKENS}. Use a positive integer`);
+  }
+
+  return {
+    provider: provider as LlmProviderName,
+    model: options.llmModel ?? env.TURNKEY_COPILOT_LLM_MODEL ?? DEFAULT_MODEL,
+    temperature,
+    maxTokens,
+    baseUrl,
+    apiKey
+  };
+}
+
+/**
+ * Creates the provider for a command from its options and the environment. Requests to network
+ * providers are redacted unless --no-redact is given, recorded in the audit log when one is set
+ * with --audit-log or TURNKEY_COPILOT_AUDIT_LOG, and retried on rate limits.
+ * @param options Command line options
+ * @param redactor Redactor to use, e.g. one that already knows the values of a parsed file
+ * @param env Environment variables
+ * @returns The provider
+ * @throws Error if the LLM settings are invalid
+ */
+export function buildLlmProvider(options: LlmOptions = {}, redactor: Redactor = createRedactor(), env: NodeJS.ProcessEnv = process.env): LlmProvider {
+  const base = createLlmProvider(resolveLlmSettings(options, env));
+
+  // Template answers never leave the machine
+  if (base.name === 'template') {
+    return base;
+  }
+
+  const redact = options.redact !== false;
+  const auditLog = options.auditLog ?? env.TURNKEY_COPILOT_AUDIT_LOG;
+  let provider = auditLog ? withAuditLog(base, auditLog, redact) : base;
+  if (redact) {
+    provider = withRedaction(provider, redactor);
+  }
+
+  return withRetries(provider);
+}
+
+/**
+ * Creates the provider for the given settings. Network clients are only created on the first request.
+ * @param settings Resolved LLM settings
+ * @returns The provider
+ */
+export function createLlmProvider(settings: LlmSettings): LlmProvider {
+  if (settings.provider === 'template') {
+    return createTemplateProvider();
+  }
+
+  let client: OpenAI | undefined;
+
+  return {
+    name: settings.provider,
+    model: settings.model,
+    async complete(request: CompletionRequest): Promise<string> {
+      // Local servers usually ignore the API key, but the client requires one.
+      // Retries are left to withRetries so rate limits are handled in one place.
+      client ??= new OpenAI({ apiKey: settings.apiKey ?? 'not-needed', baseURL: settings.baseUrl, maxRetries: 0 });
+
+      const response = await client.chat.completions.create({
+        model: settings.model,
+        messages: request.messages,
+        max_tokens: settings.maxTokens,
+        temperature: settings.temperature,
+      });
+
+      return response.choices[0]?.message?.content || 'Unable to generate explanation.';
+    }
+  };
+}
+
+/**
+ * Wraps a provider so that rate-limited, overloaded and dropped requests are retried with exponential backoff
+ * @param provider The provider to wrap
+ * @param retries Number of retries after the first attempt
+ * @param baseDelayMs Delay before the first retry, unless the server asks for a different one
+ * @returns Provider with retries
+ */
+export function withRetries(provider: LlmProvider, retries: number = DEFAULT_RETRIES, baseDelayMs: number = DEFAULT_RETRY_DELAY_MS): LlmProvider {
+  return {
+    ...provider,
+    complete: request => retryWithBackoff(() => provider.complete(request), {
+      retries,
+      baseDelayMs,
+      shouldRetry: isRetryableError,
+      retryAfterMs
+    })
+  };
+}
+
+/**
+ * Creates the offline provider, which explains findings from the bundled knowledge base
+ * and always gives the same answer for the same findings
+ * @returns The provider
+ */
+export function createTemplateProvider(): LlmProvider {
+  return {
+    name: 'template',
+    model: 'knowledge-base',
+    async complete(request: CompletionRequest): Promise<string> {
+      if (!request.findings || request.findings.length === 0) {
+        throw new Error('The template provider can only explain findings. Configure an OpenAI or OpenAI-compatible provider for other requests');
+      }
+
+      if (request.findings.length === 1) {
+        return explainFromKnowledge(request.findings[0]);
+      }
+      return request.findings.map(finding => `[${finding.ruleId}]\n${explainFromKnowledge(finding)}`).join('\n\n');
+    }
+  };
+}
+
+/**
+ * Builds an explanation of a finding from the knowledge base
+ * @param finding The finding
+ * @returns Explanation text
+ */
+function explainFromKnowledge(finding: Finding): string {
+  const knowledge = findRuleKnowledge(finding.ruleId);
+  const lines = [
+    `Why this happens: ${knowledge.cause}`,
+    `What it can cause: ${knowledge.impact}`,
+    `How to fix it: ${finding.fix ? `${finding.fix.description}. Run "turnkey-copilot fix" to apply it automatically.` : 'Apply the suggested fix above.'}`
+  ];
+
+  if (knowledge.docs) {
+    lines.push(`Learn more: ${knowledge.docs}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Checks whether a failed LLM request is worth retrying
+ * @param error Error thrown by the provider
+ * @returns True for rate limits, server errors and connection failures
+ */
+function isRetryableError(error: unknown): boolean {
+  if (error instanceof APIConnectionError) {
+    return true;
+  }
+  return error instanceof APIError && error.status !== undefined && (error.status === 429 || error.status >= 500);
+}
+
+/**
+ * Reads the delay requested by a Retry-After header
+ * @param error Error thrown by the provider
+ * @returns Delay in milliseconds, or undefined when the server did not ask for one
+ */
+function retryAfterMs(error: unknown): number | undefined {
+  const header = error instanceof APIError ? error.headers?.['retry-after'] : undefined;
+  const seconds = header ? Number(header) : NaN;
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+}
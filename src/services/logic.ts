@@ -0,0 +1,444 @@
+import { BinaryNode, ExpressionNode } from '../types';
+import { parseCondition } from './expression';
+import { normalizeActivityType } from './simulation';
+
+// Conditions with more alternatives than this are treated as a single opaque test
+const MAX_CLAUSES = 256;
+
+const NEGATED_OPERATORS: Record<Atom['operator'], Atom['operator']> = {
+  '==': '!=',
+  '!=': '==',
+  '<': '>=',
+  '<=': '>',
+  '>': '<=',
+  '>=': '<',
+  'in': 'not in',
+  'not in': 'in',
+  'is': 'is not',
+  'is not': 'is',
+};
+
+const FLIPPED_OPERATORS: Partial<Record<BinaryNode['operator'], BinaryNode['operator']>> = {
+  '==': '==',
+  '!=': '!=',
+  '<': '>',
+  '<=': '>=',
+  '>': '<',
+  '>=': '<=',
+};
+
+/**
+ * A literal value in a condition, normalized like the evaluator compares it: integers are bigints
+ * and hex strings are lowercase
+ */
+export type Scalar = string | number | bigint | boolean | null;
+
+/**
+ * A test of a single field against literals. Tests that do not have this shape, such as
+ * quantifiers or comparisons of two fields, are kept as opaque "is" tests of the whole expression.
+ */
+export interface Atom {
+  /** Field path, e.g. eth.tx.to, or the canonical text of an opaque test */
+  field: string;
+  operator: '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in' | 'not in' | 'is' | 'is not';
+  /** One value for comparisons, the list for in and not in, none for opaque tests */
+  values: Scalar[];
+}
+
+/**
+ * A condition in disjunctive normal form: it holds when every atom of at least one clause holds.
+ * No clauses is always false; an empty clause is always true.
+ */
+export type Clauses = Atom[][];
+
+/**
+ * A parsed condition in normal form, together with its negation
+ */
+export interface NormalizedCondition {
+  ast: ExpressionNode;
+  clauses: Clauses;
+  /** Normal form of the negated condition, which is unsatisfiable exactly when the condition always holds */
+  negation: Clauses;
+}
+
+/**
+ * Parses a condition and converts it to disjunctive normal form
+ * @param source The condition expression
+ * @returns The normalized condition, or undefined if it does not parse
+ */
+export function normalizeCondition(source: string): NormalizedCondition | undefined {
+  const { ast } = parseCondition(source);
+  return ast ? normalizeExpression(ast) : undefined;
+}
+
+/**
+ * Converts a parsed condition, or a part of one, to disjunctive normal form
+ * @param ast The condition AST
+ * @returns The normalized condition
+ */
+export function normalizeExpression(ast: ExpressionNode): NormalizedCondition {
+  return { ast, clauses: toClauses(ast, false), negation: toClauses(ast, true) };
+}
+
+/**
+ * Combines two conditions with &&
+ * @param left Clauses of the first condition
+ * @param right Clauses of the second condition
+ * @returns Clauses of both conditions together
+ * @throws Error if the result has too many clauses to analyze
+ */
+export function conjoin(left: Clauses, right: Clauses): Clauses {
+  if (left.length * right.length > MAX_CLAUSES) {
+    throw new Error('Condition is too complex to analyze');
+  }
+  return left.flatMap(a => right.map(b => [...a, ...b]));
+}
+
+/**
+ * Checks whether a condition can never hold. The check is sound but not complete: conditions
+ * reported as unsatisfiable never hold, but some that never hold are not recognized.
+ * @param clauses The condition
+ * @returns True if no request can satisfy the condition
+ */
+export function isUnsatisfiable(clauses: Clauses): boolean {
+  return clauses.every(clause => findContradiction(clause) !== undefined);
+}
+
+/**
+ * Checks whether every request that satisfies one condition also satisfies another. Like
+ * isUnsatisfiable, a true answer is always right but a false one may miss an implication.
+ * @param premise The narrower condition
+ * @param conclusion The broader condition
+ * @param negation Normal form of the negated conclusion; also recognizes conclusions whose
+ * alternatives only hold together, such as x == 1 || x != 1
+ * @returns True if the premise implies the conclusion
+ */
+export function impliesCondition(premise: Clauses, conclusion: Clauses, negation?: Clauses): boolean {
+  if (premise.every(clause => findContradiction(clause) !== undefined || conclusion.some(other => clauseImplies(clause, other)))) {
+    return true;
+  }
+  if (!negation) {
+    return false;
+  }
+
+  // The premise implies the conclusion when it cannot hold together with its negation
+  try {
+    return isUnsatisfiable(conjoin(premise, negation));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Finds two atoms of a clause that cannot hold together
+ * @param clause The clause
+ * @returns The contradicting atoms, the same atom twice for an empty in list, or undefined
+ */
+export function findContradiction(clause: Atom[]): [Atom, Atom] | undefined {
+  for (const [i, atom] of clause.entries()) {
+    if (atom.operator === 'in' && atom.values.length === 0) {
+      return [atom, atom];
+    }
+    for (const other of clause.slice(i + 1)) {
+      if (atomImplies(atom, negateAtom(other))) {
+        return [atom, other];
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Checks whether one atom implies another
+ * @param premise The narrower atom
+ * @param conclusion The broader atom
+ * @returns True if every value satisfying the premise satisfies the conclusion
+ */
+export function atomImplies(premise: Atom, conclusion: Atom): boolean {
+  if (premise.field !== conclusion.field) {
+    return false;
+  }
+  if (premise.operator === conclusion.operator && premise.values.length === conclusion.values.length &&
+    premise.values.every((value, i) => value === conclusion.values[i])) {
+    return true;
+  }
+  if (premise.operator === 'is' || premise.operator === 'is not' || conclusion.operator === 'is' || conclusion.operator === 'is not') {
+    return false;
+  }
+
+  // A premise with finitely many values implies anything that holds for each of them
+  if (premise.operator === '==' || premise.operator === 'in') {
+    return premise.values.every(value => holds(conclusion, value));
+  }
+
+  // Nothing else pins the field to a finite set, but every premise excludes the values it does not hold for
+  if (conclusion.operator === '!=' || conclusion.operator === 'not in') {
+    return conclusion.values.every(value => !holds(premise, value));
+  }
+
+  // Bounds in the same direction
+  const [bound] = premise.values;
+  const [limit] = conclusion.values;
+  if (!isNumeric(bound) || !isNumeric(limit)) {
+    return false;
+  }
+  const order = compare(bound, limit);
+  if ((premise.operator === '<' || premise.operator === '<=') && (conclusion.operator === '<' || conclusion.operator === '<=')) {
+    return order < 0 || (order === 0 && (premise.operator === '<' || conclusion.operator === '<='));
+  }
+  if ((premise.operator === '>' || premise.operator === '>=') && (conclusion.operator === '>' || conclusion.operator === '>=')) {
+    return order > 0 || (order === 0 && (premise.operator === '>' || conclusion.operator === '>='));
+  }
+  return false;
+}
+
+/**
+ * Negates an atom
+ * @param atom The atom
+ * @returns An atom that holds exactly when the given one does not
+ */
+export function negateAtom(atom: Atom): Atom {
+  return { ...atom, operator: NEGATED_OPERATORS[atom.operator] };
+}
+
+/**
+ * Renders an atom in the syntax of the policy language
+ * @param atom The atom
+ * @returns e.g. "eth.tx.value < 1000" or "!(eth.tx.to == eth.tx.from)"
+ */
+export function formatAtom(atom: Atom): string {
+  switch (atom.operator) {
+    case 'is':
+      return atom.field;
+    case 'is not':
+      return `!(${atom.field})`;
+    case 'in':
+      return `${atom.field} in [${atom.values.map(formatScalar).join(', ')}]`;
+    case 'not in':
+      return `!(${atom.field} in [${atom.values.map(formatScalar).join(', ')}])`;
+    default:
+      return `${atom.field} ${atom.operator} ${formatScalar(atom.values[0])}`;
+  }
+}
+
+/**
+ * Renders a condition AST as canonical text, independent of spacing, quotes and redundant parentheses
+ * @param node The AST
+ * @returns Canonical text of the expression
+ */
+export function printExpression(node: ExpressionNode): string {
+  switch (node.kind) {
+    case 'literal':
+      return node.valueType === 'string' ? formatScalar(String(node.value)) : String(node.value);
+    case 'identifier':
+      return node.name;
+    case 'member':
+      return `${printExpression(node.object)}.${node.property}`;
+    case 'call':
+      return `${printExpression(node.target)}.${node.method}(${node.args.map(printExpression).join(', ')})`;
+    case 'index':
+      return `${printExpression(node.object)}[${printExpression(node.index)}]`;
+    case 'slice':
+      return `${printExpression(node.object)}[${node.from ? printExpression(node.from) : ''}..${node.to ? printExpression(node.to) : ''}]`;
+    case 'list':
+      return `[${node.elements.map(printExpression).join(', ')}]`;
+    case 'unary':
+      return node.operand.kind === 'binary' ? `!(${printExpression(node.operand)})` : `!${printExpression(node.operand)}`;
+    case 'binary': {
+      const wrap = (child: ExpressionNode) => child.kind === 'binary' && child.operator !== node.operator && (child.operator === '&&' || child.operator === '||')
+        ? `(${printExpression(child)})`
+        : printExpression(child);
+      return `${wrap(node.left)} ${node.operator} ${wrap(node.right)}`;
+    }
+  }
+}
+
+/**
+ * Converts a condition to disjunctive normal form, pushing negations down to the atoms
+ * @param node The condition AST
+ * @param negated Whether to convert the negation of the condition
+ * @returns Clauses of the condition; an opaque atom of the whole condition if it has too many
+ */
+function toClauses(node: ExpressionNode, negated: boolean): Clauses {
+  try {
+    return convert(node, negated);
+  } catch {
+    const atom: Atom = { field: printExpression(node), operator: 'is', values: [] };
+    return [[negated ? negateAtom(atom) : atom]];
+  }
+}
+
+/**
+ * Converts a node to disjunctive normal form
+ * @param node The node
+ * @param negated Whether to convert its negation
+ * @returns Clauses of the node
+ * @throws Error if the result has too many clauses to analyze
+ */
+function convert(node: ExpressionNode, negated: boolean): Clauses {
+  if (node.kind === 'unary') {
+    return convert(node.operand, !negated);
+  }
+  if (node.kind === 'literal' && node.valueType === 'boolean') {
+    return node.value !== negated ? [[]] : [];
+  }
+  if (node.kind === 'binary' && (node.operator === '&&' || node.operator === '||')) {
+    const left = convert(node.left, negated);
+    const right = convert(node.right, negated);
+    // De Morgan: a negated && is an || of the negations, and the other way around
+    if ((node.operator === '&&') !== negated) {
+      return conjoin(left, right);
+    }
+    if (left.length + right.length > MAX_CLAUSES) {
+      throw new Error('Condition is too complex to analyze');
+    }
+    return [...left, ...right];
+  }
+
+  const atom = toAtom(node);
+  return [[negated ? negateAtom(atom) : atom]];
+}
+
+/**
+ * Converts a test to an atom
+ * @param node The test
+ * @returns A field comparison, or an opaque test of the whole expression
+ */
+function toAtom(node: ExpressionNode): Atom {
+  if (node.kind === 'binary' && node.operator !== '&&' && node.operator !== '||') {
+    const left = fieldPath(node.left);
+    const right = fieldPath(node.right);
+
+    if (left !== undefined && node.operator === 'in' && node.right.kind === 'list' && node.right.elements.every(element => toScalar(element) !== undefined)) {
+      return { field: left, operator: 'in', values: unique(node.right.elements.map(element => normalizeScalar(left, toScalar(element)!))) };
+    }
+
+    const flipped = FLIPPED_OPERATORS[node.operator];
+    const [field, operator, literal] = left !== undefined && node.operator !== 'in'
+      ? [left, node.operator, toScalar(node.right)]
+      : right !== undefined && flipped ? [right, flipped, toScalar(node.left)] : [undefined, undefined, undefined];
+
+    if (field !== undefined && operator && literal !== undefined) {
+      return { field, operator: operator as Atom['operator'], values: [normalizeScalar(field, literal)] };
+    }
+  }
+
+  return { field: printExpression(node), operator: 'is', values: [] };
+}
+
+/**
+ * Gets the path of a field reference such as eth.tx.to or approvers.count()
+ * @param node The node
+ * @returns The dotted path, or undefined if the node is not a plain field reference
+ */
+function fieldPath(node: ExpressionNode): string | undefined {
+  if (node.kind === 'identifier') {
+    return node.name;
+  }
+  if (node.kind === 'member') {
+    const object = fieldPath(node.object);
+    return object === undefined ? undefined : `${object}.${node.property}`;
+  }
+  // Calls without arguments, such as count(), always give the same value for a request
+  if (node.kind === 'call' && node.args.length === 0) {
+    const target = fieldPath(node.target);
+    return target === undefined ? undefined : `${target}.${node.method}()`;
+  }
+  return undefined;
+}
+
+/**
+ * Gets the value of a literal node
+ * @param node The node
+ * @returns The value, or undefined if the node is not a literal
+ */
+function toScalar(node: ExpressionNode): Scalar | undefined {
+  if (node.kind !== 'literal') {
+    return undefined;
+  }
+  if (node.valueType === 'number' && /^\d+$/.test(node.raw)) {
+    return BigInt(node.raw);
+  }
+  return node.value;
+}
+
+/**
+ * Normalizes a literal for comparison: hex strings are compared case-insensitively and activity
+ * types without their prefix and version, like the simulator does
+ * @param field The field the literal is compared with
+ * @param value The literal
+ * @returns Normalized literal
+ */
+function normalizeScalar(field: string, value: Scalar): Scalar {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  if (field === 'activity.type') {
+    return normalizeActivityType(value);
+  }
+  return /^0x[0-9a-f]*$/i.test(value) ? value.toLowerCase() : value;
+}
+
+/**
+ * Checks whether an atom holds for a value of its field
+ * @param atom The atom
+ * @param value The value
+ * @returns True if the atom holds
+ */
+function holds(atom: Atom, value: Scalar): boolean {
+  switch (atom.operator) {
+    case '==':
+      return value === atom.values[0];
+    case '!=':
+      return value !== atom.values[0];
+    case 'in':
+      return atom.values.includes(value);
+    case 'not in':
+      return !atom.values.includes(value);
+    case 'is':
+    case 'is not':
+      return false;
+    default: {
+      const [bound] = atom.values;
+      if (!isNumeric(value) || !isNumeric(bound)) {
+        return false;
+      }
+      const order = compare(value, bound);
+      return atom.operator === '<' ? order < 0 : atom.operator === '<=' ? order <= 0 : atom.operator === '>' ? order > 0 : order >= 0;
+    }
+  }
+}
+
+/**
+ * Checks whether every atom of one clause is implied by an atom of another
+ * @param premise The narrower clause
+ * @param conclusion The broader clause
+ * @returns True if the premise implies the conclusion
+ */
+function clauseImplies(premise: Atom[], conclusion: Atom[]): boolean {
+  return conclusion.every(atom => premise.some(candidate => atomImplies(candidate, atom)));
+}
+
+function isNumeric(value: Scalar): value is number | bigint {
+  return typeof value === 'number' || typeof value === 'bigint';
+}
+
+function compare(a: number | bigint, b: number | bigint): number {
+  if (typeof a === 'bigint' && typeof b === 'bigint') {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  return Number(a) < Number(b) ? -1 : Number(a) > Number(b) ? 1 : 0;
+}
+
+function unique(values: Scalar[]): Scalar[] {
+  return values.filter((value, i) => values.indexOf(value) === i);
+}
+
+/**
+ * Renders a literal in the syntax of the policy language
+ * @param value The literal
+ * @returns e.g. 'abc' or 1000
+ */
+function formatScalar(value: Scalar): string {
+  return typeof value === 'string' ? `'${value.replace(/'/g, "\\'")}'` : String(value);
+}
@@ -0,0 +1,137 @@
+import { FieldType } from '../types';
+
+const string: FieldType = { kind: 'string' };
+const number: FieldType = { kind: 'number' };
+const boolean: FieldType = { kind: 'boolean' };
+const address: FieldType = { kind: 'address' };
+
+const list = (element: FieldType): FieldType => ({ kind: 'list', element });
+const object = (name: string, fields: Record<string, FieldType>): FieldType => ({ kind: 'object', name, fields });
+
+const solanaTransfer = object('transfer', {
+  from: address,
+  to: address,
+  amount: number,
+});
+
+const solanaSplTransfer = object('spl_transfer', {
+  from: address,
+  to: address,
+  owner: address,
+  mint: address,
+  amount: number,
+});
+
+const solanaInstruction = object('instruction', {
+  program_key: address,
+  accounts: list(address),
+  data: string,
+});
+
+const bitcoinOutput = object('output', {
+  address: address,
+  value: number,
+});
+
+const bitcoinInput = object('input', {
+  address: address,
+  value: number,
+  txid: string,
+  vout: number,
+});
+
+/**
+ * Schema of the namespaces available at the root of a Turnkey policy condition
+ */
+export const CONDITION_NAMESPACES: Record<string, FieldType> = {
+  activity: object('activity', {
+    type: string,
+    resource: string,
+    action: string,
+  }),
+  eth: object('eth', {
+    tx: object('eth.tx', {
+      from: address,
+      to: address,
+      value: number,
+      nonce: number,
+      gas: number,
+      gas_price: number,
+      max_fee_per_gas: number,
+      max_priority_fee_per_gas: number,
+      chain_id: number,
+      data: string,
+    }),
+  }),
+  solana: object('solana', {
+    tx: object('solana.tx', {
+      transfers: list(solanaTransfer),
+      spl_transfers: list(solanaSplTransfer),
+      instructions: list(solanaInstruction),
+      program_keys: list(address),
+      account_keys: list(address),
+      recent_blockhash: string,
+    }),
+  }),
+  bitcoin: object('bitcoin', {
+    tx: object('bitcoin.tx', {
+      inputs: list(bitcoinInput),
+      outputs: list(bitcoinOutput),
+      fee: number,
+    }),
+  }),
+  wallet: object('wallet', {
+    id: string,
+  }),
+  wallet_account: object('wallet_account', {
+    address: address,
+  }),
+  private_key: object('private_key', {
+    id: string,
+  }),
+  approvers: list(object('approver', {
+    id: string,
+  })),
+};
+
+/**
+ * Renders a field type for use in diagnostics
+ * @param type The field type
+ * @returns Human-readable type name
+ */
+export function describeType(type: FieldType): string {
+  switch (type.kind) {
+    case 'list':
+      return `list<${describeType(type.element)}>`;
+    case 'object':
+      return type.name;
+    default:
+      return type.kind;
+  }
+}
+
+/**
+ * Lists every field that can be used in a condition with its type, e.g. "eth.tx.value: number".
+ * Fields of list elements are listed under the element name, e.g. "transfer.amount: number".
+ * @returns One line per field
+ */
+export function listConditionFields(): string[] {
+  const lines: string[] = [];
+  const elements = new Map<string, FieldType>();
+
+  const visit = (path: string, type: FieldType): void => {
+    if (type.kind === 'object') {
+      Object.entries(type.fields).forEach(([name, field]) => visit(path ? `${path}.${name}` : name, field));
+      return;
+    }
+    lines.push(`${path}: ${describeType(type)}`);
+    if (type.kind === 'list' && type.element.kind === 'object') {
+      elements.set(type.element.name, type.element);
+    }
+  };
+
+  visit('', { kind: 'object', name: '', fields: CONDITION_NAMESPACES });
+  elements.forEach((element, name) => visit(name, element));
+
+  return lines;
+}
@@ -1,13 +1,13 @@
-import { TurnkeyPolicy, AnalysisResult } from '../types';
+import { TurnkeyPolicy, AnalysisResult, Finding, SimplifiedPolicy } from '../types';
+import { analyzeCondition, findPlaceholders, formatPosition } from './expression';
 
 /**
  * Analyzes a Turnkey policy for potential issues
  * @param policy The Turnkey policy object
- * @returns Analysis result with issues and suggestions
+ * @returns Analysis result with findings
  */
 export async function analyzePolicy(policy: TurnkeyPolicy): Promise<AnalysisResult> {
-  const issues: string[] = [];
-  const suggestions: string[] = [];
+  const findings: Finding[] = [];
 
   // Check if this is a simplified policy format
   if ('policyName' in policy && 'effect' in policy && 'condition' in policy) {
@@ -16,142 +16,280 @@ export async function analyzePolicy(policy: TurnkeyPolicy): Promise<AnalysisResu
 
   // Check for required approvals
   if (policy.required_approvals === undefined) {
-    issues.push('Missing required_approvals field');
-    suggestions.push('Add the required_approvals field to specify how many approvals are needed:\n```json\n{\n  "required_approvals": 1,\n  ...\n}\n```');
+    findings.push({
+      ruleId: 'policy/missing-required-approvals',
+      severity: 'error',
+      message: 'Missing required_approvals field',
+      suggestion: 'Add the required_approvals field to specify how many approvals are needed:\n```json\n{\n  "required_approvals": 1,\n  ...\n}\n```',
+      pointer: '/required_approvals',
+      fix: { description: 'Set required_approvals to 1', edits: [{ op: 'set', pointer: '/required_approvals', value: 1 }] },
+    });
   } else if (policy.required_approvals < 1) {
-    issues.push('required_approvals must be at least 1');
-    suggestions.push('Update required_approvals to be at least 1:\n```json\n{\n  "required_approvals": 1,\n  ...\n}\n```');
+    findings.push({
+      ruleId: 'policy/invalid-required-approvals',
+      severity: 'error',
+      message: 'required_approvals must be at least 1',
+      suggestion: 'Update required_approvals to be at least 1:\n```json\n{\n  "required_approvals": 1,\n  ...\n}\n```',
+      pointer: '/required_approvals',
+      fix: { description: 'Set required_approvals to 1', edits: [{ op: 'set', pointer: '/required_approvals', value: 1 }] },
+    });
+  }
+
+  // A quorum larger than the number of keys can never be reached
+  if (typeof policy.required_approvals === 'number' && Array.isArray(policy.signing_keys) && policy.signing_keys.length > 0 &&
+    policy.required_approvals > policy.signing_keys.length) {
+    findings.push({
+      ruleId: 'policy/required-approvals-exceed-keys',
+      severity: 'error',
+      message: `required_approvals is ${policy.required_approvals}, but only ${policy.signing_keys.length} signing ${policy.signing_keys.length === 1 ? 'key is' : 'keys are'} defined`,
+      suggestion: `Add signing keys, or lower required_approvals to ${policy.signing_keys.length}`,
+      pointer: '/required_approvals',
+      fix: { description: `Set required_approvals to ${policy.signing_keys.length}`, edits: [{ op: 'set', pointer: '/required_approvals', value: policy.signing_keys.length }] },
+    });
   }
 
   // Check for signing keys
   if (!policy.signing_keys || policy.signing_keys.length === 0) {
-    issues.push('No signing keys defined in the policy');
-    suggestions.push('Add at least one signing key to the policy:\n```json\n{\n  "signing_keys": [\n    {\n      "key_id": "your-key-id",\n      "name": "Key Name",\n      "public_key": "your-public-key",\n      "algorithm": "ECDSA_SECP256K1"\n    }\n  ],\n  ...\n}\n```');
+    findings.push({
+      ruleId: 'policy/no-signing-keys',
+      severity: 'error',
+      message: 'No signing keys defined in the policy',
+      suggestion: 'Add at least one signing key to the policy:\n```json\n{\n  "signing_keys": [\n    {\n      "key_id": "your-key-id",\n      "name": "Key Name",\n      "public_key": "your-public-key",\n      "algorithm": "ECDSA_SECP256K1"\n    }\n  ],\n  ...\n}\n```',
+      pointer: '/signing_keys',
+    });
   } else {
     // Check each signing key for issues
     policy.signing_keys.forEach((key, index) => {
       if (!key.key_id) {
-        issues.push(`Signing key at index ${index} is missing key_id`);
-        suggestions.push(`Add key_id to the signing key at index ${index}:\n\`\`\`json\n"signing_keys": [\n  {\n    "key_id": "your-key-id",\n    ...\n  }\n]\n\`\`\``);
+        findings.push({
+          ruleId: 'policy/signing-key-missing-key-id',
+          severity: 'error',
+          message: `Signing key at index ${index} is missing key_id`,
+          suggestion: `Add key_id to the signing key at index ${index}:\n\`\`\`json\n"signing_keys": [\n  {\n    "key_id": "your-key-id",\n    ...\n  }\n]\n\`\`\``,
+          pointer: `/signing_keys/${index}/key_id`,
+        });
       }
-      
+
       if (!key.public_key) {
-        issues.push(`Signing key at index ${index} is missing public_key`);
-        suggestions.push(`Add public_key to the signing key at index ${index}:\n\`\`\`json\n"signing_keys": [\n  {\n    "public_key": "your-public-key",\n    ...\n  }\n]\n\`\`\``);
+        findings.push({
+          ruleId: 'policy/signing-key-missing-public-key',
+          severity: 'error',
+          message: `Signing key at index ${index} is missing public_key`,
+          suggestion: `Add public_key to the signing key at index ${index}:\n\`\`\`json\n"signing_keys": [\n  {\n    "public_key": "your-public-key",\n    ...\n  }\n]\n\`\`\``,
+          pointer: `/signing_keys/${index}/public_key`,
+        });
       }
     });
   }
 
   // Check for allowed activities
   if (!policy.allowed_activities || policy.allowed_activities.length === 0) {
-    issues.push('No allowed_activities defined in the policy');
-    suggestions.push('Add allowed_activities to specify what operations are permitted:\n```json\n{\n  "allowed_activities": [\n    {\n      "type": "SIGN_WITH_INTENT",\n      "resources": ["*"]\n    }\n  ],\n  ...\n}\n```');
+    findings.push({
+      ruleId: 'policy/no-allowed-activities',
+      severity: 'error',
+      message: 'No allowed_activities defined in the policy',
+      suggestion: 'Add allowed_activities to specify what operations are permitted:\n```json\n{\n  "allowed_activities": [\n    {\n      "type": "SIGN_WITH_INTENT",\n      "resources": ["*"]\n    }\n  ],\n  ...\n}\n```',
+      pointer: '/allowed_activities',
+    });
   } else {
     // Check each allowed activity for issues
     policy.allowed_activities.forEach((activity, index) => {
       if (!activity.type) {
-        issues.push(`Allowed activity at index ${index} is missing type`);
-        suggestions.push(`Add type to the allowed activity at index ${index}:\n\`\`\`json\n"allowed_activities": [\n  {\n    "type": "SIGN_WITH_INTENT",\n    ...\n  }\n]\n\`\`\``);
+        findings.push({
+          ruleId: 'policy/activity-missing-type',
+          severity: 'error',
+          message: `Allowed activity at index ${index} is missing type`,
+          suggestion: `Add type to the allowed activity at index ${index}:\n\`\`\`json\n"allowed_activities": [\n  {\n    "type": "SIGN_WITH_INTENT",\n    ...\n  }\n]\n\`\`\``,
+          pointer: `/allowed_activities/${index}/type`,
+        });
       }
-      
+
       if (!activity.resources || activity.resources.length === 0) {
-        issues.push(`Allowed activity at index ${index} has no resources defined`);
-        suggestions.push(`Add resources to the allowed activity at index ${index}:\n\`\`\`json\n"allowed_activities": [\n  {\n    "resources": ["*"],\n    ...\n  }\n]\n\`\`\``);
+        findings.push({
+          ruleId: 'policy/activity-missing-resources',
+          severity: 'error',
+          message: `Allowed activity at index ${index} has no resources defined`,
+          suggestion: `Add resources to the allowed activity at index ${index}:\n\`\`\`json\n"allowed_activities": [\n  {\n    "resources": ["*"],\n    ...\n  }\n]\n\`\`\``,
+          pointer: `/allowed_activities/${index}/resources`,
+        });
       }
 
-      // Check for Solana-specific policy conditions
-      if (activity.parameters && activity.parameters.condition) {
-        const condition = activity.parameters.condition as string;
-        
-        // Check for placeholder values in Solana conditions
-        if (condition.includes('<SENDER_ADDRESS>')) {
-          issues.push(`Solana policy condition at index ${index} contains placeholder '<SENDER_ADDRESS>'`);
-          suggestions.push(`Replace '<SENDER_ADDRESS>' with an actual Solana address in the condition:\n\`\`\`json\n"condition": "solana.tx.transfers.all(transfer, transfer.from == 'actual_solana_address')"\n\`\`\``);
-        }
-        
-        // Check for common Solana condition patterns
-        if (condition.includes('solana.tx.transfers')) {
-          // This is a valid pattern, but let's check for potential issues
-          if (!condition.includes('.all(') && !condition.includes('.any(')) {
-            issues.push(`Solana policy condition at index ${index} might be missing quantifier (all/any)`);
-            suggestions.push(`Consider using 'all' or 'any' quantifier in your Solana condition:\n\`\`\`json\n"condition": "solana.tx.transfers.all(transfer, transfer.from == '<ADDRESS>')"\n\`\`\``);
-          }
-        }
+      // Parse and type-check the policy condition
+      if (activity.parameters && activity.parameters.condition !== undefined) {
+        checkCondition(
+          activity.parameters.condition,
+          `Policy condition at index ${index}`,
+          `/allowed_activities/${index}/parameters/condition`,
+          findings
+        );
       }
     });
   }
 
   // Check for sign_with_intent specific issues
-  const signWithIntentActivity = policy.allowed_activities?.find(activity => 
+  const signWithIntentIndex = policy.allowed_activities?.findIndex(activity =>
     activity.type === 'SIGN_WITH_INTENT' || activity.type === 'SIGN_TRANSACTION'
-  );
+  ) ?? -1;
+  const signWithIntentActivity = policy.allowed_activities?.[signWithIntentIndex];
 
   if (signWithIntentActivity && signWithIntentActivity.type === 'SIGN_WITH_INTENT') {
     if (!signWithIntentActivity.parameters) {
-      issues.push('SIGN_WITH_INTENT activity is missing parameters');
-      suggestions.push('Add parameters to the SIGN_WITH_INTENT activity:\n```json\n{\n  "type": "SIGN_WITH_INTENT",\n  "parameters": {\n    "intent_action": "eth_signTypedData_v4",\n    "intent_version": "1"\n  },\n  ...\n}\n```');
+      findings.push({
+        ruleId: 'policy/intent-missing-parameters',
+        severity: 'error',
+        message: 'SIGN_WITH_INTENT activity is missing parameters',
+        suggestion: 'Add parameters to the SIGN_WITH_INTENT activity:\n```json\n{\n  "type": "SIGN_WITH_INTENT",\n  "parameters": {\n    "intent_action": "eth_signTypedData_v4",\n    "intent_version": "1"\n  },\n  ...\n}\n```',
+        pointer: `/allowed_activities/${signWithIntentIndex}/parameters`,
+      });
     } else if (!signWithIntentActivity.parameters.intent_action) {
-      issues.push('SIGN_WITH_INTENT activity is missing intent_action parameter');
-      suggestions.push('Add intent_action parameter to the SIGN_WITH_INTENT activity:\n```json\n"parameters": {\n  "intent_action": "eth_signTypedData_v4",\n  ...\n}\n```');
+      findings.push({
+        ruleId: 'policy/intent-missing-action',
+        severity: 'error',
+        message: 'SIGN_WITH_INTENT activity is missing intent_action parameter',
+        suggestion: 'Add intent_action parameter to the SIGN_WITH_INTENT activity:\n```json\n"parameters": {\n  "intent_action": "eth_signTypedData_v4",\n  ...\n}\n```',
+        pointer: `/allowed_activities/${signWithIntentIndex}/parameters/intent_action`,
+      });
     }
   }
 
-  return { issues, suggestions };
+  return { findings };
 }
 
 /**
  * Analyzes a simplified Turnkey policy format
  * @param policy The simplified policy object with policyName, effect, and condition
- * @returns Analysis result with issues and suggestions
+ * @returns Analysis result with findings and next steps when the policy is valid
  */
-function analyzeSimplifiedPolicy(policy: any): AnalysisResult {
-  const issues: string[] = [];
-  const suggestions: string[] = [];
+function analyzeSimplifiedPolicy(policy: SimplifiedPolicy): AnalysisResult {
+  const findings: Finding[] = [];
 
   // Check for required fields
   if (!policy.policyName) {
-    issues.push('Missing policyName field');
-    suggestions.push('Add a descriptive policy name:\n```json\n{\n  "policyName": "Your Policy Name",\n  ...\n}\n```');
+    findings.push({
+      ruleId: 'policy/missing-policy-name',
+      severity: 'error',
+      message: 'Missing policyName field',
+      suggestion: 'Add a descriptive policy name:\n```json\n{\n  "policyName": "Your Policy Name",\n  ...\n}\n```',
+      pointer: '/policyName',
+    });
   }
 
   if (!policy.effect) {
-    issues.push('Missing effect field');
-    suggestions.push('Add the effect field (EFFECT_ALLOW or EFFECT_DENY):\n```json\n{\n  "effect": "EFFECT_ALLOW",\n  ...\n}\n```');
+    findings.push({
+      ruleId: 'policy/missing-effect',
+      severity: 'error',
+      message: 'Missing effect field',
+      suggestion: 'Add the effect field (EFFECT_ALLOW or EFFECT_DENY):\n```json\n{\n  "effect": "EFFECT_ALLOW",\n  ...\n}\n```',
+      pointer: '/effect',
+    });
   } else if (policy.effect !== 'EFFECT_ALLOW' && policy.effect !== 'EFFECT_DENY') {
-    issues.push(`Invalid effect value: ${policy.effect}`);
-    suggestions.push('Use either "EFFECT_ALLOW" or "EFFECT_DENY" for the effect field');
+    findings.push({
+      ruleId: 'policy/invalid-effect',
+      severity: 'error',
+      message: `Invalid effect value: ${policy.effect}`,
+      suggestion: 'Use either "EFFECT_ALLOW" or "EFFECT_DENY" for the effect field',
+      pointer: '/effect',
+      ...(/allow|deny/i.test(policy.effect) && {
+        fix: {
+          description: `Set effect to ${/allow/i.test(policy.effect) ? 'EFFECT_ALLOW' : 'EFFECT_DENY'}`,
+          edits: [{ op: 'set', pointer: '/effect', value: /allow/i.test(policy.effect) ? 'EFFECT_ALLOW' : 'EFFECT_DENY' }],
+        },
+      }),
+    });
   }
 
   if (!policy.condition) {
-    issues.push('Missing condition field');
-    suggestions.push('Add a condition expression:\n```json\n{\n  "condition": "your.condition.expression",\n  ...\n}\n```');
+    findings.push({
+      ruleId: 'policy/missing-condition',
+      severity: 'error',
+      message: 'Missing condition field',
+      suggestion: 'Add a condition expression:\n```json\n{\n  "condition": "your.condition.expression",\n  ...\n}\n```',
+      pointer: '/condition',
+    });
   } else {
-    // Check for placeholder values in conditions
-    if (policy.condition.includes('<SENDER_ADDRESS>')) {
-      issues.push('Condition contains placeholder <SENDER_ADDRESS>');
-      suggestions.push('Replace <SENDER_ADDRESS> with an actual blockchain address');
-    }
-
-    // Check for Solana-specific conditions
-    if (policy.condition.includes('solana.tx.transfers')) {
-      // This is a valid pattern, but let's check for potential issues
-      if (!policy.condition.includes('.all(') && !policy.condition.includes('.any(')) {
-        issues.push('Solana condition might be missing quantifier (all/any)');
-        suggestions.push('Consider using "all" or "any" quantifier in your Solana condition:\n```json\n{\n  "condition": "solana.tx.transfers.all(transfer, transfer.from == \'your_address\')",\n  ...\n}\n```');
-      }
-    }
+    checkCondition(policy.condition, 'Condition', '/condition', findings);
   }
 
   // If no issues found, provide helpful information
-  if (issues.length === 0) {
-    suggestions.push(
-      'Your policy looks valid! Here\'s how to use it with Turnkey:\n\n' +
-      '1. This policy will ' + (policy.effect === 'EFFECT_ALLOW' ? 'allow' : 'deny') + ' transactions that match the condition:\n' +
-      '   `' + policy.condition + '`\n\n' +
-      '2. For Solana conditions, make sure to replace any placeholders with actual addresses\n\n' +
-      '3. You can apply this policy to your Turnkey organization or specific wallets'
-    );
+  if (findings.length === 0) {
+    return {
+      findings,
+      nextSteps:
+        'Your policy looks valid! Here\'s how to use it with Turnkey:\n\n' +
+        '1. This policy will ' + (policy.effect === 'EFFECT_ALLOW' ? 'allow' : 'deny') + ' transactions that match the condition:\n' +
+        '   `' + policy.condition + '`\n\n' +
+        '2. For Solana conditions, make sure to replace any placeholders with actual addresses\n\n' +
+        '3. You can apply this policy to your Turnkey organization or specific wallets',
+    };
   }
 
-  return { issues, suggestions };
-}
\ No newline at end of file
+  return { findings };
+}
+
+/**
+ * Parses and type-checks a policy condition, reporting syntax errors, type errors and leftover placeholders
+ * @param condition The condition expression
+ * @param label Describes where the condition lives, used as the start of each message
+ * @param pointer JSON pointer to the condition
+ * @param findings Finding list to append to
+ */
+function checkCondition(condition: unknown, label: string, pointer: string, findings: Finding[]): void {
+  if (typeof condition !== 'string') {
+    findings.push({
+      ruleId: 'policy/condition-not-string',
+      severity: 'error',
+      message: `${label} must be a string expression`,
+      suggestion: 'Write the condition as a string:\n```json\n"condition": "eth.tx.to == \'0x...\'"\n```',
+      pointer,
+    });
+    return;
+  }
+
+  const { ast, diagnostics } = analyzeCondition(condition);
+
+  for (const diagnostic of diagnostics) {
+    findings.push({
+      ruleId: `policy/condition-${diagnostic.code}`,
+      severity: 'error',
+      message: `${label} has a ${diagnostic.kind} error at ${formatPosition(diagnostic)}: ${diagnostic.message}`,
+      suggestion:
+        (diagnostic.kind === 'syntax'
+          ? 'Fix the expression syntax at the marked position:\n'
+          : 'Check the field path and operand types at the marked position against the Turnkey policy language:\n') +
+        pointAt(condition, diagnostic.line, diagnostic.column),
+      pointer,
+    });
+  }
+
+  if (!ast) {
+    return;
+  }
+
+  for (const placeholder of findPlaceholders(ast)) {
+    const name = /<[A-Z0-9_]+>/.exec(String(placeholder.value))![0];
+    const variable = name.slice(1, -1);
+    findings.push({
+      ruleId: 'policy/condition-placeholder',
+      severity: 'error',
+      message: `${label} contains placeholder ${name}`,
+      suggestion: `Replace ${name} with an actual blockchain address:\n${pointAt(condition, placeholder.start.line, placeholder.start.column)}`,
+      pointer,
+      fix: {
+        description: `Replace ${name} with the value of --set ${variable}=<address>`,
+        edits: [{ op: 'replace', pointer, search: name, variable }],
+      },
+    });
+  }
+}
+
+/**
+ * Renders the offending line of a condition with a caret under the given column
+ * @param source The condition expression
+ * @param line 1-based line number
+ * @param column 1-based column number
+ * @returns Markdown code block pointing at the position
+ */
+function pointAt(source: string, line: number, column: number): string {
+  const text = source.split('\n')[line - 1] ?? '';
+  return '```\n' + text + '\n' + ' '.repeat(Math.max(0, column - 1)) + '^\n```';
+}
@@ -0,0 +1,272 @@
+import { Finding, TurnkeyConfig, TurnkeyProfile } from '../types';
+import { suggestClosest } from '../utils';
+import { appendPointer, parsePointer } from '../utils/json';
+import { analyzeConfig } from './config';
+
+// Profiles with these names are production environments
+const PRODUCTION_PROFILE_PATTERN = /^(prod|production|live|mainnet)$/i;
+// Host name labels of development, test and staging deployments
+const NON_PRODUCTION_LABELS = ['dev', 'development', 'staging', 'stage', 'stg', 'test', 'testing', 'sandbox', 'preprod', 'qa', 'local', 'localhost'];
+
+/**
+ * A profile merged with the fields it inherits
+ */
+export interface ResolvedProfile {
+  name: string;
+  /** The flat configuration of the profile, without profiles or extends */
+  config: TurnkeyConfig;
+  /** JSON pointer of the place each field is defined, by field name */
+  sources: Record<string, string>;
+  /** The profile and the profiles it extends, most specific first */
+  chain: string[];
+}
+
+/**
+ * Lists the profiles of a configuration
+ * @param config The configuration
+ * @returns Profile names, in the order they are defined
+ */
+export function listProfiles(config: TurnkeyConfig): string[] {
+  const profiles = config.profiles;
+  return profiles && typeof profiles === 'object' && !Array.isArray(profiles) ? Object.keys(profiles) : [];
+}
+
+/**
+ * Merges a profile with the profiles it extends and the top-level fields
+ * @param config The configuration
+ * @param name Profile name
+ * @returns The resolved profile
+ * @throws Error if the profile does not exist or is not an object, extends a profile that does not exist or is not
+ * an object, or inherits from itself
+ */
+export function resolveProfile(config: TurnkeyConfig, name: string): ResolvedProfile {
+  const names = listProfiles(config);
+  const chain: string[] = [];
+
+  for (let current: string | undefined = name; current !== undefined; current = (config.profiles![current] as TurnkeyProfile).extends) {
+    if (!names.includes(current)) {
+      const closest = suggestClosest(current, names);
+      const known = names.length > 0 ? `Known profiles: ${names.join(', ')}` : 'The configuration has no profiles';
+      const prefix = chain.length === 0 ? `Unknown profile "${current}"` : `Profile "${chain[chain.length - 1]}" extends unknown profile "${current}"`;
+      throw new Error(`${prefix}.${closest ? ` Did you mean "${closest}"?` : ''} ${known}`);
+    }
+    if (!isProfile(config.profiles![current])) {
+      throw new Error(chain.length === 0
+        ? `Profile "${current}" is not an object`
+        : `Profile "${chain[chain.length - 1]}" extends profile "${current}", which is not an object`);
+    }
+    if (chain.includes(current)) {
+      throw new Error(`Profile "${name}" inherits from itself: ${[...chain, current].join(' → ')}`);
+    }
+    chain.push(current);
+  }
+
+  const { profiles, ...base } = config;
+  const resolved: TurnkeyConfig = { ...base };
+  const sources: Record<string, string> = Object.fromEntries(Object.keys(base).map(key => [key, appendPointer('', key)]));
+
+  for (const profile of [...chain].reverse()) {
+    const { extends: _, ...fields } = profiles![profile] as TurnkeyProfile;
+    Object.assign(resolved, fields);
+    for (const key of Object.keys(fields)) {
+      sources[key] = appendPointer(appendPointer('/profiles', profile), key);
+    }
+  }
+
+  return { name, config: resolved, sources, chain };
+}
+
+/**
+ * Maps a pointer into the flat configuration of a profile to the place the value is defined, or
+ * to the profile itself for fields that are not defined anywhere
+ * @param profile The resolved profile
+ * @param pointer Pointer into the flat configuration
+ * @returns Pointer into the configuration file
+ */
+export function toProfilePointer(profile: ResolvedProfile, pointer: string): string {
+  const [field, ...rest] = parsePointer(pointer);
+  if (field === undefined) {
+    return appendPointer('/profiles', profile.name);
+  }
+
+  const source = profile.sources[field] ?? appendPointer(appendPointer('/profiles', profile.name), field);
+  return rest.reduce((current, segment) => appendPointer(current, segment), source);
+}
+
+/**
+ * Analyzes a configuration. Without profiles this is analyzeConfig. With profiles, each profile is
+ * analyzed with the fields it inherits, or only the selected one, and the profiles are compared
+ * with each other.
+ * @param config The configuration, with references resolved
+ * @param profile Profile to analyze; all profiles when omitted
+ * @returns Findings, with pointers to where each value is defined
+ */
+export async function analyzeProfiledConfig(config: TurnkeyConfig, profile?: string): Promise<Finding[]> {
+  const names = listProfiles(config);
+  if (names.length === 0) {
+    return (await analyzeConfig(config)).findings;
+  }
+
+  if (profile !== undefined && !names.includes(profile)) {
+    const closest = suggestClosest(profile, names);
+    return [{
+      ruleId: 'config/unknown-profile',
+      severity: 'error',
+      message: `Unknown profile "${profile}"`,
+      suggestion: `${closest ? `Did you mean "${closest}"? ` : ''}Known profiles: ${names.join(', ')}`,
+      pointer: '/profiles',
+    }];
+  }
+
+  // Inherited values produce the same finding in every profile, so findings are merged by rule and pointer
+  const groups = new Map<string, { finding: Finding; profiles: string[] }>();
+  const findings: Finding[] = [];
+
+  for (const name of profile === undefined ? names : [profile]) {
+    if (!isProfile(config.profiles![name])) {
+      findings.push({
+        ruleId: 'config/invalid-profile',
+        severity: 'error',
+        message: `Profile "${name}" is not an object`,
+        suggestion: 'Define the profile as an object with the fields that differ from the top level, e.g. { "base_url": "https://api.turnkey.com" }',
+        pointer: appendPointer('/profiles', name),
+      });
+      continue;
+    }
+
+    let resolved: ResolvedProfile;
+    try {
+      resolved = resolveProfile(config, name);
+    } catch (error) {
+      findings.push({
+        ruleId: 'config/invalid-profile-extends',
+        severity: 'error',
+        message: error instanceof Error ? error.message : String(error),
+        suggestion: 'Set "extends" to the name of another profile, or remove it to inherit the top-level fields',
+        pointer: appendPointer(appendPointer('/profiles', name), 'extends'),
+      });
+      continue;
+    }
+
+    for (const finding of (await analyzeConfig(resolved.config)).findings) {
+      const mapped: Finding = {
+        ...finding,
+        pointer: toProfilePointer(resolved, finding.pointer),
+        fix: finding.fix && { ...finding.fix, edits: finding.fix.edits.map(edit => ({ ...edit, pointer: toProfilePointer(resolved, edit.pointer) })) },
+      };
+      const key = `${mapped.ruleId}\u0000${mapped.pointer}`;
+      const group = groups.get(key);
+      if (group) {
+        group.profiles.push(name);
+      } else {
+        groups.set(key, { finding: mapped, profiles: [name] });
+      }
+    }
+  }
+
+  for (const { finding, profiles } of groups.values()) {
+    findings.push({ ...finding, message: `${describeProfiles(profiles)}: ${finding.message}` });
+  }
+
+  return profile === undefined ? [...findings, ...compareProfiles(config, names)] : findings;
+}
+
+/**
+ * Checks the profiles against each other: production profiles must not share API keys with other
+ * profiles or point at non-production endpoints, and profiles should not share wallets
+ * @param config The configuration, with references resolved
+ * @param names Profile names
+ * @returns Findings
+ */
+function compareProfiles(config: TurnkeyConfig, names: string[]): Finding[] {
+  const findings: Finding[] = [];
+  const profiles: ResolvedProfile[] = [];
+  for (const name of names) {
+    try {
+      profiles.push(resolveProfile(config, name));
+    } catch {
+      // Reported as config/invalid-profile-extends
+    }
+  }
+
+  const production = profiles.filter(profile => PRODUCTION_PROFILE_PATTERN.test(profile.name));
+  const other = profiles.filter(profile => !PRODUCTION_PROFILE_PATTERN.test(profile.name));
+
+  for (const prod of production) {
+    const key = prod.config.api_public_key;
+    const reused = other.filter(profile => key && profile.config.api_public_key?.toLowerCase() === key.toLowerCase());
+    if (reused.length > 0) {
+      findings.push({
+        ruleId: 'config/profile-shared-api-key',
+        severity: 'error',
+        message: `Production profile "${prod.name}" uses the same API key as ${reused.length === 1 ? 'profile' : 'profiles'} ${reused.map(profile => `"${profile.name}"`).join(', ')}`,
+        suggestion: `Create a separate API key for "${prod.name}" in the production organization, so that development credentials cannot sign production requests`,
+        pointer: toProfilePointer(prod, '/api_public_key'),
+      });
+    }
+
+    if (prod.config.base_url && isNonProductionUrl(prod.config.base_url)) {
+      findings.push({
+        ruleId: 'config/profile-non-production-url',
+        severity: 'error',
+        message: `Production profile "${prod.name}" points at a non-production base_url`,
+        suggestion: `Set base_url of "${prod.name}" to the production API, https://api.turnkey.com`,
+        pointer: toProfilePointer(prod, '/base_url'),
+        fix: { description: 'Set base_url to https://api.turnkey.com', edits: [{ op: 'set', pointer: appendPointer(appendPointer('/profiles', prod.name), 'base_url'), value: 'https://api.turnkey.com' }] },
+      });
+    }
+  }
+
+  for (const [i, first] of profiles.entries()) {
+    for (const second of profiles.slice(i + 1)) {
+      if (first.config.wallet_id && first.config.wallet_id === second.config.wallet_id) {
+        findings.push({
+          ruleId: 'config/profile-shared-wallet',
+          severity: 'warning',
+          message: `Profiles "${first.name}" and "${second.name}" use the same wallet ID`,
+          suggestion: 'Give each environment its own wallet, so that testing never signs with the keys of another environment',
+          pointer: toProfilePointer(second, '/wallet_id'),
+        });
+      }
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Checks whether a base URL belongs to a development, test or staging deployment
+ * @param url The base URL
+ * @returns True for local and private hosts and host names with labels like dev or staging
+ */
+function isNonProductionUrl(url: string): boolean {
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+
+  if (/^(127\.|10\.|192\.168\.|172\.(1[6-9]|2\d|3[01])\.)/.test(host) || host === '[::1]') {
+    return true;
+  }
+  return host.split(/[.-]/).some(label => NON_PRODUCTION_LABELS.includes(label));
+}
+
+/**
+ * Names one or more profiles for messages
+ * @param names Profile names
+ * @returns e.g. 'Profile "dev"' or 'Profiles "dev", "staging"'
+ */
+function describeProfiles(names: string[]): string {
+  return `${names.length === 1 ? 'Profile' : 'Profiles'} ${names.map(name => `"${name}"`).join(', ')}`;
+}
+
+/**
+ * Checks whether a profile is an object of fields
+ * @param value The value of the profile
+ * @returns True for objects that are not arrays
+ */
+function isProfile(value: unknown): value is TurnkeyProfile {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,157 @@
+import { ChatMessage, LlmProvider } from '../types';
+import { findWalletIds } from './expression';
+
+/**
+ * A value replaced by a placeholder
+ */
+export interface Redaction {
+  placeholder: string;
+  /** Kind of value, e.g. ETH_ADDRESS */
+  label: string;
+  value: string;
+}
+
+/**
+ * Replaces sensitive values with stable placeholders and puts them back.
+ * The same value always gets the same placeholder for the lifetime of the redactor.
+ */
+export interface Redactor {
+  /** Registers the values of sensitive keys (org_id, api_private_key, signWith, ...) and the wallet IDs of conditions in a parsed file */
+  registerValues(data: unknown): void;
+  redact(text: string): string;
+  restore(text: string): string;
+  /** Values redacted so far */
+  redactions(): Redaction[];
+  /** Creates a redactor that knows the same registered values but has handed out no placeholders yet */
+  fork(): Redactor;
+}
+
+// Labels of values found under these keys of a parsed file, matched case-insensitively
+const SENSITIVE_KEYS: Record<string, string> = {
+  org_id: 'ORG_ID',
+  organizationid: 'ORG_ID',
+  wallet_id: 'WALLET_ID',
+  walletid: 'WALLET_ID',
+  api_private_key: 'PRIVATE_KEY',
+  apiprivatekey: 'PRIVATE_KEY',
+  privatekey: 'PRIVATE_KEY',
+  api_public_key: 'API_KEY',
+  apipublickey: 'API_KEY',
+  key_id: 'KEY_ID',
+  public_key: 'PUBLIC_KEY',
+  signwith: 'ADDRESS'
+};
+
+// Patterns of sensitive values in free text, tried in order; earlier patterns win
+const PATTERNS: Array<{ label: string; pattern: RegExp }> = [
+  { label: 'PRIVATE_KEY', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { label: 'API_KEY', pattern: /\bsk-[A-Za-z0-9_-]{20,}/g },
+  // Compressed P-256/secp256k1 public keys, the format of Turnkey API public keys
+  { label: 'PUBLIC_KEY', pattern: /\b0[23][0-9a-fA-F]{64}\b/g },
+  // 32-byte hex values are usually private keys
+  { label: 'PRIVATE_KEY', pattern: /\b(?:0x)?[0-9a-fA-F]{64}\b/g },
+  { label: 'ETH_ADDRESS', pattern: /\b0x[0-9a-fA-F]{40}\b/g },
+  { label: 'BTC_ADDRESS', pattern: /\b(?:bc|tb|bcrt)1[02-9ac-hj-np-z]{6,87}\b/g },
+  { label: 'BTC_ADDRESS', pattern: /\b[13mn2][1-9A-HJ-NP-Za-km-z]{25,34}\b/g },
+  { label: 'SOL_ADDRESS', pattern: /\b[1-9A-HJ-NP-Za-km-z]{32,44}\b/g },
+  // Turnkey organization, wallet and user IDs
+  { label: 'ID', pattern: /\b[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}\b/g }
+];
+
+const PLACEHOLDER = /\[REDACTED_[A-Z_]+_\d+\]/g;
+
+/**
+ * Creates a redactor
+ * @param values Values registered so far, with their labels
+ * @returns The redactor
+ */
+export function createRedactor(values: Map<string, string> = new Map()): Redactor {
+  const byValue = new Map<string, Redaction>();
+  const byPlaceholder = new Map<string, Redaction>();
+  const counts = new Map<string, number>();
+  // Values registered from parsed files, matched literally before any pattern
+  const registered = new Map(values);
+
+  const placeholderFor = (value: string, label: string): string => {
+    let redaction = byValue.get(value);
+    if (!redaction) {
+      const count = (counts.get(label) ?? 0) + 1;
+      counts.set(label, count);
+      redaction = { placeholder: `[REDACTED_${label}_${count}]`, label, value };
+      byValue.set(value, redaction);
+      byPlaceholder.set(redaction.placeholder, redaction);
+    }
+    return redaction.placeholder;
+  };
+
+  const visit = (value: unknown, key?: string): void => {
+    if (Array.isArray(value)) {
+      value.forEach(item => visit(item, key));
+    } else if (value && typeof value === 'object') {
+      Object.entries(value).forEach(([childKey, child]) => visit(child, childKey));
+    } else if (typeof value === 'string' && key === 'condition') {
+      // Policies name wallets in their conditions, e.g. wallet.id == '...'
+      findWalletIds(value).forEach(id => registered.set(id, 'WALLET_ID'));
+    } else if (typeof value === 'string' && key !== undefined) {
+      const label = SENSITIVE_KEYS[key.toLowerCase()];
+      // Environment variable references such as ${TURNKEY_API_PRIVATE_KEY} are not secrets
+      if (label && value.length > 0 && !/^\$\{\w+\}$/.test(value)) {
+        registered.set(value, label);
+      }
+    }
+  };
+
+  return {
+    registerValues(data) {
+      visit(data);
+    },
+
+    redact(text) {
+      let result = text;
+
+      // Longest values first, so a value that contains another one is replaced whole
+      const values = Array.from(registered.keys()).sort((a, b) => b.length - a.length);
+      for (const value of values) {
+        if (result.includes(value)) {
+          result = result.split(value).join(placeholderFor(value, registered.get(value)!));
+        }
+      }
+
+      for (const { label, pattern } of PATTERNS) {
+        result = result.replace(pattern, match => placeholderFor(match, label));
+      }
+
+      return result;
+    },
+
+    restore(text) {
+      return text.replace(PLACEHOLDER, placeholder => byPlaceholder.get(placeholder)?.value ?? placeholder);
+    },
+
+    redactions() {
+      return Array.from(byValue.values());
+    },
+
+    fork() {
+      return createRedactor(registered);
+    }
+  };
+}
+
+/**
+ * Wraps a provider so that messages are redacted before they are sent and placeholders
+ * in the answer are replaced with the original values
+ * @param provider The provider to wrap
+ * @param redactor Redactor shared by all requests of a session
+ * @returns Provider with redaction
+ */
+export function withRedaction(provider: LlmProvider, redactor: Redactor): LlmProvider {
+  return {
+    ...provider,
+    async complete(request) {
+      const messages: ChatMessage[] = request.messages.map(message => ({ ...message, content: redactor.redact(message.content) }));
+      const answer = await provider.complete({ ...request, messages });
+      return redactor.restore(answer);
+    }
+  };
+}
@@ -0,0 +1,48 @@
+import { PolicyTestFixture, PolicyTestResult, SimulationResult } from '../types';
+import { simulatePolicies } from './simulation';
+
+/**
+ * Runs every test case of a fixture through its policy set
+ * @param fixture The policy set and its test cases
+ * @returns One result for each test case, in order
+ */
+export function runPolicyTests(fixture: PolicyTestFixture): PolicyTestResult[] {
+  return fixture.cases.map(testCase => {
+    const result = simulatePolicies(fixture.policies, testCase.request);
+    return { name: testCase.name, expected: testCase.expect, result, passed: result.decision === testCase.expect };
+  });
+}
+
+/**
+ * Explains how a policy set reached a decision: the deciding policy and sub-expression, or for an
+ * implicit deny, why each ALLOW policy did not match
+ * @param result The simulation result
+ * @returns Lines of the explanation, starting with the reason
+ */
+export function explainDecision(result: SimulationResult): string[] {
+  const lines = [result.reason];
+
+  if (result.decidingPolicy) {
+    const { decidedBy, detail } = result.decidingPolicy;
+    if (decidedBy) {
+      lines.push(`Decided by: ${decidedBy}`);
+    }
+    if (detail) {
+      lines.push(detail);
+    }
+    return lines;
+  }
+
+  for (const evaluation of result.evaluations) {
+    if (evaluation.outcome === 'error') {
+      lines.push(`"${evaluation.policyName}" could not be evaluated: ${evaluation.error}`);
+    } else if (evaluation.effect === 'EFFECT_ALLOW') {
+      // Conditions name the sub-expression that failed; traditional policies only have a detail
+      const why = evaluation.decidedBy
+        ? `${evaluation.decidedBy} is false${evaluation.detail ? ` (${evaluation.detail})` : ''}`
+        : evaluation.detail;
+      lines.push(`"${evaluation.policyName}" did not match${why ? `: ${why}` : ''}`);
+    }
+  }
+  return lines;
+}
@@ -0,0 +1,247 @@
+import { CheckReport, Finding, PolicyTestResult, PolicyTestRun, Severity } from '../types';
+import { explainDecision } from './regression';
+
+/**
+ * Process exit codes of the check command
+ */
+export const EXIT_CODES = {
+  /** No errors or warnings */
+  clean: 0,
+  /** At least one error-level finding */
+  errors: 1,
+  /** Warnings but no errors */
+  warnings: 2,
+};
+
+const TOOL_NAME = 'turnkey-copilot';
+const TOOL_URI = 'https://github.com/aravind33b/turnkey-copilot';
+
+/**
+ * Counts findings by severity
+ * @param findings Findings to count
+ * @returns Number of findings at each severity
+ */
+export function countFindings(findings: Finding[]): Record<Severity, number> {
+  const counts: Record<Severity, number> = { error: 0, warning: 0, info: 0 };
+  for (const finding of findings) {
+    counts[finding.severity]++;
+  }
+  return counts;
+}
+
+/**
+ * Determines the process exit code for a set of check reports
+ * @param reports Reports of the checked files
+ * @returns One of EXIT_CODES
+ */
+export function getExitCode(reports: CheckReport[]): number {
+  const counts = countFindings(reports.flatMap(report => report.findings));
+
+  if (counts.error > 0) {
+    return EXIT_CODES.errors;
+  }
+  return counts.warning > 0 ? EXIT_CODES.warnings : EXIT_CODES.clean;
+}
+
+/**
+ * Renders check reports as JSON
+ * @param reports Reports of the checked files
+ * @returns Pretty-printed JSON document
+ */
+export function formatJsonReport(reports: CheckReport[]): string {
+  const counts = countFindings(reports.flatMap(report => report.findings));
+
+  return JSON.stringify(
+    {
+      files: reports.map(report => ({
+        file: report.file,
+        fileType: report.fileType,
+        findings: report.findings.map(finding => ({
+          ruleId: finding.ruleId,
+          severity: finding.severity,
+          message: finding.message,
+          suggestion: finding.suggestion,
+          pointer: finding.pointer,
+          line: finding.location?.start.line,
+          column: finding.location?.start.column,
+        })),
+        details: report.details,
+        nextSteps: report.nextSteps,
+      })),
+      summary: { errors: counts.error, warnings: counts.warning, info: counts.info },
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Renders check reports as a SARIF 2.1.0 log for code-scanning dashboards
+ * @param reports Reports of the checked files
+ * @returns Pretty-printed SARIF document
+ */
+export function formatSarifReport(reports: CheckReport[]): string {
+  const ruleIds = Array.from(new Set(reports.flatMap(report => report.findings.map(finding => finding.ruleId)))).sort();
+
+  const results = reports.flatMap(report =>
+    report.findings.map(finding => ({
+      ruleId: finding.ruleId,
+      ruleIndex: ruleIds.indexOf(finding.ruleId),
+      level: finding.severity === 'info' ? 'note' : finding.severity,
+      message: { text: finding.suggestion ? `${finding.message}\n\n${finding.suggestion}` : finding.message },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: toUri(report.file) },
+            ...(finding.location && {
+              region: {
+                startLine: finding.location.start.line,
+                startColumn: finding.location.start.column,
+                endLine: finding.location.end.line,
+                endColumn: finding.location.end.column,
+              },
+            }),
+          },
+          logicalLocations: [{ fullyQualifiedName: finding.pointer || '/', kind: 'member' }],
+        },
+      ],
+    }))
+  );
+
+  return JSON.stringify(
+    {
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      version: '2.1.0',
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: TOOL_NAME,
+              informationUri: TOOL_URI,
+              rules: ruleIds.map(id => ({ id, name: id, shortDescription: { text: id } })),
+            },
+          },
+          artifacts: reports.map(report => ({ location: { uri: toUri(report.file) } })),
+          results,
+        },
+      ],
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Renders check reports as JUnit XML, with one test suite per file and one failing test case per error.
+ * Warnings and info findings are reported as passing test cases with the message in system-out.
+ * @param reports Reports of the checked files
+ * @returns JUnit XML document
+ */
+export function formatJunitReport(reports: CheckReport[]): string {
+  const lines: string[] = [];
+  const totalTests = reports.reduce((sum, report) => sum + Math.max(report.findings.length, 1), 0);
+  const totalFailures = reports.reduce((sum, report) => sum + countFindings(report.findings).error, 0);
+
+  lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+  lines.push(`<testsuites name="${TOOL_NAME}" tests="${totalTests}" failures="${totalFailures}" errors="0">`);
+
+  for (const report of reports) {
+    const failures = countFindings(report.findings).error;
+    const tests = Math.max(report.findings.length, 1);
+    lines.push(`  <testsuite name="${escapeXml(report.file)}" tests="${tests}" failures="${failures}" errors="0">`);
+
+    if (report.findings.length === 0) {
+      lines.push(`    <testcase classname="${escapeXml(report.file)}" name="${report.fileType}"/>`);
+    }
+
+    for (const finding of report.findings) {
+      const location = finding.location ? `:${finding.location.start.line}:${finding.location.start.column}` : '';
+      const body = `${finding.message}\nat ${report.file}${location} (${finding.pointer || '/'})` +
+        (finding.suggestion ? `\n\n${finding.suggestion}` : '');
+
+      lines.push(`    <testcase classname="${escapeXml(report.file)}" name="${escapeXml(`${finding.ruleId} ${finding.pointer || '/'}`)}">`);
+      if (finding.severity === 'error') {
+        lines.push(`      <failure message="${escapeXml(finding.message)}" type="${finding.ruleId}">${escapeXml(body)}</failure>`);
+      } else {
+        lines.push(`      <system-out>${escapeXml(`${finding.severity.toUpperCase()}: ${body}`)}</system-out>`);
+      }
+      lines.push('    </testcase>');
+    }
+
+    lines.push('  </testsuite>');
+  }
+
+  lines.push('</testsuites>');
+  return lines.join('\n');
+}
+
+/**
+ * Renders policy test results as JUnit XML, with one test suite per fixture and one test case per request.
+ * Failing test cases explain the decision the policy set made instead, and a fixture that could not
+ * be loaded is a suite with a single errored test case.
+ * @param runs Each fixture with the results of its test cases
+ * @returns JUnit XML document
+ */
+export function formatPolicyTestJunitReport(runs: PolicyTestRun[]): string {
+  const lines: string[] = [];
+  const failuresOf = (results: PolicyTestResult[]) => results.filter(result => !result.passed).length;
+  const totalTests = runs.reduce((sum, run) => sum + (run.error ? 1 : run.results.length), 0);
+  const totalFailures = runs.reduce((sum, run) => sum + failuresOf(run.results), 0);
+  const totalErrors = runs.filter(run => run.error).length;
+
+  lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+  lines.push(`<testsuites name="${TOOL_NAME}" tests="${totalTests}" failures="${totalFailures}" errors="${totalErrors}">`);
+
+  for (const { file, name, results, error } of runs) {
+    if (error) {
+      lines.push(`  <testsuite name="${escapeXml(name)}" tests="1" failures="0" errors="1">`);
+      lines.push(`    <testcase classname="${escapeXml(file)}" name="load fixture">`);
+      lines.push(`      <error message="${escapeXml(error)}"/>`);
+      lines.push('    </testcase>');
+      lines.push('  </testsuite>');
+      continue;
+    }
+
+    lines.push(`  <testsuite name="${escapeXml(name)}" tests="${results.length}" failures="${failuresOf(results)}" errors="0">`);
+
+    for (const result of results) {
+      const testCase = `    <testcase classname="${escapeXml(file)}" name="${escapeXml(result.name)}"`;
+      if (result.passed) {
+        lines.push(`${testCase}/>`);
+        continue;
+      }
+      const message = `Expected ${result.expected} but the policies decided ${result.result.decision}`;
+      lines.push(`${testCase}>`);
+      lines.push(`      <failure message="${escapeXml(message)}" type="${result.result.decision}">${escapeXml(explainDecision(result.result).join('\n'))}</failure>`);
+      lines.push('    </testcase>');
+    }
+
+    lines.push('  </testsuite>');
+  }
+
+  lines.push('</testsuites>');
+  return lines.join('\n');
+}
+
+/**
+ * Escapes text for use in XML attributes and element content
+ * @param text Raw text
+ * @returns Escaped text
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Converts a file path to a relative SARIF artifact URI
+ * @param filePath Path as given on the command line
+ * @returns URI with forward slashes
+ */
+function toUri(filePath: string): string {
+  return filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+}
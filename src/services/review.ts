@@ -0,0 +1,261 @@
+import { ActivityCoverage, CoverageRule, Finding, PolicySetFinding, PolicySetReview, PolicySource, SimplifiedPolicy, TurnkeyPolicy } from '../types';
+import { Atom, Clauses, conjoin, findContradiction, formatAtom, impliesCondition, isUnsatisfiable, negateAtom, normalizeCondition } from './logic';
+import { normalizeActivityType, policyName } from './simulation';
+
+// Label of the coverage row for activity types that no policy names
+const OTHER_ACTIVITY_TYPES = '(other activity types)';
+const ANY_ACTIVITY_TYPE = '(any activity type)';
+
+/**
+ * A single ALLOW or DENY rule of a policy set: a simplified policy, or one allowed activity of a
+ * traditional policy
+ */
+interface PolicyRule {
+  policy: PolicySource;
+  name: string;
+  effect: 'EFFECT_ALLOW' | 'EFFECT_DENY';
+  /** JSON pointer of the rule's condition in the policy */
+  pointer: string;
+  simplified: boolean;
+  clauses: Clauses;
+  /** Normal form of the negated condition */
+  negation: Clauses;
+}
+
+/**
+ * Reviews how the policies of a set combine: DENY policies that make ALLOW policies unreachable,
+ * duplicate and subsumed conditions, conditions that always or never hold, and overly broad ALLOW
+ * rules. Also builds a matrix of what the set effectively permits for each activity type.
+ * Conditions that do not parse are left out; analyzePolicy reports them.
+ * @param policies The policy set
+ * @returns Findings for each policy and the coverage of each activity type
+ */
+export function reviewPolicySet(policies: PolicySource[]): PolicySetReview {
+  const findings: PolicySetFinding[] = [];
+  const report = (rule: PolicyRule, finding: Omit<Finding, 'pointer'> & { pointer?: string }) =>
+    findings.push({ policy: rule.policy, finding: { ...finding, pointer: finding.pointer ?? rule.pointer } });
+
+  const rules = policies.flatMap(toRules);
+  const live: PolicyRule[] = [];
+
+  for (const rule of rules) {
+    const verb = rule.effect === 'EFFECT_ALLOW' ? 'allows' : 'denies';
+
+    if (isUnsatisfiable(rule.clauses)) {
+      const contradiction = rule.clauses.length === 1 ? findContradiction(rule.clauses[0]) : undefined;
+      const reason = contradiction === undefined
+        ? 'none of its alternatives can be true'
+        : contradiction[0] === contradiction[1]
+          ? `${formatAtom(contradiction[0])} never holds`
+          : `${formatAtom(contradiction[0])} contradicts ${formatAtom(contradiction[1])}`;
+      report(rule, {
+        ruleId: 'policy-set/unsatisfiable-condition',
+        severity: 'warning',
+        message: `${rule.name} never matches: ${reason}`,
+        suggestion: `Fix the condition so that it matches the requests it should ${rule.effect === 'EFFECT_ALLOW' ? 'allow' : 'deny'}, or remove the policy`,
+      });
+      continue;
+    }
+    live.push(rule);
+
+    if (rule.simplified && isUnsatisfiable(rule.negation)) {
+      report(rule, {
+        ruleId: 'policy-set/tautological-condition',
+        severity: 'error',
+        message: `${rule.name} ${verb} every activity: its condition is always true`,
+        suggestion: rule.effect === 'EFFECT_ALLOW'
+          ? 'Restrict the condition to the activity type, wallets, destinations and amounts this policy is meant for'
+          : 'A DENY policy that always matches blocks every request, whatever the ALLOW policies say. Restrict the condition to what should be denied',
+      });
+    } else if (rule.effect === 'EFFECT_ALLOW' && rule.simplified && rule.clauses.some(clause => clause.every(atom => atom.field.startsWith('activity.')))) {
+      report(rule, {
+        ruleId: 'policy-set/overly-broad-allow',
+        severity: 'warning',
+        message: `${rule.name} only restricts the activity, so it allows every matching activity for any wallet, destination and amount`,
+        suggestion: 'Add restrictions on the wallet, the destination or the amount, e.g. `eth.tx.to == \'0x...\' && eth.tx.value <= 1000000000000000000`',
+      });
+    }
+  }
+
+  // Traditional allowed activities on every resource without a condition
+  for (const policy of policies.filter(entry => !isSimplified(entry.policy))) {
+    const activities = (policy.policy as TurnkeyPolicy).allowed_activities;
+    (Array.isArray(activities) ? activities : []).forEach((activity, index) => {
+      if (typeof activity?.type === 'string' && Array.isArray(activity.resources) && activity.resources.includes('*') &&
+        typeof activity.parameters?.condition !== 'string') {
+        findings.push({
+          policy,
+          finding: {
+            ruleId: 'policy-set/overly-broad-allow',
+            severity: 'warning',
+            message: `"${policyName(policy)}" allows ${normalizeActivityType(activity.type)} on every resource ("*") without a condition`,
+            suggestion: 'List the private keys or wallet accounts this activity is allowed for in resources, or add a condition',
+            pointer: `/allowed_activities/${index}/resources`,
+          },
+        });
+      }
+    });
+  }
+
+  const shadowed = new Set<PolicyRule>();
+  for (const allow of live.filter(rule => rule.effect === 'EFFECT_ALLOW')) {
+    const deny = live.find(rule => rule.effect === 'EFFECT_DENY' && impliesCondition(allow.clauses, rule.clauses, rule.negation));
+    if (deny) {
+      shadowed.add(allow);
+      report(allow, {
+        ruleId: 'policy-set/shadowed-allow',
+        severity: 'error',
+        message: `${allow.name} never takes effect: every request it allows is denied by ${deny.name}`,
+        suggestion: `DENY policies win over ALLOW policies. Narrow the condition of ${deny.name}, or remove ${allow.name}`,
+      });
+    }
+  }
+
+  const redundant = new Set<PolicyRule>();
+  for (const [i, first] of live.entries()) {
+    for (const second of live.slice(i + 1)) {
+      if (first.effect !== second.effect || redundant.has(first) || redundant.has(second)) {
+        continue;
+      }
+      const forward = impliesCondition(first.clauses, second.clauses, second.negation);
+      const backward = impliesCondition(second.clauses, first.clauses, first.negation);
+      const verb = first.effect === 'EFFECT_ALLOW' ? 'allowed' : 'denied';
+
+      if (forward && backward) {
+        redundant.add(second);
+        report(second, {
+          ruleId: 'policy-set/duplicate-condition',
+          severity: 'warning',
+          message: `${second.name} has the same condition as ${first.name}`,
+          suggestion: `Remove one of the two policies, or change one of them if they were meant to ${first.effect === 'EFFECT_ALLOW' ? 'allow' : 'deny'} different requests`,
+        });
+      } else if (forward || backward) {
+        const [narrow, broad] = forward ? [first, second] : [second, first];
+        redundant.add(narrow);
+        if (!shadowed.has(narrow)) {
+          report(narrow, {
+            ruleId: 'policy-set/subsumed-condition',
+            severity: 'info',
+            message: `${narrow.name} has no effect: every request it matches is already ${verb} by ${broad.name}`,
+            suggestion: `Remove ${narrow.name}, or narrow ${broad.name} if it ${first.effect === 'EFFECT_ALLOW' ? 'allows' : 'denies'} more than intended`,
+          });
+        }
+      }
+    }
+  }
+
+  return { findings, coverage: buildCoverage(live.filter(rule => !shadowed.has(rule))) };
+}
+
+/**
+ * Splits a policy into rules
+ * @param policy The policy and its source
+ * @returns A rule for a simplified policy, or one for each allowed activity of a traditional policy
+ */
+function toRules(policy: PolicySource): PolicyRule[] {
+  const name = `"${policyName(policy)}"`;
+
+  if (isSimplified(policy.policy)) {
+    const { effect, condition } = policy.policy as SimplifiedPolicy;
+    const normalized = typeof condition === 'string' ? normalizeCondition(condition) : undefined;
+    if (!normalized || (effect !== 'EFFECT_ALLOW' && effect !== 'EFFECT_DENY')) {
+      return [];
+    }
+    return [{ policy, name, effect, pointer: '/condition', simplified: true, clauses: normalized.clauses, negation: normalized.negation }];
+  }
+
+  const rules: PolicyRule[] = [];
+  const activities = (policy.policy as TurnkeyPolicy).allowed_activities;
+  (Array.isArray(activities) ? activities : []).forEach((activity, index) => {
+    if (typeof activity?.type !== 'string' || !activity.type) {
+      return;
+    }
+    const condition = activity.parameters?.condition;
+    const normalized = typeof condition === 'string' ? normalizeCondition(condition) : undefined;
+    if (condition !== undefined && !normalized) {
+      return;
+    }
+
+    const resources = Array.isArray(activity.resources) ? activity.resources : [];
+    const type: Atom = { field: 'activity.type', operator: '==', values: [normalizeActivityType(activity.type)] };
+    const resource: Atom | undefined = resources.includes('*') ? undefined : { field: 'signWith', operator: 'in', values: resources };
+    try {
+      rules.push({
+        policy,
+        name: `${name} allowed_activities[${index}]`,
+        effect: 'EFFECT_ALLOW',
+        pointer: normalized ? `/allowed_activities/${index}/parameters/condition` : `/allowed_activities/${index}`,
+        simplified: false,
+        clauses: conjoin([resource ? [type, resource] : [type]], normalized ? normalized.clauses : [[]]),
+        negation: [[negateAtom(type)], ...(resource ? [[negateAtom(resource)]] : []), ...(normalized ? normalized.negation : [])],
+      });
+    } catch {
+      // Too complex to compare with the other rules
+    }
+  });
+  return rules;
+}
+
+/**
+ * Builds the coverage matrix: for each activity type named by a rule, and for all other types,
+ * which rules apply and whether requests are effectively allowed
+ * @param rules Rules that can take effect
+ * @returns One row for each activity type
+ */
+function buildCoverage(rules: PolicyRule[]): ActivityCoverage[] {
+  const types: string[] = [];
+  for (const atom of rules.flatMap(rule => rule.clauses.flat())) {
+    if (atom.field === 'activity.type' && atom.operator !== 'is' && atom.operator !== 'is not') {
+      for (const value of atom.values) {
+        if (typeof value === 'string' && !types.includes(value)) {
+          types.push(value);
+        }
+      }
+    }
+  }
+
+  const rows: Array<[string, Atom | undefined]> = types.length === 0
+    ? [[ANY_ACTIVITY_TYPE, undefined]]
+    : [
+        ...types.map((type): [string, Atom] => [type, { field: 'activity.type', operator: '==', values: [type] }]),
+        [OTHER_ACTIVITY_TYPES, { field: 'activity.type', operator: 'not in', values: types }],
+      ];
+
+  const coverage: ActivityCoverage[] = [];
+  for (const [activityType, type] of rows) {
+    const allowedBy: CoverageRule[] = [];
+    const deniedBy: CoverageRule[] = [];
+
+    for (const rule of rules) {
+      const clauses = type ? rule.clauses.map(clause => [type, ...clause]).filter(clause => findContradiction(clause) === undefined) : rule.clauses;
+      if (clauses.length === 0) {
+        continue;
+      }
+      // The rule applies unconditionally when its negation cannot hold for the type
+      const conditional = !isUnsatisfiable(type ? conjoin([[type]], rule.negation) : rule.negation);
+      (rule.effect === 'EFFECT_ALLOW' ? allowedBy : deniedBy).push({ name: rule.name, conditional });
+    }
+
+    // Types no rule names are only worth a row when a rule applies to them
+    if (activityType === OTHER_ACTIVITY_TYPES && allowedBy.length === 0 && deniedBy.length === 0) {
+      continue;
+    }
+
+    const status: ActivityCoverage['status'] = deniedBy.some(rule => !rule.conditional)
+      ? 'denied'
+      : allowedBy.some(rule => !rule.conditional)
+        ? deniedBy.length > 0 ? 'allowed-with-exceptions' : 'allowed'
+        : allowedBy.length > 0 ? 'conditional' : 'not-allowed';
+    coverage.push({ activityType, status, allowedBy, deniedBy });
+  }
+  return coverage;
+}
+
+/**
+ * Checks whether a policy uses the simplified format
+ * @param policy The policy
+ * @returns True for policies with policyName, effect and condition
+ */
+function isSimplified(policy: TurnkeyPolicy | SimplifiedPolicy): boolean {
+  return 'policyName' in policy && 'effect' in policy && 'condition' in policy;
+}
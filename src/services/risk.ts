@@ -0,0 +1,305 @@
+import { AllowedActivity, RiskAssessment, RiskLevel, RiskReason, SimplifiedPolicy, TurnkeyPolicy } from '../types';
+import { parseCondition, walkExpression } from './expression';
+import { Atom, Clauses, normalizeCondition } from './logic';
+import { normalizeActivityType } from './simulation';
+
+// Points each reason adds to the score of a policy
+const WEIGHTS = {
+  unsatisfiableQuorum: 40,
+  duplicatePublicKey: 30,
+  weakAlgorithm: 25,
+  singleApprover: 25,
+  unrestrictedAllow: 20,
+  wildcardResources: 15,
+  algorithmMismatch: 15,
+  unknownAlgorithm: 5,
+};
+
+// Lowest score of each level, highest level first
+const LEVELS: Array<[RiskLevel, number]> = [['critical', 70], ['high', 40], ['medium', 15], ['low', 0]];
+
+// Activities that move funds or keys out of the organization
+const HIGH_VALUE_ACTIVITIES = [
+  'SIGN_TRANSACTION',
+  'SIGN_RAW_PAYLOAD',
+  'SIGN_RAW_PAYLOADS',
+  'SIGN_WITH_INTENT',
+  'EXPORT_WALLET',
+  'EXPORT_WALLET_ACCOUNT',
+  'EXPORT_PRIVATE_KEY',
+];
+
+// Fields that restrict where funds go or how much is sent
+const RESTRICTING_FIELDS = ['eth.tx.to', 'eth.tx.value', 'solana.tx.transfers', 'solana.tx.spl_transfers', 'bitcoin.tx.outputs'];
+// Operators that narrow a field to a set of values or an upper bound
+const RESTRICTING_OPERATORS: Array<Atom['operator']> = ['==', 'in', '<', '<=', 'is'];
+
+// Curves of signing keys, by the names algorithms use for them
+const CURVES: Array<[string, RegExp]> = [
+  ['secp256k1', /SECP256K1/],
+  ['P-256', /P256|SECP256R1|PRIME256V1/],
+  ['Ed25519', /ED25519/],
+];
+const WEAK_ALGORITHMS = /RSA(512|1024)|P192|SECP192|SECP160|DSA1024|MD5|SHA1(?!\d)|HMAC|HS256|NONE/;
+
+/**
+ * Scores the security risk of a traditional or simplified policy. Each reason adds its weight to
+ * the score, which is capped at 100.
+ * @param policy The policy
+ * @returns The score, its level and the reasons, highest weight first
+ */
+export function assessPolicyRisk(policy: TurnkeyPolicy | SimplifiedPolicy): RiskAssessment {
+  const reasons = 'policyName' in policy && 'effect' in policy && 'condition' in policy
+    ? assessSimplifiedPolicy(policy as SimplifiedPolicy)
+    : assessTraditionalPolicy(policy as TurnkeyPolicy);
+
+  // Stable sort keeps reasons of the same weight in policy order
+  const ranked = reasons.map((reason, index) => ({ reason, index }))
+    .sort((a, b) => b.reason.weight - a.reason.weight || a.index - b.index)
+    .map(({ reason }) => reason);
+  const score = Math.min(100, ranked.reduce((sum, reason) => sum + reason.weight, 0));
+
+  return { score, level: LEVELS.find(([, minimum]) => score >= minimum)![0], reasons: ranked };
+}
+
+/**
+ * Finds the risks of a traditional policy: its quorum, its signing keys and its allowed activities
+ * @param policy The policy
+ * @returns Reasons in policy order
+ */
+function assessTraditionalPolicy(policy: TurnkeyPolicy): RiskReason[] {
+  const reasons: RiskReason[] = [];
+  const keys = Array.isArray(policy.signing_keys) ? policy.signing_keys : [];
+  const activities = Array.isArray(policy.allowed_activities) ? policy.allowed_activities : [];
+  const approvals = typeof policy.required_approvals === 'number' ? policy.required_approvals : 1;
+
+  if (approvals > keys.length) {
+    reasons.push({
+      ruleId: 'risk/unsatisfiable-quorum',
+      weight: WEIGHTS.unsatisfiableQuorum,
+      message: `required_approvals is ${approvals}, but the policy has only ${keys.length} signing ${keys.length === 1 ? 'key' : 'keys'}, so no activity can ever be approved`,
+      suggestion: `Add signing keys or lower required_approvals to at most ${Math.max(keys.length, 1)}`,
+      pointer: '/required_approvals',
+    });
+  }
+
+  const highValue = activities.findIndex(activity => isHighValue(activity));
+  if (approvals <= 1 && highValue !== -1) {
+    reasons.push({
+      ruleId: 'risk/single-approver',
+      weight: WEIGHTS.singleApprover,
+      message: `A single approval is enough for ${normalizeActivityType(activities[highValue].type!)}`,
+      suggestion: 'Require at least 2 approvals from different key holders for activities that move funds or export keys',
+      pointer: policy.required_approvals === undefined ? '' : '/required_approvals',
+    });
+  }
+
+  // Keys that share a public key let one holder count as several approvers
+  const seen = new Map<string, number>();
+  keys.forEach((key, index) => {
+    const publicKey = typeof key?.public_key === 'string' ? key.public_key.toLowerCase().replace(/^0x/, '') : '';
+    if (!publicKey) {
+      return;
+    }
+    const first = seen.get(publicKey);
+    if (first === undefined) {
+      seen.set(publicKey, index);
+      return;
+    }
+    reasons.push({
+      ruleId: 'risk/duplicate-public-key',
+      weight: WEIGHTS.duplicatePublicKey,
+      message: `signing_keys[${index}] has the same public_key as signing_keys[${first}], so one key holder counts as two signing keys`,
+      suggestion: 'Give every signing key its own key pair, held by a different person or device',
+      pointer: `/signing_keys/${index}/public_key`,
+    });
+  });
+
+  keys.forEach((key, index) => {
+    const reason = assessAlgorithm(key?.algorithm, key?.public_key, `/signing_keys/${index}/algorithm`);
+    if (reason) {
+      reasons.push(reason);
+    }
+  });
+
+  activities.forEach((activity, index) => {
+    if (!activity?.type) {
+      return;
+    }
+    const type = normalizeActivityType(activity.type);
+
+    if (Array.isArray(activity.resources) && activity.resources.includes('*')) {
+      reasons.push({
+        ruleId: 'risk/wildcard-resources',
+        weight: isHighValue(activity) ? WEIGHTS.wildcardResources : Math.round(WEIGHTS.wildcardResources / 2),
+        message: `allowed_activities[${index}] allows ${type} on every resource ("*")`,
+        suggestion: 'List the private keys or wallet accounts this activity is allowed for',
+        pointer: `/allowed_activities/${index}/resources`,
+      });
+    }
+
+    const condition = activity.parameters?.condition;
+    const clauses = typeof condition === 'string' ? normalizeCondition(condition)?.clauses : [[]];
+    if (isHighValue(activity) && clauses && !isRestricted(clauses)) {
+      reasons.push({
+        ruleId: 'risk/unrestricted-allow',
+        weight: WEIGHTS.unrestrictedAllow,
+        message: `allowed_activities[${index}] allows ${type} ${typeof condition === 'string' ? 'with a condition that does not restrict' : 'without a condition on'} the destination or the amount`,
+        suggestion: 'Add a condition that limits the destination and the amount, e.g. `eth.tx.to == \'0x...\' && eth.tx.value <= 1000000000000000000`',
+        pointer: typeof condition === 'string' ? `/allowed_activities/${index}/parameters/condition` : `/allowed_activities/${index}`,
+      });
+    }
+  });
+
+  return reasons;
+}
+
+/**
+ * Finds the risks of a simplified policy: ALLOW policies that a single approver can use for
+ * high-value activities, or that do not restrict the destination or amount
+ * @param policy The policy
+ * @returns Reasons in policy order
+ */
+function assessSimplifiedPolicy(policy: SimplifiedPolicy): RiskReason[] {
+  const reasons: RiskReason[] = [];
+  const normalized = typeof policy.condition === 'string' ? normalizeCondition(policy.condition) : undefined;
+  if (policy.effect !== 'EFFECT_ALLOW' || !normalized || !allowsHighValue(normalized.clauses)) {
+    return reasons;
+  }
+
+  const approvers = typeof policy.consensus === 'string' ? requiredApprovers(policy.consensus) : 1;
+  if (approvers <= 1) {
+    reasons.push({
+      ruleId: 'risk/single-approver',
+      weight: WEIGHTS.singleApprover,
+      message: policy.consensus === undefined
+        ? 'The policy has no consensus, so a single approver can use it for activities that move funds or export keys'
+        : 'The consensus is met by a single approver, who can use the policy for activities that move funds or export keys',
+      suggestion: 'Require several approvers, e.g. `"consensus": "approvers.count() >= 2"`',
+      pointer: policy.consensus === undefined ? '' : '/consensus',
+    });
+  }
+
+  if (!isRestricted(normalized.clauses)) {
+    reasons.push({
+      ruleId: 'risk/unrestricted-allow',
+      weight: WEIGHTS.unrestrictedAllow,
+      message: 'The condition allows transactions to any destination for any amount',
+      suggestion: 'Limit the destination and the amount, e.g. `eth.tx.to == \'0x...\' && eth.tx.value <= 1000000000000000000`',
+      pointer: '/condition',
+    });
+  }
+
+  return reasons;
+}
+
+/**
+ * Checks the algorithm of a signing key: weak algorithms, algorithms that do not match the format
+ * of the public key, and algorithms that are not recognized
+ * @param algorithm The algorithm
+ * @param publicKey The public key
+ * @param pointer JSON pointer of the algorithm
+ * @returns A reason, or undefined if the algorithm is fine or missing
+ */
+function assessAlgorithm(algorithm: unknown, publicKey: unknown, pointer: string): RiskReason | undefined {
+  if (typeof algorithm !== 'string' || !algorithm) {
+    return undefined;
+  }
+
+  const name = algorithm.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  if (WEAK_ALGORITHMS.test(name)) {
+    return {
+      ruleId: 'risk/weak-algorithm',
+      weight: WEIGHTS.weakAlgorithm,
+      message: `Signing key algorithm ${algorithm} is weak`,
+      suggestion: 'Use an ECDSA_SECP256K1, ECDSA_P256 or EDDSA_ED25519 key',
+      pointer,
+    };
+  }
+
+  const curve = CURVES.find(([, pattern]) => pattern.test(name))?.[0];
+  if (!curve) {
+    return {
+      ruleId: 'risk/unknown-algorithm',
+      weight: WEIGHTS.unknownAlgorithm,
+      message: `Signing key algorithm ${algorithm} is not recognized`,
+      suggestion: 'Use an ECDSA_SECP256K1, ECDSA_P256 or EDDSA_ED25519 key',
+      pointer,
+    };
+  }
+
+  // Hex public keys reveal their kind: 32-byte Ed25519 keys, or 33/65-byte ECDSA points
+  const hex = typeof publicKey === 'string' ? publicKey.replace(/^0x/, '') : '';
+  const ecdsa = /^(0[23][0-9a-f]{64}|04[0-9a-f]{128})$/i.test(hex);
+  const ed25519 = /^[0-9a-f]{64}$/i.test(hex);
+  if ((curve === 'Ed25519' && ecdsa) || (curve !== 'Ed25519' && ed25519)) {
+    return {
+      ruleId: 'risk/algorithm-mismatch',
+      weight: WEIGHTS.algorithmMismatch,
+      message: `Signing key algorithm ${algorithm} does not match its public key, which is ${ecdsa ? 'an ECDSA' : 'an Ed25519'} key`,
+      suggestion: 'Set algorithm to the curve the key was generated on, or replace the public key',
+      pointer,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Checks whether an allowed activity moves funds or keys out of the organization
+ * @param activity The allowed activity
+ * @returns True for signing and export activities
+ */
+function isHighValue(activity: AllowedActivity | undefined): boolean {
+  return typeof activity?.type === 'string' && HIGH_VALUE_ACTIVITIES.includes(normalizeActivityType(activity.type));
+}
+
+/**
+ * Checks whether a condition can allow a high-value activity, i.e. it has an alternative that
+ * does not limit activity.type to other activities
+ * @param clauses The condition
+ * @returns True if a high-value activity can match
+ */
+function allowsHighValue(clauses: Clauses): boolean {
+  return clauses.some(clause => clause
+    .filter(atom => atom.field === 'activity.type' && (atom.operator === '==' || atom.operator === 'in'))
+    .every(atom => atom.values.some(value => typeof value === 'string' && HIGH_VALUE_ACTIVITIES.includes(value))));
+}
+
+/**
+ * Checks whether every alternative of a condition restricts the destination or the amount
+ * @param clauses The condition
+ * @returns True if no alternative allows any destination and any amount
+ */
+function isRestricted(clauses: Clauses): boolean {
+  return clauses.every(clause => clause.some(atom =>
+    RESTRICTING_OPERATORS.includes(atom.operator) && RESTRICTING_FIELDS.some(field => atom.field.includes(field))));
+}
+
+/**
+ * Determines how many approvers a consensus expression requires, from comparisons of approvers.count()
+ * @param consensus The consensus expression
+ * @returns The minimum number of approvers; 1 when the expression does not count them
+ */
+function requiredApprovers(consensus: string): number {
+  const { ast } = parseCondition(consensus);
+  let required = 1;
+  if (!ast) {
+    return required;
+  }
+
+  walkExpression(ast, node => {
+    if (node.kind !== 'binary') {
+      return;
+    }
+    const counted = (side: typeof node.left) => side.kind === 'call' && side.method === 'count' && side.target.kind === 'identifier' && side.target.name === 'approvers';
+    const [operator, literal] = counted(node.left)
+      ? [node.operator, node.right]
+      : counted(node.right) ? [({ '<=': '>=', '<': '>' } as Record<string, string>)[node.operator] ?? node.operator, node.left] : [undefined, undefined];
+    if (!operator || literal?.kind !== 'literal' || typeof literal.value !== 'number') {
+      return;
+    }
+    const count = operator === '>' ? literal.value + 1 : operator === '>=' || operator === '==' ? literal.value : 1;
+    required = Math.max(required, count);
+  });
+  return required;
+}
@@ -0,0 +1,335 @@
+import { CheckedFileType, Finding } from '../types';
+import { suggestClosest } from '../utils';
+import { appendPointer } from '../utils/json';
+
+/**
+ * The subset of JSON Schema (draft-07) used for Turnkey files
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $ref?: string;
+  title?: string;
+  description?: string;
+  type?: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  /** false rejects keys that are not in properties */
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+  definitions?: Record<string, JsonSchema>;
+}
+
+const JSON_SCHEMA_DRAFT = 'http://json-schema.org/draft-07/schema#';
+
+// Allowed at the top of every file so editors can find the schema
+const SCHEMA_PROPERTY: JsonSchema = { type: 'string', description: 'Path or URL of the JSON Schema of this file, for editor autocomplete' };
+
+const REFERENCE_NOTE = 'Supports ${VAR}, ${VAR:-default} and file:<path> references.';
+
+const CONFIG_FIELDS: Record<string, JsonSchema> = {
+  org_id: { type: 'string', description: `Turnkey organization ID. ${REFERENCE_NOTE}` },
+  wallet_id: { type: 'string', description: `ID of the wallet to sign with. ${REFERENCE_NOTE}` },
+  api_public_key: { type: 'string', description: `Compressed P-256 public key of the API key, 66 hex characters. ${REFERENCE_NOTE}` },
+  api_private_key: { type: 'string', description: `P-256 private key of the API key, 64 hex characters. Reference it instead of committing it. ${REFERENCE_NOTE}` },
+  base_url: { type: 'string', description: `Turnkey API base URL, e.g. https://api.turnkey.com. ${REFERENCE_NOTE}` }
+};
+
+const SCHEMAS: Record<CheckedFileType, JsonSchema> = {
+  config: {
+    $schema: JSON_SCHEMA_DRAFT,
+    title: 'Turnkey configuration',
+    type: 'object',
+    properties: {
+      $schema: SCHEMA_PROPERTY,
+      ...CONFIG_FIELDS,
+      profiles: {
+        type: 'object',
+        description: 'Named environments, e.g. dev, staging and prod, that inherit the top-level fields',
+        additionalProperties: { $ref: '#/definitions/profile' }
+      }
+    },
+    additionalProperties: false,
+    definitions: {
+      profile: {
+        type: 'object',
+        description: 'Fields of this profile, overriding the top-level fields or those of the profile it extends',
+        properties: {
+          extends: { type: 'string', description: 'Name of another profile to inherit from' },
+          ...CONFIG_FIELDS
+        },
+        additionalProperties: false
+      }
+    }
+  },
+  policy: {
+    $schema: JSON_SCHEMA_DRAFT,
+    title: 'Turnkey policy',
+    anyOf: [
+      {
+        title: 'Policy',
+        type: 'object',
+        properties: {
+          $schema: SCHEMA_PROPERTY,
+          policyName: { type: 'string', description: 'Short description of the policy' },
+          effect: { type: 'string', enum: ['EFFECT_ALLOW', 'EFFECT_DENY'], description: 'Whether matching activities are allowed or denied' },
+          condition: { type: 'string', description: 'Expression in the Turnkey policy language that selects the activities, e.g. eth.tx.value < 1000000000000000000' },
+          consensus: { type: 'string', description: 'Expression over the approvers, e.g. approvers.count() >= 2' },
+          notes: { type: 'string', description: 'Free-form notes' }
+        },
+        additionalProperties: false
+      },
+      {
+        title: 'Policy with signing keys and allowed activities',
+        type: 'object',
+        properties: {
+          $schema: SCHEMA_PROPERTY,
+          required_approvals: { type: 'integer', description: 'Number of approvals an activity needs' },
+          signing_keys: {
+            type: 'array',
+            description: 'Keys that can approve activities',
+            items: {
+              type: 'object',
+              properties: {
+                key_id: { type: 'string', description: 'ID of the key' },
+                name: { type: 'string', description: 'Display name of the key' },
+                public_key: { type: 'string', description: 'Public key' },
+                algorithm: { type: 'string', description: 'Signature algorithm, e.g. ECDSA_SECP256K1' }
+              },
+              additionalProperties: false
+            }
+          },
+          allowed_origins: { type: 'array', items: { type: 'string' }, description: 'Origins that may use the keys' },
+          allowed_request_origins: { type: 'array', items: { type: 'string' }, description: 'Origins that may send requests' },
+          allowed_activities: {
+            type: 'array',
+            description: 'Activities the policy allows',
+            items: {
+              type: 'object',
+              properties: {
+                type: { type: 'string', description: 'Activity type, e.g. SIGN_WITH_INTENT' },
+                resources: { type: 'array', items: { type: 'string' }, description: 'Resources the activity may use' },
+                parameters: { type: 'object', description: 'Parameters of the activity' }
+              },
+              additionalProperties: false
+            }
+          }
+        },
+        additionalProperties: false
+      }
+    ]
+  },
+  transaction: {
+    $schema: JSON_SCHEMA_DRAFT,
+    title: 'Turnkey transaction signing request',
+    type: 'object',
+    properties: {
+      $schema: SCHEMA_PROPERTY,
+      type: { type: 'string', enum: ['ACTIVITY_TYPE_SIGN_TRANSACTION_V2'], description: 'Activity type' },
+      timestampMs: { type: 'string', description: 'Time the request was made, in milliseconds since the epoch, as a string' },
+      organizationId: { type: 'string', description: 'Turnkey organization ID' },
+      parameters: {
+        type: 'object',
+        properties: {
+          type: {
+            type: 'string',
+            enum: ['TRANSACTION_TYPE_ETHEREUM', 'TRANSACTION_TYPE_SOLANA', 'TRANSACTION_TYPE_BITCOIN'],
+            description: 'Blockchain of the transaction'
+          },
+          signWith: { type: 'string', description: 'Address or private key ID to sign with' },
+          unsignedTransaction: { type: 'string', description: 'The unsigned transaction: RLP hex for Ethereum, message hex or base64 for Solana, PSBT or raw hex for Bitcoin' }
+        },
+        additionalProperties: false
+      }
+    },
+    additionalProperties: false
+  }
+};
+
+/**
+ * Kinds of files that have a schema
+ */
+export const SCHEMA_KINDS = Object.keys(SCHEMAS) as CheckedFileType[];
+
+/**
+ * Returns the JSON Schema of a kind of file
+ * @param kind config, policy or transaction
+ * @returns The schema
+ * @throws Error if the kind is unknown
+ */
+export function getSchema(kind: string): JsonSchema {
+  if (!SCHEMA_KINDS.includes(kind as CheckedFileType)) {
+    const closest = suggestClosest(kind, SCHEMA_KINDS);
+    throw new Error(`Unknown schema kind: ${kind}.${closest ? ` Did you mean "${closest}"?` : ''} Use one of: ${SCHEMA_KINDS.join(', ')}`);
+  }
+  return SCHEMAS[kind as CheckedFileType];
+}
+
+/**
+ * Validates a file against the schema of its kind, reporting unknown keys, values of the wrong
+ * type and values outside an enumeration
+ * @param data Parsed file
+ * @param kind Detected kind of the file
+ * @returns Findings
+ */
+export function validateSchema(data: unknown, kind: CheckedFileType): Finding[] {
+  const findings: Finding[] = [];
+  validateValue(data, SCHEMAS[kind], '', SCHEMAS[kind], findings);
+  return findings;
+}
+
+/**
+ * Validates a value and everything nested in it
+ * @param value The value
+ * @param schema Schema of the value
+ * @param pointer JSON pointer of the value
+ * @param root Root schema, for $ref
+ * @param findings Findings to add to
+ */
+function validateValue(value: unknown, schema: JsonSchema, pointer: string, root: JsonSchema, findings: Finding[]): void {
+  if (schema.$ref) {
+    validateValue(value, resolveRef(schema.$ref, root), pointer, root, findings);
+    return;
+  }
+
+  // The closest alternative is the one with the fewest problems
+  if (schema.anyOf) {
+    const results = schema.anyOf.map(alternative => {
+      const alternativeFindings: Finding[] = [];
+      validateValue(value, alternative, pointer, root, alternativeFindings);
+      return alternativeFindings;
+    });
+    findings.push(...results.reduce((best, current) => (current.length < best.length ? current : best)));
+    return;
+  }
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    findings.push({
+      ruleId: 'schema/invalid-type',
+      severity: 'error',
+      message: `${describePointer(pointer)} must be ${withArticle(schema.type)}, but is ${withArticle(typeOf(value))}`,
+      suggestion: schema.description ? `${describePointer(pointer)}: ${schema.description}` : `Change the value to ${withArticle(schema.type)}`,
+      pointer,
+    });
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    findings.push({
+      ruleId: 'schema/invalid-value',
+      severity: 'error',
+      message: `${describePointer(pointer)} must be one of ${schema.enum.map(item => JSON.stringify(item)).join(', ')}`,
+      suggestion: schema.description ? `${describePointer(pointer)}: ${schema.description}` : 'Use one of the listed values',
+      pointer,
+    });
+    return;
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => validateValue(item, schema.items!, appendPointer(pointer, index), root, findings));
+  } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+    validateObject(value as Record<string, unknown>, schema, pointer, root, findings);
+  }
+}
+
+/**
+ * Validates the keys of an object
+ * @param object The object
+ * @param schema Schema of the object
+ * @param pointer JSON pointer of the object
+ * @param root Root schema, for $ref
+ * @param findings Findings to add to
+ */
+function validateObject(object: Record<string, unknown>, schema: JsonSchema, pointer: string, root: JsonSchema, findings: Finding[]): void {
+  const properties = schema.properties ?? {};
+  const known = Object.keys(properties).filter(key => key !== '$schema');
+
+  for (const [key, value] of Object.entries(object)) {
+    const keyPointer = appendPointer(pointer, key);
+    if (properties[key]) {
+      validateValue(value, properties[key], keyPointer, root, findings);
+    } else if (typeof schema.additionalProperties === 'object') {
+      validateValue(value, schema.additionalProperties, keyPointer, root, findings);
+    } else if (schema.additionalProperties === false) {
+      const closest = suggestClosest(key, known);
+      const where = pointer ? ` in ${describePointer(pointer)}` : '';
+      findings.push({
+        ruleId: 'schema/unknown-key',
+        severity: 'warning',
+        message: `Unknown key "${key}"${where}`,
+        suggestion: closest
+          ? `Did you mean "${closest}"? Misspelled keys are ignored, so the value has no effect`
+          : `Remove the key or check its spelling. Known keys: ${known.join(', ')}`,
+        pointer: keyPointer,
+        ...(closest && !(closest in object) && {
+          fix: {
+            description: `Rename "${key}" to "${closest}"`,
+            edits: [
+              { op: 'set' as const, pointer: appendPointer(pointer, closest), value },
+              { op: 'remove' as const, pointer: keyPointer }
+            ]
+          }
+        }),
+      });
+    }
+  }
+}
+
+/**
+ * Resolves a local $ref
+ * @param ref Reference like #/definitions/profile
+ * @param root Root schema
+ * @returns The referenced schema
+ * @throws Error if the reference does not point into the definitions
+ */
+function resolveRef(ref: string, root: JsonSchema): JsonSchema {
+  const name = ref.replace(/^#\/definitions\//, '');
+  const schema = root.definitions?.[name];
+  if (!schema) {
+    throw new Error(`Unresolvable schema reference: ${ref}`);
+  }
+  return schema;
+}
+
+/**
+ * Checks the JSON type of a value
+ * @param value The value
+ * @param type JSON Schema type
+ * @returns True if the value has the type
+ */
+function matchesType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  if (type === 'integer') {
+    return Number.isInteger(value);
+  }
+  return typeOf(value) === type;
+}
+
+/**
+ * Names the JSON type of a value
+ * @param value The value
+ * @returns object, array, string, number, boolean or null
+ */
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+/**
+ * Adds an indefinite article to a type name
+ * @param type Type name
+ * @returns e.g. "an array" or "a string"
+ */
+function withArticle(type: string): string {
+  return type === 'null' ? 'null' : `${/^[aeiou]/.test(type) ? 'an' : 'a'} ${type}`;
+}
+
+/**
+ * Describes the value at a JSON pointer for messages
+ * @param pointer JSON pointer
+ * @returns e.g. "parameters/signWith", or "The file" for the root
+ */
+function describePointer(pointer: string): string {
+  return pointer.slice(1) || 'The file';
+}
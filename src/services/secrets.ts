@@ -0,0 +1,338 @@
+import dotenv from 'dotenv';
+import fs from 'fs/promises';
+import path from 'path';
+import { Finding, TurnkeyConfig } from '../types';
+import { readJsonFile, resolvePath } from '../utils';
+import { appendPointer, parsePointer } from '../utils/json';
+import { listProfiles, ResolvedProfile, resolveProfile } from './profiles';
+
+// ${VAR} or ${VAR:-default}
+const VARIABLE_PATTERN = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+const FILE_PREFIX = 'file:';
+// Keys whose values must not be committed or shown
+const SECRET_KEY_PATTERN = /private[_-]?key|secret|password|token/i;
+const MASK = '[REDACTED]';
+
+/**
+ * A ${VAR} or file: reference in a configuration value
+ */
+export interface ConfigReference {
+  /** JSON pointer of the value */
+  pointer: string;
+  kind: 'variable' | 'file';
+  /** Variable name or file path */
+  name: string;
+  /** Where the value came from, or undefined if it could not be resolved */
+  source?: 'environment' | '.env' | 'default' | 'file';
+  /** Why a file could not be read */
+  error?: string;
+}
+
+/**
+ * A configuration with its references resolved
+ */
+export interface ResolvedConfig {
+  /** The configuration with resolved values; unresolved references are left as written */
+  config: TurnkeyConfig;
+  references: ConfigReference[];
+  /** Values of secret keys and contents of key files, which must never be shown */
+  secrets: string[];
+}
+
+/**
+ * Resolves ${VAR} and ${VAR:-default} references from the environment and the .env file next to
+ * the configuration, then file: references relative to the configuration. Values that are still
+ * references after resolution are left as written and reported in the references.
+ * @param config The configuration as written
+ * @param configPath Path to the configuration file, used to find .env and key files
+ * @param env Environment variables, which take precedence over the .env file
+ * @returns The resolved configuration
+ */
+export async function resolveConfig(config: TurnkeyConfig, configPath: string, env: NodeJS.ProcessEnv = process.env): Promise<ResolvedConfig> {
+  const directory = path.dirname(resolvePath(configPath));
+  const dotenvValues = await readDotenv(path.join(directory, '.env'));
+  const result: ResolvedConfig = { config: {}, references: [], secrets: [] };
+
+  /**
+   * Resolves the references of one string value
+   */
+  const resolveValue = async (value: string, pointer: string, secret: boolean): Promise<string> => {
+    let resolved = true;
+
+    let interpolated = value.replace(VARIABLE_PATTERN, (match, name: string, fallback: string | undefined) => {
+      const reference: ConfigReference = { pointer, kind: 'variable', name };
+      result.references.push(reference);
+      // Like the shell, ${VAR:-default} also replaces an empty value
+      const isSet = (candidate: string | undefined) => candidate !== undefined && (fallback === undefined || candidate !== '');
+      if (isSet(env[name])) {
+        reference.source = 'environment';
+        return env[name]!;
+      }
+      if (isSet(dotenvValues[name])) {
+        reference.source = '.env';
+        return dotenvValues[name];
+      }
+      if (fallback !== undefined) {
+        reference.source = 'default';
+        return fallback;
+      }
+      resolved = false;
+      return match;
+    });
+
+    if (!resolved) {
+      return value;
+    }
+
+    if (interpolated.startsWith(FILE_PREFIX)) {
+      const name = interpolated.slice(FILE_PREFIX.length).trim();
+      const reference: ConfigReference = { pointer, kind: 'file', name };
+      result.references.push(reference);
+      try {
+        interpolated = (await fs.readFile(path.resolve(directory, name), 'utf-8')).trim();
+        reference.source = 'file';
+        result.secrets.push(interpolated);
+      } catch (error) {
+        reference.error = (error as NodeJS.ErrnoException).code === 'ENOENT' ? 'file not found' : (error as Error).message;
+        return value;
+      }
+    }
+
+    if (secret && interpolated) {
+      result.secrets.push(interpolated);
+    }
+    return interpolated;
+  };
+
+  /**
+   * Resolves the references of a value and everything nested in it
+   */
+  const resolveNode = async (node: unknown, pointer: string, secret: boolean): Promise<unknown> => {
+    if (typeof node === 'string') {
+      return resolveValue(node, pointer, secret);
+    }
+    if (Array.isArray(node)) {
+      const items: unknown[] = [];
+      for (const [index, item] of node.entries()) {
+        items.push(await resolveNode(item, appendPointer(pointer, index), secret));
+      }
+      return items;
+    }
+    if (node && typeof node === 'object') {
+      const object: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(node)) {
+        object[key] = await resolveNode(value, appendPointer(pointer, key), secret || SECRET_KEY_PATTERN.test(key));
+      }
+      return object;
+    }
+    return node;
+  };
+
+  result.config = (await resolveNode(config, '', false)) as TurnkeyConfig;
+  return result;
+}
+
+/**
+ * Reads and resolves a configuration file, for commands that use its values
+ * @param configPath Path to the configuration file
+ * @param profile Profile to use; required when the configuration has profiles
+ * @param env Environment variables
+ * @returns The resolved configuration, or the resolved profile
+ * @throws Error if the file cannot be read, the profile is missing or unknown, or a reference it uses cannot be resolved;
+ * the error names the reference, never its value
+ */
+export async function loadConfig(configPath: string, profile?: string, env: NodeJS.ProcessEnv = process.env): Promise<TurnkeyConfig> {
+  const { config, references } = await resolveConfig(await readJsonFile<TurnkeyConfig>(configPath), configPath, env);
+
+  const names = listProfiles(config);
+  if (profile === undefined && names.length > 0) {
+    throw new Error(`${configPath} has profiles ${names.join(', ')}. Choose one with --profile`);
+  }
+  if (profile !== undefined && names.length === 0) {
+    throw new Error(`${configPath} has no profiles. Remove --profile, or add a "profiles" section`);
+  }
+  const resolved = profile === undefined ? undefined : resolveProfile(config, profile);
+
+  // References in other profiles, or in fields the profile overrides, do not matter
+  const unresolved = references.find(reference => !reference.source && (!resolved || isUsedByProfile(reference.pointer, resolved)));
+  if (unresolved) {
+    throw new Error(`${describePointer(unresolved.pointer)} in ${configPath} ${describeUnresolved(unresolved)}`);
+  }
+  return resolved ? resolved.config : config;
+}
+
+/**
+ * Reports unresolved references and secrets written in plaintext
+ * @param resolution The resolved configuration
+ * @param original The configuration as written
+ * @param profile Profile being checked; unresolved references it does not use are not reported
+ * @returns Findings
+ */
+export function analyzeReferences(resolution: ResolvedConfig, original: TurnkeyConfig, profile?: string): Finding[] {
+  const findings: Finding[] = [];
+
+  let resolved: ResolvedProfile | undefined;
+  if (profile !== undefined && listProfiles(resolution.config).length > 0) {
+    try {
+      resolved = resolveProfile(resolution.config, profile);
+    } catch {
+      // Reported by analyzeProfiledConfig
+    }
+  }
+
+  for (const reference of resolution.references.filter(item => !item.source && (!resolved || isUsedByProfile(item.pointer, resolved)))) {
+    findings.push(reference.kind === 'variable'
+      ? {
+          ruleId: 'config/unresolved-variable',
+          severity: 'error',
+          message: `${describePointer(reference.pointer)} ${describeUnresolved(reference)}`,
+          suggestion: `Export ${reference.name} in the environment, add it to the .env file next to the configuration, or give a default with \${${reference.name}:-default}`,
+          pointer: reference.pointer,
+        }
+      : {
+          ruleId: 'config/unreadable-secret-file',
+          severity: 'error',
+          message: `${describePointer(reference.pointer)} ${describeUnresolved(reference)}`,
+          suggestion: 'file: paths are relative to the configuration file. Check the path and its permissions',
+          pointer: reference.pointer,
+        });
+  }
+
+  // Secrets are checked at the top level and in every profile
+  const objects: Array<[string, Record<string, unknown>, string]> = [['', original, '']];
+  for (const [name, profile] of Object.entries(original.profiles && typeof original.profiles === 'object' ? original.profiles : {})) {
+    if (profile && typeof profile === 'object') {
+      objects.push([appendPointer('/profiles', name), profile, `${name}_`]);
+    }
+  }
+
+  for (const [pointer, object, prefix] of objects) {
+    for (const [key, value] of Object.entries(object)) {
+      if (typeof value === 'string' && value && SECRET_KEY_PATTERN.test(key) && !isReference(value)) {
+        const variable = `TURNKEY_${`${prefix}${key}`.replace(/[^A-Za-z0-9]+/g, '_').toUpperCase()}`;
+        findings.push({
+          ruleId: 'config/plaintext-secret',
+          severity: 'warning',
+          message: `${describePointer(appendPointer(pointer, key))} is written in plaintext in the configuration`,
+          suggestion: `Move the value to an environment variable or a key file that is not committed, and reference it:\n\`\`\`json\n{\n  "${key}": "\${${variable}}",\n  ...\n}\n\`\`\`\nor \`"${key}": "file:./${key.replace(/_/g, '-')}.txt"\`. Rotate the key if the file was ever committed`,
+          pointer: appendPointer(pointer, key),
+          fix: { description: `Reference the ${variable} environment variable`, edits: [{ op: 'set', pointer: appendPointer(pointer, key), value: `\${${variable}}` }] },
+        });
+      }
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Removes the fixes of findings that would overwrite a ${VAR} or file: reference. Findings are computed
+ * on resolved values, so such a fix would write the resolved value into the configuration and lose the reference.
+ * @param findings Findings about the resolved configuration
+ * @param references References of the configuration, including those resolved from .env
+ * @returns The findings; those about referenced values have to be fixed where the value is defined
+ */
+export function dropReferencedFixes(findings: Finding[], references: ConfigReference[]): Finding[] {
+  const overwrites = (pointer: string) => references.some(reference => reference.pointer === pointer || reference.pointer.startsWith(`${pointer}/`));
+  return findings.map(finding => finding.fix && finding.fix.edits.some(edit => overwrites(edit.pointer))
+    ? { ...finding, fix: undefined }
+    : finding);
+}
+
+/**
+ * Replaces secrets in the text and fix edits of findings. Every resolved secret is masked, however
+ * short, since a value that is shown cannot be taken back.
+ * @param findings Findings that may mention resolved values
+ * @param secrets Values that must never be shown
+ * @returns Findings without the secrets
+ */
+export function maskSecrets(findings: Finding[], secrets: string[]): Finding[] {
+  // Longest values first, so a secret that contains another one is masked whole
+  const values = secrets.filter(secret => secret.length > 0).sort((a, b) => b.length - a.length);
+  if (values.length === 0) {
+    return findings;
+  }
+
+  const mask = (text: string) => values.reduce((masked, secret) => masked.split(secret).join(MASK), text);
+  const maskValue = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      return mask(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map(maskValue);
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, maskValue(item)]));
+    }
+    return value;
+  };
+
+  return findings.map(finding => ({
+    ...finding,
+    message: mask(finding.message),
+    suggestion: finding.suggestion === undefined ? undefined : mask(finding.suggestion),
+    fix: finding.fix && {
+      description: mask(finding.fix.description),
+      edits: finding.fix.edits.map(edit => ({
+        ...edit,
+        ...(edit.value === undefined ? {} : { value: maskValue(edit.value) }),
+        ...(edit.search === undefined ? {} : { search: mask(edit.search) }),
+      })),
+    },
+  }));
+}
+
+/**
+ * Checks whether a profile uses a value, rather than overriding it or not inheriting it at all
+ * @param pointer JSON pointer of the value
+ * @param profile The resolved profile
+ * @returns True if the value is part of the profile
+ */
+function isUsedByProfile(pointer: string, profile: ResolvedProfile): boolean {
+  const segments = parsePointer(pointer);
+  const definition = segments.slice(0, segments[0] === 'profiles' ? 3 : 1);
+  const field = definition[definition.length - 1];
+  return profile.sources[field] === definition.reduce((current, segment) => appendPointer(current, segment), '');
+}
+
+/**
+ * Checks whether a value refers to a variable or a key file instead of holding the value itself
+ * @param value Configuration value as written
+ * @returns True for references
+ */
+function isReference(value: string): boolean {
+  return value.search(VARIABLE_PATTERN) !== -1 || value.startsWith(FILE_PREFIX);
+}
+
+/**
+ * Reads a .env file
+ * @param filePath Path to the .env file
+ * @returns Its variables, or none if it does not exist
+ */
+async function readDotenv(filePath: string): Promise<Record<string, string>> {
+  try {
+    return dotenv.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Describes the value at a JSON pointer for messages
+ * @param pointer JSON pointer
+ * @returns e.g. "api_private_key" or "keys/0/secret"
+ */
+function describePointer(pointer: string): string {
+  return pointer.slice(1) || 'The configuration';
+}
+
+/**
+ * Describes why a reference could not be resolved
+ * @param reference The reference
+ * @returns e.g. "references ${TURNKEY_API_PRIVATE_KEY}, which is not set"
+ */
+function describeUnresolved(reference: ConfigReference): string {
+  return reference.kind === 'variable'
+    ? `references \${${reference.name}}, which is not set in the environment or the .env file`
+    : `references the key file ${reference.name}, which cannot be read (${reference.error})`;
+}
@@ -0,0 +1,226 @@
+import fs from 'fs/promises';
+import path from 'path';
+import JSON5 from 'json5';
+import { Finding, ProjectSettings, RuleOverride, RuleSetting } from '../types';
+import { fileExists, resolvePath } from '../utils';
+import { globToRegExp } from '../utils/files';
+import { collectJsonComments } from '../utils/json';
+
+export const PROJECT_CONFIG_FILE = '.turnkeycopilotrc';
+
+const IGNORE_DIRECTIVE = /^turnkey-copilot-ignore(?:\s+(.*))?$/;
+const RULE_SETTINGS: RuleSetting[] = ['error', 'warning', 'info', 'off', 'on'];
+
+/**
+ * A project config file together with its location
+ */
+export interface LoadedSettings {
+  path: string;
+  /** Directory of the config file; override patterns are relative to it */
+  directory: string;
+  settings: ProjectSettings;
+}
+
+/**
+ * Parses and validates the contents of a project config file
+ * @param text JSON5 source of the config file
+ * @param source Path of the config file, used in error messages
+ * @returns The validated settings
+ * @throws Error if the file is not valid JSON5 or has an invalid structure
+ */
+export function parseProjectSettings(text: string, source: string): ProjectSettings {
+  let data: unknown;
+  try {
+    data = JSON5.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid JSON format in ${source}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error(`Invalid ${source}: expected an object with "rules" and "overrides"`);
+  }
+
+  const rules = 'rules' in data ? data.rules : undefined;
+  validateRules(rules, `${source}: rules`);
+
+  const overrides = 'overrides' in data ? data.overrides : undefined;
+  if (overrides !== undefined) {
+    if (!Array.isArray(overrides)) {
+      throw new Error(`Invalid ${source}: overrides must be an array`);
+    }
+    overrides.forEach((override: unknown, index: number) => {
+      const label = `${source}: overrides[${index}]`;
+      if (!override || typeof override !== 'object' || !('files' in override) || !Array.isArray(override.files) ||
+        override.files.some((file: unknown) => typeof file !== 'string')) {
+        throw new Error(`Invalid ${label}: files must be an array of glob patterns`);
+      }
+      validateRules('rules' in override ? override.rules : undefined, `${label}.rules`);
+    });
+  }
+
+  return { rules, overrides: overrides as RuleOverride[] | undefined };
+}
+
+/**
+ * Creates a function that finds the project config file for a checked file by walking up
+ * from the file's directory. Lookups are cached per directory for the lifetime of the resolver.
+ * @returns Resolver returning the nearest settings, or undefined when there is no config file
+ */
+export function createSettingsResolver(): (filePath: string) => Promise<LoadedSettings | undefined> {
+  const cache = new Map<string, Promise<LoadedSettings | undefined>>();
+
+  const lookup = (directory: string): Promise<LoadedSettings | undefined> => {
+    let pending = cache.get(directory);
+    if (!pending) {
+      pending = (async () => {
+        const configPath = path.join(directory, PROJECT_CONFIG_FILE);
+        if (await fileExists(configPath)) {
+          const text = await fs.readFile(configPath, 'utf-8');
+          return { path: configPath, directory, settings: parseProjectSettings(text, configPath) };
+        }
+        const parent = path.dirname(directory);
+        return parent === directory ? undefined : lookup(parent);
+      })();
+      cache.set(directory, pending);
+    }
+    return pending;
+  };
+
+  return filePath => lookup(path.dirname(resolvePath(filePath)));
+}
+
+/**
+ * Applies the rule settings of a project config file to the findings of a checked file.
+ * Top-level rules apply first, then every override whose patterns match the file, in order.
+ * @param findings Findings of the file
+ * @param filePath Path of the checked file
+ * @param loaded Project settings, if any
+ * @returns Findings with disabled rules removed and severities adjusted
+ */
+export function applyProjectSettings(findings: Finding[], filePath: string, loaded: LoadedSettings | undefined): Finding[] {
+  if (!loaded) {
+    return findings;
+  }
+
+  const relative = path.relative(loaded.directory, resolvePath(filePath)).split(path.sep).join('/');
+  const ruleSets = [
+    loaded.settings.rules ?? {},
+    ...(loaded.settings.overrides ?? [])
+      .filter(override => override.files.some(pattern => matchesFile(pattern, relative)))
+      .map(override => override.rules),
+  ];
+
+  const result: Finding[] = [];
+  for (const finding of findings) {
+    let setting: RuleSetting = 'on';
+    for (const rules of ruleSets) {
+      setting = lookupRule(rules, finding.ruleId) ?? setting;
+    }
+
+    if (setting === 'off') {
+      continue;
+    }
+    result.push(setting === 'on' ? finding : { ...finding, severity: setting });
+  }
+  return result;
+}
+
+/**
+ * Removes findings suppressed by "// turnkey-copilot-ignore <rule>" comments in the checked file.
+ * A comment on its own line applies to the next line with content; a trailing comment applies to
+ * its own line. Without a rule ID the comment suppresses every rule on that line.
+ * @param findings Findings of the file, with source locations
+ * @param text Source text of the file
+ * @returns Findings that are not suppressed
+ */
+export function applyIgnoreComments(findings: Finding[], text: string): Finding[] {
+  const comments = collectJsonComments(text);
+  const commentLines = new Set(comments.filter(comment => comment.ownLine).map(comment => comment.range.start.line));
+  const ignored = new Map<number, string[]>();
+
+  for (const comment of comments) {
+    const match = IGNORE_DIRECTIVE.exec(comment.text);
+    if (!match) {
+      continue;
+    }
+
+    let line = comment.range.start.line;
+    if (comment.ownLine) {
+      line = comment.range.end.line + 1;
+      while (commentLines.has(line)) {
+        line++;
+      }
+    }
+
+    const rules = match[1] ? match[1].split(/[\s,]+/).filter(Boolean) : ['*'];
+    ignored.set(line, [...(ignored.get(line) ?? []), ...rules]);
+  }
+
+  return findings.filter(finding => {
+    const rules = finding.location && ignored.get(finding.location.start.line);
+    return !rules || !rules.some(rule => rule === '*' || matchesRule(rule, finding.ruleId));
+  });
+}
+
+/**
+ * Checks whether a rule pattern from a config file or ignore comment applies to a rule ID
+ * @param pattern Exact rule ID, or "prefix/*"
+ * @param ruleId Rule ID of a finding
+ * @returns True if the pattern matches
+ */
+function matchesRule(pattern: string, ruleId: string): boolean {
+  return pattern.endsWith('/*') ? ruleId.startsWith(pattern.slice(0, -1)) : pattern === ruleId;
+}
+
+/**
+ * Finds the setting for a rule, preferring an exact rule ID over the longest matching wildcard
+ * @param rules Rule settings
+ * @param ruleId Rule ID of a finding
+ * @returns The setting, or undefined if the rule is not configured
+ */
+function lookupRule(rules: Record<string, RuleSetting>, ruleId: string): RuleSetting | undefined {
+  if (rules[ruleId] !== undefined) {
+    return rules[ruleId];
+  }
+
+  const wildcard = Object.keys(rules)
+    .filter(pattern => pattern.endsWith('/*') && matchesRule(pattern, ruleId))
+    .sort((a, b) => b.length - a.length)[0];
+  return wildcard === undefined ? undefined : rules[wildcard];
+}
+
+/**
+ * Checks whether an override pattern matches a file. Patterns without a slash also match the file name in any directory.
+ * @param pattern Glob pattern relative to the config file
+ * @param relative Path of the file relative to the config file, with forward slashes
+ * @returns True if the pattern matches
+ */
+function matchesFile(pattern: string, relative: string): boolean {
+  const normalized = pattern.replace(/^\.\//, '');
+  if (!normalized.includes('/')) {
+    return globToRegExp(normalized).test(path.posix.basename(relative));
+  }
+  return globToRegExp(normalized).test(relative);
+}
+
+/**
+ * Validates a rule settings object
+ * @param rules Value to validate
+ * @param label Location used in error messages
+ * @throws Error if a setting is not one of the supported values
+ */
+function validateRules(rules: unknown, label: string): asserts rules is Record<string, RuleSetting> | undefined {
+  if (rules === undefined) {
+    return;
+  }
+
+  if (!rules || typeof rules !== 'object' || Array.isArray(rules)) {
+    throw new Error(`Invalid ${label}: expected an object mapping rule IDs to settings`);
+  }
+
+  for (const [ruleId, setting] of Object.entries(rules)) {
+    if (!RULE_SETTINGS.includes(setting as RuleSetting)) {
+      throw new Error(`Invalid ${label}: "${ruleId}" must be one of ${RULE_SETTINGS.join(', ')}`);
+    }
+  }
+}
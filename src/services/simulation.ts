@@ -0,0 +1,324 @@
+import {
+  AllowedActivity,
+  PolicyEvaluation,
+  PolicySource,
+  SimplifiedPolicy,
+  SimulationResult,
+  TurnkeyPolicy,
+  TurnkeyTransactionRequest,
+} from '../types';
+import { parseCondition } from './expression';
+import { evaluateCondition, EvaluationContext } from './evaluator';
+import { decodeEthereumTransaction } from './ethereum';
+import { decodeSolanaTransaction } from './solana';
+import { decodeBitcoinTransaction, validateBitcoinAddress } from './bitcoin';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Builds the values a policy condition can reference from a transaction signing request
+ * @param request The Turnkey transaction signing request
+ * @returns Evaluation context keyed by namespace
+ */
+export function buildRequestContext(request: TurnkeyTransactionRequest): EvaluationContext {
+  const parameters = request.parameters ?? {};
+  const signWith = parameters.signWith;
+
+  const context: EvaluationContext = {
+    activity: {
+      type: request.type,
+      // signWith is either a wallet account address or a private key ID
+      resource: signWith && UUID_PATTERN.test(signWith) ? 'PRIVATE_KEY' : 'WALLET',
+      action: 'SIGN',
+    },
+    approvers: [],
+  };
+
+  if (signWith) {
+    context.wallet_account = { address: signWith };
+  }
+
+  switch (parameters.type) {
+    case 'TRANSACTION_TYPE_ETHEREUM':
+      context.eth = { tx: buildEthereumContext(signWith, parameters.unsignedTransaction) };
+      break;
+    case 'TRANSACTION_TYPE_SOLANA':
+      context.solana = { tx: buildSolanaContext(parameters.unsignedTransaction) };
+      break;
+    case 'TRANSACTION_TYPE_BITCOIN':
+      context.bitcoin = { tx: buildBitcoinContext(signWith, parameters.unsignedTransaction) };
+      break;
+    default:
+      break;
+  }
+
+  return context;
+}
+
+/**
+ * Builds the eth.tx namespace from the decoded unsigned transaction. Fields that
+ * cannot be decoded are left out so that conditions using them fail to evaluate.
+ * @param signWith The signing address
+ * @param unsignedTransaction The RLP-encoded transaction
+ * @returns Values for eth.tx
+ */
+function buildEthereumContext(signWith: string | undefined, unsignedTransaction: string | undefined): Record<string, unknown> {
+  const tx: Record<string, unknown> = { from: signWith };
+
+  if (!unsignedTransaction) {
+    return tx;
+  }
+
+  try {
+    const decoded = decodeEthereumTransaction(unsignedTransaction);
+    Object.assign(tx, {
+      to: decoded.to,
+      value: decoded.value,
+      nonce: decoded.nonce,
+      gas: decoded.gasLimit,
+      gas_price: decoded.gasPrice,
+      max_fee_per_gas: decoded.maxFeePerGas,
+      max_priority_fee_per_gas: decoded.maxPriorityFeePerGas,
+      chain_id: decoded.chainId,
+      data: decoded.data,
+    });
+  } catch {
+    // Undecodable payloads are reported by analyzeTransaction
+  }
+
+  return tx;
+}
+
+/**
+ * Builds the solana.tx namespace from the decoded transaction
+ * @param unsignedTransaction The hex or base64 encoded transaction
+ * @returns Values for solana.tx
+ */
+function buildSolanaContext(unsignedTransaction: string | undefined): Record<string, unknown> {
+  if (!unsignedTransaction) {
+    return {};
+  }
+
+  try {
+    const decoded = decodeSolanaTransaction(unsignedTransaction);
+    return {
+      transfers: decoded.transfers.map(({ from, to, amount }) => ({ from, to, amount })),
+      spl_transfers: decoded.splTransfers.map(({ from, to, owner, mint, amount }) => ({ from, to, owner, mint, amount })),
+      instructions: decoded.instructions.map(instruction => ({
+        program_key: instruction.programId,
+        accounts: instruction.accounts,
+        data: instruction.data,
+      })),
+      program_keys: Array.from(new Set(decoded.instructions.map(instruction => instruction.programId))),
+      account_keys: decoded.accountKeys,
+      recent_blockhash: decoded.recentBlockhash,
+    };
+  } catch {
+    // Undecodable payloads are reported by analyzeTransaction
+    return {};
+  }
+}
+
+/**
+ * Builds the bitcoin.tx namespace from the decoded PSBT or raw transaction
+ * @param signWith The signing address, used to pick the address network
+ * @param unsignedTransaction The encoded transaction
+ * @returns Values for bitcoin.tx
+ */
+function buildBitcoinContext(signWith: string | undefined, unsignedTransaction: string | undefined): Record<string, unknown> {
+  if (!unsignedTransaction) {
+    return {};
+  }
+
+  try {
+    const network = validateBitcoinAddress(signWith ?? '').network ?? 'mainnet';
+    const decoded = decodeBitcoinTransaction(unsignedTransaction, network);
+    return {
+      inputs: decoded.inputs.map(({ address, value, txid, vout }) => ({ address, value, txid, vout })),
+      outputs: decoded.outputs.map(({ address, value }) => ({ address, value })),
+      fee: decoded.fee,
+    };
+  } catch {
+    // Undecodable payloads are reported by analyzeTransaction
+    return {};
+  }
+}
+
+/**
+ * Strips the ACTIVITY_TYPE_ prefix and version suffix so that SIGN_TRANSACTION matches ACTIVITY_TYPE_SIGN_TRANSACTION_V2
+ * @param type Activity type
+ * @returns Normalized activity type
+ */
+export function normalizeActivityType(type: string): string {
+  return type.replace(/^ACTIVITY_TYPE_/, '').replace(/_V\d+$/, '');
+}
+
+/**
+ * Gets a display name for a policy
+ * @param entry The policy and its source file
+ * @returns Policy name, falling back to the source file
+ */
+export function policyName(entry: PolicySource): string {
+  return entry.policy.policyName ?? entry.policy.name ?? entry.source;
+}
+
+/**
+ * Evaluates a simplified policy (policyName/effect/condition) against a request
+ * @param entry The policy and its source file
+ * @param context Values derived from the request
+ * @returns Evaluation outcome
+ */
+function evaluateSimplifiedPolicy(entry: PolicySource, context: EvaluationContext): PolicyEvaluation {
+  const policy = entry.policy as SimplifiedPolicy;
+  const base = {
+    policyName: policyName(entry),
+    source: entry.source,
+    effect: policy.effect === 'EFFECT_DENY' ? 'EFFECT_DENY' : 'EFFECT_ALLOW',
+  } as const;
+
+  if (policy.effect !== 'EFFECT_ALLOW' && policy.effect !== 'EFFECT_DENY') {
+    return { ...base, outcome: 'error', error: `Invalid effect value: ${policy.effect}` };
+  }
+
+  if (typeof policy.condition !== 'string') {
+    return { ...base, outcome: 'error', error: 'Policy has no condition' };
+  }
+
+  return evaluatePolicyCondition(base, policy.condition, context);
+}
+
+/**
+ * Evaluates a traditional policy (allowed_activities) against a request. A request is allowed when an allowed
+ * activity of the same type covers the signing resource and its condition, if any, holds.
+ * @param entry The policy and its source file
+ * @param request The transaction signing request
+ * @param context Values derived from the request
+ * @returns Evaluation outcome
+ */
+function evaluateTraditionalPolicy(entry: PolicySource, request: TurnkeyTransactionRequest, context: EvaluationContext): PolicyEvaluation {
+  const policy = entry.policy as TurnkeyPolicy;
+  const base = { policyName: policyName(entry), source: entry.source, effect: 'EFFECT_ALLOW' } as const;
+  const requestType = normalizeActivityType(request.type ?? '');
+  const signWith = request.parameters?.signWith;
+
+  const activities: unknown = policy.allowed_activities ?? [];
+  if (!Array.isArray(activities)) {
+    return { ...base, outcome: 'error', error: 'allowed_activities is not a list' };
+  }
+
+  // Entries that are not objects or have no type cannot allow anything
+  const candidates = activities
+    .map((activity: unknown, index): [unknown, number] => [activity, index])
+    .filter((candidate): candidate is [AllowedActivity & { type: string }, number] => isAllowedActivity(candidate[0]))
+    .filter(([activity]) => normalizeActivityType(activity.type) === requestType);
+
+  if (candidates.length === 0) {
+    return { ...base, outcome: 'not_matched', detail: `no allowed activity of type ${requestType}` };
+  }
+
+  let lastMiss: PolicyEvaluation | undefined;
+
+  for (const [activity, index] of candidates) {
+    const resources = Array.isArray(activity.resources) ? activity.resources : [];
+    if (!resources.includes('*') && !(signWith && resources.includes(signWith))) {
+      lastMiss = { ...base, outcome: 'not_matched', detail: `allowed_activities[${index}] does not cover resource ${signWith}` };
+      continue;
+    }
+
+    const condition = activity.parameters?.condition;
+    if (typeof condition !== 'string') {
+      return { ...base, outcome: 'matched', decidedBy: `allowed_activities[${index}].type == ${activity.type}` };
+    }
+
+    const result = evaluatePolicyCondition(base, condition, context);
+    if (result.outcome === 'matched') {
+      return result;
+    }
+    lastMiss = result;
+  }
+
+  return lastMiss!;
+}
+
+/**
+ * Parses and evaluates a condition, converting the result into a policy outcome
+ * @param base Name, source and effect of the policy the condition belongs to
+ * @param condition The condition expression
+ * @param context Values derived from the request
+ * @returns Evaluation outcome
+ */
+function evaluatePolicyCondition(
+  base: Pick<PolicyEvaluation, 'policyName' | 'source' | 'effect'>,
+  condition: string,
+  context: EvaluationContext
+): PolicyEvaluation {
+  const { ast, diagnostics } = parseCondition(condition);
+  if (!ast) {
+    return { ...base, outcome: 'error', error: `Condition does not parse: ${diagnostics[0].message}` };
+  }
+
+  try {
+    const result = evaluateCondition(condition, ast, context);
+    return {
+      ...base,
+      outcome: result.value ? 'matched' : 'not_matched',
+      decidedBy: result.decidedBy,
+      detail: result.detail,
+    };
+  } catch (error) {
+    return { ...base, outcome: 'error', error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Simulates Turnkey policy evaluation for a transaction signing request.
+ *
+ * Matching DENY policies win over matching ALLOW policies, and a request that no
+ * policy allows is denied implicitly. A DENY policy whose condition cannot be evaluated
+ * denies the request, since it might have matched; an ALLOW policy that cannot be
+ * evaluated does not match.
+ * @param policies Policies to evaluate, with their source files
+ * @param request The transaction signing request
+ * @returns The decision, the policy that decided it and every individual evaluation
+ */
+export function simulatePolicies(policies: PolicySource[], request: TurnkeyTransactionRequest): SimulationResult {
+  const context = buildRequestContext(request);
+
+  const evaluations = policies.map(entry =>
+    'policyName' in entry.policy && 'effect' in entry.policy && 'condition' in entry.policy
+      ? evaluateSimplifiedPolicy(entry, context)
+      : evaluateTraditionalPolicy(entry, request, context)
+  );
+
+  const deny = evaluations.find(evaluation => evaluation.outcome === 'matched' && evaluation.effect === 'EFFECT_DENY');
+  if (deny) {
+    return { decision: 'DENY', reason: `Denied by policy "${deny.policyName}"`, decidingPolicy: deny, evaluations };
+  }
+
+  // A DENY policy that cannot be evaluated might have matched, so it blocks the request rather than failing open
+  const failedDeny = evaluations.find(evaluation => evaluation.outcome === 'error' && evaluation.effect === 'EFFECT_DENY');
+  if (failedDeny) {
+    return {
+      decision: 'DENY',
+      reason: `Denied because policy "${failedDeny.policyName}" could not be evaluated: ${failedDeny.error}`,
+      decidingPolicy: failedDeny,
+      evaluations,
+    };
+  }
+
+  const allow = evaluations.find(evaluation => evaluation.outcome === 'matched' && evaluation.effect === 'EFFECT_ALLOW');
+  if (allow) {
+    return { decision: 'ALLOW', reason: `Allowed by policy "${allow.policyName}"`, decidingPolicy: allow, evaluations };
+  }
+
+  return { decision: 'DENY', reason: 'No policy allows this request (implicit deny)', evaluations };
+}
+
+/**
+ * Checks that an allowed_activities entry is an object with an activity type
+ * @param value The entry
+ * @returns True if the entry can be matched against a request
+ */
+function isAllowedActivity(value: unknown): value is AllowedActivity & { type: string } {
+  return !!value && typeof value === 'object' && typeof (value as AllowedActivity).type === 'string';
+}
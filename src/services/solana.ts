@@ -0,0 +1,268 @@
+import { DecodedSolanaTransaction, SolanaInstruction, SolanaTransfer, SplTransfer } from '../types';
+import { base58Decode, base58Encode, decodeBinaryPayload } from '../utils/encoding';
+
+export const SYSTEM_PROGRAM_ID = '11111111111111111111111111111111';
+export const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+export const TOKEN_2022_PROGRAM_ID = 'TokenzQdBNbLqP5VEhdkAS6EtYq2mNZbEfyVqAQhTrqQ';
+
+const SYSTEM_TRANSFER = 2;
+const TOKEN_TRANSFER = 3;
+const TOKEN_TRANSFER_CHECKED = 12;
+
+/**
+ * Sequential reader over a Solana wire-format buffer
+ */
+class ByteReader {
+  private offset = 0;
+
+  constructor(private readonly bytes: Buffer) {}
+
+  get remaining(): number {
+    return this.bytes.length - this.offset;
+  }
+
+  get position(): number {
+    return this.offset;
+  }
+
+  peek(): number {
+    this.ensure(1, 'byte');
+    return this.bytes[this.offset];
+  }
+
+  u8(what: string): number {
+    this.ensure(1, what);
+    return this.bytes[this.offset++];
+  }
+
+  take(length: number, what: string): Buffer {
+    this.ensure(length, what);
+    const slice = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  /**
+   * Reads a compact-u16 (shortvec) length
+   */
+  compactU16(what: string): number {
+    let value = 0;
+    for (let shift = 0; shift < 21; shift += 7) {
+      const byte = this.u8(what);
+      value |= (byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) {
+        return value;
+      }
+    }
+    throw new Error(`Invalid compact-u16 encoding for ${what}`);
+  }
+
+  private ensure(length: number, what: string): void {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error(`Unexpected end of data while reading ${what} at byte ${this.offset}`);
+    }
+  }
+}
+
+/**
+ * Checks whether a string is a valid base58-encoded 32-byte Solana address
+ * @param address The address to check
+ * @returns True if the address decodes to 32 bytes
+ */
+export function isSolanaAddress(address: string): boolean {
+  try {
+    return address.length >= 32 && address.length <= 44 && base58Decode(address).length === 32;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Decodes the message portion of a Solana transaction
+ * @param reader Reader positioned at the start of the message
+ * @param signatures Number of signatures that preceded the message
+ * @returns Decoded message
+ */
+function decodeMessage(reader: ByteReader, signatures: number): DecodedSolanaTransaction {
+  let version: DecodedSolanaTransaction['version'] = 'legacy';
+
+  // Versioned messages set the high bit of the first byte
+  if (reader.peek() & 0x80) {
+    const prefix = reader.u8('version prefix') & 0x7f;
+    if (prefix !== 0) {
+      throw new Error(`Unsupported Solana message version ${prefix}`);
+    }
+    version = 0;
+  }
+
+  const header = {
+    numRequiredSignatures: reader.u8('header'),
+    numReadonlySignedAccounts: reader.u8('header'),
+    numReadonlyUnsignedAccounts: reader.u8('header'),
+  };
+
+  const accountCount = reader.compactU16('account key count');
+  const accountKeys: string[] = [];
+  for (let i = 0; i < accountCount; i++) {
+    accountKeys.push(base58Encode(reader.take(32, `account key ${i}`)));
+  }
+
+  if (header.numRequiredSignatures > accountKeys.length) {
+    throw new Error(`Header requires ${header.numRequiredSignatures} signatures but the message has only ${accountKeys.length} account keys`);
+  }
+
+  const recentBlockhash = base58Encode(reader.take(32, 'recent blockhash'));
+
+  const compiled: Array<{ programIndex: number; accountIndexes: number[]; data: Buffer }> = [];
+  const instructionCount = reader.compactU16('instruction count');
+  for (let i = 0; i < instructionCount; i++) {
+    const programIndex = reader.u8(`instruction ${i} program index`);
+    const accountIndexes = Array.from(reader.take(reader.compactU16(`instruction ${i} account count`), `instruction ${i} accounts`));
+    const data = reader.take(reader.compactU16(`instruction ${i} data length`), `instruction ${i} data`);
+    compiled.push({ programIndex, accountIndexes, data });
+  }
+
+  const addressTableLookups: DecodedSolanaTransaction['addressTableLookups'] = [];
+  if (version === 0) {
+    const lookupCount = reader.compactU16('address table lookup count');
+    for (let i = 0; i < lookupCount; i++) {
+      const accountKey = base58Encode(reader.take(32, `address table lookup ${i}`));
+      const writableIndexes = Array.from(reader.take(reader.compactU16('writable indexes'), 'writable indexes'));
+      const readonlyIndexes = Array.from(reader.take(reader.compactU16('readonly indexes'), 'readonly indexes'));
+      addressTableLookups.push({ accountKey, writableIndexes, readonlyIndexes });
+    }
+  }
+
+  if (reader.remaining > 0) {
+    throw new Error(`Unexpected ${reader.remaining} trailing byte(s) after Solana message`);
+  }
+
+  // Accounts loaded from lookup tables follow the static keys: all writable ones, then all readonly ones
+  const resolvedKeys = [
+    ...accountKeys,
+    ...addressTableLookups.flatMap(lookup => lookup.writableIndexes.map(index => `${lookup.accountKey}[${index}]`)),
+    ...addressTableLookups.flatMap(lookup => lookup.readonlyIndexes.map(index => `${lookup.accountKey}[${index}]`)),
+  ];
+  const resolve = (index: number): string => {
+    if (index >= resolvedKeys.length) {
+      throw new Error(`Instruction references account index ${index}, but only ${resolvedKeys.length} accounts exist`);
+    }
+    return resolvedKeys[index];
+  };
+
+  const instructions: SolanaInstruction[] = compiled.map(instruction => ({
+    programId: resolve(instruction.programIndex),
+    accounts: instruction.accountIndexes.map(resolve),
+    data: instruction.data.toString('hex'),
+  }));
+
+  const transfers: SolanaTransfer[] = [];
+  const splTransfers: SplTransfer[] = [];
+  compiled.forEach((instruction, i) => {
+    const { programId, accounts } = instructions[i];
+    const data = instruction.data;
+
+    if (programId === SYSTEM_PROGRAM_ID && data.length >= 12 && data.readUInt32LE(0) === SYSTEM_TRANSFER && accounts.length >= 2) {
+      transfers.push({ from: accounts[0], to: accounts[1], amount: data.readBigUInt64LE(4) });
+    } else if (programId === TOKEN_PROGRAM_ID || programId === TOKEN_2022_PROGRAM_ID) {
+      if (data.length >= 9 && data[0] === TOKEN_TRANSFER && accounts.length >= 3) {
+        splTransfers.push({ from: accounts[0], to: accounts[1], owner: accounts[2], amount: data.readBigUInt64LE(1) });
+      } else if (data.length >= 10 && data[0] === TOKEN_TRANSFER_CHECKED && accounts.length >= 4) {
+        splTransfers.push({
+          from: accounts[0],
+          mint: accounts[1],
+          to: accounts[2],
+          owner: accounts[3],
+          amount: data.readBigUInt64LE(1),
+          decimals: data[9],
+        });
+      }
+    }
+  });
+
+  return {
+    version,
+    header,
+    signatures,
+    accountKeys,
+    recentBlockhash,
+    instructions,
+    addressTableLookups,
+    transfers,
+    splTransfers,
+  };
+}
+
+/**
+ * Decodes a Solana transaction or bare message, given as hex or base64. A full
+ * transaction is a compact-u16 signature count and the (possibly zeroed) 64-byte
+ * signatures followed by the message.
+ * @param payload The encoded transaction or message
+ * @returns Decoded message fields with recognised transfers
+ * @throws Error if the payload is not a valid legacy or v0 Solana message
+ */
+export function decodeSolanaTransaction(payload: string): DecodedSolanaTransaction {
+  const { bytes } = decodeBinaryPayload(payload);
+
+  if (bytes.length === 0) {
+    throw new Error('Payload is empty');
+  }
+
+  try {
+    const reader = new ByteReader(bytes);
+    const signatures = reader.compactU16('signature count');
+    if (signatures > 0) {
+      reader.take(signatures * 64, 'signatures');
+      const decoded = decodeMessage(reader, signatures);
+      if (decoded.header.numRequiredSignatures === signatures) {
+        return decoded;
+      }
+    }
+  } catch {
+    // Not a full transaction; fall back to decoding a bare message
+  }
+
+  return decodeMessage(new ByteReader(bytes), 0);
+}
+
+/**
+ * Formats a lamport amount as SOL without losing precision
+ * @param lamports Amount in lamports
+ * @returns Decimal SOL amount
+ */
+export function formatSol(lamports: bigint): string {
+  const unit = BigInt(1000000000);
+  const fraction = (lamports % unit).toString().padStart(9, '0').replace(/0+$/, '');
+  return fraction ? `${lamports / unit}.${fraction}` : (lamports / unit).toString();
+}
+
+/**
+ * Summarizes a decoded Solana transaction as labelled fields for display
+ * @param tx The decoded transaction
+ * @returns Field labels mapped to display values
+ */
+export function describeSolanaTransaction(tx: DecodedSolanaTransaction): Record<string, string> {
+  const details: Record<string, string> = {
+    'Message version': tx.version === 'legacy' ? 'Legacy' : 'v0',
+    'Fee payer': tx.accountKeys[0] ?? '(none)',
+    'Required signers': tx.accountKeys.slice(0, tx.header.numRequiredSignatures).join(', ') || '(none)',
+    'Recent blockhash': tx.recentBlockhash,
+    'Account keys': tx.accountKeys.length.toString(),
+    'Instructions': tx.instructions.length.toString(),
+  };
+
+  if (tx.addressTableLookups.length > 0) {
+    details['Address table lookups'] = tx.addressTableLookups.map(lookup => lookup.accountKey).join(', ');
+  }
+
+  tx.transfers.forEach((transfer, i) => {
+    details[`SOL transfer ${i + 1}`] = `${transfer.from} → ${transfer.to}: ${formatSol(transfer.amount)} SOL`;
+  });
+
+  tx.splTransfers.forEach((transfer, i) => {
+    const mint = transfer.mint ? ` (mint ${transfer.mint})` : '';
+    details[`SPL transfer ${i + 1}`] = `${transfer.from} → ${transfer.to}: ${transfer.amount} base units${mint}`;
+  });
+
+  return details;
+}
@@ -0,0 +1,149 @@
+import crypto from 'crypto';
+
+/**
+ * Header that carries the API key stamp of a Turnkey request
+ */
+export const STAMP_HEADER = 'X-Stamp';
+
+/**
+ * Signature scheme of API key stamps
+ */
+export const STAMP_SCHEME = 'SIGNATURE_SCHEME_TK_API_P256';
+
+/**
+ * Decoded contents of an X-Stamp header
+ */
+export interface ApiStamp {
+  /** Compressed P-256 public key, hex */
+  publicKey: string;
+  scheme: string;
+  /** DER-encoded ECDSA signature over the request body, hex */
+  signature: string;
+}
+
+/**
+ * Derives the compressed P-256 public key of an API private key
+ * @param privateKey 32-byte private key, hex
+ * @returns Compressed public key, hex
+ * @throws Error if the private key is not a valid P-256 private key
+ */
+export function derivePublicKey(privateKey: string): string {
+  const key = parsePrivateKey(privateKey);
+  const ecdh = crypto.createECDH('prime256v1');
+  try {
+    ecdh.setPrivateKey(key);
+  } catch {
+    throw new Error('api_private_key is not a valid P-256 private key');
+  }
+  return ecdh.getPublicKey('hex', 'compressed');
+}
+
+/**
+ * Signs a request body with an API key and encodes the stamp for the X-Stamp header
+ * @param body Exact request body that will be sent
+ * @param publicKey Compressed API public key, hex
+ * @param privateKey API private key, hex
+ * @returns Base64url-encoded stamp
+ * @throws Error if the key pair is invalid or the keys do not belong together
+ */
+export function createApiStamp(body: string, publicKey: string, privateKey: string): string {
+  const derived = derivePublicKey(privateKey);
+  if (derived !== publicKey.toLowerCase()) {
+    throw new Error(`api_public_key does not belong to api_private_key; the private key's public key is ${derived}`);
+  }
+
+  const signature = crypto.sign('sha256', Buffer.from(body, 'utf-8'), privateKeyObject(privateKey, derived));
+  const stamp: ApiStamp = { publicKey: derived, scheme: STAMP_SCHEME, signature: signature.toString('hex') };
+
+  return Buffer.from(JSON.stringify(stamp), 'utf-8').toString('base64url');
+}
+
+/**
+ * Decodes an X-Stamp header
+ * @param stamp Base64url-encoded stamp
+ * @returns The stamp contents
+ * @throws Error if the header is not a base64url-encoded stamp object
+ */
+export function decodeApiStamp(stamp: string): ApiStamp {
+  let data: unknown;
+  try {
+    data = JSON.parse(Buffer.from(stamp, 'base64url').toString('utf-8'));
+  } catch {
+    throw new Error(`${STAMP_HEADER} is not base64url-encoded JSON`);
+  }
+
+  const fields: Record<string, unknown> = data && typeof data === 'object' ? { ...data } : {};
+  const { publicKey, scheme, signature } = fields;
+  if (typeof publicKey !== 'string' || typeof scheme !== 'string' || typeof signature !== 'string') {
+    throw new Error(`${STAMP_HEADER} must contain publicKey, scheme and signature`);
+  }
+  return { publicKey, scheme, signature };
+}
+
+/**
+ * Verifies the signature of a stamp over a request body
+ * @param body Exact request body that was sent
+ * @param stamp The decoded stamp
+ * @returns True if the signature was made over the body by the stamp's public key
+ */
+export function verifyApiStamp(body: string, stamp: ApiStamp): boolean {
+  try {
+    return crypto.verify('sha256', Buffer.from(body, 'utf-8'), publicKeyObject(stamp.publicKey), Buffer.from(stamp.signature, 'hex'));
+  } catch {
+    // Malformed keys and signatures do not verify
+    return false;
+  }
+}
+
+/**
+ * Validates and decodes a hex private key
+ * @param privateKey 32-byte private key, hex, optionally 0x-prefixed
+ * @returns Private key bytes
+ * @throws Error if the key is not 32 bytes of hex
+ */
+function parsePrivateKey(privateKey: string): Buffer {
+  const hex = privateKey.replace(/^0x/i, '');
+  if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+    throw new Error('api_private_key must be a 32-byte P-256 private key in hex (64 characters)');
+  }
+  return Buffer.from(hex, 'hex');
+}
+
+/**
+ * Builds a Node.js key object from a raw P-256 private key
+ * @param privateKey API private key, hex
+ * @param publicKey Compressed public key of the private key, hex
+ * @returns Private key object
+ */
+function privateKeyObject(privateKey: string, publicKey: string): crypto.KeyObject {
+  return crypto.createPrivateKey({
+    key: { ...publicKeyJwk(publicKey), d: parsePrivateKey(privateKey).toString('base64url') },
+    format: 'jwk'
+  });
+}
+
+/**
+ * Builds a Node.js key object from a compressed P-256 public key
+ * @param publicKey Compressed public key, hex
+ * @returns Public key object
+ */
+function publicKeyObject(publicKey: string): crypto.KeyObject {
+  return crypto.createPublicKey({ key: publicKeyJwk(publicKey), format: 'jwk' });
+}
+
+/**
+ * Converts a compressed P-256 public key to JWK, which needs the uncompressed coordinates of the point
+ * @param publicKey Compressed public key, hex
+ * @returns JWK public key
+ */
+function publicKeyJwk(publicKey: string): crypto.JsonWebKey {
+  const uncompressed = crypto.ECDH.convertKey(publicKey, 'prime256v1', 'hex', 'hex', 'uncompressed') as string;
+  const point = Buffer.from(uncompressed, 'hex');
+
+  return {
+    kty: 'EC',
+    crv: 'P-256',
+    x: point.subarray(1, 33).toString('base64url'),
+    y: point.subarray(33).toString('base64url')
+  };
+}
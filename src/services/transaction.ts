@@ -1,105 +1,497 @@
-import { TurnkeyTransactionRequest, AnalysisResult } from '../types';
+import {
+  TurnkeyTransactionRequest,
+  AnalysisResult,
+  Finding,
+  DecodedBitcoinTransaction,
+  DecodedEthereumTransaction,
+  DecodedSolanaTransaction,
+} from '../types';
+import { decodeEthereumTransaction, describeEthereumTransaction } from './ethereum';
+import { decodeSolanaTransaction, describeSolanaTransaction, isSolanaAddress } from './solana';
+import { decodeBitcoinTransaction, describeBitcoinTransaction, DUST_THRESHOLDS, validateBitcoinAddress } from './bitcoin';
+
+/**
+ * Options for transaction analysis
+ */
+export interface TransactionAnalysisOptions {
+  expectedChainId?: string;
+}
+
+const UNSIGNED_TRANSACTION_POINTER = '/parameters/unsignedTransaction';
+const SIGN_WITH_POINTER = '/parameters/signWith';
+
+/**
+ * Block explorer to track a broadcast transaction on, by transaction type
+ */
+const EXPLORERS: Record<string, { name: string; url: string }> = {
+  TRANSACTION_TYPE_ETHEREUM: { name: 'Etherscan', url: 'https://etherscan.io/tx/0x...' },
+  TRANSACTION_TYPE_SOLANA: { name: 'Solana Explorer', url: 'https://explorer.solana.com/tx/...' },
+  TRANSACTION_TYPE_BITCOIN: { name: 'mempool.space', url: 'https://mempool.space/tx/...' },
+};
 
 /**
  * Analyzes a Turnkey transaction signing request for potential issues
  * @param transaction The Turnkey transaction signing request object
- * @returns Analysis result with issues and suggestions
+ * @param options Analysis options, such as the chain the transaction is expected to target
+ * @returns Analysis result with findings, decoded transaction details and next steps when the request is valid
  */
-export async function analyzeTransaction(transaction: TurnkeyTransactionRequest): Promise<AnalysisResult> {
-  const issues: string[] = [];
-  const suggestions: string[] = [];
+export async function analyzeTransaction(transaction: TurnkeyTransactionRequest, options: TransactionAnalysisOptions = {}): Promise<AnalysisResult> {
+  const findings: Finding[] = [];
+  let details: Record<string, string> | undefined;
 
   // Check for required fields
   if (!transaction.organizationId) {
-    issues.push('Missing organizationId field');
-    suggestions.push('Add your Turnkey organization ID to the request:\n```json\n{\n  "organizationId": "your-org-id",\n  ...\n}\n```');
+    findings.push({
+      ruleId: 'transaction/missing-organization-id',
+      severity: 'error',
+      message: 'Missing organizationId field',
+      suggestion: 'Add your Turnkey organization ID to the request:\n```json\n{\n  "organizationId": "your-org-id",\n  ...\n}\n```',
+      pointer: '/organizationId',
+      fix: { description: 'Set organizationId to the value of --set ORGANIZATION_ID=<id>', edits: [{ op: 'set', pointer: '/organizationId', variable: 'ORGANIZATION_ID' }] },
+    });
   }
 
   if (!transaction.type) {
-    issues.push('Missing type field');
-    suggestions.push('Add the activity type to the request:\n```json\n{\n  "type": "ACTIVITY_TYPE_SIGN_TRANSACTION_V2",\n  ...\n}\n```');
+    findings.push({
+      ruleId: 'transaction/missing-type',
+      severity: 'error',
+      message: 'Missing type field',
+      suggestion: 'Add the activity type to the request:\n```json\n{\n  "type": "ACTIVITY_TYPE_SIGN_TRANSACTION_V2",\n  ...\n}\n```',
+      pointer: '/type',
+      fix: { description: 'Set type to ACTIVITY_TYPE_SIGN_TRANSACTION_V2', edits: [{ op: 'set', pointer: '/type', value: 'ACTIVITY_TYPE_SIGN_TRANSACTION_V2' }] },
+    });
   } else if (transaction.type !== 'ACTIVITY_TYPE_SIGN_TRANSACTION_V2') {
-    issues.push(`Unsupported transaction type: ${transaction.type}`);
-    suggestions.push('Use "ACTIVITY_TYPE_SIGN_TRANSACTION_V2" for the type field:\n```json\n{\n  "type": "ACTIVITY_TYPE_SIGN_TRANSACTION_V2",\n  ...\n}\n```');
+    findings.push({
+      ruleId: 'transaction/unsupported-type',
+      severity: 'error',
+      message: `Unsupported transaction type: ${transaction.type}`,
+      suggestion: 'Use "ACTIVITY_TYPE_SIGN_TRANSACTION_V2" for the type field:\n```json\n{\n  "type": "ACTIVITY_TYPE_SIGN_TRANSACTION_V2",\n  ...\n}\n```',
+      pointer: '/type',
+      fix: { description: 'Set type to ACTIVITY_TYPE_SIGN_TRANSACTION_V2', edits: [{ op: 'set', pointer: '/type', value: 'ACTIVITY_TYPE_SIGN_TRANSACTION_V2' }] },
+    });
   }
 
   if (!transaction.timestampMs) {
-    issues.push('Missing timestampMs field');
-    suggestions.push('Add a current timestamp in milliseconds:\n```json\n{\n  "timestampMs": "' + Date.now().toString() + '",\n  ...\n}\n```');
+    findings.push({
+      ruleId: 'transaction/missing-timestamp',
+      severity: 'error',
+      message: 'Missing timestampMs field',
+      suggestion: 'Add a current timestamp in milliseconds:\n```json\n{\n  "timestampMs": "' + Date.now().toString() + '",\n  ...\n}\n```',
+      pointer: '/timestampMs',
+      fix: { description: 'Set timestampMs to the current time', edits: [{ op: 'set', pointer: '/timestampMs', value: Date.now().toString() }] },
+    });
   }
 
   // Check parameters
   if (!transaction.parameters) {
-    issues.push('Missing parameters object');
-    suggestions.push('Add the parameters object with transaction details:\n```json\n{\n  "parameters": {\n    "type": "TRANSACTION_TYPE_ETHEREUM",\n    "signWith": "your-ethereum-address",\n    "unsignedTransaction": "your-unsigned-transaction-hex"\n  },\n  ...\n}\n```');
+    findings.push({
+      ruleId: 'transaction/missing-parameters',
+      severity: 'error',
+      message: 'Missing parameters object',
+      suggestion: 'Add the parameters object with transaction details:\n```json\n{\n  "parameters": {\n    "type": "TRANSACTION_TYPE_ETHEREUM",\n    "signWith": "your-ethereum-address",\n    "unsignedTransaction": "your-unsigned-transaction-hex"\n  },\n  ...\n}\n```',
+      pointer: '/parameters',
+    });
   } else {
     // Check transaction type
     if (!transaction.parameters.type) {
-      issues.push('Missing transaction type in parameters');
-      suggestions.push('Add the transaction type to parameters:\n```json\n"parameters": {\n  "type": "TRANSACTION_TYPE_ETHEREUM",\n  ...\n}\n```');
+      findings.push({
+        ruleId: 'transaction/missing-transaction-type',
+        severity: 'error',
+        message: 'Missing transaction type in parameters',
+        suggestion: 'Add the transaction type to parameters:\n```json\n"parameters": {\n  "type": "TRANSACTION_TYPE_ETHEREUM",\n  ...\n}\n```',
+        pointer: '/parameters/type',
+      });
     } else {
       // Check for supported blockchain types
       const supportedTypes = ['TRANSACTION_TYPE_ETHEREUM', 'TRANSACTION_TYPE_SOLANA', 'TRANSACTION_TYPE_BITCOIN'];
       if (!supportedTypes.includes(transaction.parameters.type)) {
-        issues.push(`Unsupported blockchain type: ${transaction.parameters.type}`);
-        suggestions.push(`Use one of the supported blockchain types: ${supportedTypes.join(', ')}`);
+        findings.push({
+          ruleId: 'transaction/unsupported-blockchain',
+          severity: 'error',
+          message: `Unsupported blockchain type: ${transaction.parameters.type}`,
+          suggestion: `Use one of the supported blockchain types: ${supportedTypes.join(', ')}`,
+          pointer: '/parameters/type',
+        });
       }
     }
 
     // Check signing address
     if (!transaction.parameters.signWith) {
-      issues.push('Missing signWith address in parameters');
-      suggestions.push('Add the address to sign with:\n```json\n"parameters": {\n  "signWith": "your-blockchain-address",\n  ...\n}\n```');
+      findings.push({
+        ruleId: 'transaction/missing-sign-with',
+        severity: 'error',
+        message: 'Missing signWith address in parameters',
+        suggestion: 'Add the address to sign with:\n```json\n"parameters": {\n  "signWith": "your-blockchain-address",\n  ...\n}\n```',
+        pointer: SIGN_WITH_POINTER,
+        fix: { description: 'Set signWith to the value of --set SIGN_WITH=<address>', edits: [{ op: 'set', pointer: SIGN_WITH_POINTER, variable: 'SIGN_WITH' }] },
+      });
     } else {
       // Validate address format based on blockchain type
       if (transaction.parameters.type === 'TRANSACTION_TYPE_ETHEREUM') {
         if (!transaction.parameters.signWith.startsWith('0x') || transaction.parameters.signWith.length !== 42) {
-          issues.push('Invalid Ethereum address format');
-          suggestions.push('Ethereum addresses should start with "0x" and be 42 characters long');
+          findings.push({
+            ruleId: 'transaction/invalid-ethereum-address',
+            severity: 'error',
+            message: 'Invalid Ethereum address format',
+            suggestion: 'Ethereum addresses should start with "0x" and be 42 characters long',
+            pointer: SIGN_WITH_POINTER,
+          });
+        }
+      } else if (transaction.parameters.type === 'TRANSACTION_TYPE_SOLANA') {
+        if (!isSolanaAddress(transaction.parameters.signWith)) {
+          findings.push({
+            ruleId: 'transaction/invalid-solana-address',
+            severity: 'error',
+            message: 'Invalid Solana address format',
+            suggestion: 'Solana addresses are base58-encoded 32-byte public keys, 32 to 44 characters long',
+            pointer: SIGN_WITH_POINTER,
+          });
+        }
+      } else if (transaction.parameters.type === 'TRANSACTION_TYPE_BITCOIN') {
+        const address = validateBitcoinAddress(transaction.parameters.signWith);
+        if (!address.valid) {
+          findings.push({
+            ruleId: 'transaction/invalid-bitcoin-address',
+            severity: 'error',
+            message: `Invalid Bitcoin address format: ${address.error}`,
+            suggestion: 'Bitcoin addresses are bech32 (bc1q...), bech32m (bc1p...) or base58 (1... / 3...); testnet addresses start with tb1, m, n or 2',
+            pointer: SIGN_WITH_POINTER,
+          });
         }
       }
     }
 
     // Check unsigned transaction
     if (!transaction.parameters.unsignedTransaction) {
-      issues.push('Missing unsignedTransaction in parameters');
-      suggestions.push('Add the unsigned transaction hex:\n```json\n"parameters": {\n  "unsignedTransaction": "your-unsigned-transaction-hex",\n  ...\n}\n```');
+      findings.push({
+        ruleId: 'transaction/missing-unsigned-transaction',
+        severity: 'error',
+        message: 'Missing unsignedTransaction in parameters',
+        suggestion: 'Add the unsigned transaction hex:\n```json\n"parameters": {\n  "unsignedTransaction": "your-unsigned-transaction-hex",\n  ...\n}\n```',
+        pointer: UNSIGNED_TRANSACTION_POINTER,
+      });
+    } else if (transaction.parameters.type === 'TRANSACTION_TYPE_SOLANA') {
+      // Solana payloads may be hex or base64 encoded
+      try {
+        const decoded = decodeSolanaTransaction(transaction.parameters.unsignedTransaction);
+        details = describeSolanaTransaction(decoded);
+        checkSolanaTransaction(decoded, transaction.parameters.signWith, findings);
+      } catch (error) {
+        findings.push({
+          ruleId: 'solana/decode-failed',
+          severity: 'error',
+          message: `Unable to decode Solana transaction: ${error instanceof Error ? error.message : String(error)}`,
+          suggestion: 'Ensure unsignedTransaction is a serialized Solana transaction or message (legacy or v0), hex or base64 encoded, for example the output of `transaction.serialize({ requireAllSignatures: false })`',
+          pointer: UNSIGNED_TRANSACTION_POINTER,
+        });
+      }
+    } else if (transaction.parameters.type === 'TRANSACTION_TYPE_BITCOIN') {
+      // PSBTs may be hex or base64 encoded; addresses are rendered for the signWith network
+      const network = validateBitcoinAddress(transaction.parameters.signWith ?? '').network ?? 'mainnet';
+      try {
+        const decoded = decodeBitcoinTransaction(transaction.parameters.unsignedTransaction, network);
+        details = describeBitcoinTransaction(decoded);
+        checkBitcoinTransaction(decoded, transaction.parameters.signWith, findings);
+      } catch (error) {
+        findings.push({
+          ruleId: 'bitcoin/decode-failed',
+          severity: 'error',
+          message: `Unable to decode Bitcoin transaction: ${error instanceof Error ? error.message : String(error)}`,
+          suggestion: 'Ensure unsignedTransaction is a PSBT (base64 or hex) or a hex-encoded raw transaction',
+          pointer: UNSIGNED_TRANSACTION_POINTER,
+        });
+      }
     } else {
       // Basic validation of transaction hex
-      if (!/^0x[0-9a-f]+$/i.test(transaction.parameters.unsignedTransaction) && 
+      if (!/^0x[0-9a-f]+$/i.test(transaction.parameters.unsignedTransaction) &&
           !/^[0-9a-f]+$/i.test(transaction.parameters.unsignedTransaction)) {
-        issues.push('Invalid transaction hex format');
-        suggestions.push('Transaction hex should contain only hexadecimal characters, optionally starting with "0x"');
+        findings.push({
+          ruleId: 'transaction/invalid-hex',
+          severity: 'error',
+          message: 'Invalid transaction hex format',
+          suggestion: 'Transaction hex should contain only hexadecimal characters, optionally starting with "0x"',
+          pointer: UNSIGNED_TRANSACTION_POINTER,
+        });
+      } else if (transaction.parameters.type === 'TRANSACTION_TYPE_ETHEREUM') {
+        // Decode the RLP payload and check the transaction fields
+        try {
+          const decoded = decodeEthereumTransaction(transaction.parameters.unsignedTransaction);
+          details = describeEthereumTransaction(decoded);
+          checkEthereumTransaction(decoded, options, findings);
+        } catch (error) {
+          findings.push({
+            ruleId: 'ethereum/decode-failed',
+            severity: 'error',
+            message: `Unable to decode Ethereum transaction: ${error instanceof Error ? error.message : String(error)}`,
+            suggestion: 'Ensure unsignedTransaction is the RLP-encoded unsigned transaction (legacy, EIP-2930 or EIP-1559), for example the output of ethers `Transaction.unsignedSerialized` without the 0x prefix',
+            pointer: UNSIGNED_TRANSACTION_POINTER,
+          });
+        }
       }
     }
   }
 
   // Add helpful information about next steps
-  if (issues.length === 0) {
-    suggestions.push(
-      'Your transaction signing request looks valid! Here\'s how to use it with Turnkey:\n\n' +
-      '1. Use the Turnkey API to submit this request:\n' +
-      '```bash\n' +
-      'turnkey request --path /public/v1/submit/sign_transaction --body \'<your-json-content>\' --key-name your-key-name\n' +
-      '```\n\n' +
-      '2. From the response, extract the "signedTransaction" value:\n' +
-      '```json\n' +
-      '{\n' +
-      '  "activity": {\n' +
-      '    "result": {\n' +
-      '      "signTransactionResult": {\n' +
-      '        "signedTransaction": "0x..." // This is what you need\n' +
-      '      }\n' +
-      '    }\n' +
-      '  }\n' +
-      '}\n' +
-      '```\n\n' +
-      '3. Broadcast the signed transaction to the blockchain network using etherscan:\n' +
-      'https://etherscan.io/tx/0x...' +
-      `\n\n` +
-      '4. Track your transaction on a blockchain explorer like Etherscan'
-    );
-  }
-
-  return { issues, suggestions };
+  if (findings.length === 0) {
+    const explorer = EXPLORERS[transaction.parameters?.type ?? ''];
+    return {
+      findings,
+      details,
+      nextSteps:
+        'Your transaction signing request looks valid! Here\'s how to use it with Turnkey:\n\n' +
+        '1. Sign this request with your API key and submit it to the Turnkey API:\n' +
+        '```bash\n' +
+        'turnkey-copilot submit <request.json> --config <config.json>\n' +
+        '```\n\n' +
+        '2. From the response, extract the "signedTransaction" value:\n' +
+        '```json\n' +
+        '{\n' +
+        '  "activity": {\n' +
+        '    "result": {\n' +
+        '      "signTransactionResult": {\n' +
+        '        "signedTransaction": "0x..." // This is what you need\n' +
+        '      }\n' +
+        '    }\n' +
+        '  }\n' +
+        '}\n' +
+        '```\n\n' +
+        '3. Broadcast the signed transaction to the blockchain network, for example through your node or RPC provider\n\n' +
+        `4. Track your transaction on a blockchain explorer like ${explorer.name}:\n` +
+        explorer.url,
+    };
+  }
+
+  return { findings, details };
+}
+
+/**
+ * Checks decoded Ethereum transaction fields for common mistakes
+ * @param tx The decoded transaction
+ * @param options Analysis options
+ * @param findings Finding list to append to
+ */
+function checkEthereumTransaction(
+  tx: DecodedEthereumTransaction,
+  options: TransactionAnalysisOptions,
+  findings: Finding[]
+): void {
+  if (tx.signed) {
+    findings.push({
+      ruleId: 'ethereum/already-signed',
+      severity: 'error',
+      message: 'unsignedTransaction already contains a signature',
+      suggestion: 'Submit the unsigned serialization of the transaction; Turnkey adds the signature',
+      pointer: UNSIGNED_TRANSACTION_POINTER,
+    });
+  }
+
+  if (tx.chainId === undefined) {
+    findings.push({
+      ruleId: 'ethereum/missing-chain-id',
+      severity: 'warning',
+      message: 'Legacy transaction has no chainId (no EIP-155 replay protection)',
+      suggestion: 'Serialize the transaction with a chainId (EIP-155) or use an EIP-1559 transaction',
+      pointer: UNSIGNED_TRANSACTION_POINTER,
+    });
+  } else if (options.expectedChainId !== undefined && tx.chainId.toString() !== options.expectedChainId) {
+    findings.push({
+      ruleId: 'ethereum/chain-id-mismatch',
+      severity: 'error',
+      message: `Transaction chainId ${tx.chainId} does not match expected chainId ${options.expectedChainId}`,
+      suggestion: `Rebuild the transaction for chainId ${options.expectedChainId}, or check that you are targeting the intended network`,
+      pointer: UNSIGNED_TRANSACTION_POINTER,
+    });
+  }
+
+  if (tx.gasLimit === BigInt(0)) {
+    findings.push({
+      ruleId: 'ethereum/zero-gas-limit',
+      severity: 'error',
+      message: 'Transaction gas limit is zero',
+      suggestion: 'Set the gas limit to at least 21000 for a plain transfer, or estimate it with eth_estimateGas',
+      pointer: UNSIGNED_TRANSACTION_POINTER,
+    });
+  } else if (tx.gasLimit < BigInt(21000)) {
+    findings.push({
+      ruleId: 'ethereum/gas-limit-below-intrinsic',
+      severity: 'error',
+      message: `Transaction gas limit ${tx.gasLimit} is below the 21000 intrinsic gas of any transaction`,
+      suggestion: 'Set the gas limit to at least 21000, or estimate it with eth_estimateGas',
+      pointer: UNSIGNED_TRANSACTION_POINTER,
+    });
+  }
+
+  if (tx.maxPriorityFeePerGas !== undefined && tx.maxFeePerGas !== undefined && tx.maxPriorityFeePerGas > tx.maxFeePerGas) {
+    findings.push({
+      ruleId: 'ethereum/priority-fee-above-max-fee',
+      severity: 'error',
+      message: `maxPriorityFeePerGas (${tx.maxPriorityFeePerGas}) exceeds maxFeePerGas (${tx.maxFeePerGas})`,
+      suggestion: 'Lower maxPriorityFeePerGas or raise maxFeePerGas; nodes reject transactions where the tip exceeds the fee cap',
+      pointer: UNSIGNED_TRANSACTION_POINTER,
+    });
+  }
+
+  if (tx.maxFeePerGas === BigInt(0) || tx.gasPrice === BigInt(0)) {
+    findings.push({
+      ruleId: 'ethereum/zero-fee',
+      severity: 'error',
+      message: 'Transaction fee per gas is zero',
+      suggestion: 'Set maxFeePerGas (or gasPrice for legacy transactions) from the current network base fee',
+      pointer: UNSIGNED_TRANSACTION_POINTER,
+    });
+  }
+
+  if (!tx.to) {
+    if (tx.data === '0x') {
+      findings.push({
+        ruleId: 'ethereum/contract-creation-without-code',
+        severity: 'error',
+        message: 'Contract creation transaction has no init code (empty to and data)',
+        suggestion: 'Set the "to" address for a transfer, or include the contract bytecode in data to deploy a contract',
+        pointer: UNSIGNED_TRANSACTION_POINTER,
+      });
+    } else {
+      findings.push({
+        ruleId: 'ethereum/contract-creation',
+        severity: 'warning',
+        message: 'Transaction has an empty "to" field and will deploy a contract',
+        suggestion: 'If you meant to call an existing contract or send funds, set the "to" address',
+        pointer: UNSIGNED_TRANSACTION_POINTER,
+      });
+    }
+  }
+}
+
+/**
+ * Checks a decoded Solana transaction for common mistakes
+ * @param tx The decoded transaction
+ * @param signWith The address Turnkey is asked to sign with
+ * @param findings Finding list to append to
+ */
+function checkSolanaTransaction(
+  tx: DecodedSolanaTransaction,
+  signWith: string | undefined,
+  findings: Finding[]
+): void {
+  const signers = tx.accountKeys.slice(0, tx.header.numRequiredSignatures);
+
+  if (signWith && !signers.includes(signWith)) {
+    findings.push({
+      ruleId: 'solana/sign-with-not-signer',
+      severity: 'error',
+      message: 'signWith address is not a required signer of the Solana transaction',
+      suggestion: `Sign with one of the transaction's required signers (${signers.join(', ') || 'none'}), or rebuild the transaction with ${signWith} as fee payer or signer`,
+      pointer: SIGN_WITH_POINTER,
+    });
+  }
+
+  if (tx.instructions.length === 0) {
+    findings.push({
+      ruleId: 'solana/no-instructions',
+      severity: 'error',
+      message: 'Solana transaction has no instructions',
+      suggestion: 'Add at least one instruction, such as a System Program transfer, before requesting a signature',
+      pointer: UNSIGNED_TRANSACTION_POINTER,
+    });
+  }
+
+  if (/^1+$/.test(tx.recentBlockhash)) {
+    findings.push({
+      ruleId: 'solana/empty-blockhash',
+      severity: 'error',
+      message: 'Solana transaction has an empty recent blockhash',
+      suggestion: 'Fetch a fresh blockhash with getLatestBlockhash and set it on the transaction before signing',
+      pointer: UNSIGNED_TRANSACTION_POINTER,
+    });
+  }
+
+  tx.transfers.forEach((transfer, i) => {
+    if (transfer.amount === BigInt(0)) {
+      findings.push({
+        ruleId: 'solana/zero-transfer',
+        severity: 'warning',
+        message: `SOL transfer ${i + 1} moves zero lamports`,
+        suggestion: 'Check the transfer amount; amounts are in lamports (1 SOL = 1,000,000,000 lamports)',
+        pointer: UNSIGNED_TRANSACTION_POINTER,
+      });
+    }
+  });
+}
+
+/**
+ * Checks a decoded Bitcoin transaction for missing UTXO information, dust outputs and signer mismatches
+ * @param tx The decoded transaction
+ * @param signWith The address Turnkey is asked to sign with
+ * @param findings Finding list to append to
+ */
+function checkBitcoinTransaction(
+  tx: DecodedBitcoinTransaction,
+  signWith: string | undefined,
+  findings: Finding[]
+): void {
+  if (tx.inputs.length === 0 || tx.outputs.length === 0) {
+    findings.push({
+      ruleId: 'bitcoin/no-inputs-or-outputs',
+      severity: 'error',
+      message: `Bitcoin transaction has ${tx.inputs.length} input(s) and ${tx.outputs.length} output(s)`,
+      suggestion: 'A transaction needs at least one input and one output',
+      pointer: UNSIGNED_TRANSACTION_POINTER,
+    });
+  }
+
+  if (tx.format === 'raw') {
+    findings.push({
+      ruleId: 'bitcoin/raw-missing-utxo',
+      severity: 'warning',
+      message: 'Raw Bitcoin transaction carries no UTXO information; input amounts and fee cannot be verified',
+      suggestion: 'Submit a PSBT that includes witness_utxo (segwit) or non_witness_utxo (legacy) for every input',
+      pointer: UNSIGNED_TRANSACTION_POINTER,
+    });
+  } else {
+    tx.inputs.forEach((input, i) => {
+      if (input.value === undefined) {
+        findings.push({
+          ruleId: 'bitcoin/psbt-missing-utxo',
+          severity: 'error',
+          message: `PSBT input ${i} is missing UTXO information (witness_utxo or non_witness_utxo)`,
+          suggestion: `Add the previous output being spent (${input.txid}:${input.vout}) to PSBT input ${i}, e.g. with updateInput({ witnessUtxo }) in bitcoinjs-lib`,
+          pointer: UNSIGNED_TRANSACTION_POINTER,
+        });
+      }
+    });
+  }
+
+  if (tx.fee !== undefined && tx.fee < BigInt(0)) {
+    findings.push({
+      ruleId: 'bitcoin/negative-fee',
+      severity: 'error',
+      message: `Bitcoin transaction outputs exceed inputs by ${-tx.fee} sats`,
+      suggestion: 'Reduce the output amounts or add inputs so that inputs cover outputs plus the fee',
+      pointer: UNSIGNED_TRANSACTION_POINTER,
+    });
+  }
+
+  tx.outputs.forEach((output, i) => {
+    const threshold = DUST_THRESHOLDS[output.scriptType];
+    if (threshold !== undefined && output.value < BigInt(threshold)) {
+      findings.push({
+        ruleId: 'bitcoin/dust-output',
+        severity: 'error',
+        message: `Output ${i} (${output.value} sats) is below the ${output.scriptType} dust threshold of ${threshold} sats`,
+        suggestion: `Raise output ${i} to at least ${threshold} sats or drop it and add the amount to the fee; nodes will not relay dust outputs`,
+        pointer: UNSIGNED_TRANSACTION_POINTER,
+      });
+    }
+  });
+
+  const inputAddresses = tx.inputs.map(input => input.address).filter((address): address is string => !!address);
+  if (signWith && inputAddresses.length > 0 && !inputAddresses.includes(signWith)) {
+    findings.push({
+      ruleId: 'bitcoin/sign-with-not-input',
+      severity: 'error',
+      message: 'signWith address does not control any input of the Bitcoin transaction',
+      suggestion: `Sign with the address that owns the inputs being spent (${Array.from(new Set(inputAddresses)).join(', ')})`,
+      pointer: SIGN_WITH_POINTER,
+    });
+  }
 }
@@ -0,0 +1,278 @@
+import { CheckedFileType, Finding, PolicySource, SimplifiedPolicy, SimulationResult, TurnkeyConfig, TurnkeyPolicy, TurnkeyTransactionRequest } from '../types';
+import { appendPointer } from '../utils/json';
+import { findWalletIds } from './expression';
+import { listProfiles, ResolvedProfile, resolveProfile } from './profiles';
+import { resolveConfig } from './secrets';
+import { simulatePolicies } from './simulation';
+
+/**
+ * A parsed file taking part in a workspace analysis
+ */
+export interface WorkspaceFile {
+  file: string;
+  fileType?: CheckedFileType;
+  data: unknown;
+}
+
+/**
+ * Options for analyzing a workspace
+ */
+export interface AnalyzeWorkspaceOptions {
+  /** Environment that ${VAR} references in configurations are resolved from */
+  env?: NodeJS.ProcessEnv;
+  /** Profile of configurations with profiles to compare against; all profiles when omitted */
+  profile?: string;
+}
+
+/**
+ * A value defined by a configuration, with where it is defined
+ */
+interface ConfigValue {
+  value: string;
+  /** File and profile the value belongs to, for messages */
+  origin: string;
+}
+
+/**
+ * Organization and wallet IDs defined by the configurations of a workspace
+ */
+interface WorkspaceConfigs {
+  organizations: ConfigValue[];
+  wallets: ConfigValue[];
+  /** True when a configuration has an organization ID that could not be resolved */
+  unresolvedOrganization: boolean;
+  /** True when a configuration has a wallet ID that could not be resolved */
+  unresolvedWallet: boolean;
+}
+
+/**
+ * Checks configurations, policies and transaction signing requests against each other: requests
+ * must use an organization of a configuration, sign with a key of a policy and be allowed by the
+ * policies, and policies must only reference wallets of the configurations
+ * @param files Parsed files of the workspace
+ * @param options Analysis options
+ * @returns Findings by file; files without findings are omitted
+ */
+export async function analyzeWorkspace(files: WorkspaceFile[], options: AnalyzeWorkspaceOptions = {}): Promise<Map<string, Finding[]>> {
+  const configs = await collectConfigs(files.filter(file => file.fileType === 'config'), options);
+  const policyFiles = files.filter(file => file.fileType === 'policy');
+  const policies: PolicySource[] = policyFiles.map(file => ({ source: file.file, policy: file.data as TurnkeyPolicy | SimplifiedPolicy }));
+  const signingKeys = collectSigningKeys(policyFiles);
+
+  const results = new Map<string, Finding[]>();
+  const add = (file: string, finding: Finding) => results.set(file, [...(results.get(file) ?? []), finding]);
+
+  for (const file of files.filter(item => item.fileType === 'transaction')) {
+    const request = file.data as TurnkeyTransactionRequest;
+    const organizationId = request.organizationId;
+    const signWith = request.parameters?.signWith;
+
+    if (typeof organizationId === 'string' && organizationId && configs.organizations.length > 0 && !configs.unresolvedOrganization &&
+      !configs.organizations.some(organization => organization.value === organizationId)) {
+      add(file.file, {
+        ruleId: 'workspace/organization-mismatch',
+        severity: 'error',
+        message: `organizationId ${organizationId} does not match the org_id of any configuration (${describeValues(configs.organizations)})`,
+        suggestion: 'Set organizationId to the organization of the API key that signs the request; the API rejects requests for other organizations',
+        pointer: '/organizationId',
+        fix: configs.organizations.length === 1
+          ? { description: `Set organizationId to ${configs.organizations[0].value}`, edits: [{ op: 'set', pointer: '/organizationId', value: configs.organizations[0].value }] }
+          : undefined,
+      });
+    }
+
+    if (typeof signWith === 'string' && signWith && signingKeys.size > 0 && !signingKeys.has(signWith.toLowerCase())) {
+      add(file.file, {
+        ruleId: 'workspace/orphaned-sign-with',
+        severity: 'warning',
+        message: `parameters.signWith ${signWith} is not a key_id or public_key in the signing_keys of any policy`,
+        suggestion: `Sign with one of the keys of the policies (${[...signingKeys].join(', ')}), or add this key to the signing_keys of the policy that should govern it`,
+        pointer: '/parameters/signWith',
+      });
+    }
+
+    if (policies.length > 0) {
+      const result = simulateRequest(policies, file.file, request, add);
+      if (result?.decision === 'DENY') {
+        add(file.file, {
+          ruleId: 'workspace/request-denied',
+          severity: 'warning',
+          message: `No policy in the workspace allows this request: ${result.reason}`,
+          suggestion: `Run \`turnkey-copilot simulate --request ${file.file} --policy ${policyFiles.map(policy => policy.file).join(' ')} --verbose\` to see how each policy evaluates it`,
+          pointer: '',
+        });
+      }
+    }
+  }
+
+  if (configs.wallets.length > 0 && !configs.unresolvedWallet) {
+    const known = new Set(configs.wallets.map(wallet => wallet.value));
+    for (const file of policyFiles) {
+      for (const { pointer, condition } of listConditions(file.data as TurnkeyPolicy | SimplifiedPolicy)) {
+        const unknown = findWalletIds(condition).filter(id => !known.has(id));
+        if (unknown.length > 0) {
+          add(file.file, {
+            ruleId: 'workspace/unknown-wallet',
+            severity: 'warning',
+            message: `The condition references ${unknown.length === 1 ? 'wallet' : 'wallets'} ${unknown.join(', ')}, which no configuration uses (${describeValues(configs.wallets)})`,
+            suggestion: 'Use the wallet_id of the configuration that signs with this policy. A condition on a wallet that no configuration uses never matches its requests',
+            pointer,
+          });
+        }
+      }
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Simulates a request against the policies of the workspace. A policy that cannot be evaluated against
+ * the request is reported on the policy file and left out, so one malformed file does not stop the
+ * analysis of the others.
+ * @param policies Policies of the workspace
+ * @param file The request file, for messages
+ * @param request The transaction signing request
+ * @param add Adds a finding to a file
+ * @returns The simulation result, or undefined if the request or every policy cannot be evaluated
+ */
+function simulateRequest(
+  policies: PolicySource[],
+  file: string,
+  request: TurnkeyTransactionRequest,
+  add: (file: string, finding: Finding) => void
+): SimulationResult | undefined {
+  try {
+    return simulatePolicies(policies, request);
+  } catch {
+    // Find out whether the request itself or some of the policies cannot be evaluated
+  }
+
+  try {
+    simulatePolicies([], request);
+  } catch (error) {
+    add(file, {
+      ruleId: 'workspace/simulation-failed',
+      severity: 'error',
+      message: `Unable to simulate the request against the policies of the workspace: ${error instanceof Error ? error.message : String(error)}`,
+      suggestion: `Run \`turnkey-copilot check ${file}\` to find the problems of the request`,
+      pointer: '',
+    });
+    return undefined;
+  }
+
+  const evaluable = policies.filter(policy => {
+    try {
+      simulatePolicies([policy], request);
+      return true;
+    } catch (error) {
+      add(policy.source, {
+        ruleId: 'workspace/simulation-failed',
+        severity: 'error',
+        message: `Unable to evaluate the policy against ${file}: ${error instanceof Error ? error.message : String(error)}`,
+        suggestion: `Run \`turnkey-copilot check ${policy.source}\` to find the problems of the policy`,
+        pointer: '',
+      });
+      return false;
+    }
+  });
+  return evaluable.length > 0 ? simulatePolicies(evaluable, request) : undefined;
+}
+
+/**
+ * Collects the organization and wallet IDs of the configurations, of every profile or only the selected one
+ * @param files Configuration files
+ * @param options Analysis options
+ * @returns The IDs with where they are defined
+ */
+async function collectConfigs(files: WorkspaceFile[], options: AnalyzeWorkspaceOptions): Promise<WorkspaceConfigs> {
+  const result: WorkspaceConfigs = { organizations: [], wallets: [], unresolvedOrganization: false, unresolvedWallet: false };
+
+  for (const file of files) {
+    const { config, references } = await resolveConfig(file.data as TurnkeyConfig, file.file, options.env);
+    const unresolved = new Set(references.filter(reference => !reference.source).map(reference => reference.pointer));
+    const names = listProfiles(config);
+
+    const environments: Array<{ origin: string; config: TurnkeyConfig; pointer: (field: string) => string }> = [];
+    if (names.length === 0) {
+      environments.push({ origin: file.file, config, pointer: field => appendPointer('', field) });
+    } else {
+      for (const name of options.profile !== undefined && names.includes(options.profile) ? [options.profile] : names) {
+        let profile: ResolvedProfile;
+        try {
+          profile = resolveProfile(config, name);
+        } catch {
+          // Reported as config/invalid-profile-extends
+          continue;
+        }
+        environments.push({ origin: `${file.file} (${name})`, config: profile.config, pointer: field => profile.sources[field] });
+      }
+    }
+
+    for (const environment of environments) {
+      const { org_id: organization, wallet_id: wallet } = environment.config;
+      if (unresolved.has(environment.pointer('org_id'))) {
+        result.unresolvedOrganization = true;
+      } else if (typeof organization === 'string' && organization) {
+        result.organizations.push({ value: organization, origin: environment.origin });
+      }
+      if (unresolved.has(environment.pointer('wallet_id'))) {
+        result.unresolvedWallet = true;
+      } else if (typeof wallet === 'string' && wallet) {
+        result.wallets.push({ value: wallet, origin: environment.origin });
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Collects the key IDs and public keys of the signing keys of traditional policies
+ * @param files Policy files
+ * @returns Lowercased key IDs and public keys
+ */
+function collectSigningKeys(files: WorkspaceFile[]): Set<string> {
+  const keys = new Set<string>();
+  for (const file of files) {
+    const signingKeys = (file.data as TurnkeyPolicy).signing_keys;
+    for (const key of Array.isArray(signingKeys) ? signingKeys : []) {
+      for (const value of [key?.key_id, key?.public_key]) {
+        if (typeof value === 'string' && value) {
+          keys.add(value.toLowerCase());
+        }
+      }
+    }
+  }
+  return keys;
+}
+
+/**
+ * Lists the conditions of a simplified or traditional policy
+ * @param policy The policy
+ * @returns Each condition with its JSON pointer
+ */
+function listConditions(policy: TurnkeyPolicy | SimplifiedPolicy): Array<{ pointer: string; condition: string }> {
+  const conditions: Array<{ pointer: string; condition: string }> = [];
+  if (typeof policy.condition === 'string') {
+    conditions.push({ pointer: '/condition', condition: policy.condition });
+  }
+
+  const activities = (policy as TurnkeyPolicy).allowed_activities;
+  (Array.isArray(activities) ? activities : []).forEach((activity, index) => {
+    if (typeof activity?.parameters?.condition === 'string') {
+      conditions.push({ pointer: `/allowed_activities/${index}/parameters/condition`, condition: activity.parameters.condition });
+    }
+  });
+
+  return conditions;
+}
+
+/**
+ * Lists configuration values for messages
+ * @param values The values
+ * @returns e.g. "org-1 in config.json, org-2 in prod.json (prod)"
+ */
+function describeValues(values: ConfigValue[]): string {
+  return values.map(value => `${value.value} in ${value.origin}`).join(', ');
+}
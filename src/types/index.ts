@@ -2,6 +2,23 @@
  * Turnkey configuration interface
  */
 export interface TurnkeyConfig {
+  org_id?: string;
+  wallet_id?: string;
+  api_public_key?: string;
+  api_private_key?: string;
+  base_url?: string;
+  /** Named environments, e.g. dev, staging and prod, that inherit the fields above */
+  profiles?: Record<string, TurnkeyProfile>;
+  [key: string]: any;
+}
+
+/**
+ * A named profile of a Turnkey configuration. Its fields override the top-level fields, or those
+ * of the profile it extends.
+ */
+export interface TurnkeyProfile {
+  /** Name of another profile to inherit from instead of the top-level fields directly */
+  extends?: string;
   org_id?: string;
   wallet_id?: string;
   api_public_key?: string;
@@ -59,12 +76,102 @@ export interface AllowedActivity {
   [key: string]: any;
 }
 
+/**
+ * Severity of a finding
+ */
+export type Severity = 'error' | 'warning' | 'info';
+
+/**
+ * A single problem reported by an analyzer
+ */
+export interface Finding {
+  /** Stable identifier of the check, e.g. "config/insecure-base-url" */
+  ruleId: string;
+  severity: Severity;
+  message: string;
+  suggestion?: string;
+  /** RFC 6901 JSON pointer to the offending value in the analyzed file */
+  pointer: string;
+  /** Position of the pointer in the source file, resolved by the check command */
+  location?: SourceRange;
+  /** Structured edits that resolve the finding, applied by the fix command */
+  fix?: Fix;
+}
+
+/**
+ * A single change to a JSON document
+ */
+export interface JsonEdit {
+  /** "set" writes a value (adding the key if needed), "replace" substitutes text inside a string value, "remove" deletes the key */
+  op: 'set' | 'replace' | 'remove';
+  /** RFC 6901 JSON pointer of the value to change */
+  pointer: string;
+  /** New value for "set", or replacement text for "replace" */
+  value?: unknown;
+  /** Text to replace inside the string value, for "replace" */
+  search?: string;
+  /** Name of a variable supplied with --set that provides the value, e.g. SENDER_ADDRESS */
+  variable?: string;
+}
+
+/**
+ * A fix for a finding
+ */
+export interface Fix {
+  description: string;
+  edits: JsonEdit[];
+}
+
 /**
  * Analysis result interface
  */
 export interface AnalysisResult {
-  issues: string[];
-  suggestions: string[];
+  findings: Finding[];
+  details?: Record<string, string>;
+  nextSteps?: string;
+}
+
+/**
+ * Setting of a rule in a project config file: a severity, "off" to disable the rule,
+ * or "on" to re-enable it with its default severity
+ */
+export type RuleSetting = Severity | 'off' | 'on';
+
+/**
+ * Rule settings that apply only to files matching the given glob patterns
+ */
+export interface RuleOverride {
+  /** Glob patterns, relative to the directory of the project config file */
+  files: string[];
+  rules: Record<string, RuleSetting>;
+}
+
+/**
+ * Contents of a .turnkeycopilotrc project config file
+ */
+export interface ProjectSettings {
+  /** Rule settings keyed by rule ID; "prefix/*" applies to every rule with that prefix */
+  rules?: Record<string, RuleSetting>;
+  overrides?: RuleOverride[];
+}
+
+/**
+ * Kind of Turnkey file detected by the check command
+ */
+export type CheckedFileType = 'transaction' | 'policy' | 'config';
+
+/**
+ * Output formats supported by the check command
+ */
+export type OutputFormat = 'text' | 'json' | 'sarif' | 'junit';
+
+/**
+ * Analysis result of a single checked file
+ */
+export interface CheckReport extends AnalysisResult {
+  file: string;
+  /** Absent when the file could not be read or parsed */
+  fileType?: CheckedFileType;
 }
 
 /**
@@ -74,4 +181,543 @@ export interface ApiErrorResponse {
   status: number;
   message: string;
   details?: string;
-}
\ No newline at end of file
+}
+
+/**
+ * Position inside a policy condition expression (1-based line/column, 0-based offset)
+ */
+export interface SourcePosition {
+  line: number;
+  column: number;
+  offset: number;
+}
+
+/**
+ * Range between two source positions, end exclusive
+ */
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+/**
+ * Base interface shared by every condition expression AST node
+ */
+interface BaseExpressionNode {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+export interface LiteralNode extends BaseExpressionNode {
+  kind: 'literal';
+  valueType: 'string' | 'number' | 'boolean' | 'null';
+  value: string | number | boolean | null;
+  raw: string;
+}
+
+export interface IdentifierNode extends BaseExpressionNode {
+  kind: 'identifier';
+  name: string;
+}
+
+export interface MemberNode extends BaseExpressionNode {
+  kind: 'member';
+  object: ExpressionNode;
+  property: string;
+}
+
+export interface CallNode extends BaseExpressionNode {
+  kind: 'call';
+  target: ExpressionNode;
+  method: string;
+  args: ExpressionNode[];
+}
+
+export interface IndexNode extends BaseExpressionNode {
+  kind: 'index';
+  object: ExpressionNode;
+  index: ExpressionNode;
+}
+
+export interface SliceNode extends BaseExpressionNode {
+  kind: 'slice';
+  object: ExpressionNode;
+  from?: ExpressionNode;
+  to?: ExpressionNode;
+}
+
+export interface ListNode extends BaseExpressionNode {
+  kind: 'list';
+  elements: ExpressionNode[];
+}
+
+export interface UnaryNode extends BaseExpressionNode {
+  kind: 'unary';
+  operator: '!';
+  operand: ExpressionNode;
+}
+
+export interface BinaryNode extends BaseExpressionNode {
+  kind: 'binary';
+  operator: '&&' | '||' | '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in';
+  left: ExpressionNode;
+  right: ExpressionNode;
+}
+
+/**
+ * Policy condition expression AST
+ */
+export type ExpressionNode =
+  | LiteralNode
+  | IdentifierNode
+  | MemberNode
+  | CallNode
+  | IndexNode
+  | SliceNode
+  | ListNode
+  | UnaryNode
+  | BinaryNode;
+
+/**
+ * Type of a value in the policy condition language
+ */
+export type FieldType =
+  | { kind: 'string' }
+  | { kind: 'number' }
+  | { kind: 'boolean' }
+  | { kind: 'address' }
+  | { kind: 'null' }
+  | { kind: 'any' }
+  | { kind: 'list'; element: FieldType }
+  | { kind: 'object'; name: string; fields: Record<string, FieldType> };
+
+/**
+ * Syntax or type error found in a policy condition expression
+ */
+export interface ConditionDiagnostic {
+  kind: 'syntax' | 'type';
+  code: 'syntax' | 'unknown-identifier' | 'unknown-field' | 'unknown-method' | 'missing-quantifier' | 'missing-bound-variable' | 'type-mismatch';
+  message: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * Result of parsing and type-checking a policy condition expression
+ */
+export interface ConditionAnalysis {
+  ast?: ExpressionNode;
+  diagnostics: ConditionDiagnostic[];
+}
+
+/**
+ * Simplified Turnkey policy with a single effect and condition expression
+ */
+export interface SimplifiedPolicy {
+  policyName?: string;
+  effect?: 'EFFECT_ALLOW' | 'EFFECT_DENY' | string;
+  condition?: string;
+  consensus?: string;
+  notes?: string;
+  [key: string]: any;
+}
+
+/**
+ * Outcome of evaluating a condition expression against a request
+ */
+export interface ConditionEvaluation {
+  value: boolean;
+  decidedBy: string;
+  detail?: string;
+}
+
+/**
+ * Outcome of evaluating a single policy against a request
+ */
+export interface PolicyEvaluation {
+  policyName: string;
+  source: string;
+  effect: 'EFFECT_ALLOW' | 'EFFECT_DENY';
+  outcome: 'matched' | 'not_matched' | 'error';
+  decidedBy?: string;
+  detail?: string;
+  error?: string;
+}
+
+/**
+ * Final decision of a policy simulation
+ */
+export interface SimulationResult {
+  decision: 'ALLOW' | 'DENY';
+  reason: string;
+  decidingPolicy?: PolicyEvaluation;
+  evaluations: PolicyEvaluation[];
+}
+
+/**
+ * A request and the decision a policy set is expected to make for it
+ */
+export interface PolicyTestCase {
+  name: string;
+  request: TurnkeyTransactionRequest;
+  expect: SimulationResult['decision'];
+}
+
+/**
+ * A policy set and the requests it is tested against, loaded from a fixture file
+ */
+export interface PolicyTestFixture {
+  file: string;
+  name: string;
+  policies: PolicySource[];
+  cases: PolicyTestCase[];
+}
+
+/**
+ * Results of the test cases of one fixture file, or the reason the fixture could not be loaded
+ */
+export interface PolicyTestRun {
+  file: string;
+  name: string;
+  results: PolicyTestResult[];
+  error?: string;
+}
+
+/**
+ * Outcome of running one test case through its policy set
+ */
+export interface PolicyTestResult {
+  name: string;
+  expected: SimulationResult['decision'];
+  result: SimulationResult;
+  passed: boolean;
+}
+
+/**
+ * A policy together with the file it was loaded from
+ */
+export interface PolicySource {
+  source: string;
+  policy: TurnkeyPolicy | SimplifiedPolicy;
+  /** JSON pointer of the policy in its file, when the file holds several policies */
+  pointer?: string;
+}
+
+/**
+ * A finding about how a policy combines with the other policies of a set
+ */
+export interface PolicySetFinding {
+  policy: PolicySource;
+  /** The finding, with a pointer into the policy */
+  finding: Finding;
+}
+
+/**
+ * A policy that allows or denies an activity type, possibly only under a condition
+ */
+export interface CoverageRule {
+  /** Policy name, with the allowed activity for traditional policies */
+  name: string;
+  conditional: boolean;
+}
+
+/**
+ * What a policy set effectively permits for one activity type
+ */
+export interface ActivityCoverage {
+  /** Activity type without prefix and version, e.g. SIGN_TRANSACTION, or a label for the remaining types */
+  activityType: string;
+  /**
+   * allowed: an unconditional ALLOW applies and no DENY does; allowed-with-exceptions: conditional DENY
+   * policies apply as well; conditional: only conditional ALLOW policies apply; denied: an unconditional
+   * DENY applies; not-allowed: no ALLOW applies, so requests are denied implicitly
+   */
+  status: 'allowed' | 'allowed-with-exceptions' | 'conditional' | 'denied' | 'not-allowed';
+  allowedBy: CoverageRule[];
+  deniedBy: CoverageRule[];
+}
+
+/**
+ * Result of reviewing a policy set as a whole
+ */
+export interface PolicySetReview {
+  findings: PolicySetFinding[];
+  coverage: ActivityCoverage[];
+}
+
+/**
+ * How a change affects what a policy set permits: wider permits more (or approves more easily),
+ * narrower permits less, changed permits something different, neutral permits the same
+ */
+export type ChangeImpact = 'wider' | 'narrower' | 'changed' | 'neutral';
+
+/**
+ * A semantic change between two versions of a policy
+ */
+export interface PolicyChange {
+  /** Name of the policy */
+  policy: string;
+  /** JSON pointer of the changed value in the new version, or in the old one for removals */
+  pointer: string;
+  impact: ChangeImpact;
+  message: string;
+  /** Changes of a condition, term by term */
+  details: string[];
+}
+
+/**
+ * The decisions of two versions of a policy set for one request
+ */
+export interface DecisionComparison {
+  request: string;
+  before: SimulationResult;
+  after: SimulationResult;
+  flipped: boolean;
+}
+
+/**
+ * Risk level of a policy, from its score
+ */
+export type RiskLevel = 'low' | 'medium' | 'high' | 'critical';
+
+/**
+ * One thing that makes a policy risky
+ */
+export interface RiskReason {
+  ruleId: string;
+  /** Points this reason adds to the score */
+  weight: number;
+  message: string;
+  suggestion?: string;
+  /** JSON pointer of the value in the policy */
+  pointer: string;
+}
+
+/**
+ * Risk score of a policy with the reasons for it
+ */
+export interface RiskAssessment {
+  /** 0 to 100; the sum of the weights of the reasons, capped at 100 */
+  score: number;
+  level: RiskLevel;
+  /** Reasons, highest weight first */
+  reasons: RiskReason[];
+}
+
+/**
+ * EIP-2930 access list entry
+ */
+export interface AccessListEntry {
+  address: string;
+  storageKeys: string[];
+}
+
+/**
+ * Fields decoded from an RLP-encoded Ethereum transaction
+ */
+export interface DecodedEthereumTransaction {
+  type: 'legacy' | 'eip2930' | 'eip1559';
+  chainId?: bigint;
+  nonce: bigint;
+  gasPrice?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  maxFeePerGas?: bigint;
+  gasLimit: bigint;
+  to?: string;
+  value: bigint;
+  data: string;
+  accessList: AccessListEntry[];
+  signed: boolean;
+}
+
+/**
+ * Compiled instruction of a Solana message, with account indexes resolved to addresses
+ */
+export interface SolanaInstruction {
+  programId: string;
+  accounts: string[];
+  data: string;
+}
+
+/**
+ * Native SOL transfer (System Program), amount in lamports
+ */
+export interface SolanaTransfer {
+  from: string;
+  to: string;
+  amount: bigint;
+}
+
+/**
+ * SPL Token transfer, amount in base units of the mint
+ */
+export interface SplTransfer {
+  from: string;
+  to: string;
+  owner: string;
+  mint?: string;
+  amount: bigint;
+  decimals?: number;
+}
+
+/**
+ * Fields decoded from a Solana legacy or v0 message
+ */
+export interface DecodedSolanaTransaction {
+  version: 'legacy' | 0;
+  header: {
+    numRequiredSignatures: number;
+    numReadonlySignedAccounts: number;
+    numReadonlyUnsignedAccounts: number;
+  };
+  signatures: number;
+  accountKeys: string[];
+  recentBlockhash: string;
+  instructions: SolanaInstruction[];
+  addressTableLookups: Array<{ accountKey: string; writableIndexes: number[]; readonlyIndexes: number[] }>;
+  transfers: SolanaTransfer[];
+  splTransfers: SplTransfer[];
+}
+
+/**
+ * Bitcoin network an address or script belongs to
+ */
+export type BitcoinNetwork = 'mainnet' | 'testnet' | 'regtest';
+
+/**
+ * Result of validating a Bitcoin address
+ */
+export interface BitcoinAddressInfo {
+  valid: boolean;
+  network?: BitcoinNetwork;
+  type?: 'p2pkh' | 'p2sh' | 'p2wpkh' | 'p2wsh' | 'p2tr' | 'witness_unknown';
+  error?: string;
+}
+
+/**
+ * Input of a decoded Bitcoin transaction; value and script are only known when UTXO information is present
+ */
+export interface BitcoinInput {
+  txid: string;
+  vout: number;
+  sequence: number;
+  value?: bigint;
+  scriptPubKey?: string;
+  address?: string;
+}
+
+/**
+ * Output of a decoded Bitcoin transaction, value in satoshis
+ */
+export interface BitcoinOutput {
+  value: bigint;
+  scriptPubKey: string;
+  scriptType: 'p2pkh' | 'p2sh' | 'p2wpkh' | 'p2wsh' | 'p2tr' | 'op_return' | 'nonstandard';
+  address?: string;
+}
+
+/**
+ * Fields decoded from a PSBT or raw Bitcoin transaction
+ */
+export interface DecodedBitcoinTransaction {
+  format: 'psbt' | 'raw';
+  version: number;
+  locktime: number;
+  segwit: boolean;
+  inputs: BitcoinInput[];
+  outputs: BitcoinOutput[];
+  fee?: bigint;
+}
+
+/**
+ * Backend that answers LLM requests: the OpenAI API, any OpenAI-compatible server
+ * (e.g. llama.cpp or Ollama), or offline templates from the bundled knowledge base
+ */
+export type LlmProviderName = 'openai' | 'openai-compatible' | 'template';
+
+/**
+ * A message of a chat completion request
+ */
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * A chat completion request
+ */
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  /** Findings the request is about; offline providers answer from these instead of the messages */
+  findings?: Finding[];
+}
+
+/**
+ * Provider and model settings for LLM requests
+ */
+export interface LlmSettings {
+  provider: LlmProviderName;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  /** Base URL of an OpenAI-compatible server, e.g. http://localhost:11434/v1 */
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+/**
+ * A backend that completes chat requests
+ */
+export interface LlmProvider {
+  name: LlmProviderName;
+  /** Model used for completions, or "knowledge-base" for the template provider */
+  model: string;
+  complete(request: CompletionRequest): Promise<string>;
+}
+
+/**
+ * A captured API request and its response, as diagnosed by diagnose-auth
+ */
+export interface AuthCapture {
+  request?: {
+    url?: string;
+    headers?: Record<string, string>;
+    /** Exact body that was sent; an object is compared as compact JSON */
+    body?: string | Record<string, unknown>;
+  };
+  response?: {
+    status?: number;
+    headers?: Record<string, string>;
+    body?: unknown;
+  };
+}
+
+/**
+ * Local checks made when diagnosing an authentication failure
+ */
+export type AuthCheckName = 'key-pair' | 'stamp' | 'signature' | 'organization' | 'timestamp';
+
+/**
+ * Result of one authentication check
+ */
+export interface AuthCheck {
+  name: AuthCheckName;
+  /** skipped when the capture or configuration lacks what the check needs */
+  status: 'pass' | 'fail' | 'skipped';
+  message: string;
+  suggestion?: string;
+}
+
+/**
+ * Result of diagnosing an authentication failure
+ */
+export interface AuthDiagnosis {
+  checks: AuthCheck[];
+  /** What the API said, if a response or error body was captured */
+  response?: {
+    status?: number;
+    message: string;
+    /** The check the error message points to, if it could be recognized */
+    points?: AuthCheckName | 'registration';
+  };
+}
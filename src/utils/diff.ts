@@ -0,0 +1,95 @@
+const CONTEXT_LINES = 3;
+
+interface DiffLine {
+  type: ' ' | '-' | '+';
+  text: string;
+  /** 1-based line numbers in the old and new text */
+  oldLine: number;
+  newLine: number;
+}
+
+/**
+ * Creates a unified diff between two texts
+ * @param oldText Original text
+ * @param newText Changed text
+ * @param oldName Name of the original file in the diff header
+ * @param newName Name of the changed file in the diff header
+ * @returns Unified diff, or an empty string when the texts are equal
+ */
+export function createUnifiedDiff(oldText: string, newText: string, oldName: string, newName: string = oldName): string {
+  if (oldText === newText) {
+    return '';
+  }
+
+  const lines = diffLines(oldText.split('\n'), newText.split('\n'));
+  const output = [`--- a/${oldName.replace(/^\.?\/+/, '')}`, `+++ b/${newName.replace(/^\.?\/+/, '')}`];
+
+  let index = 0;
+  while (index < lines.length) {
+    // Find the next change and extend the hunk while changes are close together
+    const firstChange = lines.findIndex((line, i) => i >= index && line.type !== ' ');
+    if (firstChange === -1) {
+      break;
+    }
+
+    const start = Math.max(index, firstChange - CONTEXT_LINES);
+    let end = firstChange;
+    for (let i = firstChange; i < lines.length; i++) {
+      if (lines[i].type !== ' ') {
+        end = i;
+      } else if (i - end > CONTEXT_LINES * 2) {
+        break;
+      }
+    }
+    end = Math.min(lines.length - 1, end + CONTEXT_LINES);
+
+    const hunk = lines.slice(start, end + 1);
+    const oldCount = hunk.filter(line => line.type !== '+').length;
+    const newCount = hunk.filter(line => line.type !== '-').length;
+    const oldStart = oldCount === 0 ? hunk[0].oldLine - 1 : hunk.find(line => line.type !== '+')!.oldLine;
+    const newStart = newCount === 0 ? hunk[0].newLine - 1 : hunk.find(line => line.type !== '-')!.newLine;
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    output.push(...hunk.map(line => `${line.type}${line.text}`));
+    index = end + 1;
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Computes a line diff using the longest common subsequence
+ * @param oldLines Lines of the original text
+ * @param newLines Lines of the changed text
+ * @returns Unchanged, removed and added lines in order
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  // lengths[i][j] is the LCS length of oldLines[i..] and newLines[j..]
+  const lengths = Array.from({ length: oldLines.length + 1 }, () => new Array<number>(newLines.length + 1).fill(0));
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lengths[i][j] = oldLines[i] === newLines[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length || j < newLines.length) {
+    if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) {
+      result.push({ type: ' ', text: oldLines[i], oldLine: i + 1, newLine: j + 1 });
+      i++;
+      j++;
+    } else if (j >= newLines.length || (i < oldLines.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      result.push({ type: '-', text: oldLines[i], oldLine: i + 1, newLine: j + 1 });
+      i++;
+    } else {
+      result.push({ type: '+', text: newLines[j], oldLine: i + 1, newLine: j + 1 });
+      j++;
+    }
+  }
+
+  return result;
+}
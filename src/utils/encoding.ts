@@ -0,0 +1,183 @@
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/**
+ * Encodes bytes as base58 (Bitcoin alphabet)
+ * @param bytes Bytes to encode
+ * @returns Base58 string
+ */
+export function base58Encode(bytes: Uint8Array): string {
+  let value = BigInt(`0x${Buffer.from(bytes).toString('hex') || '0'}`);
+  let encoded = '';
+
+  while (value > BigInt(0)) {
+    encoded = BASE58_ALPHABET[Number(value % BigInt(58))] + encoded;
+    value /= BigInt(58);
+  }
+
+  // Each leading zero byte is encoded as a leading '1'
+  for (let i = 0; i < bytes.length && bytes[i] === 0; i++) {
+    encoded = '1' + encoded;
+  }
+
+  return encoded;
+}
+
+/**
+ * Decodes a base58 string (Bitcoin alphabet)
+ * @param text Base58 string
+ * @returns Decoded bytes
+ * @throws Error if the string contains characters outside the base58 alphabet
+ */
+export function base58Decode(text: string): Buffer {
+  let value = BigInt(0);
+
+  for (const char of text) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit === -1) {
+      throw new Error(`Invalid base58 character '${char}'`);
+    }
+    value = value * BigInt(58) + BigInt(digit);
+  }
+
+  let hex = value === BigInt(0) ? '' : value.toString(16);
+  if (hex.length % 2 !== 0) {
+    hex = '0' + hex;
+  }
+
+  let leadingZeros = 0;
+  while (leadingZeros < text.length && text[leadingZeros] === '1') {
+    leadingZeros++;
+  }
+
+  return Buffer.concat([Buffer.alloc(leadingZeros), Buffer.from(hex, 'hex')]);
+}
+
+/**
+ * Decodes a binary payload given either as hex (with or without 0x prefix) or as base64
+ * @param payload Encoded payload
+ * @returns Decoded bytes and the encoding that was detected
+ * @throws Error if the payload is neither hex nor base64
+ */
+export function decodeBinaryPayload(payload: string): { bytes: Buffer; encoding: 'hex' | 'base64' } {
+  const hex = payload.replace(/^0x/i, '');
+  if (/^[0-9a-f]*$/i.test(hex) && hex.length % 2 === 0) {
+    return { bytes: Buffer.from(hex, 'hex'), encoding: 'hex' };
+  }
+
+  if (/^[A-Za-z0-9+/]+={0,2}$/.test(payload) && payload.length % 4 === 0) {
+    return { bytes: Buffer.from(payload, 'base64'), encoding: 'base64' };
+  }
+
+  throw new Error('Payload is neither hex nor base64');
+}
+
+const BECH32_ALPHABET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32_CONST = 1;
+const BECH32M_CONST = 0x2bc830a3;
+
+function bech32Polymod(values: number[]): number {
+  const generators = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+  let checksum = 1;
+
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    for (let i = 0; i < 5; i++) {
+      if ((top >>> i) & 1) {
+        checksum ^= generators[i];
+      }
+    }
+  }
+
+  return checksum >>> 0;
+}
+
+function bech32HrpExpand(hrp: string): number[] {
+  const high = Array.from(hrp, char => char.charCodeAt(0) >> 5);
+  const low = Array.from(hrp, char => char.charCodeAt(0) & 31);
+  return [...high, 0, ...low];
+}
+
+/**
+ * Regroups a sequence of bit groups, e.g. 8-bit bytes into 5-bit bech32 words
+ * @param data Input groups
+ * @param from Bits per input group
+ * @param to Bits per output group
+ * @param pad Whether to pad the final group
+ * @returns Regrouped values
+ * @throws Error if padding is invalid
+ */
+export function convertBits(data: ArrayLike<number>, from: number, to: number, pad: boolean): number[] {
+  let accumulator = 0;
+  let bits = 0;
+  const result: number[] = [];
+  const mask = (1 << to) - 1;
+
+  for (let i = 0; i < data.length; i++) {
+    accumulator = (accumulator << from) | data[i];
+    bits += from;
+    while (bits >= to) {
+      bits -= to;
+      result.push((accumulator >> bits) & mask);
+    }
+  }
+
+  if (pad) {
+    if (bits > 0) {
+      result.push((accumulator << (to - bits)) & mask);
+    }
+  } else if (bits >= from || ((accumulator << (to - bits)) & mask)) {
+    throw new Error('Invalid padding in bech32 data');
+  }
+
+  return result;
+}
+
+/**
+ * Encodes 5-bit words as a bech32 or bech32m string
+ * @param hrp Human-readable part
+ * @param words 5-bit data words
+ * @param variant Checksum variant
+ * @returns Encoded string
+ */
+export function bech32Encode(hrp: string, words: number[], variant: 'bech32' | 'bech32m'): string {
+  const values = [...bech32HrpExpand(hrp), ...words];
+  const polymod = bech32Polymod([...values, 0, 0, 0, 0, 0, 0]) ^ (variant === 'bech32' ? BECH32_CONST : BECH32M_CONST);
+  const checksum = Array.from({ length: 6 }, (_, i) => (polymod >>> (5 * (5 - i))) & 31);
+  return `${hrp}1${[...words, ...checksum].map(word => BECH32_ALPHABET[word]).join('')}`;
+}
+
+/**
+ * Decodes a bech32 or bech32m string
+ * @param text Encoded string
+ * @returns Human-readable part, 5-bit data words and the checksum variant
+ * @throws Error if the string is malformed or the checksum does not match
+ */
+export function bech32Decode(text: string): { hrp: string; words: number[]; variant: 'bech32' | 'bech32m' } {
+  if (text !== text.toLowerCase() && text !== text.toUpperCase()) {
+    throw new Error('Bech32 string mixes upper and lower case');
+  }
+
+  const lower = text.toLowerCase();
+  const separator = lower.lastIndexOf('1');
+  if (separator < 1 || separator + 7 > lower.length || lower.length > 90) {
+    throw new Error('Bech32 string has an invalid length or separator position');
+  }
+
+  const hrp = lower.slice(0, separator);
+  const words = Array.from(lower.slice(separator + 1), char => {
+    const word = BECH32_ALPHABET.indexOf(char);
+    if (word === -1) {
+      throw new Error(`Invalid bech32 character '${char}'`);
+    }
+    return word;
+  });
+
+  const polymod = bech32Polymod([...bech32HrpExpand(hrp), ...words]);
+  const variant = polymod === BECH32_CONST ? 'bech32' : polymod === BECH32M_CONST ? 'bech32m' : undefined;
+  if (!variant) {
+    throw new Error('Bech32 checksum does not match');
+  }
+
+  return { hrp, words: words.slice(0, -6), variant };
+}
@@ -0,0 +1,141 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+const CHECKABLE_EXTENSIONS = ['.json', '.json5'];
+const SKIPPED_DIRECTORIES = ['node_modules'];
+
+/**
+ * Expands files, directories and glob patterns into a sorted, de-duplicated list of file paths.
+ * Directories are searched recursively for .json and .json5 files; node_modules and hidden
+ * directories are skipped. Paths that do not exist are returned as-is so the caller can report them.
+ * @param patterns Paths, directories or glob patterns (supports *, **, ?, [...] and {a,b})
+ * @returns Matching file paths
+ */
+export async function expandPaths(patterns: string[]): Promise<string[]> {
+  const files: string[] = [];
+
+  for (const pattern of patterns) {
+    if (isGlob(pattern)) {
+      files.push(...(await expandGlob(pattern)));
+      continue;
+    }
+
+    const stats = await fs.stat(pattern).catch(() => undefined);
+    if (stats?.isDirectory()) {
+      const found = await walkDirectory(pattern);
+      files.push(...found.filter(file => CHECKABLE_EXTENSIONS.includes(path.extname(file).toLowerCase())).sort());
+    } else {
+      files.push(pattern);
+    }
+  }
+
+  return Array.from(new Set(files));
+}
+
+/**
+ * Converts a glob pattern to a regular expression matching forward-slash separated paths
+ * @param pattern Glob pattern
+ * @returns Anchored regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let inGroup = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // "**/" matches zero or more directories, a trailing "**" matches everything below
+        if (pattern[i + 2] === '/') {
+          source += '(?:[^/]+/)*';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += `[${pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else if (char === '{') {
+      source += '(?:';
+      inGroup = true;
+    } else if (char === '}' && inGroup) {
+      source += ')';
+      inGroup = false;
+    } else if (char === ',' && inGroup) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Checks whether a path contains glob syntax
+ * @param pattern Path or pattern
+ * @returns True if the path is a glob pattern
+ */
+function isGlob(pattern: string): boolean {
+  return /[*?[{]/.test(pattern);
+}
+
+/**
+ * Finds the files matching a glob pattern
+ * @param pattern Glob pattern, relative to the current working directory or absolute
+ * @returns Sorted matching file paths
+ */
+async function expandGlob(pattern: string): Promise<string[]> {
+  const normalized = normalizePath(pattern);
+  const segments = normalized.split('/');
+  const firstGlob = segments.findIndex(isGlob);
+  const base = segments.slice(0, firstGlob).join('/') || (normalized.startsWith('/') ? '/' : '.');
+  const matcher = globToRegExp(normalized);
+
+  const files = await walkDirectory(base);
+  return files.filter(file => matcher.test(normalizePath(file))).sort();
+}
+
+/**
+ * Recursively lists the files below a directory
+ * @param directory Directory to walk
+ * @returns File paths, prefixed with the directory
+ */
+async function walkDirectory(directory: string): Promise<string[]> {
+  const entries = await fs.readdir(directory, { withFileTypes: true }).catch(() => []);
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      if (!entry.name.startsWith('.') && !SKIPPED_DIRECTORIES.includes(entry.name)) {
+        files.push(...(await walkDirectory(entryPath)));
+      }
+    } else if (entry.isFile()) {
+      files.push(entryPath);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Normalizes a path to forward slashes without a leading "./"
+ * @param filePath Path to normalize
+ * @returns Normalized path
+ */
+function normalizePath(filePath: string): string {
+  return filePath.replace(/\\/g, '/').replace(/^(\.\/)+/, '');
+}
@@ -1,6 +1,7 @@
 import fs from 'fs/promises';
 import path from 'path';
-import { ApiErrorResponse } from '../types';
+import JSON5 from 'json5';
+import { ApiErrorResponse, CheckedFileType, TurnkeyConfig, TurnkeyPolicy, TurnkeyTransactionRequest } from '../types';
 
 // Simple color functions to replace chalk
 const colors = {
@@ -79,6 +80,51 @@ export function resolvePath(filePath: string): string {
   return path.isAbsolute(filePath) ? filePath : path.resolve(process.cwd(), filePath);
 }
 
+/**
+ * Reads and parses a JSON or JSON5 file
+ * @param filePath Path to the file, relative to the current working directory
+ * @returns Parsed file content
+ * @throws Error if the file does not exist or is not valid JSON
+ */
+export async function readJsonFile<T = unknown>(filePath: string): Promise<T> {
+  const resolvedPath = resolvePath(filePath);
+
+  if (!(await fileExists(resolvedPath))) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  const fileContent = await fs.readFile(resolvedPath, 'utf-8');
+
+  try {
+    return JSON5.parse(fileContent);
+  } catch (error) {
+    throw new Error(`Invalid JSON format in file: ${filePath}`);
+  }
+}
+
+/**
+ * Determines which kind of Turnkey file a parsed JSON document is
+ * @param data Parsed file content
+ * @returns The detected file type
+ */
+export function detectFileType(data: TurnkeyConfig | TurnkeyPolicy | TurnkeyTransactionRequest): CheckedFileType {
+  // Transaction signing request
+  if ('type' in data && data.type === 'ACTIVITY_TYPE_SIGN_TRANSACTION_V2') {
+    return 'transaction';
+  }
+
+  // Policy file (traditional format or simplified format)
+  if (
+    'required_approvals' in data ||
+    'signing_keys' in data ||
+    ('policyName' in data && 'effect' in data && 'condition' in data)
+  ) {
+    return 'policy';
+  }
+
+  return 'config';
+}
+
 /**
  * Parses an API error response
  * @param error Error object
@@ -91,7 +137,9 @@ export function parseApiError(error: any): ApiErrorResponse {
     return {
       status: error.response.status,
       message: error.response.data?.message || 'API Error',
-      details: error.response.data?.details || JSON.stringify(error.response.data),
+      details: typeof error.response.data?.details === 'string'
+        ? error.response.data.details
+        : JSON.stringify(error.response.data?.details ?? error.response.data),
     };
   } else if (error.request) {
     // The request was made but no response was received
@@ -108,4 +156,106 @@ export function parseApiError(error: any): ApiErrorResponse {
       details: error.stack,
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Computes the Levenshtein edit distance between two strings
+ * @param a First string
+ * @param b Second string
+ * @returns Number of single-character edits needed to turn a into b
+ */
+export function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = a[i - 1] === b[j - 1]
+        ? diagonal
+        : 1 + Math.min(diagonal, above, previous[j - 1]);
+      diagonal = above;
+    }
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Finds the closest candidate to a misspelled name
+ * @param name The name that was not recognised
+ * @param candidates Known names
+ * @returns The closest candidate, or undefined if none is close enough
+ */
+export function suggestClosest(name: string, candidates: string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Infinity;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return bestDistance <= Math.max(2, Math.floor(name.length / 3)) ? best : undefined;
+}
+
+/**
+ * Maps items through an async function with a bounded number of calls in flight
+ * @param items Items to map
+ * @param limit Maximum number of concurrent calls
+ * @param fn Async mapping function
+ * @returns Results in the order of the input items
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  });
+
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * Options for retrying a failed async call
+ */
+export interface RetryOptions {
+  /** Number of retries after the first attempt */
+  retries: number;
+  /** Delay before the first retry; each further retry waits twice as long */
+  baseDelayMs: number;
+  /** Decides whether a failed attempt is retried */
+  shouldRetry: (error: unknown) => boolean;
+  /** Delay requested by the server for a failed attempt, e.g. from a Retry-After header */
+  retryAfterMs?: (error: unknown) => number | undefined;
+}
+
+/**
+ * Calls an async function, retrying with exponential backoff when it fails with a retryable error
+ * @param fn Async function to call
+ * @param options Retry options
+ * @returns Result of the first successful call
+ * @throws The last error once the retries are used up, or the first error that is not retryable
+ */
+export async function retryWithBackoff<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= options.retries || !options.shouldRetry(error)) {
+        throw error;
+      }
+      const delay = options.retryAfterMs?.(error) ?? options.baseDelayMs * 2 ** attempt;
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
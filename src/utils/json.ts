@@ -0,0 +1,485 @@
+import JSON5 from 'json5';
+import { JsonEdit, SourcePosition, SourceRange } from '../types';
+
+/**
+ * Source location of a value in a JSON document
+ */
+export interface JsonLocation {
+  /** Range of the property key, absent for array elements and the root */
+  key?: SourceRange;
+  value: SourceRange;
+}
+
+/**
+ * A comment in JSON5 source text
+ */
+export interface JsonComment {
+  /** Comment text without the comment markers, trimmed */
+  text: string;
+  range: SourceRange;
+  /** True when nothing but whitespace precedes the comment on its line */
+  ownLine: boolean;
+}
+
+/**
+ * Escapes a single JSON pointer reference token (RFC 6901)
+ * @param segment Object key or array index
+ * @returns Escaped token
+ */
+export function escapePointerSegment(segment: string | number): string {
+  return String(segment).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Appends a reference token to a JSON pointer
+ * @param pointer Parent pointer
+ * @param segment Object key or array index
+ * @returns Child pointer
+ */
+export function appendPointer(pointer: string, segment: string | number): string {
+  return `${pointer}/${escapePointerSegment(segment)}`;
+}
+
+/**
+ * Splits a JSON pointer into its unescaped reference tokens
+ * @param pointer RFC 6901 JSON pointer
+ * @returns Reference tokens; empty for the root pointer
+ */
+export function parsePointer(pointer: string): string[] {
+  if (pointer === '') {
+    return [];
+  }
+  return pointer.slice(1).split('/').map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * Scans JSON (or JSON5) source text and records the location of every value by JSON pointer.
+ * Scanning stops at the first syntax error; locations found up to that point are kept.
+ * @param text JSON source text
+ * @returns Map from JSON pointer to key and value ranges
+ */
+export function mapJsonLocations(text: string): Map<string, JsonLocation> {
+  const scanner = new JsonLocationScanner(text);
+
+  try {
+    scanner.scanDocument();
+  } catch {
+    // Keep whatever was located before the error
+  }
+
+  return scanner.locations;
+}
+
+/**
+ * Collects the line and block comments of JSON5 source text, ignoring comment markers inside strings
+ * @param text JSON5 source text
+ * @returns Comments in source order
+ */
+export function collectJsonComments(text: string): JsonComment[] {
+  const scanner = new JsonLocationScanner(text);
+
+  try {
+    scanner.scanDocument();
+  } catch {
+    // Keep whatever was collected before the error
+  }
+
+  return scanner.comments;
+}
+
+/**
+ * Finds the source range of the value a JSON pointer refers to. When the pointer names a value
+ * that does not exist (e.g. a missing required field), the closest existing ancestor is used.
+ * @param text JSON source text
+ * @param pointer RFC 6901 JSON pointer
+ * @returns Range of the key (or value, for array elements) the pointer refers to
+ */
+export function locateJsonPointer(text: string, pointer: string): SourceRange | undefined {
+  const locations = mapJsonLocations(text);
+  let current = pointer;
+
+  for (;;) {
+    const location = locations.get(current);
+    if (location) {
+      return location.key ? { start: location.key.start, end: location.value.end } : location.value;
+    }
+    if (current === '') {
+      return undefined;
+    }
+    current = current.slice(0, current.lastIndexOf('/'));
+  }
+}
+
+/**
+ * Extracts the JSON object from an LLM answer. Models sometimes wrap the JSON in a code fence
+ * or add a sentence around it, so everything outside the outermost braces is ignored.
+ * @param answer Answer text
+ * @returns The parsed object
+ * @throws Error if the answer does not contain a JSON object
+ */
+export function extractJsonObject(answer: string): Record<string, unknown> {
+  const start = answer.indexOf('{');
+  const end = answer.lastIndexOf('}');
+
+  let data: unknown;
+  try {
+    data = start === -1 || end < start ? undefined : JSON5.parse(answer.slice(start, end + 1));
+  } catch (error) {
+    throw new Error(`The answer is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('The answer does not contain a JSON object');
+  }
+  return data as Record<string, unknown>;
+}
+
+/**
+ * Applies an edit to JSON (or JSON5) source text, changing only the edited value so that the
+ * formatting and comments of the rest of the document are preserved
+ * @param text JSON source text
+ * @param edit The edit, with its value already resolved
+ * @returns The edited source text
+ * @throws Error if the edit cannot be applied to the document
+ */
+export function applyJsonEdit(text: string, edit: JsonEdit): string {
+  const locations = mapJsonLocations(text);
+  const target = locations.get(edit.pointer);
+  const label = edit.pointer || '/';
+
+  if (edit.op === 'remove') {
+    return target ? removeMember(text, target) : text;
+  }
+
+  if (edit.op === 'replace') {
+    if (!target) {
+      throw new Error(`No value at ${label} to replace`);
+    }
+    const raw = text.slice(target.value.start.offset, target.value.end.offset);
+    const current = JSON5.parse(raw);
+    if (typeof current !== 'string' || edit.search === undefined || !current.includes(edit.search)) {
+      throw new Error(`'${edit.search}' not found in the value at ${label}`);
+    }
+    const updated = current.split(edit.search).join(String(edit.value));
+    return splice(text, target.value.start.offset, target.value.end.offset, serializeValue(updated, raw[0]));
+  }
+
+  if (target) {
+    const quote = text[target.value.start.offset];
+    return splice(text, target.value.start.offset, target.value.end.offset, serializeValue(edit.value, quote));
+  }
+
+  return insertMember(text, locations, edit.pointer, edit.value);
+}
+
+/**
+ * Replaces a range of text
+ * @param text Source text
+ * @param start Start offset
+ * @param end End offset, exclusive
+ * @param replacement Text to insert
+ * @returns The changed text
+ */
+function splice(text: string, start: number, end: number, replacement: string): string {
+  return text.slice(0, start) + replacement + text.slice(end);
+}
+
+/**
+ * Serializes a value for insertion, keeping single quotes when replacing a single-quoted JSON5 string
+ * @param value Value to serialize
+ * @param quote First character of the value being replaced, if any
+ * @returns JSON (or JSON5) text
+ */
+function serializeValue(value: unknown, quote?: string): string {
+  if (typeof value === 'string' && quote === '\'') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}'`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Returns the whitespace that indents the line containing an offset
+ * @param text Source text
+ * @param offset Offset on the line
+ * @returns Leading whitespace of the line
+ */
+function lineIndent(text: string, offset: number): string {
+  const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+  return /^[ \t]*/.exec(text.slice(lineStart))![0];
+}
+
+/**
+ * Adds a new key to an existing object, matching the indentation and key quoting of its last member
+ * @param text Source text
+ * @param locations Locations of the values in the text
+ * @param pointer Pointer of the new key
+ * @param value Value of the new key
+ * @returns The changed text
+ * @throws Error if the parent of the pointer is not an object in the document
+ */
+function insertMember(text: string, locations: Map<string, JsonLocation>, pointer: string, value: unknown): string {
+  const segments = parsePointer(pointer);
+  const key = segments[segments.length - 1];
+  const parentPointer = pointer.slice(0, pointer.lastIndexOf('/'));
+  const parent = locations.get(parentPointer);
+
+  if (segments.length === 0 || !parent || text[parent.value.start.offset] !== '{') {
+    throw new Error(`Cannot add ${pointer || '/'}: ${parentPointer || '/'} is not an object in the file`);
+  }
+
+  const children = Array.from(locations.entries())
+    .filter(([childPointer]) => childPointer.startsWith(`${parentPointer}/`) && !childPointer.slice(parentPointer.length + 1).includes('/'))
+    .map(([, location]) => location);
+  const last = children.sort((a, b) => b.value.end.offset - a.value.end.offset)[0];
+  const serialized = serializeValue(value);
+
+  if (!last || !last.key) {
+    const indent = lineIndent(text, parent.value.start.offset);
+    return splice(text, parent.value.start.offset, parent.value.end.offset, `{\n${indent}  ${JSON.stringify(key)}: ${serialized}\n${indent}}`);
+  }
+
+  const lastKey = text.slice(last.key.start.offset, last.key.end.offset);
+  const keyText = /^["']/.test(lastKey)
+    ? serializeValue(key, lastKey[0])
+    : /^[$_A-Za-z][$_A-Za-z0-9]*$/.test(key) ? key : JSON.stringify(key);
+  const end = last.value.end.offset;
+  const hasComma = /^[ \t]*,/.test(text.slice(end));
+  const prefix = text.slice(text.lastIndexOf('\n', last.key.start.offset - 1) + 1, last.key.start.offset);
+
+  // Inline objects such as { "a": 1 } get the new member on the same line
+  if (prefix.trim() !== '') {
+    return splice(text, end, end, `, ${keyText}: ${serialized}`);
+  }
+
+  // Otherwise add a line after the last member, keeping any trailing comma style and comment in place
+  const lineEnd = text.indexOf('\n', end) === -1 ? text.length : text.indexOf('\n', end);
+  const member = `\n${prefix}${keyText}: ${serialized}${hasComma ? ',' : ''}`;
+  return text.slice(0, end) + (hasComma ? '' : ',') + text.slice(end, lineEnd) + member + text.slice(lineEnd);
+}
+
+/**
+ * Removes an object member or array element together with its separating comma, and its line when it becomes empty
+ * @param text Source text
+ * @param target Location of the member to remove
+ * @returns The changed text
+ */
+function removeMember(text: string, target: JsonLocation): string {
+  let start = (target.key ?? target.value).start.offset;
+  let end = target.value.end.offset;
+
+  const following = /^[ \t]*,/.exec(text.slice(end));
+  if (following) {
+    end += following[0].length;
+  } else {
+    const preceding = /,\s*$/.exec(text.slice(0, start));
+    if (preceding) {
+      start = preceding.index;
+    }
+  }
+
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const lineEnd = text.indexOf('\n', end) === -1 ? text.length : text.indexOf('\n', end);
+  if (text.slice(lineStart, start).trim() === '' && text.slice(end, lineEnd).trim() === '') {
+    start = lineStart;
+    end = Math.min(lineEnd + 1, text.length);
+  }
+
+  return splice(text, start, end, '');
+}
+
+/**
+ * Recursive-descent scanner for JSON5 that records value positions instead of building values
+ */
+class JsonLocationScanner {
+  readonly locations = new Map<string, JsonLocation>();
+  readonly comments: JsonComment[] = [];
+  private index = 0;
+  private line = 1;
+  private column = 1;
+
+  constructor(private readonly text: string) {}
+
+  scanDocument(): void {
+    this.skipWhitespace();
+    this.scanValue('', undefined);
+    this.skipWhitespace();
+  }
+
+  private position(): SourcePosition {
+    return { line: this.line, column: this.column, offset: this.index };
+  }
+
+  private advance(count = 1): void {
+    for (let i = 0; i < count && this.index < this.text.length; i++) {
+      if (this.text[this.index] === '\n') {
+        this.line++;
+        this.column = 1;
+      } else {
+        this.column++;
+      }
+      this.index++;
+    }
+  }
+
+  private fail(message: string): never {
+    throw new Error(`${message} at line ${this.line}, column ${this.column}`);
+  }
+
+  private skipWhitespace(): void {
+    while (this.index < this.text.length) {
+      const char = this.text[this.index];
+      if (/\s/.test(char) || char === '\uFEFF') {
+        this.advance();
+      } else if (this.text.startsWith('//', this.index)) {
+        const start = this.position();
+        while (this.index < this.text.length && this.text[this.index] !== '\n') {
+          this.advance();
+        }
+        this.addComment(start, this.text.slice(start.offset + 2, this.index));
+      } else if (this.text.startsWith('/*', this.index)) {
+        const start = this.position();
+        const end = this.text.indexOf('*/', this.index + 2);
+        if (end === -1) {
+          this.fail('Unterminated comment');
+        }
+        this.advance(end + 2 - this.index);
+        this.addComment(start, this.text.slice(start.offset + 2, end));
+      } else {
+        return;
+      }
+    }
+  }
+
+  private addComment(start: SourcePosition, text: string): void {
+    const lineStart = this.text.lastIndexOf('\n', start.offset - 1) + 1;
+    this.comments.push({
+      text: text.trim(),
+      range: { start, end: this.position() },
+      ownLine: this.text.slice(lineStart, start.offset).trim() === '',
+    });
+  }
+
+  private scanValue(pointer: string, key: SourceRange | undefined): void {
+    const start = this.position();
+    const char = this.text[this.index];
+
+    if (char === '{') {
+      this.scanObject(pointer);
+    } else if (char === '[') {
+      this.scanArray(pointer);
+    } else if (char === '"' || char === '\'') {
+      this.scanString();
+    } else if (char !== undefined && /[-+.0-9A-Za-z]/.test(char)) {
+      // Numbers, true/false/null, Infinity and NaN
+      while (this.index < this.text.length && /[-+.0-9A-Za-z]/.test(this.text[this.index])) {
+        this.advance();
+      }
+    } else {
+      this.fail(char === undefined ? 'Unexpected end of input' : `Unexpected character '${char}'`);
+    }
+
+    this.locations.set(pointer, { key, value: { start, end: this.position() } });
+  }
+
+  private scanObject(pointer: string): void {
+    this.advance();
+    this.skipWhitespace();
+
+    while (this.text[this.index] !== '}') {
+      const keyStart = this.position();
+      const name = this.scanKey();
+      const keyRange = { start: keyStart, end: this.position() };
+
+      this.skipWhitespace();
+      if (this.text[this.index] !== ':') {
+        this.fail('Expected \':\'');
+      }
+      this.advance();
+      this.skipWhitespace();
+      this.scanValue(appendPointer(pointer, name), keyRange);
+
+      if (!this.skipSeparator('}')) {
+        break;
+      }
+    }
+
+    if (this.text[this.index] !== '}') {
+      this.fail('Expected \'}\'');
+    }
+    this.advance();
+  }
+
+  private scanArray(pointer: string): void {
+    this.advance();
+    this.skipWhitespace();
+
+    for (let i = 0; this.text[this.index] !== ']'; i++) {
+      this.scanValue(appendPointer(pointer, i), undefined);
+
+      if (!this.skipSeparator(']')) {
+        break;
+      }
+    }
+
+    if (this.text[this.index] !== ']') {
+      this.fail('Expected \']\'');
+    }
+    this.advance();
+  }
+
+  /**
+   * Skips a comma between members (allowing a trailing comma)
+   * @returns True if another member follows
+   */
+  private skipSeparator(close: string): boolean {
+    this.skipWhitespace();
+    if (this.text[this.index] !== ',') {
+      return false;
+    }
+    this.advance();
+    this.skipWhitespace();
+    return this.text[this.index] !== close;
+  }
+
+  private scanKey(): string {
+    const char = this.text[this.index];
+    if (char === '"' || char === '\'') {
+      return this.scanString();
+    }
+
+    const match = /^[$_A-Za-z][$_A-Za-z0-9]*/.exec(this.text.slice(this.index));
+    if (!match) {
+      this.fail('Expected property name');
+    }
+    this.advance(match[0].length);
+    return match[0];
+  }
+
+  private scanString(): string {
+    const quote = this.text[this.index];
+    const start = this.index;
+    this.advance();
+
+    while (this.index < this.text.length && this.text[this.index] !== quote) {
+      if (this.text[this.index] === '\\') {
+        this.advance();
+      }
+      this.advance();
+    }
+
+    if (this.index >= this.text.length) {
+      this.fail('Unterminated string');
+    }
+    this.advance();
+
+    const raw = this.text.slice(start + 1, this.index - 1);
+    if (quote === '"') {
+      try {
+        return JSON.parse(`"${raw}"`);
+      } catch {
+        return raw;
+      }
+    }
+    return raw.replace(/\\(.)/g, '$1');
+  }
+}
@@ -0,0 +1,123 @@
+import { diagnoseAuth, toAuthCapture } from '../src/services/auth';
+import { buildSignedRequest } from '../src/services/api';
+import { analyzeConfig } from '../src/services/config';
+import { derivePublicKey } from '../src/services/stamp';
+import { AuthCapture, AuthDiagnosis, TurnkeyConfig, TurnkeyTransactionRequest } from '../src/types';
+
+const PRIVATE_KEY = '5a1b7e6a1f2c4d3b8e9f0a1b2c3d4e5f60718293a4b5c6d7e8f90a1b2c3d4e5f';
+const OTHER_PRIVATE_KEY = '1'.repeat(64);
+const ORG_ID = 'a90d78dc-3245-49e7-add8-400b6edccbe9';
+const SENT_AT = 1750045965000;
+
+const config: TurnkeyConfig = {
+  org_id: ORG_ID,
+  base_url: 'https://api.turnkey.com',
+  api_public_key: derivePublicKey(PRIVATE_KEY),
+  api_private_key: PRIVATE_KEY
+};
+
+const request: TurnkeyTransactionRequest = {
+  timestampMs: String(SENT_AT),
+  type: 'ACTIVITY_TYPE_SIGN_TRANSACTION_V2',
+  organizationId: ORG_ID,
+  parameters: {
+    type: 'TRANSACTION_TYPE_ETHEREUM',
+    signWith: '0x4c7839aC8dFBe7674CF5997DC05156615AcbB850',
+    unsignedTransaction: '02ed83aa36a780843b9aca00843b9aca0b825208943392eb09edaf41e97f917464167d10f7ad4e56fd830f424080c0'
+  }
+};
+
+/**
+ * Captures a request signed with the given configuration and a 401 response
+ */
+function capture(signedWith: TurnkeyConfig = config, body?: (signed: string) => string): AuthCapture {
+  const signed = buildSignedRequest(request, signedWith);
+  return {
+    request: { url: signed.url, headers: signed.headers, body: body ? body(signed.body) : signed.body },
+    response: { status: 401, headers: { Date: new Date(SENT_AT + 2000).toUTCString() }, body: { code: 16, message: 'could not verify signature', details: [] } }
+  };
+}
+
+/**
+ * Lists the status of every check by name
+ */
+function statuses(diagnosis: AuthDiagnosis): Record<string, string> {
+  return Object.fromEntries(diagnosis.checks.map(check => [check.name, check.status]));
+}
+
+describe('Auth Diagnosis', () => {
+  test('should pass every check for a correctly stamped request', () => {
+    const diagnosis = diagnoseAuth(config, capture());
+
+    expect(statuses(diagnosis)).toEqual({ 'key-pair': 'pass', stamp: 'pass', signature: 'pass', organization: 'pass', timestamp: 'pass' });
+    expect(diagnosis.response).toEqual({ status: 401, message: 'could not verify signature', points: 'signature' });
+  });
+
+  test('should detect a key pair that does not belong together', () => {
+    const diagnosis = diagnoseAuth({ ...config, api_private_key: OTHER_PRIVATE_KEY }, capture());
+
+    expect(statuses(diagnosis)['key-pair']).toBe('fail');
+    expect(diagnosis.checks[0].message).toContain(`belongs to public key ${derivePublicKey(OTHER_PRIVATE_KEY)}`);
+  });
+
+  test('should detect a request stamped with another API key', () => {
+    const other = { ...config, api_public_key: derivePublicKey(OTHER_PRIVATE_KEY), api_private_key: OTHER_PRIVATE_KEY };
+
+    expect(statuses(diagnoseAuth(config, capture(other)))).toMatchObject({ stamp: 'fail', signature: 'pass' });
+  });
+
+  test('should recognize a body that was re-serialized after signing', () => {
+    const diagnosis = diagnoseAuth(config, capture(config, body => JSON.stringify(JSON.parse(body), null, 2)));
+    const signature = diagnosis.checks.find(check => check.name === 'signature');
+
+    expect(signature?.status).toBe('fail');
+    expect(signature?.message).toBe('The signature was made over the body formatted as compact JSON, but a differently formatted body was sent');
+  });
+
+  test('should detect a body that was changed after signing', () => {
+    const diagnosis = diagnoseAuth(config, capture(config, body => body.replace(ORG_ID, 'b90d78dc-3245-49e7-add8-400b6edccbe9')));
+
+    expect(statuses(diagnosis)).toMatchObject({ signature: 'fail', organization: 'fail' });
+  });
+
+  test('should detect stale timestamps relative to the response', () => {
+    const stale = capture();
+    stale.response!.headers = { date: new Date(SENT_AT + 3 * 60 * 60 * 1000).toUTCString() };
+
+    const timestamp = diagnoseAuth(config, stale).checks.find(check => check.name === 'timestamp');
+
+    expect(timestamp?.status).toBe('fail');
+    expect(timestamp?.message).toBe('timestampMs is 3h 0m older than the response');
+  });
+
+  test('should not compare the timestamp with the current time when the response has no date', () => {
+    const old = capture();
+    old.response!.headers = {};
+
+    const timestamp = diagnoseAuth(config, old).checks.find(check => check.name === 'timestamp');
+
+    expect(timestamp?.status).toBe('skipped');
+    expect(timestamp?.message).toBe(`The response has no Date header to compare timestampMs (${new Date(SENT_AT).toISOString()}) with`);
+  });
+
+  test('should diagnose an error body on its own', () => {
+    const diagnosis = diagnoseAuth(config, toAuthCapture({ code: 16, message: 'public key could not be found in organization', details: [] }));
+
+    expect(statuses(diagnosis)).toEqual({ 'key-pair': 'pass', stamp: 'skipped', signature: 'skipped', organization: 'skipped', timestamp: 'skipped' });
+    expect(diagnosis.response?.points).toBe('registration');
+  });
+});
+
+describe('Config API Keys', () => {
+  test('should accept a matching compressed P-256 key pair', async () => {
+    const result = await analyzeConfig({ ...config, wallet_id: 'test-wallet' });
+
+    expect(result.findings).toEqual([]);
+  });
+
+  test('should report a key pair that does not belong together', async () => {
+    const result = await analyzeConfig({ ...config, wallet_id: 'test-wallet', api_private_key: OTHER_PRIVATE_KEY });
+
+    expect(result.findings.map(finding => finding.ruleId)).toEqual(['config/api-key-mismatch']);
+  });
+});
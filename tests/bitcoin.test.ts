@@ -0,0 +1,77 @@
+import fs from 'fs';
+import path from 'path';
+import { decodeBitcoinTransaction, validateBitcoinAddress } from '../src/services/bitcoin';
+import { analyzeTransaction } from '../src/services/transaction';
+import { TurnkeyTransactionRequest } from '../src/types';
+
+const request: TurnkeyTransactionRequest = JSON.parse(
+  fs.readFileSync(path.join(__dirname, '../samples/transaction_bitcoin.json'), 'utf-8')
+);
+const psbt = request.parameters!.unsignedTransaction!;
+const rawTransaction = '0200000001abababababababababababababababababababababababababababababababab0000000000ffffffff0250c30000000000001600142222222222222222222222222222222222222222401f000000000000160014111111111111111111111111111111111111111100000000';
+
+function withParameters(parameters: Record<string, string>): TurnkeyTransactionRequest {
+  return { ...request, parameters: { ...request.parameters, ...parameters } };
+}
+
+describe('Bitcoin Address Validation', () => {
+  test('should accept bech32, bech32m and base58 addresses', () => {
+    expect(validateBitcoinAddress('BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4')).toEqual({ valid: true, network: 'mainnet', type: 'p2wpkh' });
+    expect(validateBitcoinAddress('bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0')).toEqual({ valid: true, network: 'mainnet', type: 'p2tr' });
+    expect(validateBitcoinAddress('1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2')).toEqual({ valid: true, network: 'mainnet', type: 'p2pkh' });
+    expect(validateBitcoinAddress('3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy')).toEqual({ valid: true, network: 'mainnet', type: 'p2sh' });
+  });
+
+  test('should reject bad checksums and mismatched checksum variants', () => {
+    expect(validateBitcoinAddress('1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN3').error).toBe('Base58 checksum does not match');
+    // Segwit v1 program with a bech32 (not bech32m) checksum, from BIP-350
+    expect(validateBitcoinAddress('bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqh2y7hd').error).toBe('Segwit v1 addresses must use the bech32m checksum');
+  });
+});
+
+describe('Bitcoin Transaction Decoding', () => {
+  test('should decode a base64 PSBT with witness UTXO and compute the fee', () => {
+    const tx = decodeBitcoinTransaction(psbt);
+
+    expect(tx.format).toBe('psbt');
+    expect(tx.inputs[0]).toMatchObject({ vout: 0, value: BigInt(60000), address: 'bc1qzyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3h8ffkz' });
+    expect(tx.outputs.map(output => output.value)).toEqual([BigInt(50000), BigInt(8000)]);
+    expect(tx.fee).toBe(BigInt(2000));
+  });
+
+  test('should decode the same PSBT from hex', () => {
+    const hex = Buffer.from(psbt, 'base64').toString('hex');
+
+    expect(decodeBitcoinTransaction(hex).fee).toBe(BigInt(2000));
+  });
+
+  test('should decode a raw transaction without input amounts', () => {
+    const tx = decodeBitcoinTransaction(rawTransaction);
+
+    expect(tx.format).toBe('raw');
+    expect(tx.outputs[0].address).toBe('bc1qyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zc6v074');
+    expect(tx.fee).toBeUndefined();
+  });
+});
+
+describe('Bitcoin Transaction Analysis', () => {
+  test('should pass the sample PSBT', async () => {
+    const result = await analyzeTransaction(request);
+
+    expect(result.findings.map(finding => finding.message)).toEqual([]);
+    expect(result.details?.Fee).toBe('0.00002 BTC (2000 sats)');
+    expect(result.nextSteps).toContain('https://mempool.space/tx/');
+  });
+
+  test('should report missing UTXO information for raw transactions', async () => {
+    const result = await analyzeTransaction(withParameters({ unsignedTransaction: rawTransaction }));
+
+    expect(result.findings.map(finding => finding.message)).toEqual(['Raw Bitcoin transaction carries no UTXO information; input amounts and fee cannot be verified']);
+  });
+
+  test('should report a signWith address that owns no input', async () => {
+    const result = await analyzeTransaction(withParameters({ signWith: '1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2' }));
+
+    expect(result.findings.map(finding => finding.message)).toEqual(['signWith address does not control any input of the Bitcoin transaction']);
+  });
+});
@@ -13,8 +13,8 @@ describe('Config Analysis', () => {
 
     const result = await analyzeConfig(config);
     
-    expect(result.issues).toContain('Missing organization ID (org_id)');
-    expect(result.suggestions.length).toBeGreaterThan(0);
+    expect(result.findings.map(finding => finding.message)).toContain('Missing organization ID (org_id)');
+    expect(result.findings.every(finding => finding.suggestion)).toBe(true);
   });
 
   test('should detect insecure base URL', async () => {
@@ -28,8 +28,8 @@ describe('Config Analysis', () => {
 
     const result = await analyzeConfig(config);
     
-    expect(result.issues).toContain('Base URL should use HTTPS for security');
-    expect(result.suggestions.length).toBeGreaterThan(0);
+    expect(result.findings.map(finding => finding.message)).toContain('Base URL should use HTTPS for security');
+    expect(result.findings.every(finding => finding.suggestion)).toBe(true);
   });
 
   test('should pass with valid config', async () => {
@@ -43,8 +43,7 @@ describe('Config Analysis', () => {
 
     const result = await analyzeConfig(config);
     
-    expect(result.issues.length).toBe(0);
-    expect(result.suggestions.length).toBe(0);
+    expect(result.findings).toEqual([]);
   });
 });
 
@@ -70,8 +69,8 @@ describe('Policy Analysis', () => {
 
     const result = await analyzePolicy(policy);
     
-    expect(result.issues).toContain('required_approvals must be at least 1');
-    expect(result.suggestions.length).toBeGreaterThan(0);
+    expect(result.findings.map(finding => finding.message)).toContain('required_approvals must be at least 1');
+    expect(result.findings.every(finding => finding.suggestion)).toBe(true);
   });
 
   test('should detect missing key_id in signing keys', async () => {
@@ -95,8 +94,33 @@ describe('Policy Analysis', () => {
 
     const result = await analyzePolicy(policy);
     
-    expect(result.issues).toContain('Signing key at index 0 is missing key_id');
-    expect(result.suggestions.length).toBeGreaterThan(0);
+    expect(result.findings.map(finding => finding.message)).toContain('Signing key at index 0 is missing key_id');
+    expect(result.findings.every(finding => finding.suggestion)).toBe(true);
+  });
+
+  test('should report rule IDs, severities and JSON pointers', async () => {
+    const policy: TurnkeyPolicy = {
+      required_approvals: 1,
+      signing_keys: [
+        {
+          key_id: 'test-key',
+          name: 'Test Key',
+          public_key: 'test-public-key',
+          algorithm: 'ECDSA_SECP256K1'
+        }
+      ],
+      allowed_activities: [
+        { type: 'SIGN_TRANSACTION', resources: ['*'] },
+        { type: 'SIGN_TRANSACTION', resources: [], parameters: { condition: 'eth.tx.to ==' } }
+      ]
+    };
+
+    const result = await analyzePolicy(policy);
+
+    expect(result.findings.map(({ ruleId, severity, pointer }) => ({ ruleId, severity, pointer }))).toEqual([
+      { ruleId: 'policy/activity-missing-resources', severity: 'error', pointer: '/allowed_activities/1/resources' },
+      { ruleId: 'policy/condition-syntax', severity: 'error', pointer: '/allowed_activities/1/parameters/condition' }
+    ]);
   });
 
   test('should pass with valid policy', async () => {
@@ -124,7 +148,6 @@ describe('Policy Analysis', () => {
 
     const result = await analyzePolicy(policy);
     
-    expect(result.issues.length).toBe(0);
-    expect(result.suggestions.length).toBe(0);
+    expect(result.findings).toEqual([]);
   });
 });
\ No newline at end of file
@@ -0,0 +1,124 @@
+import { compareDecisions, comparePolicySets } from '../src/services/comparison';
+import { PolicySource, TurnkeyTransactionRequest } from '../src/types';
+
+const RECIPIENT = '0x3392eb09edaf41e97f917464167d10f7ad4e56fd';
+
+const request: TurnkeyTransactionRequest = {
+  timestampMs: '1750045965000',
+  type: 'ACTIVITY_TYPE_SIGN_TRANSACTION_V2',
+  organizationId: 'a90d78dc-3245-49e7-add8-400b6edccbe9',
+  parameters: {
+    type: 'TRANSACTION_TYPE_ETHEREUM',
+    signWith: '0x4c7839aC8dFBe7674CF5997DC05156615AcbB850',
+    unsignedTransaction: '02ed83aa36a780843b9aca00843b9aca0b825208943392eb09edaf41e97f917464167d10f7ad4e56fd830f424080c0'
+  }
+};
+
+const simplified = (policyName: string, effect: string, condition: string, consensus?: string): PolicySource => ({
+  source: 'policies.json',
+  policy: { policyName, effect, condition, ...(consensus ? { consensus } : {}) }
+});
+
+describe('Policy Comparison', () => {
+  test('should explain condition and consensus changes term by term', () => {
+    const changes = comparePolicySets(
+      [
+        simplified('Transfers', 'EFFECT_ALLOW', `eth.tx.to == '${RECIPIENT}' && eth.tx.value < 1000`, 'approvers.count() >= 2'),
+        simplified('Large', 'EFFECT_DENY', 'eth.tx.value > 5000'),
+        simplified('Raw payloads', 'EFFECT_ALLOW', "activity.type == 'SIGN_RAW_PAYLOAD'")
+      ],
+      [
+        simplified('Transfers', 'EFFECT_ALLOW', `eth.tx.value < 5000 && eth.tx.to == '${RECIPIENT.toUpperCase().replace('0X', '0x')}'`, 'approvers.count() >= 1'),
+        simplified('Large', 'EFFECT_DENY', 'eth.tx.value > 9000')
+      ]
+    );
+
+    expect(changes.map(({ policy, pointer, impact, message, details }) => [policy, pointer, impact, message, details])).toEqual([
+      ['Transfers', '/condition', 'wider', 'Condition now matches more requests', [`Changed eth.tx.value < 1000 to eth.tx.value < 5000`]],
+      ['Transfers', '/consensus', 'wider', 'Consensus is now easier to reach', ['Changed approvers.count() >= 2 to approvers.count() >= 1']],
+      ['Large', '/condition', 'wider', 'Condition now matches fewer requests', ['Changed eth.tx.value > 5000 to eth.tx.value > 9000']],
+      ['Raw payloads', '', 'narrower', 'ALLOW policy removed', []]
+    ]);
+  });
+
+  test('should ignore formatting and report effect changes', () => {
+    const before = [simplified('Block', 'EFFECT_DENY', "eth.tx.to=='0xabc'")];
+
+    expect(comparePolicySets(before, [simplified('Block', 'EFFECT_DENY', "eth.tx.to == \"0xABC\"")])).toEqual([]);
+    expect(comparePolicySets(before, [simplified('Block', 'EFFECT_ALLOW', "eth.tx.to == '0xabc'")])).toEqual([
+      { policy: 'Block', pointer: '/effect', impact: 'wider', message: 'Effect changed from EFFECT_DENY to EFFECT_ALLOW', details: [] }
+    ]);
+  });
+
+  test('should compare signing keys, quorum, activity types and resources of traditional policies', () => {
+    const before: PolicySource = {
+      source: 'old.json',
+      policy: {
+        required_approvals: 2,
+        signing_keys: [{ key_id: 'a' }, { key_id: 'b' }],
+        allowed_activities: [
+          { type: 'SIGN_TRANSACTION', resources: ['w1'], parameters: { condition: 'eth.tx.value < 10' } },
+          { type: 'EXPORT_WALLET', resources: ['w1'] }
+        ]
+      }
+    };
+    const after: PolicySource = {
+      source: 'new.json',
+      policy: {
+        required_approvals: 3,
+        signing_keys: [{ key_id: 'a' }, { key_id: 'c' }, { key_id: 'd' }],
+        allowed_activities: [
+          { type: 'ACTIVITY_TYPE_SIGN_TRANSACTION_V2', resources: ['*'], parameters: { condition: 'eth.tx.value < 10 && eth.tx.chain_id == 1' } },
+          { type: 'SIGN_RAW_PAYLOAD', resources: ['w1'] }
+        ]
+      }
+    };
+
+    expect(comparePolicySets([before], [after]).map(({ pointer, impact, message }) => [pointer, impact, message])).toEqual([
+      ['/required_approvals', 'narrower', 'required_approvals changed from 2 to 3'],
+      ['/signing_keys/1', 'wider', 'Signing key c added'],
+      ['/signing_keys/2', 'wider', 'Signing key d added'],
+      ['/signing_keys/1', 'narrower', 'Signing key b removed'],
+      ['/allowed_activities/0/resources', 'wider', 'SIGN_TRANSACTION now allowed for every resource'],
+      ['/allowed_activities/0/parameters/condition', 'narrower', 'Condition of SIGN_TRANSACTION now matches fewer requests'],
+      ['/allowed_activities/1', 'wider', 'Activity type SIGN_RAW_PAYLOAD now allowed'],
+      ['/allowed_activities/1', 'narrower', 'Activity type EXPORT_WALLET no longer allowed']
+    ]);
+  });
+
+  test('should list the terms a condition dropped when it is no longer a conjunction', () => {
+    const changes = comparePolicySets(
+      [simplified('Transfers', 'EFFECT_ALLOW', `eth.tx.value < 1000 && eth.tx.to == '${RECIPIENT}'`)],
+      [simplified('Transfers', 'EFFECT_ALLOW', 'eth.tx.value < 5000')]
+    );
+
+    expect(changes).toEqual([expect.objectContaining({
+      impact: 'wider',
+      details: ['Changed eth.tx.value < 1000 to eth.tx.value < 5000', `Removed eth.tx.to == '${RECIPIENT}'`]
+    })]);
+  });
+
+  test('should ignore signing keys and allowed activities that are not lists', () => {
+    const before: PolicySource = {
+      source: 'old.json',
+      policy: { required_approvals: 1, signing_keys: [{ key_id: 'a' }], allowed_activities: [{ type: 'SIGN_TRANSACTION', resources: ['w1'] }] }
+    };
+    const after: PolicySource = { source: 'new.json', policy: JSON.parse('{ "required_approvals": 1, "signing_keys": "a", "allowed_activities": { "type": "SIGN_TRANSACTION" } }') };
+
+    expect(comparePolicySets([before], [after]).map(({ pointer, impact }) => [pointer, impact])).toEqual([
+      ['/signing_keys/0', 'narrower'],
+      ['/allowed_activities/0', 'narrower']
+    ]);
+  });
+
+  test('should show which decisions flip between versions', () => {
+    const before = [simplified('Transfers', 'EFFECT_ALLOW', `eth.tx.to == '${RECIPIENT}' && eth.tx.value < 1000`)];
+    const after = [simplified('Transfers', 'EFFECT_ALLOW', `eth.tx.to == '${RECIPIENT}' && eth.tx.value <= 1000000`)];
+
+    const [comparison] = compareDecisions(before, after, [{ name: 'request.json', request }]);
+
+    expect(comparison.flipped).toBe(true);
+    expect(comparison.before).toMatchObject({ decision: 'DENY', reason: 'No policy allows this request (implicit deny)' });
+    expect(comparison.after).toMatchObject({ decision: 'ALLOW', reason: 'Allowed by policy "Transfers"' });
+  });
+});
@@ -0,0 +1,125 @@
+import { askCopilot } from '../src/commands/ask';
+import { buildContextMessage, ConversationContext, createConversation } from '../src/services/conversation';
+import { CompletionRequest, LlmProvider } from '../src/types';
+
+const context: ConversationContext = {
+  file: 'policy.json',
+  fileType: 'policy',
+  source: '{ "policyName": "Allow transfers", "effect": "EFFECT_ALLOW", "condition": "eth.tx.value < 100" }',
+  findings: [{
+    ruleId: 'policy/missing-consensus',
+    severity: 'warning',
+    message: 'Policy has no consensus',
+    suggestion: 'Add a consensus expression',
+    pointer: '/consensus'
+  }]
+};
+
+/**
+ * Creates a fake provider that records its requests and numbers its answers
+ */
+function fakeProvider(): LlmProvider & { requests: CompletionRequest[] } {
+  const requests: CompletionRequest[] = [];
+  return {
+    name: 'openai',
+    model: 'fake-model',
+    requests,
+    complete: async request => {
+      requests.push(request);
+      return `Answer ${requests.length}`;
+    }
+  };
+}
+
+describe('Conversation Context', () => {
+  test('should include the file, findings and simulation', () => {
+    const message = buildContextMessage({
+      ...context,
+      request: {
+        file: 'request.json',
+        source: '{ "type": "ACTIVITY_TYPE_SIGN_TRANSACTION_V2" }',
+        simulation: {
+          decision: 'DENY',
+          reason: 'No policy allowed the request',
+          evaluations: [{ policyName: 'Allow transfers', source: 'policy.json', effect: 'EFFECT_ALLOW', outcome: 'not_matched', decidedBy: 'eth.tx.value < 100' }]
+        }
+      }
+    });
+
+    expect(message).toContain('## Turnkey policy (policy.json)');
+    expect(message).toContain('"condition": "eth.tx.value < 100"');
+    expect(message).toContain('- WARNING policy/missing-consensus at /consensus: Policy has no consensus\n  Suggested fix: Add a consensus expression');
+    expect(message).toContain('## Transaction signing request (request.json)');
+    expect(message).toContain('Decision: DENY. No policy allowed the request\n- Allow transfers (EFFECT_ALLOW): not_matched, decided by eth.tx.value < 100');
+  });
+});
+
+describe('Conversation', () => {
+  test('should send previous turns with follow-up questions', async () => {
+    const provider = fakeProvider();
+    const conversation = createConversation(context, provider);
+
+    await conversation.ask('Why is this a warning?');
+    await conversation.ask('And how do I fix it?');
+
+    expect(provider.requests[1].messages.map(message => [message.role, message.content.slice(0, 23)])).toEqual([
+      ['system', 'You are Turnkey Copilot'],
+      ['user', 'Why is this a warning?'],
+      ['assistant', 'Answer 1'],
+      ['user', 'And how do I fix it?']
+    ]);
+
+    conversation.reset();
+    await conversation.ask('Start over');
+    expect(provider.requests[2].messages).toHaveLength(2);
+  });
+
+  test('should keep failed questions out of the history', async () => {
+    const conversation = createConversation(context, {
+      name: 'openai',
+      model: 'fake-model',
+      complete: async () => {
+        throw new Error('Rate limit reached');
+      }
+    });
+
+    await expect(conversation.ask('Hello?')).rejects.toThrow('Rate limit reached');
+    expect(conversation.history()).toEqual([]);
+  });
+
+  test('should export the transcript as Markdown and JSON', async () => {
+    const conversation = createConversation(context, fakeProvider());
+    await conversation.ask('What does this policy allow?');
+
+    expect(conversation.export('markdown')).toBe(
+      '# Turnkey Copilot conversation about policy.json\n\n**You:**\n\nWhat does this policy allow?\n\n**Copilot:**\n\nAnswer 1'
+    );
+    expect(JSON.parse(conversation.export('json'))).toMatchObject({
+      file: 'policy.json',
+      messages: [{ role: 'user', content: 'What does this policy allow?' }, { role: 'assistant', content: 'Answer 1' }]
+    });
+  });
+});
+
+describe('Ask Command', () => {
+  test('should answer a single question about a sample file', async () => {
+    const provider = fakeProvider();
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    let output: unknown[][];
+
+    try {
+      await askCopilot('samples/policy.json', 'Is this policy safe?', {}, provider);
+    } finally {
+      output = [...log.mock.calls];
+      log.mockRestore();
+    }
+
+    expect(output).toEqual([['Answer 1']]);
+    expect(provider.requests[0].messages[0].content).toContain('policy/condition-placeholder');
+  });
+
+  test('should refuse the offline template provider', async () => {
+    await expect(askCopilot('samples/policy.json', 'Hello?', { llmProvider: 'template' }))
+      .rejects.toThrow('The ask command needs an LLM');
+  });
+});
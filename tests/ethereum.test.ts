@@ -0,0 +1,92 @@
+import { decodeEthereumTransaction } from '../src/services/ethereum';
+import { analyzeTransaction } from '../src/services/transaction';
+import { TurnkeyTransactionRequest } from '../src/types';
+
+const eip1559 = '02ed83aa36a780843b9aca00843b9aca0b825208943392eb09edaf41e97f917464167d10f7ad4e56fd830f424080c0';
+const legacyEip155 = '0xec098504a817c800825208943535353535353535353535353535353535353535880de0b6b3a764000080018080';
+const eip2930ContractCreation = '01c801800180808080c0';
+const tipAboveFeeCap = '02df01801005825208' + '94' + '11'.repeat(20) + '8080c0';
+
+function request(unsignedTransaction: string): TurnkeyTransactionRequest {
+  return {
+    timestampMs: '1750045965000',
+    type: 'ACTIVITY_TYPE_SIGN_TRANSACTION_V2',
+    organizationId: 'a90d78dc-3245-49e7-add8-400b6edccbe9',
+    parameters: {
+      type: 'TRANSACTION_TYPE_ETHEREUM',
+      signWith: '0x4c7839aC8dFBe7674CF5997DC05156615AcbB850',
+      unsignedTransaction
+    }
+  };
+}
+
+describe('Ethereum Transaction Decoding', () => {
+  test('should decode an EIP-1559 transaction', () => {
+    const tx = decodeEthereumTransaction(eip1559);
+
+    expect(tx).toMatchObject({
+      type: 'eip1559',
+      chainId: BigInt(11155111),
+      nonce: BigInt(0),
+      maxPriorityFeePerGas: BigInt(1000000000),
+      maxFeePerGas: BigInt(1000000011),
+      gasLimit: BigInt(21000),
+      to: '0x3392eb09edaf41e97f917464167d10f7ad4e56fd',
+      value: BigInt(1000000),
+      data: '0x',
+      accessList: [],
+      signed: false
+    });
+  });
+
+  test('should decode an EIP-155 legacy signing payload', () => {
+    const tx = decodeEthereumTransaction(legacyEip155);
+
+    expect(tx).toMatchObject({
+      type: 'legacy',
+      chainId: BigInt(1),
+      nonce: BigInt(9),
+      gasPrice: BigInt(20000000000),
+      to: '0x3535353535353535353535353535353535353535',
+      value: BigInt('1000000000000000000')
+    });
+  });
+
+  test('should decode an EIP-2930 transaction without recipient', () => {
+    const tx = decodeEthereumTransaction(eip2930ContractCreation);
+
+    expect(tx).toMatchObject({ type: 'eip2930', chainId: BigInt(1), gasLimit: BigInt(0), to: undefined });
+  });
+
+  test('should reject truncated payloads', () => {
+    expect(() => decodeEthereumTransaction(eip1559.slice(0, 40))).toThrow('runs past the end of the payload');
+  });
+});
+
+describe('Ethereum Transaction Analysis', () => {
+  test('should show decoded fields and pass a valid transaction', async () => {
+    const result = await analyzeTransaction(request(eip1559));
+
+    expect(result.findings.map(finding => finding.message)).toEqual([]);
+    expect(result.details?.['Chain ID']).toBe('11155111 (Sepolia)');
+  });
+
+  test('should detect a chainId mismatch', async () => {
+    const result = await analyzeTransaction(request(eip1559), { expectedChainId: '1' });
+
+    expect(result.findings.map(finding => finding.message)).toContain('Transaction chainId 11155111 does not match expected chainId 1');
+  });
+
+  test('should detect zero gas limit and empty contract creation', async () => {
+    const result = await analyzeTransaction(request(eip2930ContractCreation));
+
+    expect(result.findings.map(finding => finding.message)).toContain('Transaction gas limit is zero');
+    expect(result.findings.map(finding => finding.message)).toContain('Contract creation transaction has no init code (empty to and data)');
+  });
+
+  test('should detect a priority fee above the fee cap', async () => {
+    const result = await analyzeTransaction(request(tipAboveFeeCap));
+
+    expect(result.findings.map(finding => finding.message)).toContain('maxPriorityFeePerGas (16) exceeds maxFeePerGas (5)');
+  });
+});
@@ -0,0 +1,152 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { APIError } from 'openai';
+import { createExplanationCache, explainFindings } from '../src/services/explanations';
+import { withRetries } from '../src/services/llm';
+import { createRedactor } from '../src/services/redaction';
+import { CompletionRequest, Finding, LlmProvider } from '../src/types';
+
+const httpFinding: Finding = {
+  ruleId: 'config/insecure-base-url',
+  severity: 'error',
+  message: 'Base URL should use HTTPS for security',
+  pointer: '/base_url'
+};
+
+const orgFinding: Finding = {
+  ruleId: 'config/missing-org-id',
+  severity: 'error',
+  message: 'Missing organization ID (org_id)',
+  pointer: '/org_id'
+};
+
+/**
+ * Creates a fake provider that records its requests and answers with the given function
+ */
+function fakeProvider(answer: (request: CompletionRequest) => string): LlmProvider & { requests: CompletionRequest[] } {
+  const requests: CompletionRequest[] = [];
+  return {
+    name: 'openai',
+    model: 'fake-model',
+    requests,
+    complete: async request => {
+      requests.push(request);
+      return answer(request);
+    }
+  };
+}
+
+describe('Explanation Cache', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'turnkey-copilot-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test('should reuse explanations across runs and key them by model', async () => {
+    const provider = fakeProvider(request => `Explained ${request.findings![0].ruleId}`);
+    const cache = createExplanationCache(path.join(directory, 'explanations'));
+
+    await explainFindings([[httpFinding]], provider, { concurrency: 1, cache });
+    const second = await explainFindings([[{ ...httpFinding }]], provider, { concurrency: 1, cache });
+
+    expect(provider.requests).toHaveLength(1);
+    expect([...second.values()]).toEqual(['Explained config/insecure-base-url']);
+
+    await explainFindings([[httpFinding]], { ...provider, model: 'other-model' }, { concurrency: 1, cache });
+    expect(provider.requests).toHaveLength(2);
+  });
+
+  test('should store redacted explanations and key them by the redaction setting', async () => {
+    const address = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e';
+    const finding: Finding = { ruleId: 'workspace/orphaned-sign-with', severity: 'warning', message: `acme-org signs with ${address}`, pointer: '' };
+    const provider = fakeProvider(() => `${address} is not a signing key of acme-org`);
+    const cache = createExplanationCache(directory);
+    const redactor = () => {
+      const session = createRedactor();
+      session.registerValues({ org_id: 'acme-org' });
+      return session;
+    };
+
+    await explainFindings([[finding]], provider, { concurrency: 1, cache, redactor: redactor() });
+    const [entry] = await fs.readdir(directory);
+    const stored = await fs.readFile(path.join(directory, entry), 'utf-8');
+    expect(stored).toContain('[REDACTED_ETH_ADDRESS_1] is not a signing key of [REDACTED_ORG_ID_1]');
+
+    // Placeholders of the next run are numbered differently, but the entry restores its own values
+    const next = redactor();
+    next.redact('0x0000000000000000000000000000000000000001 of other-org');
+    const second = await explainFindings([[finding]], provider, { concurrency: 1, cache, redactor: next });
+    expect(provider.requests).toHaveLength(1);
+    expect(second.get(finding)).toBe(`${address} is not a signing key of acme-org`);
+
+    await explainFindings([[finding]], provider, { concurrency: 1, cache });
+    expect(provider.requests).toHaveLength(2);
+  });
+
+  test('should not cache failed requests', async () => {
+    const failing = fakeProvider(() => {
+      throw new Error('connect ECONNREFUSED');
+    });
+    const cache = createExplanationCache(directory);
+
+    const explanations = await explainFindings([[httpFinding]], failing, { concurrency: 1, cache });
+
+    expect(explanations.get(httpFinding)).toBe(
+      'Failed to generate explanation with the openai provider: connect ECONNREFUSED. Please check your LLM settings and try again.'
+    );
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+});
+
+describe('Batched Explanations', () => {
+  test('should explain all findings of a file with one request', async () => {
+    const provider = fakeProvider(() => 'Here you go:\n```json\n{"1": "Use TLS.", "2": "Add the org ID."}\n```');
+
+    const explanations = await explainFindings([[httpFinding, orgFinding]], provider, { concurrency: 2, batch: true });
+
+    expect(provider.requests).toHaveLength(1);
+    expect(provider.requests[0].messages[1].content).toContain('Issue 2 (config/missing-org-id): Missing organization ID (org_id)');
+    expect(explanations.get(httpFinding)).toBe('Use TLS.');
+    expect(explanations.get(orgFinding)).toBe('Add the org ID.');
+  });
+
+  test('should fall back to one request per finding when the answer is not usable', async () => {
+    const provider = fakeProvider(request => request.findings!.length > 1 ? '{"1": "Use TLS."}' : `Explained ${request.findings![0].ruleId}`);
+
+    const explanations = await explainFindings([[httpFinding, orgFinding]], provider, { concurrency: 1, batch: true });
+
+    expect(provider.requests).toHaveLength(3);
+    expect(explanations.get(orgFinding)).toBe('Explained config/missing-org-id');
+  });
+});
+
+describe('Retries', () => {
+  test('should retry rate-limited requests', async () => {
+    let attempts = 0;
+    const provider = fakeProvider(() => {
+      attempts++;
+      if (attempts < 3) {
+        throw APIError.generate(429, undefined, 'Rate limit reached', { 'retry-after': '0' });
+      }
+      return 'Explained';
+    });
+
+    await expect(withRetries(provider, 3, 1).complete({ messages: [] })).resolves.toBe('Explained');
+    expect(attempts).toBe(3);
+  });
+
+  test('should not retry client errors', async () => {
+    const provider = fakeProvider(() => {
+      throw APIError.generate(401, undefined, 'Invalid API key', {});
+    });
+
+    await expect(withRetries(provider, 3, 1).complete({ messages: [] })).rejects.toThrow('Invalid API key');
+    expect(provider.requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,112 @@
+import { analyzeCondition, findPlaceholders, parseCondition } from '../src/services/expression';
+import { analyzePolicy } from '../src/services/policy';
+
+describe('Condition Parsing', () => {
+  test('should build an AST for a quantified Solana condition', () => {
+    const result = parseCondition("solana.tx.transfers.all(transfer, transfer.from == 'abc')");
+
+    expect(result.diagnostics).toEqual([]);
+    expect(result.ast?.kind).toBe('call');
+    if (result.ast?.kind === 'call') {
+      expect(result.ast.method).toBe('all');
+      expect(result.ast.args[0]).toMatchObject({ kind: 'identifier', name: 'transfer' });
+    }
+  });
+
+  test('should respect operator precedence', () => {
+    const result = parseCondition("activity.type == 'A' || eth.tx.value < 10 && eth.tx.chain_id == 1");
+
+    expect(result.ast).toMatchObject({
+      kind: 'binary',
+      operator: '||',
+      right: { kind: 'binary', operator: '&&' },
+    });
+  });
+
+  test('should report unbalanced parentheses with line and column', () => {
+    const result = parseCondition("(eth.tx.to == '0x1'\n  && eth.tx.value < 5");
+
+    expect(result.ast).toBeUndefined();
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ kind: 'syntax', line: 1, column: 1, message: expect.stringContaining("Missing ')'") }),
+    ]);
+  });
+
+  test('should report an unmatched closing parenthesis', () => {
+    const result = parseCondition("eth.tx.value < 5)");
+
+    expect(result.diagnostics[0]).toMatchObject({ kind: 'syntax', line: 1, column: 17, message: "Unmatched ')'" });
+  });
+
+  test('should parse slices and in-lists', () => {
+    const result = analyzeCondition("eth.tx.data[0..10] == '0xa9059cbb' && eth.tx.to in ['0x1', '0x2']");
+
+    expect(result.diagnostics).toEqual([]);
+  });
+});
+
+describe('Condition Type Checking', () => {
+  test('should reject unknown fields with a suggestion', () => {
+    const result = analyzeCondition("eth.tx.too == '0x1'");
+
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ kind: 'type', message: "Unknown field 'too' on 'eth.tx'; did you mean 'to'?" }),
+    ]);
+  });
+
+  test('should reject comparing an address to a number', () => {
+    const result = analyzeCondition('eth.tx.to == 5');
+
+    expect(result.diagnostics[0].message).toBe("Cannot compare address 'eth.tx.to' with number '5'");
+  });
+
+  test('should reject a quantifier missing its bound variable', () => {
+    const result = analyzeCondition("solana.tx.transfers.all(transfer.from == 'abc')");
+
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0].message).toContain('missing its bound variable');
+  });
+
+  test('should require a quantifier to access fields of a list', () => {
+    const result = analyzeCondition("solana.tx.transfers.from == 'abc'");
+
+    expect(result.diagnostics[0].message).toContain('must be used with a quantifier');
+  });
+
+  test('should require the condition to be boolean', () => {
+    const result = analyzeCondition('eth.tx.value');
+
+    expect(result.diagnostics[0].message).toBe('Condition must evaluate to a boolean, but evaluates to number');
+  });
+
+  test('should find placeholder literals', () => {
+    const result = analyzeCondition("solana.tx.transfers.all(transfer, transfer.from == '<SENDER_ADDRESS>')");
+
+    expect(result.diagnostics).toEqual([]);
+    expect(findPlaceholders(result.ast!).map(node => node.value)).toEqual(['<SENDER_ADDRESS>']);
+  });
+});
+
+describe('Policy Condition Analysis', () => {
+  test('should report condition syntax errors in simplified policies', async () => {
+    const result = await analyzePolicy({
+      policyName: 'Broken',
+      effect: 'EFFECT_ALLOW',
+      condition: "eth.tx.to == '0x1' &&",
+    });
+
+    expect(result.findings.map(finding => finding.message)).toEqual([
+      'Condition has a syntax error at line 1, column 22: Unexpected end of expression',
+    ]);
+  });
+
+  test('should report placeholders in simplified policies', async () => {
+    const result = await analyzePolicy({
+      policyName: 'Placeholder',
+      effect: 'EFFECT_ALLOW',
+      condition: "solana.tx.transfers.all(transfer, transfer.from == '<SENDER_ADDRESS>')",
+    });
+
+    expect(result.findings.map(finding => finding.message)).toEqual(['Condition contains placeholder <SENDER_ADDRESS>']);
+  });
+});
@@ -0,0 +1,49 @@
+import { expandPaths, globToRegExp } from '../src/utils/files';
+import { mapWithConcurrency } from '../src/utils';
+
+describe('Glob Patterns', () => {
+  test('should match single and recursive wildcards', () => {
+    expect(globToRegExp('policies/*.json').test('policies/allow.json')).toBe(true);
+    expect(globToRegExp('policies/*.json').test('policies/eth/allow.json')).toBe(false);
+    expect(globToRegExp('policies/**/*.json').test('policies/allow.json')).toBe(true);
+    expect(globToRegExp('policies/**/*.json').test('policies/eth/mainnet/allow.json')).toBe(true);
+  });
+
+  test('should support alternatives, character classes and single characters', () => {
+    const matcher = globToRegExp('samples/{config,policy}?.json[5]');
+
+    expect(matcher.test('samples/config1.json5')).toBe(true);
+    expect(matcher.test('samples/transaction1.json5')).toBe(false);
+  });
+});
+
+describe('Path Expansion', () => {
+  test('should expand directories and globs without duplicates', async () => {
+    const files = await expandPaths(['samples', './samples/transaction_*.json']);
+
+    expect(files).toContain('samples/config.json');
+    expect(files.filter(file => file === 'samples/transaction_solana.json')).toHaveLength(1);
+  });
+
+  test('should keep paths that do not exist so they can be reported', async () => {
+    expect(await expandPaths(['missing.json'])).toEqual(['missing.json']);
+  });
+});
+
+describe('Bounded Concurrency', () => {
+  test('should preserve input order and respect the limit', async () => {
+    let running = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 0], 2, async (delay, index) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      running--;
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3]);
+    expect(peak).toBe(2);
+  });
+});
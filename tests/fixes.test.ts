@@ -0,0 +1,91 @@
+import { analyzeConfig } from '../src/services/config';
+import { analyzeTransaction } from '../src/services/transaction';
+import { applyFix, parseAssignments } from '../src/services/fixes';
+import { createUnifiedDiff } from '../src/utils/diff';
+import { applyJsonEdit } from '../src/utils/json';
+
+const json5Source = `{
+  // Turnkey API settings
+  org_id: 'org-1',
+  base_url: "http://api.turnkey.com", // staging
+}`;
+
+describe('JSON Edits', () => {
+  test('should set an existing value without touching comments', () => {
+    expect(applyJsonEdit(json5Source, { op: 'set', pointer: '/base_url', value: 'https://api.turnkey.com' })).toBe(`{
+  // Turnkey API settings
+  org_id: 'org-1',
+  base_url: "https://api.turnkey.com", // staging
+}`);
+  });
+
+  test('should add a missing key after the last member, matching its style', () => {
+    expect(applyJsonEdit(json5Source, { op: 'set', pointer: '/wallet_id', value: 'wallet-1' })).toBe(`{
+  // Turnkey API settings
+  org_id: 'org-1',
+  base_url: "http://api.turnkey.com", // staging
+  wallet_id: "wallet-1",
+}`);
+    expect(applyJsonEdit('{\n    "a": 1 // note\n}', { op: 'set', pointer: '/b', value: true })).toBe('{\n    "a": 1, // note\n    "b": true\n}');
+    expect(applyJsonEdit('{ "a": 1 }', { op: 'set', pointer: '/b', value: [] })).toBe('{ "a": 1, "b": [] }');
+  });
+
+  test('should replace text inside single-quoted strings and remove members', () => {
+    expect(applyJsonEdit(json5Source, { op: 'replace', pointer: '/org_id', search: 'org', value: 'o\'rg' })).toContain(`org_id: 'o\\'rg-1',`);
+    expect(applyJsonEdit(json5Source, { op: 'remove', pointer: '/org_id' })).toBe(`{
+  // Turnkey API settings
+  base_url: "http://api.turnkey.com", // staging
+}`);
+    expect(applyJsonEdit('{\n  "a": 1,\n  "b": 2\n}', { op: 'remove', pointer: '/b' })).toBe('{\n  "a": 1\n}');
+  });
+
+  test('should refuse edits whose parent does not exist', () => {
+    expect(() => applyJsonEdit('{}', { op: 'set', pointer: '/parameters/signWith', value: 'x' }))
+      .toThrow('Cannot add /parameters/signWith: /parameters is not an object in the file');
+  });
+});
+
+describe('Analyzer Fixes', () => {
+  test('should upgrade an insecure base URL', async () => {
+    const text = '{\n  "base_url": "http://api.turnkey.com"\n}';
+    const { findings } = await analyzeConfig({ base_url: 'http://api.turnkey.com' });
+    const finding = findings.find(item => item.ruleId === 'config/insecure-base-url')!;
+
+    expect(applyFix(text, finding, {})).toBe('{\n  "base_url": "https://api.turnkey.com"\n}');
+  });
+
+  test('should fill a missing timestamp and require --set values for identifiers', async () => {
+    const text = '{\n  "type": "ACTIVITY_TYPE_SIGN_TRANSACTION_V2"\n}';
+    const { findings } = await analyzeTransaction({ type: 'ACTIVITY_TYPE_SIGN_TRANSACTION_V2' });
+    const timestamp = findings.find(item => item.ruleId === 'transaction/missing-timestamp')!;
+    const organization = findings.find(item => item.ruleId === 'transaction/missing-organization-id')!;
+
+    expect(applyFix(text, timestamp, {})).toMatch(/"timestampMs": "\d{13}"\n}$/);
+    expect(() => applyFix(text, organization, {})).toThrow('Missing value for --set ORGANIZATION_ID=<value>');
+    expect(applyFix(text, organization, parseAssignments(['ORGANIZATION_ID=org-1']))).toContain('"organizationId": "org-1"');
+  });
+
+  test('should reject malformed --set values', () => {
+    expect(() => parseAssignments(['SENDER_ADDRESS'])).toThrow('Invalid --set value: SENDER_ADDRESS');
+  });
+});
+
+describe('Unified Diff', () => {
+  test('should render changed lines with context', () => {
+    const before = ['{', '  "a": 1,', '  "b": 2,', '  "c": 3,', '  "d": 4,', '  "e": 5', '}'].join('\n');
+    const after = before.replace('"e": 5', '"e": 6');
+
+    expect(createUnifiedDiff(before, after, 'config.json')).toBe([
+      '--- a/config.json',
+      '+++ b/config.json',
+      '@@ -3,5 +3,5 @@',
+      '   "b": 2,',
+      '   "c": 3,',
+      '   "d": 4,',
+      '-  "e": 5',
+      '+  "e": 6',
+      ' }',
+    ].join('\n'));
+    expect(createUnifiedDiff(before, before, 'config.json')).toBe('');
+  });
+});
@@ -0,0 +1,104 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { generatePolicyFile } from '../src/commands/generate';
+import { generatePolicy } from '../src/services/generation';
+import { listConditionFields } from '../src/services/namespaces';
+import { CompletionRequest, LlmProvider } from '../src/types';
+
+const RECIPIENT = '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM';
+
+const validPolicy = JSON.stringify({
+  policyName: 'Allow small SOL transfers to the treasury',
+  effect: 'EFFECT_ALLOW',
+  condition: `solana.tx.transfers.all(transfer, transfer.to == '${RECIPIENT}' && transfer.amount < 1000000000)`
+});
+
+/**
+ * Creates a fake provider that returns the given answers in order
+ */
+function scriptedProvider(answers: string[]): LlmProvider & { requests: CompletionRequest[] } {
+  const requests: CompletionRequest[] = [];
+  return {
+    name: 'openai',
+    model: 'fake-model',
+    requests,
+    complete: async request => {
+      requests.push({ messages: [...request.messages] });
+      return answers[requests.length - 1];
+    }
+  };
+}
+
+describe('Policy Generation', () => {
+  test('should describe the condition fields to the model', () => {
+    const fields = listConditionFields();
+
+    expect(fields).toContain('eth.tx.value: number');
+    expect(fields).toContain('solana.tx.transfers: list<transfer>');
+    expect(fields).toContain('transfer.amount: number');
+  });
+
+  test('should re-prompt with the findings until the policy is valid', async () => {
+    const provider = scriptedProvider([
+      'Here is your policy:\n```json\n{"policyName": "Treasury", "effect": "EFFECT_ALLOW", "condition": "solana.tx.transfers.all(transfer, transfer.to == \'<TREASURY>\')"}\n```',
+      validPolicy
+    ]);
+
+    const result = await generatePolicy('allow SOL transfers under 1 SOL to the treasury', provider);
+
+    expect(result.valid).toBe(true);
+    expect(result.attempts).toBe(2);
+    expect(result.policy?.policyName).toBe('Allow small SOL transfers to the treasury');
+
+    const feedback = provider.requests[1].messages[3];
+    expect(feedback.role).toBe('user');
+    expect(feedback.content).toContain('ERROR policy/condition-placeholder: Condition contains placeholder <TREASURY>');
+  });
+
+  test('should report answers that are not a policy', async () => {
+    const provider = scriptedProvider(['I cannot help with that.', '{"name": "Treasury"}', '{"policyName": "Treasury", "effect": "ALLOW", "condition": "true"}']);
+    const retries: string[][] = [];
+
+    const result = await generatePolicy('allow everything', provider, { maxAttempts: 3, onRetry: (_, problems) => retries.push(problems) });
+
+    expect(retries).toEqual([
+      ['The answer does not contain a JSON object'],
+      ['The policy must have string fields "policyName", "effect", "condition"']
+    ]);
+    expect(result.valid).toBe(false);
+    expect(result.attempts).toBe(3);
+    expect(result.findings.map(finding => finding.ruleId)).toContain('policy/invalid-effect');
+  });
+});
+
+describe('Generate Policy Command', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'turnkey-copilot-generate-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test('should write a policy that can be checked offline', async () => {
+    const output = path.join(directory, 'policy.json');
+
+    const exitCode = await generatePolicyFile('allow SOL transfers under 1 SOL', { output }, scriptedProvider([validPolicy]));
+
+    expect(exitCode).toBe(0);
+    expect(JSON.parse(await fs.readFile(output, 'utf-8'))).toEqual(JSON.parse(validPolicy));
+  });
+
+  test('should not overwrite an existing file without --force', async () => {
+    const output = path.join(directory, 'policy.json');
+    await fs.writeFile(output, '{}', 'utf-8');
+
+    await expect(generatePolicyFile('allow SOL transfers', { output }, scriptedProvider([validPolicy])))
+      .rejects.toThrow('already exists');
+  });
+});
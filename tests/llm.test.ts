@@ -0,0 +1,100 @@
+import { generateExplanation } from '../src/services/ai';
+import { createLlmProvider, createTemplateProvider, resolveLlmSettings } from '../src/services/llm';
+import { CompletionRequest, Finding, LlmProvider } from '../src/types';
+
+const finding: Finding = {
+  ruleId: 'config/insecure-base-url',
+  severity: 'error',
+  message: 'Base URL should use HTTPS for security',
+  suggestion: 'Use https://api.turnkey.com',
+  pointer: '/base_url',
+  fix: { description: 'Use https:// for base_url', edits: [] }
+};
+
+describe('LLM Settings', () => {
+  test('should pick a provider from the environment', () => {
+    expect(resolveLlmSettings({}, {})).toEqual({
+      provider: 'template',
+      model: 'gpt-3.5-turbo',
+      temperature: 0.7,
+      maxTokens: 500,
+      baseUrl: undefined,
+      apiKey: undefined
+    });
+    expect(resolveLlmSettings({}, { OPENAI_API_KEY: 'sk-test' }).provider).toBe('openai');
+    expect(resolveLlmSettings({}, { TURNKEY_COPILOT_LLM_BASE_URL: 'http://localhost:11434/v1' }).provider).toBe('openai-compatible');
+  });
+
+  test('should let command line options override the environment', () => {
+    const settings = resolveLlmSettings(
+      { llmProvider: 'openai-compatible', llmModel: 'llama3', llmBaseUrl: 'http://localhost:8080/v1', temperature: '0', maxTokens: '200' },
+      { OPENAI_API_KEY: 'sk-test', TURNKEY_COPILOT_LLM_MODEL: 'gpt-4o', TURNKEY_COPILOT_LLM_TEMPERATURE: '1' }
+    );
+
+    expect(settings).toEqual({
+      provider: 'openai-compatible',
+      model: 'llama3',
+      temperature: 0,
+      maxTokens: 200,
+      baseUrl: 'http://localhost:8080/v1',
+      apiKey: 'sk-test'
+    });
+  });
+
+  test('should reject invalid settings', () => {
+    expect(() => resolveLlmSettings({ llmProvider: 'claude' }, {})).toThrow('Unsupported LLM provider: claude');
+    expect(() => resolveLlmSettings({ llmProvider: 'openai' }, {})).toThrow('OpenAI API key not configured');
+    expect(() => resolveLlmSettings({ llmProvider: 'openai-compatible' }, {})).toThrow('needs a server URL');
+    expect(() => resolveLlmSettings({ temperature: '3' }, {})).toThrow('Invalid temperature: 3');
+    expect(() => resolveLlmSettings({ maxTokens: '0' }, {})).toThrow('Invalid max tokens: 0');
+  });
+
+  test('should not create a network client before the first request', () => {
+    const provider = createLlmProvider(resolveLlmSettings({}, { OPENAI_API_KEY: 'sk-test', TURNKEY_COPILOT_LLM_MODEL: 'gpt-4o-mini' }));
+
+    expect(provider.name).toBe('openai');
+    expect(provider.model).toBe('gpt-4o-mini');
+  });
+});
+
+describe('Template Provider', () => {
+  test('should explain findings from the knowledge base', async () => {
+    const explanation = await createTemplateProvider().complete({ messages: [], findings: [finding] });
+
+    expect(explanation).toContain('Why this happens: The base URL uses plain HTTP instead of HTTPS.');
+    expect(explanation).toContain('How to fix it: Use https:// for base_url. Run "turnkey-copilot fix" to apply it automatically.');
+  });
+
+  test('should fall back to the category of unknown rules', async () => {
+    const explanation = await createTemplateProvider().complete({
+      messages: [],
+      findings: [{ ...finding, ruleId: 'policy/condition-unknown-field', fix: undefined }]
+    });
+
+    expect(explanation).toContain('not a valid expression in the Turnkey policy language');
+    expect(explanation).toContain('How to fix it: Apply the suggested fix above.');
+  });
+
+  test('should refuse requests without findings', async () => {
+    await expect(createTemplateProvider().complete({ messages: [{ role: 'user', content: 'hello' }] }))
+      .rejects.toThrow('The template provider can only explain findings');
+  });
+});
+
+describe('Explanations', () => {
+  test('should send the finding to the provider', async () => {
+    const requests: CompletionRequest[] = [];
+    const provider: LlmProvider = {
+      name: 'openai',
+      model: 'fake',
+      complete: async request => {
+        requests.push(request);
+        return 'Because HTTP is not encrypted.';
+      }
+    };
+
+    await expect(generateExplanation(finding, provider)).resolves.toBe('Because HTTP is not encrypted.');
+    expect(requests[0].findings).toEqual([finding]);
+    expect(requests[0].messages[1].content).toContain('Issue: Base URL should use HTTPS for security');
+  });
+});
@@ -0,0 +1,103 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { analyzeProfiledConfig, resolveProfile } from '../src/services/profiles';
+import { loadConfig } from '../src/services/secrets';
+import { derivePublicKey } from '../src/services/stamp';
+import { TurnkeyConfig } from '../src/types';
+
+const DEV_KEY = '1'.repeat(64);
+const PROD_KEY = '5a1b7e6a1f2c4d3b8e9f0a1b2c3d4e5f60718293a4b5c6d7e8f90a1b2c3d4e5f';
+
+const config: TurnkeyConfig = {
+  base_url: 'https://api.turnkey.com',
+  api_private_key: '${TURNKEY_API_PRIVATE_KEY}',
+  profiles: {
+    dev: {
+      org_id: 'dev-org',
+      wallet_id: 'dev-wallet',
+      base_url: 'https://api.dev.example.com',
+      api_public_key: derivePublicKey(DEV_KEY),
+      api_private_key: DEV_KEY
+    },
+    staging: { extends: 'dev', org_id: 'staging-org', wallet_id: 'staging-wallet' },
+    prod: { org_id: 'prod-org', wallet_id: 'prod-wallet', api_public_key: derivePublicKey(PROD_KEY), api_private_key: PROD_KEY }
+  }
+};
+
+describe('Configuration Profiles', () => {
+  test('should merge a profile with the profiles it extends and the top-level fields', () => {
+    const staging = resolveProfile(config, 'staging');
+
+    expect(staging.chain).toEqual(['staging', 'dev']);
+    expect(staging.config).toEqual({
+      base_url: 'https://api.dev.example.com',
+      api_private_key: DEV_KEY,
+      org_id: 'staging-org',
+      wallet_id: 'staging-wallet',
+      api_public_key: derivePublicKey(DEV_KEY)
+    });
+    expect(staging.sources).toMatchObject({ base_url: '/profiles/dev/base_url', org_id: '/profiles/staging/org_id' });
+  });
+
+  test('should reject unknown and circular profiles', () => {
+    const circular = { profiles: { a: { extends: 'b' }, b: { extends: 'a' } } };
+
+    expect(() => resolveProfile(config, 'prd')).toThrow('Unknown profile "prd". Did you mean "prod"?');
+    expect(() => resolveProfile(circular, 'a')).toThrow('Profile "a" inherits from itself: a → b → a');
+  });
+
+  test('should report profiles that are not objects', async () => {
+    const broken: TurnkeyConfig = { org_id: 'org', profiles: JSON.parse('{ "dev": null, "staging": { "extends": "dev" } }') };
+
+    expect(() => resolveProfile(broken, 'staging')).toThrow('Profile "staging" extends profile "dev", which is not an object');
+    expect((await analyzeProfiledConfig(broken)).filter(finding => finding.ruleId.includes('profile')).map(finding => [finding.ruleId, finding.pointer])).toEqual([
+      ['config/invalid-profile', '/profiles/dev'],
+      ['config/invalid-profile-extends', '/profiles/staging/extends']
+    ]);
+  });
+
+  test('should compare the profiles with each other', async () => {
+    const shared: TurnkeyConfig = {
+      ...config,
+      profiles: {
+        ...config.profiles,
+        prod: { ...config.profiles!.prod, wallet_id: 'dev-wallet', base_url: 'https://staging-api.example.com', api_public_key: derivePublicKey(DEV_KEY), api_private_key: DEV_KEY }
+      }
+    };
+
+    const findings = await analyzeProfiledConfig(shared);
+
+    expect(findings.map(finding => [finding.ruleId, finding.pointer])).toEqual([
+      ['config/profile-shared-api-key', '/profiles/prod/api_public_key'],
+      ['config/profile-non-production-url', '/profiles/prod/base_url'],
+      ['config/profile-shared-wallet', '/profiles/prod/wallet_id']
+    ]);
+    expect(findings[0].message).toBe('Production profile "prod" uses the same API key as profiles "dev", "staging"');
+  });
+
+  test('should report inherited problems once, at the value they come from', async () => {
+    const insecure: TurnkeyConfig = { ...config, base_url: 'http://api.turnkey.com' };
+
+    const findings = await analyzeProfiledConfig(insecure);
+
+    expect(findings.map(finding => [finding.ruleId, finding.pointer, finding.message])).toEqual([
+      ['config/insecure-base-url', '/base_url', 'Profile "prod": Base URL should use HTTPS for security']
+    ]);
+    expect(await analyzeProfiledConfig(insecure, 'dev')).toEqual([]);
+    expect((await analyzeProfiledConfig(config, 'qa'))[0].ruleId).toBe('config/unknown-profile');
+  });
+
+  test('should load the selected profile for commands that use the configuration', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'turnkey-copilot-profiles-'));
+    const configPath = path.join(directory, 'config.json');
+    try {
+      await fs.writeFile(configPath, JSON.stringify(config), 'utf-8');
+
+      expect((await loadConfig(configPath, 'prod', {})).org_id).toBe('prod-org');
+      await expect(loadConfig(configPath, undefined, {})).rejects.toThrow('has profiles dev, staging, prod. Choose one with --profile');
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,95 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { testPolicies } from '../src/commands/test';
+import { explainDecision, runPolicyTests } from '../src/services/regression';
+import { formatPolicyTestJunitReport } from '../src/services/report';
+import { PolicyTestFixture, TurnkeyTransactionRequest } from '../src/types';
+
+const request: TurnkeyTransactionRequest = {
+  timestampMs: '1750045965000',
+  type: 'ACTIVITY_TYPE_SIGN_TRANSACTION_V2',
+  organizationId: 'a90d78dc-3245-49e7-add8-400b6edccbe9',
+  parameters: {
+    type: 'TRANSACTION_TYPE_ETHEREUM',
+    signWith: '0x4c7839aC8dFBe7674CF5997DC05156615AcbB850',
+    unsignedTransaction: '02ed83aa36a780843b9aca00843b9aca0b825208943392eb09edaf41e97f917464167d10f7ad4e56fd830f424080c0'
+  }
+};
+
+const smallTransfers = { policyName: 'Small transfers', effect: 'EFFECT_ALLOW', condition: 'eth.tx.value < 1000' };
+const blockLarge = { policyName: 'Block large', effect: 'EFFECT_DENY', condition: 'eth.tx.value > 100' };
+
+const fixture = (policies: object[], expect: 'ALLOW' | 'DENY'): PolicyTestFixture => ({
+  file: 'treasury.test.json',
+  name: 'Treasury',
+  policies: policies.map((policy, index) => ({ source: `policy-${index}.json`, policy })),
+  cases: [{ name: 'transfer', request, expect }]
+});
+
+describe('Policy Regression Tests', () => {
+  test('should pass when the decision is the expected one', () => {
+    const [result] = runPolicyTests(fixture([{ ...smallTransfers, condition: 'eth.tx.value <= 1000000' }], 'ALLOW'));
+
+    expect(result).toMatchObject({ name: 'transfer', expected: 'ALLOW', passed: true, result: { decision: 'ALLOW' } });
+  });
+
+  test('should explain the deciding rule of a failure', () => {
+    const [denied] = runPolicyTests(fixture([{ ...smallTransfers, condition: 'true' }, blockLarge], 'ALLOW'));
+    const [implicit] = runPolicyTests(fixture([smallTransfers], 'ALLOW'));
+
+    expect(denied.passed).toBe(false);
+    expect(explainDecision(denied.result)).toEqual([
+      'Denied by policy "Block large"',
+      'Decided by: eth.tx.value > 100',
+      'eth.tx.value is 1000000'
+    ]);
+    expect(explainDecision(implicit.result)).toEqual([
+      'No policy allows this request (implicit deny)',
+      '"Small transfers" did not match: eth.tx.value < 1000 is false (eth.tx.value is 1000000)'
+    ]);
+  });
+
+  test('should render failures as JUnit test cases', () => {
+    const run = fixture([smallTransfers], 'ALLOW');
+    const junit = formatPolicyTestJunitReport([{ file: run.file, name: run.name, results: runPolicyTests(run) }]);
+
+    expect(junit).toContain('<testsuite name="Treasury" tests="1" failures="1" errors="0">');
+    expect(junit).toContain('<testcase classname="treasury.test.json" name="transfer">');
+    expect(junit).toContain('<failure message="Expected ALLOW but the policies decided DENY" type="DENY">No policy allows this request (implicit deny)\n&quot;Small transfers&quot; did not match');
+  });
+
+  test('should load fixture files with policy and request paths relative to the fixture', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'turnkey-copilot-test-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    try {
+      await fs.mkdir(path.join(directory, 'requests'));
+      await fs.writeFile(path.join(directory, 'policies.json'), JSON.stringify([smallTransfers, blockLarge]));
+      await fs.writeFile(path.join(directory, 'requests', 'transfer.json'), JSON.stringify(request));
+      await fs.writeFile(path.join(directory, 'treasury.test.json'), `{
+        // Large transfers must stay blocked
+        name: 'Treasury',
+        policies: ['policies.json'],
+        cases: [{ name: 'large transfer', request: 'requests/transfer.json', expect: 'deny' }]
+      }`);
+
+      const output = path.join(directory, 'report.xml');
+      expect(await testPolicies([directory], { format: 'junit', output })).toBe(0);
+      expect(await fs.readFile(output, 'utf-8')).toContain('<testcase classname="' + path.join(directory, 'treasury.test.json') + '" name="large transfer"/>');
+
+      await fs.writeFile(path.join(directory, 'broken.test.json'), JSON.stringify({ policies: ['policies.json'], cases: [{ request: 'policies.json', expect: 'ALLOW' }] }));
+      await fs.writeFile(path.join(directory, 'notes.json'), '{ unfinished');
+      expect(await testPolicies([directory], { format: 'junit', output })).toBe(1);
+
+      const junit = await fs.readFile(output, 'utf-8');
+      expect(junit).toContain('<testsuites name="turnkey-copilot" tests="3" failures="0" errors="2">');
+      expect(junit).toContain(`<error message="Not a Turnkey transaction signing request: ${path.join(directory, 'broken.test.json')} (cases/0)"/>`);
+      expect(junit).toContain(`<error message="Invalid JSON format in file: ${path.join(directory, 'notes.json')}"/>`);
+      expect(junit).toContain('name="large transfer"/>');
+    } finally {
+      jest.restoreAllMocks();
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,67 @@
+import { EXIT_CODES, formatJunitReport, formatSarifReport, getExitCode } from '../src/services/report';
+import { CheckReport } from '../src/types';
+import { locateJsonPointer } from '../src/utils/json';
+
+const source = `{
+  // JSON5 comments are allowed
+  "base_url": "http://api.turnkey.com",
+  allowed_activities: [
+    { "type": "SIGN_TRANSACTION", "resources": [] },
+  ],
+}`;
+
+function report(severities: Array<'error' | 'warning' | 'info'>): CheckReport {
+  return {
+    file: 'config.json',
+    fileType: 'config',
+    findings: severities.map(severity => ({
+      ruleId: `config/${severity}`,
+      severity,
+      message: `A ${severity} <finding>`,
+      pointer: '/base_url',
+      location: locateJsonPointer(source, '/base_url'),
+    })),
+  };
+}
+
+describe('JSON Pointer Location', () => {
+  test('should locate object keys and array elements', () => {
+    expect(locateJsonPointer(source, '/base_url')).toMatchObject({ start: { line: 3, column: 3 }, end: { line: 3, column: 39 } });
+    expect(locateJsonPointer(source, '/allowed_activities/0/resources')?.start).toMatchObject({ line: 5, column: 35 });
+  });
+
+  test('should fall back to the closest existing ancestor', () => {
+    expect(locateJsonPointer(source, '/allowed_activities/0/parameters/condition')?.start).toMatchObject({ line: 5, column: 5 });
+    expect(locateJsonPointer(source, '/org_id')?.start).toMatchObject({ line: 1, column: 1 });
+  });
+});
+
+describe('Check Reports', () => {
+  test('should derive exit codes from severities', () => {
+    expect(getExitCode([report([])])).toBe(EXIT_CODES.clean);
+    expect(getExitCode([report(['info'])])).toBe(EXIT_CODES.clean);
+    expect(getExitCode([report(['warning'])])).toBe(EXIT_CODES.warnings);
+    expect(getExitCode([report(['warning']), report(['error'])])).toBe(EXIT_CODES.errors);
+  });
+
+  test('should point SARIF results at the offending key', () => {
+    const sarif = JSON.parse(formatSarifReport([report(['error', 'info'])]));
+    const [error, info] = sarif.runs[0].results;
+
+    expect(sarif.version).toBe('2.1.0');
+    expect(error.level).toBe('error');
+    expect(info.level).toBe('note');
+    expect(error.locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: 'config.json' },
+      region: { startLine: 3, startColumn: 3, endLine: 3, endColumn: 39 },
+    });
+  });
+
+  test('should report only errors as JUnit failures', () => {
+    const junit = formatJunitReport([report(['error', 'warning'])]);
+
+    expect(junit).toContain('<testsuite name="config.json" tests="2" failures="1" errors="0">');
+    expect(junit).toContain('<failure message="A error &lt;finding&gt;" type="config/error">');
+    expect(junit).toContain('<system-out>WARNING: A warning &lt;finding&gt;');
+  });
+});
@@ -0,0 +1,104 @@
+import { impliesCondition, isUnsatisfiable, normalizeCondition } from '../src/services/logic';
+import { reviewPolicySet } from '../src/services/review';
+import { PolicySource } from '../src/types';
+
+const normalize = (condition: string) => normalizeCondition(condition)!;
+
+const allow = (name: string, condition: string): PolicySource => ({ source: `${name}.json`, policy: { policyName: name, effect: 'EFFECT_ALLOW', condition } });
+const deny = (name: string, condition: string): PolicySource => ({ source: `${name}.json`, policy: { policyName: name, effect: 'EFFECT_DENY', condition } });
+
+describe('Condition Logic', () => {
+  test('should recognize implied conditions', () => {
+    const narrow = normalize("eth.tx.to == '0xABC' && eth.tx.value < 10");
+    const broad = normalize("eth.tx.to in ['0xabc', '0xdef'] && eth.tx.value <= 100");
+
+    expect(impliesCondition(narrow.clauses, broad.clauses)).toBe(true);
+    expect(impliesCondition(broad.clauses, narrow.clauses)).toBe(false);
+  });
+
+  test('should recognize conditions that never or always hold', () => {
+    expect(isUnsatisfiable(normalize('eth.tx.value < 1 && eth.tx.value > 5').clauses)).toBe(true);
+    expect(isUnsatisfiable(normalize("eth.tx.to == '0x1' && !(eth.tx.to in ['0x1', '0x2'])").clauses)).toBe(true);
+    expect(isUnsatisfiable(normalize("eth.tx.to == '0x1' || eth.tx.to != '0x1'").negation)).toBe(true);
+    expect(isUnsatisfiable(normalize('eth.tx.value < 5 && eth.tx.value > 1').clauses)).toBe(false);
+  });
+});
+
+describe('Policy Set Review', () => {
+  test('should report allow policies that a deny policy shadows', () => {
+    const { findings } = reviewPolicySet([
+      deny('Deny large', 'eth.tx.value >= 500'),
+      allow('Allow treasury', "eth.tx.value > 600 && eth.tx.to == '0x1'"),
+      allow('Allow small', 'eth.tx.value < 100')
+    ]);
+
+    expect(findings.map(({ policy, finding }) => [policy.source, finding.ruleId, finding.pointer])).toEqual([
+      ['Allow treasury.json', 'policy-set/shadowed-allow', '/condition']
+    ]);
+    expect(findings[0].finding.message).toBe('"Allow treasury" never takes effect: every request it allows is denied by "Deny large"');
+  });
+
+  test('should report duplicate and subsumed conditions', () => {
+    const { findings } = reviewPolicySet([
+      allow('Small', "eth.tx.to == '0x1' && eth.tx.value < 100"),
+      allow('Copy', "eth.tx.value<100 && eth.tx.to=='0x1'"),
+      allow('Tiny', "eth.tx.to == '0x1' && eth.tx.value < 10")
+    ]);
+
+    expect(findings.map(({ policy, finding }) => [policy.source, finding.ruleId])).toEqual([
+      ['Copy.json', 'policy-set/duplicate-condition'],
+      ['Tiny.json', 'policy-set/subsumed-condition']
+    ]);
+  });
+
+  test('should report conditions that never or always hold and overly broad rules', () => {
+    const traditional: PolicySource = {
+      source: 'traditional.json',
+      policy: { required_approvals: 1, signing_keys: [{ key_id: 'key' }], allowed_activities: [{ type: 'SIGN_TRANSACTION', resources: ['*'] }] }
+    };
+    const { findings } = reviewPolicySet([
+      allow('Never', 'eth.tx.value < 1 && eth.tx.value > 5'),
+      deny('Always', 'true'),
+      allow('Raw payloads', "activity.type == 'ACTIVITY_TYPE_SIGN_RAW_PAYLOAD_V2'"),
+      traditional
+    ]);
+
+    expect(findings.map(({ policy, finding }) => [policy.source, finding.ruleId, finding.severity])).toEqual([
+      ['Never.json', 'policy-set/unsatisfiable-condition', 'warning'],
+      ['Always.json', 'policy-set/tautological-condition', 'error'],
+      ['Raw payloads.json', 'policy-set/overly-broad-allow', 'warning'],
+      ['traditional.json', 'policy-set/overly-broad-allow', 'warning'],
+      ['Raw payloads.json', 'policy-set/shadowed-allow', 'error'],
+      ['traditional.json', 'policy-set/shadowed-allow', 'error']
+    ]);
+    expect(findings[0].finding.message).toBe('"Never" never matches: eth.tx.value < 1 contradicts eth.tx.value > 5');
+  });
+
+  test('should skip malformed allowed activities instead of failing', () => {
+    const malformed: PolicySource = { source: 'malformed.json', policy: JSON.parse('{ "required_approvals": 1, "allowed_activities": { "type": "SIGN_TRANSACTION" } }') };
+
+    expect(reviewPolicySet([malformed, allow('Small', 'eth.tx.value < 100')]).findings).toEqual([]);
+  });
+
+  test('should show what each activity type effectively permits', () => {
+    const { coverage } = reviewPolicySet([
+      allow('Transfers', "activity.type == 'ACTIVITY_TYPE_SIGN_TRANSACTION_V2' && eth.tx.value < 100"),
+      allow('Raw payloads', "activity.type == 'SIGN_RAW_PAYLOAD'"),
+      deny('Blocked address', "eth.tx.to == '0xdead'"),
+      deny('No exports', "activity.type == 'EXPORT_WALLET'")
+    ]);
+
+    expect(coverage.map(({ activityType, status }) => [activityType, status])).toEqual([
+      ['SIGN_TRANSACTION', 'conditional'],
+      ['SIGN_RAW_PAYLOAD', 'allowed-with-exceptions'],
+      ['EXPORT_WALLET', 'denied'],
+      ['(other activity types)', 'not-allowed']
+    ]);
+    expect(coverage[1]).toEqual({
+      activityType: 'SIGN_RAW_PAYLOAD',
+      status: 'allowed-with-exceptions',
+      allowedBy: [{ name: '"Raw payloads"', conditional: false }],
+      deniedBy: [{ name: '"Blocked address"', conditional: true }]
+    });
+  });
+});
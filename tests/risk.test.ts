@@ -0,0 +1,79 @@
+import { analyzePolicy } from '../src/services/policy';
+import { assessPolicyRisk } from '../src/services/risk';
+import { TurnkeyPolicy } from '../src/types';
+
+const SECP256K1_KEY = `02${'ab'.repeat(32)}`;
+const OTHER_KEY = `03${'cd'.repeat(32)}`;
+
+describe('Policy Risk Scoring', () => {
+  test('should rank the risks of a traditional policy and cap the score', () => {
+    const policy: TurnkeyPolicy = {
+      required_approvals: 3,
+      signing_keys: [
+        { key_id: 'a', public_key: SECP256K1_KEY, algorithm: 'EDDSA_ED25519' },
+        { key_id: 'b', public_key: SECP256K1_KEY.toUpperCase(), algorithm: 'RSA1024' }
+      ],
+      allowed_activities: [{ type: 'SIGN_TRANSACTION', resources: ['*'] }]
+    };
+
+    const assessment = assessPolicyRisk(policy);
+
+    expect(assessment.score).toBe(100);
+    expect(assessment.level).toBe('critical');
+    expect(assessment.reasons.map(({ ruleId, weight, pointer }) => [ruleId, weight, pointer])).toEqual([
+      ['risk/unsatisfiable-quorum', 40, '/required_approvals'],
+      ['risk/duplicate-public-key', 30, '/signing_keys/1/public_key'],
+      ['risk/weak-algorithm', 25, '/signing_keys/1/algorithm'],
+      ['risk/unrestricted-allow', 20, '/allowed_activities/0'],
+      ['risk/algorithm-mismatch', 15, '/signing_keys/0/algorithm'],
+      ['risk/wildcard-resources', 15, '/allowed_activities/0/resources']
+    ]);
+  });
+
+  test('should score a restricted multi-approver policy as low risk', () => {
+    const policy: TurnkeyPolicy = {
+      required_approvals: 2,
+      signing_keys: [
+        { key_id: 'a', public_key: SECP256K1_KEY, algorithm: 'ECDSA_SECP256K1' },
+        { key_id: 'b', public_key: OTHER_KEY, algorithm: 'ECDSA_SECP256K1' }
+      ],
+      allowed_activities: [{
+        type: 'SIGN_TRANSACTION',
+        resources: ['a'],
+        parameters: { condition: "eth.tx.to == '0x1111111111111111111111111111111111111111' && eth.tx.value <= 1000" }
+      }]
+    };
+
+    expect(assessPolicyRisk(policy)).toEqual({ score: 0, level: 'low', reasons: [] });
+  });
+
+  test('should flag simplified allow policies without consensus or restrictions', () => {
+    const loose = assessPolicyRisk({ policyName: 'Any transaction', effect: 'EFFECT_ALLOW', condition: "activity.type == 'ACTIVITY_TYPE_SIGN_TRANSACTION_V2'" });
+    const guarded = assessPolicyRisk({
+      policyName: 'Treasury',
+      effect: 'EFFECT_ALLOW',
+      condition: "eth.tx.to in ['0x1111111111111111111111111111111111111111'] && eth.tx.value < 1000",
+      consensus: '2 <= approvers.count()'
+    });
+    const unrelated = assessPolicyRisk({ policyName: 'Users', effect: 'EFFECT_ALLOW', condition: "activity.type == 'CREATE_USERS'" });
+
+    expect(loose).toMatchObject({ score: 45, level: 'high' });
+    expect(loose.reasons.map(reason => reason.ruleId)).toEqual(['risk/single-approver', 'risk/unrestricted-allow']);
+    expect(guarded.reasons).toEqual([]);
+    expect(unrelated.reasons).toEqual([]);
+  });
+
+  test('should report a quorum larger than the signing keys as a policy error', async () => {
+    const result = await analyzePolicy({
+      required_approvals: 2,
+      signing_keys: [{ key_id: 'a', public_key: SECP256K1_KEY }],
+      allowed_activities: [{ type: 'SIGN_TRANSACTION', resources: ['a'] }]
+    });
+
+    expect(result.findings).toEqual([expect.objectContaining({
+      ruleId: 'policy/required-approvals-exceed-keys',
+      message: 'required_approvals is 2, but only 1 signing key is defined',
+      fix: { description: 'Set required_approvals to 1', edits: [{ op: 'set', pointer: '/required_approvals', value: 1 }] }
+    })]);
+  });
+});
@@ -0,0 +1,72 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { analyzeFile } from '../src/services/analysis';
+import { getSchema, SCHEMA_KINDS, validateSchema } from '../src/services/schema';
+
+describe('Schemas', () => {
+  test('should suggest the closest known key for typos', () => {
+    const findings = validateSchema({ orgId: 'org', base_url: 'https://api.turnkey.com' }, 'config');
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ ruleId: 'schema/unknown-key', message: 'Unknown key "orgId"', pointer: '/orgId' });
+    expect(findings[0].suggestion).toMatch(/^Did you mean "org_id"\?/);
+    expect(findings[0].fix?.edits).toEqual([
+      { op: 'set', pointer: '/org_id', value: 'org' },
+      { op: 'remove', pointer: '/orgId' }
+    ]);
+  });
+
+  test('should check nested objects, profiles and types', () => {
+    const config = validateSchema({ profiles: { prod: { extend: 'dev', wallet_id: 42 } } }, 'config');
+    const request = validateSchema({ type: 'ACTIVITY_TYPE_SIGN_TRANSACTION_V2', parameters: { type: 'TRANSACTION_TYPE_ETH', signwith: '0x0' } }, 'transaction');
+
+    expect(config.map(finding => [finding.ruleId, finding.pointer])).toEqual([
+      ['schema/unknown-key', '/profiles/prod/extend'],
+      ['schema/invalid-type', '/profiles/prod/wallet_id']
+    ]);
+    expect(config[1].message).toBe('profiles/prod/wallet_id must be a string, but is a number');
+    expect(request.map(finding => [finding.ruleId, finding.pointer])).toEqual([
+      ['schema/invalid-value', '/parameters/type'],
+      ['schema/unknown-key', '/parameters/signwith']
+    ]);
+  });
+
+  test('should validate policies against the closest policy format', () => {
+    expect(validateSchema({ policyName: 'p', effect: 'EFFECT_ALLOW', condition: 'true', $schema: './policy.schema.json' }, 'policy')).toEqual([]);
+    expect(validateSchema({ required_approvals: 1, signing_keys: [{ key_id: 'k', publicKey: 'x' }] }, 'policy').map(finding => finding.pointer))
+      .toEqual(['/signing_keys/0/publicKey']);
+  });
+
+  test('should report values of the wrong type instead of failing the analysis', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'turnkey-copilot-schema-'));
+    const write = async (name: string, data: object) => {
+      await fs.writeFile(path.join(directory, name), JSON.stringify(data));
+      return path.join(directory, name);
+    };
+    try {
+      const policy = await analyzeFile(await write('policy.json', { required_approvals: 1, signing_keys: 'x', allowed_activities: {} }));
+      const request = await analyzeFile(await write('request.json', {
+        type: 'ACTIVITY_TYPE_SIGN_TRANSACTION_V2',
+        parameters: { type: 'TRANSACTION_TYPE_ETHEREUM', signWith: 5, unsignedTransaction: '02' }
+      }));
+      const config = await analyzeFile(await write('config.json', { org_id: 'org', base_url: 7 }), { env: {} });
+
+      expect(policy.findings.map(finding => [finding.ruleId, finding.pointer])).toEqual([
+        ['schema/invalid-type', '/signing_keys'],
+        ['schema/invalid-type', '/allowed_activities']
+      ]);
+      expect(request.findings).toContainEqual(expect.objectContaining({ ruleId: 'schema/invalid-type', pointer: '/parameters/signWith' }));
+      expect(config.findings).toContainEqual(expect.objectContaining({ ruleId: 'schema/invalid-type', pointer: '/base_url' }));
+      expect([...policy.findings, ...request.findings, ...config.findings].map(finding => finding.ruleId)).not.toContain('file/analysis-failed');
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  test('should export a schema for every file kind', () => {
+    expect(SCHEMA_KINDS).toEqual(['config', 'policy', 'transaction']);
+    expect(getSchema('config').definitions?.profile.properties?.extends).toBeDefined();
+    expect(() => getSchema('polcy')).toThrow('Did you mean "policy"?');
+  });
+});
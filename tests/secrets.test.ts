@@ -0,0 +1,139 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { analyzeFile } from '../src/services/analysis';
+import { loadConfig, maskSecrets, resolveConfig } from '../src/services/secrets';
+import { derivePublicKey } from '../src/services/stamp';
+
+const PRIVATE_KEY = '5a1b7e6a1f2c4d3b8e9f0a1b2c3d4e5f60718293a4b5c6d7e8f90a1b2c3d4e5f';
+const OTHER_PRIVATE_KEY = '1'.repeat(64);
+
+describe('Secret References', () => {
+  let directory: string;
+  let configPath: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'turnkey-copilot-secrets-'));
+    configPath = path.join(directory, 'config.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test('should resolve variables from the environment, .env files, defaults and key files', async () => {
+    await fs.writeFile(path.join(directory, '.env'), 'TURNKEY_ORG_ID=org-from-dotenv\nTURNKEY_WALLET_ID=wallet-from-dotenv\n', 'utf-8');
+    await fs.writeFile(path.join(directory, 'api.key'), `${PRIVATE_KEY}\n`, 'utf-8');
+
+    const resolution = await resolveConfig({
+      org_id: '${TURNKEY_ORG_ID}',
+      wallet_id: '${TURNKEY_WALLET_ID}',
+      base_url: '${TURNKEY_BASE_URL:-https://api.turnkey.com}',
+      api_private_key: 'file:./api.key',
+      labels: ['${TURNKEY_ENV}-signer']
+    }, configPath, { TURNKEY_WALLET_ID: 'wallet-from-env', TURNKEY_ENV: 'prod' });
+
+    expect(resolution.config).toEqual({
+      org_id: 'org-from-dotenv',
+      wallet_id: 'wallet-from-env',
+      base_url: 'https://api.turnkey.com',
+      api_private_key: PRIVATE_KEY,
+      labels: ['prod-signer']
+    });
+    expect(resolution.references.map(reference => [reference.pointer, reference.source])).toEqual([
+      ['/org_id', '.env'],
+      ['/wallet_id', 'environment'],
+      ['/base_url', 'default'],
+      ['/api_private_key', 'file'],
+      ['/labels/0', 'environment']
+    ]);
+    expect(resolution.secrets).toContain(PRIVATE_KEY);
+  });
+
+  test('should report unresolved variables instead of the checks of their values', async () => {
+    await fs.writeFile(configPath, JSON.stringify({
+      org_id: 'test-org',
+      wallet_id: 'test-wallet',
+      api_public_key: '${TURNKEY_API_PUBLIC_KEY}',
+      api_private_key: 'file:./missing.key',
+      base_url: 'https://api.turnkey.com'
+    }), 'utf-8');
+
+    const report = await analyzeFile(configPath, { env: {} });
+
+    expect(report.findings.map(finding => [finding.ruleId, finding.pointer])).toEqual([
+      ['config/unresolved-variable', '/api_public_key'],
+      ['config/unreadable-secret-file', '/api_private_key']
+    ]);
+    await expect(loadConfig(configPath, undefined, {})).rejects.toThrow('api_public_key in');
+  });
+
+  test('should flag plaintext secrets and never show resolved ones', async () => {
+    await fs.writeFile(configPath, JSON.stringify({
+      org_id: 'test-org',
+      wallet_id: 'test-wallet',
+      api_public_key: derivePublicKey(PRIVATE_KEY),
+      api_private_key: '${TURNKEY_API_PRIVATE_KEY}',
+      base_url: 'https://api.turnkey.com',
+      webhook_secret: 'hunter2-but-longer'
+    }), 'utf-8');
+
+    const report = await analyzeFile(configPath, { env: { TURNKEY_API_PRIVATE_KEY: OTHER_PRIVATE_KEY } });
+
+    expect(report.findings.map(finding => finding.ruleId)).toEqual(['config/plaintext-secret', 'config/api-key-mismatch']);
+    expect(report.findings[0].fix?.edits).toEqual([{ op: 'set', pointer: '/webhook_secret', value: '${TURNKEY_WEBHOOK_SECRET}' }]);
+    expect(JSON.stringify(report)).not.toContain(OTHER_PRIVATE_KEY);
+  });
+
+  test('should not fix values that come from a reference', async () => {
+    await fs.writeFile(path.join(directory, '.env'), 'STAGING_URL=http://staging.local\n', 'utf-8');
+    await fs.writeFile(configPath, JSON.stringify({
+      org_id: 'test-org',
+      wallet_id: 'test-wallet',
+      base_url: '${BASE}',
+      profiles: { prod: { wallet_id: 'prod-wallet' }, staging: { base_url: '${STAGING_URL}' }, dev: { base_url: 'http://localhost:3000' } }
+    }), 'utf-8');
+
+    const report = await analyzeFile(configPath, { env: { BASE: 'http://localhost:8080' } });
+    const insecure = report.findings.filter(finding => finding.ruleId === 'config/insecure-base-url');
+
+    expect(insecure.map(finding => [finding.pointer, finding.fix?.edits])).toEqual([
+      ['/base_url', undefined],
+      ['/profiles/staging/base_url', undefined],
+      ['/profiles/dev/base_url', [{ op: 'set', pointer: '/profiles/dev/base_url', value: 'https://localhost:3000' }]]
+    ]);
+  });
+
+  test('should mask secrets in findings', () => {
+    const [finding] = maskSecrets([{ ruleId: 'config/example', severity: 'warning', message: `Key ${PRIVATE_KEY} is weak`, pointer: '' }], [PRIVATE_KEY]);
+
+    expect(finding.message).toBe('Key [REDACTED] is weak');
+  });
+
+  test('should mask short secrets and the values of fix edits', () => {
+    const [finding] = maskSecrets([{
+      ruleId: 'config/example',
+      severity: 'warning',
+      message: 'Password pw1 is too short',
+      pointer: '/password',
+      fix: {
+        description: 'Replace pw1',
+        edits: [
+          { op: 'set', pointer: '/password', value: 'pw1-longer' },
+          { op: 'set', pointer: '/users', value: [{ password: 'pw1' }] },
+          { op: 'replace', pointer: '/url', search: 'pw1', value: '${PASSWORD}' }
+        ]
+      }
+    }], ['', 'pw1']);
+
+    expect(finding.message).toBe('Password [REDACTED] is too short');
+    expect(finding.fix).toEqual({
+      description: 'Replace [REDACTED]',
+      edits: [
+        { op: 'set', pointer: '/password', value: '[REDACTED]-longer' },
+        { op: 'set', pointer: '/users', value: [{ password: '[REDACTED]' }] },
+        { op: 'replace', pointer: '/url', search: '[REDACTED]', value: '${PASSWORD}' }
+      ]
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { applyIgnoreComments, applyProjectSettings, LoadedSettings, parseProjectSettings } from '../src/services/settings';
+import { Finding } from '../src/types';
+import { locateJsonPointer } from '../src/utils/json';
+
+const source = `{
+  org_id: "",
+  api_public_key: "abc", // turnkey-copilot-ignore config/api-public-key-format
+  // turnkey-copilot-ignore config/*
+  // Local development only
+  base_url: "http://localhost:8080",
+}`;
+
+function finding(ruleId: string, pointer: string): Finding {
+  return { ruleId, severity: 'error', message: ruleId, pointer, location: locateJsonPointer(source, pointer) };
+}
+
+const findings = [
+  finding('config/missing-org-id', '/org_id'),
+  finding('config/api-public-key-format', '/api_public_key'),
+  finding('config/insecure-base-url', '/base_url'),
+];
+
+function loaded(text: string): LoadedSettings {
+  return { path: '/project/.turnkeycopilotrc', directory: '/project', settings: parseProjectSettings(text, '.turnkeycopilotrc') };
+}
+
+describe('Project Settings', () => {
+  test('should disable rules and override severities, preferring exact rule IDs over wildcards', () => {
+    const settings = loaded(`{
+      rules: { "config/*": "warning", "config/missing-org-id": "error", "config/insecure-base-url": "off" },
+    }`);
+
+    expect(applyProjectSettings(findings, '/project/config.json', settings).map(({ ruleId, severity }) => [ruleId, severity])).toEqual([
+      ['config/missing-org-id', 'error'],
+      ['config/api-public-key-format', 'warning'],
+    ]);
+  });
+
+  test('should apply overrides to matching files only', () => {
+    const settings = loaded(`{
+      rules: { "config/insecure-base-url": "off" },
+      overrides: [{ files: ["dev/**/*.json"], rules: { "config/insecure-base-url": "on", "config/missing-org-id": "info" } }],
+    }`);
+
+    const dev = applyProjectSettings(findings, '/project/dev/local/config.json', settings);
+    const prod = applyProjectSettings(findings, '/project/prod/config.json', settings);
+
+    expect(dev.map(({ ruleId, severity }) => [ruleId, severity])).toEqual([
+      ['config/missing-org-id', 'info'],
+      ['config/api-public-key-format', 'error'],
+      ['config/insecure-base-url', 'error'],
+    ]);
+    expect(prod.map(item => item.ruleId)).toEqual(['config/missing-org-id', 'config/api-public-key-format']);
+  });
+
+  test('should reject unknown rule settings', () => {
+    expect(() => parseProjectSettings('{ rules: { "config/missing-org-id": "disabled" } }', '.turnkeycopilotrc'))
+      .toThrow('Invalid .turnkeycopilotrc: rules: "config/missing-org-id" must be one of error, warning, info, off, on');
+  });
+});
+
+describe('Ignore Comments', () => {
+  test('should suppress findings on the same line or the next line with content', () => {
+    expect(applyIgnoreComments(findings, source).map(item => item.ruleId)).toEqual(['config/missing-org-id']);
+  });
+
+  test('should ignore directives inside strings', () => {
+    const text = '{ note: "// turnkey-copilot-ignore", org_id: "" }';
+    const located = { ...findings[0], location: locateJsonPointer(text, '/org_id') };
+
+    expect(applyIgnoreComments([located], text)).toHaveLength(1);
+  });
+});
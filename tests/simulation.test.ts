@@ -0,0 +1,115 @@
+import { simulatePolicies } from '../src/services/simulation';
+import { PolicySource, TurnkeyTransactionRequest } from '../src/types';
+
+const request: TurnkeyTransactionRequest = {
+  timestampMs: '1750045965000',
+  type: 'ACTIVITY_TYPE_SIGN_TRANSACTION_V2',
+  organizationId: 'a90d78dc-3245-49e7-add8-400b6edccbe9',
+  parameters: {
+    type: 'TRANSACTION_TYPE_ETHEREUM',
+    signWith: '0x4c7839aC8dFBe7674CF5997DC05156615AcbB850',
+    unsignedTransaction: '02ed83aa36a780843b9aca00843b9aca0b825208943392eb09edaf41e97f917464167d10f7ad4e56fd830f424080c0'
+  }
+};
+
+describe('Policy Simulation', () => {
+  test('should allow a request matched by an allow policy', () => {
+    const policies: PolicySource[] = [{
+      source: 'allow.json',
+      policy: {
+        policyName: 'Allow signer',
+        effect: 'EFFECT_ALLOW',
+        condition: "eth.tx.from == '0x4c7839ac8dfbe7674cf5997dc05156615acbb850'"
+      }
+    }];
+
+    const result = simulatePolicies(policies, request);
+
+    expect(result.decision).toBe('ALLOW');
+    expect(result.decidingPolicy?.policyName).toBe('Allow signer');
+    expect(result.decidingPolicy?.decidedBy).toBe("eth.tx.from == '0x4c7839ac8dfbe7674cf5997dc05156615acbb850'");
+  });
+
+  test('should let a matching deny policy win over an allow policy', () => {
+    const policies: PolicySource[] = [
+      { source: 'allow.json', policy: { policyName: 'Allow all', effect: 'EFFECT_ALLOW', condition: 'true' } },
+      {
+        source: 'deny.json',
+        policy: {
+          policyName: 'Deny signing',
+          effect: 'EFFECT_DENY',
+          condition: "activity.action == 'CREATE' || activity.type == 'ACTIVITY_TYPE_SIGN_TRANSACTION_V2'"
+        }
+      }
+    ];
+
+    const result = simulatePolicies(policies, request);
+
+    expect(result.decision).toBe('DENY');
+    expect(result.decidingPolicy?.policyName).toBe('Deny signing');
+    expect(result.decidingPolicy?.decidedBy).toBe("activity.type == 'ACTIVITY_TYPE_SIGN_TRANSACTION_V2'");
+  });
+
+  test('should deny when a deny policy cannot be evaluated', () => {
+    const policies: PolicySource[] = [
+      { source: 'allow.json', policy: { policyName: 'Allow signing', effect: 'EFFECT_ALLOW', condition: "activity.type == 'ACTIVITY_TYPE_SIGN_TRANSACTION_V2'" } },
+      { source: 'deny.json', policy: { policyName: 'Deny large', effect: 'EFFECT_DENY', condition: 'eth.tx.value > 1000' } }
+    ];
+    const undecodable: TurnkeyTransactionRequest = { ...request, parameters: { ...request.parameters, unsignedTransaction: '02ff00' } };
+
+    const result = simulatePolicies(policies, undecodable);
+
+    expect(result.decision).toBe('DENY');
+    expect(result.decidingPolicy).toMatchObject({ policyName: 'Deny large', outcome: 'error' });
+    expect(result.reason).toMatch(/^Denied because policy "Deny large" could not be evaluated: /);
+  });
+
+  test('should deny implicitly when no policy matches', () => {
+    const policies: PolicySource[] = [{
+      source: 'policy.json',
+      policy: {
+        policyName: 'Solana only',
+        effect: 'EFFECT_ALLOW',
+        condition: "solana.tx.transfers.all(transfer, transfer.from == 'abc')"
+      }
+    }];
+
+    const result = simulatePolicies(policies, request);
+
+    expect(result.decision).toBe('DENY');
+    expect(result.reason).toBe('No policy allows this request (implicit deny)');
+    expect(result.evaluations[0]).toMatchObject({ outcome: 'error', error: "'solana' is not available for this request" });
+  });
+
+  test('should evaluate traditional policies by activity type and resource', () => {
+    const policies: PolicySource[] = [{
+      source: 'traditional.json',
+      policy: {
+        required_approvals: 1,
+        signing_keys: [{ key_id: 'key', public_key: 'public' }],
+        allowed_activities: [{ type: 'SIGN_TRANSACTION', resources: ['*'] }]
+      }
+    }];
+
+    const result = simulatePolicies(policies, request);
+
+    expect(result.decision).toBe('ALLOW');
+    expect(result.decidingPolicy?.decidedBy).toBe('allowed_activities[0].type == SIGN_TRANSACTION');
+  });
+
+  test('should report traditional policies with malformed allowed activities instead of throwing', () => {
+    const notAList: PolicySource = { source: 'object.json', policy: JSON.parse('{ "required_approvals": 1, "allowed_activities": { "type": "SIGN_TRANSACTION" } }') };
+    const badEntries: PolicySource = {
+      source: 'entries.json',
+      policy: JSON.parse('{ "required_approvals": 1, "allowed_activities": [null, 5, { "type": "SIGN_TRANSACTION", "resources": "*" }] }')
+    };
+
+    const result = simulatePolicies([notAList, badEntries], request);
+
+    expect(result.decision).toBe('DENY');
+    expect(result.evaluations.map(({ source, outcome, error, detail }) => [source, outcome, error ?? detail])).toEqual([
+      ['object.json', 'error', 'allowed_activities is not a list'],
+      ['entries.json', 'not_matched', 'allowed_activities[2] does not cover resource 0x4c7839aC8dFBe7674CF5997DC05156615AcbB850']
+    ]);
+  });
+});
@@ -0,0 +1,77 @@
+import fs from 'fs';
+import path from 'path';
+import { decodeSolanaTransaction } from '../src/services/solana';
+import { simulatePolicies } from '../src/services/simulation';
+import { analyzeTransaction } from '../src/services/transaction';
+import { TurnkeyTransactionRequest } from '../src/types';
+import { base58Decode, base58Encode } from '../src/utils/encoding';
+
+const request: TurnkeyTransactionRequest = JSON.parse(
+  fs.readFileSync(path.join(__dirname, '../samples/transaction_solana.json'), 'utf-8')
+);
+const sender = '7EcDhSYGxXyscszYEp35KHN8vvw3svAuLKTzXwCFLtV';
+const recipient = '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM';
+
+describe('Solana Transaction Decoding', () => {
+  test('should round-trip base58 with leading zeros', () => {
+    const bytes = Buffer.from([0, 0, 1, 2, 255]);
+
+    expect(base58Decode(base58Encode(bytes))).toEqual(bytes);
+    expect(base58Encode(Buffer.alloc(32))).toBe('11111111111111111111111111111111');
+  });
+
+  test('should decode a System Program transfer from a hex transaction', () => {
+    const tx = decodeSolanaTransaction(request.parameters!.unsignedTransaction!);
+
+    expect(tx.version).toBe('legacy');
+    expect(tx.signatures).toBe(1);
+    expect(tx.accountKeys[0]).toBe(sender);
+    expect(tx.transfers).toEqual([{ from: sender, to: recipient, amount: BigInt(1500000000) }]);
+  });
+
+  test('should decode the same transaction from base64', () => {
+    const base64 = Buffer.from(request.parameters!.unsignedTransaction!, 'hex').toString('base64');
+
+    expect(decodeSolanaTransaction(base64).transfers).toHaveLength(1);
+  });
+
+  test('should reject a truncated message', () => {
+    expect(() => decodeSolanaTransaction('01000103')).toThrow('Unexpected end of data');
+  });
+});
+
+describe('Solana Transaction Analysis', () => {
+  test('should pass the sample request', async () => {
+    const result = await analyzeTransaction(request);
+
+    expect(result.findings.map(finding => finding.message)).toEqual([]);
+    expect(result.details?.['SOL transfer 1']).toBe(`${sender} → ${recipient}: 1.5 SOL`);
+    expect(result.nextSteps).toContain('https://explorer.solana.com/tx/');
+    expect(result.nextSteps).not.toContain('etherscan');
+  });
+
+  test('should reject a signWith that is not base58 or not a signer', async () => {
+    const invalid = await analyzeTransaction({ ...request, parameters: { ...request.parameters, signWith: '0xabc' } });
+    const notSigner = await analyzeTransaction({ ...request, parameters: { ...request.parameters, signWith: recipient } });
+
+    expect(invalid.findings.map(finding => finding.message)).toContain('Invalid Solana address format');
+    expect(notSigner.findings.map(finding => finding.message)).toEqual(['signWith address is not a required signer of the Solana transaction']);
+  });
+
+  test('should evaluate solana.tx.transfers policies against the decoded request', () => {
+    const condition = (from: string) => `solana.tx.transfers.all(transfer, transfer.from == '${from}')`;
+
+    const allowed = simulatePolicies([{
+      source: 'policy.json',
+      policy: { policyName: 'Sender', effect: 'EFFECT_ALLOW', condition: condition(sender) }
+    }], request);
+    const denied = simulatePolicies([{
+      source: 'policy.json',
+      policy: { policyName: 'Sender', effect: 'EFFECT_ALLOW', condition: condition(recipient) }
+    }], request);
+
+    expect(allowed.decision).toBe('ALLOW');
+    expect(denied.decision).toBe('DENY');
+    expect(denied.evaluations[0].detail).toBe(`item 0 of solana.tx.transfers; transfer.from is '${sender}'`);
+  });
+});
@@ -0,0 +1,183 @@
+import fs from 'fs/promises';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { submitRequest } from '../src/commands/submit';
+import { buildSignedRequest, sendSignedRequest } from '../src/services/api';
+import { createApiStamp, decodeApiStamp, derivePublicKey, STAMP_SCHEME, verifyApiStamp } from '../src/services/stamp';
+import { TurnkeyConfig, TurnkeyTransactionRequest } from '../src/types';
+
+const PRIVATE_KEY = '5a1b7e6a1f2c4d3b8e9f0a1b2c3d4e5f60718293a4b5c6d7e8f90a1b2c3d4e5f';
+const ORG_ID = 'a90d78dc-3245-49e7-add8-400b6edccbe9';
+
+const request: TurnkeyTransactionRequest = {
+  timestampMs: '1750045965000',
+  type: 'ACTIVITY_TYPE_SIGN_TRANSACTION_V2',
+  organizationId: ORG_ID,
+  parameters: {
+    type: 'TRANSACTION_TYPE_ETHEREUM',
+    signWith: '0x4c7839aC8dFBe7674CF5997DC05156615AcbB850',
+    unsignedTransaction: '02ed83aa36a780843b9aca00843b9aca0b825208943392eb09edaf41e97f917464167d10f7ad4e56fd830f424080c0'
+  }
+};
+
+/**
+ * Builds a configuration with a matching API key pair
+ */
+function config(baseUrl: string = 'https://api.turnkey.com'): TurnkeyConfig {
+  return { org_id: ORG_ID, base_url: baseUrl, api_public_key: derivePublicKey(PRIVATE_KEY), api_private_key: PRIVATE_KEY };
+}
+
+interface ReceivedRequest {
+  method?: string;
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Starts a mock Turnkey API on a free port that answers every request with the given status and body
+ */
+async function startMockApi(status: number, response: unknown): Promise<{ url: string; received: ReceivedRequest[]; close: () => Promise<void> }> {
+  const received: ReceivedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push({ method: req.method, url: req.url, headers: req.headers, body });
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(response));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    received,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+}
+
+describe('API Stamps', () => {
+  test('should sign the body with the API key', () => {
+    const publicKey = derivePublicKey(PRIVATE_KEY);
+    const stamp = decodeApiStamp(createApiStamp('{"a":1}', publicKey, PRIVATE_KEY));
+
+    expect(publicKey).toMatch(/^0[23][0-9a-f]{64}$/);
+    expect(stamp.publicKey).toBe(publicKey);
+    expect(stamp.scheme).toBe(STAMP_SCHEME);
+    expect(verifyApiStamp('{"a":1}', stamp)).toBe(true);
+    expect(verifyApiStamp('{"a": 1}', stamp)).toBe(false);
+  });
+
+  test('should reject a public key that does not belong to the private key', () => {
+    const otherKey = derivePublicKey('1'.repeat(64));
+
+    expect(() => createApiStamp('{}', otherKey, PRIVATE_KEY)).toThrow('api_public_key does not belong to api_private_key');
+    expect(() => derivePublicKey('0x1234')).toThrow('64 characters');
+  });
+});
+
+describe('Signed Requests', () => {
+  test('should fill in the organization and timestamp and stamp the exact body', () => {
+    const { organizationId, timestampMs, ...rest } = request;
+
+    const signed = buildSignedRequest(rest, config('https://api.turnkey.com/'), 1750045965123);
+
+    expect(signed.url).toBe('https://api.turnkey.com/public/v1/submit/sign_transaction');
+    expect(JSON.parse(signed.body)).toMatchObject({ organizationId: ORG_ID, timestampMs: '1750045965123' });
+    expect(verifyApiStamp(signed.body, decodeApiStamp(signed.headers['X-Stamp']))).toBe(true);
+  });
+
+  test('should reject requests for another organization', () => {
+    expect(() => buildSignedRequest({ ...request, organizationId: 'b90d78dc-3245-49e7-add8-400b6edccbe9' }, config()))
+      .toThrow('does not match the configuration\'s org_id');
+    expect(() => buildSignedRequest(request, { org_id: ORG_ID })).toThrow('missing base_url, api_public_key, api_private_key');
+  });
+
+  test('should send the stamped body to the API', async () => {
+    const api = await startMockApi(200, { activity: { id: 'activity-1', status: 'ACTIVITY_STATUS_COMPLETED' } });
+    try {
+      const signed = buildSignedRequest(request, config(api.url));
+
+      const result = await sendSignedRequest(signed);
+
+      expect(result).toEqual({ ok: true, status: 200, data: { activity: { id: 'activity-1', status: 'ACTIVITY_STATUS_COMPLETED' } } });
+      expect(api.received[0].method).toBe('POST');
+      expect(api.received[0].url).toBe('/public/v1/submit/sign_transaction');
+      expect(api.received[0].body).toBe(signed.body);
+      expect(verifyApiStamp(api.received[0].body, decodeApiStamp(api.received[0].headers['x-stamp'] as string))).toBe(true);
+    } finally {
+      await api.close();
+    }
+  });
+
+  test('should interpret API errors', async () => {
+    const api = await startMockApi(401, { code: 16, message: 'could not verify signature', details: [] });
+    try {
+      const result = await sendSignedRequest(buildSignedRequest(request, config(api.url)));
+
+      expect(result).toEqual({ ok: false, error: { status: 401, message: 'could not verify signature', details: '[]' } });
+    } finally {
+      await api.close();
+    }
+  });
+});
+
+describe('Submit Command', () => {
+  let directory: string;
+  let output: string[];
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'turnkey-copilot-submit-'));
+    output = [];
+    jest.spyOn(console, 'log').mockImplementation((...args) => { output.push(args.join(' ')); });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test('should print the stamped request with --dry-run', async () => {
+    const requestPath = path.join(directory, 'request.json');
+    const configPath = path.join(directory, 'config.json');
+    await fs.writeFile(requestPath, JSON.stringify(request), 'utf-8');
+    await fs.writeFile(configPath, JSON.stringify(config()), 'utf-8');
+
+    const exitCode = await submitRequest(requestPath, { config: configPath, dryRun: true });
+
+    expect(exitCode).toBe(0);
+    expect(output[0]).toBe('POST https://api.turnkey.com/public/v1/submit/sign_transaction');
+    expect(output[1]).toBe('Content-Type: application/json');
+    expect(output[3]).toBe(`\n${JSON.stringify(request)}`);
+    expect(verifyApiStamp(JSON.stringify(request), decodeApiStamp(output[2].replace('X-Stamp: ', '')))).toBe(true);
+  });
+
+  test('should print the activity fields of the response that are strings', async () => {
+    const api = await startMockApi(200, { activity: { id: 42, status: 'ACTIVITY_STATUS_COMPLETED', result: { signTransactionResult: { signedTransaction: '02f86b' } } } });
+    try {
+      const requestPath = path.join(directory, 'request.json');
+      const configPath = path.join(directory, 'config.json');
+      await fs.writeFile(requestPath, JSON.stringify(request), 'utf-8');
+      await fs.writeFile(configPath, JSON.stringify(config(api.url)), 'utf-8');
+
+      expect(await submitRequest(requestPath, { config: configPath })).toBe(0);
+      expect(output).toEqual(expect.arrayContaining([
+        expect.stringContaining('Activity: unknown'),
+        expect.stringContaining('Status:   ACTIVITY_STATUS_COMPLETED'),
+        expect.stringContaining('Signed transaction: 02f86b')
+      ]));
+    } finally {
+      await api.close();
+    }
+  });
+
+  test('should refuse requests with errors', async () => {
+    const requestPath = path.join(directory, 'request.json');
+    await fs.writeFile(requestPath, JSON.stringify({ ...request, parameters: { ...request.parameters, unsignedTransaction: 'zz' } }), 'utf-8');
+
+    await expect(submitRequest(requestPath, { config: path.join(directory, 'config.json') })).rejects.toThrow('--skip-check');
+  });
+});
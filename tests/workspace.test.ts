@@ -0,0 +1,148 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { addWorkspaceFindings, analyzeFile } from '../src/services/analysis';
+import * as simulation from '../src/services/simulation';
+import { analyzeWorkspace, WorkspaceFile } from '../src/services/workspace';
+import { TurnkeyTransactionRequest } from '../src/types';
+
+const SIGNER = '0x4c7839aC8dFBe7674CF5997DC05156615AcbB850';
+
+const request: TurnkeyTransactionRequest = {
+  timestampMs: '1750045965000',
+  type: 'ACTIVITY_TYPE_SIGN_TRANSACTION_V2',
+  organizationId: 'a90d78dc-3245-49e7-add8-400b6edccbe9',
+  parameters: {
+    type: 'TRANSACTION_TYPE_ETHEREUM',
+    signWith: SIGNER,
+    unsignedTransaction: '02ed83aa36a780843b9aca00843b9aca0b825208943392eb09edaf41e97f917464167d10f7ad4e56fd830f424080c0'
+  }
+};
+
+const config = {
+  org_id: 'a90d78dc-3245-49e7-add8-400b6edccbe9',
+  wallet_id: 'wallet-prod',
+  base_url: 'https://api.turnkey.com'
+};
+
+const allowSigner = {
+  required_approvals: 1,
+  signing_keys: [{ key_id: SIGNER.toLowerCase(), public_key: 'public' }],
+  allowed_activities: [{ type: 'SIGN_TRANSACTION', resources: ['*'] }]
+};
+
+const ruleIds = (results: Map<string, { ruleId: string }[]>, file: string) => (results.get(file) ?? []).map(finding => finding.ruleId);
+
+describe('Workspace Analysis', () => {
+  test('should accept a consistent workspace', async () => {
+    const files: WorkspaceFile[] = [
+      { file: 'config.json', fileType: 'config', data: config },
+      { file: 'policy.json', fileType: 'policy', data: allowSigner },
+      { file: 'request.json', fileType: 'transaction', data: request },
+      { file: 'wallet.json', fileType: 'policy', data: { policyName: 'Prod wallet', effect: 'EFFECT_ALLOW', condition: "wallet.id == 'wallet-prod'" } }
+    ];
+
+    expect(await analyzeWorkspace(files, { env: {} })).toEqual(new Map());
+  });
+
+  test('should report mismatched organizations, orphaned keys and denied requests', async () => {
+    const files: WorkspaceFile[] = [
+      { file: 'config.json', fileType: 'config', data: config },
+      { file: 'policy.json', fileType: 'policy', data: { ...allowSigner, signing_keys: [{ key_id: 'other-key' }], allowed_activities: [] } },
+      { file: 'request.json', fileType: 'transaction', data: { ...request, organizationId: 'staging-org' } }
+    ];
+
+    const results = await analyzeWorkspace(files, { env: {} });
+
+    expect(ruleIds(results, 'request.json')).toEqual(['workspace/organization-mismatch', 'workspace/orphaned-sign-with', 'workspace/request-denied']);
+    expect(results.get('request.json')![0].fix?.edits).toEqual([{ op: 'set', pointer: '/organizationId', value: config.org_id }]);
+  });
+
+  test('should compare requests with every profile, or only the selected one', async () => {
+    const profiled = { base_url: 'https://api.turnkey.com', profiles: { dev: { org_id: 'dev-org' }, prod: { org_id: config.org_id } } };
+    const files: WorkspaceFile[] = [
+      { file: 'config.json', fileType: 'config', data: profiled },
+      { file: 'request.json', fileType: 'transaction', data: request }
+    ];
+
+    expect(await analyzeWorkspace(files, { env: {} })).toEqual(new Map());
+    expect(ruleIds(await analyzeWorkspace(files, { env: {}, profile: 'dev' }), 'request.json')).toEqual(['workspace/organization-mismatch']);
+  });
+
+  test('should not compare with organizations that cannot be resolved', async () => {
+    const files: WorkspaceFile[] = [
+      { file: 'config.json', fileType: 'config', data: { ...config, org_id: '${TURNKEY_ORG_ID}' } },
+      { file: 'request.json', fileType: 'transaction', data: request }
+    ];
+
+    expect(await analyzeWorkspace(files, { env: {} })).toEqual(new Map());
+    expect(ruleIds(await analyzeWorkspace(files, { env: { TURNKEY_ORG_ID: 'other-org' } }), 'request.json')).toEqual(['workspace/organization-mismatch']);
+  });
+
+  test('should report policies that reference unknown wallets', async () => {
+    const files: WorkspaceFile[] = [
+      { file: 'config.json', fileType: 'config', data: config },
+      { file: 'simple.json', fileType: 'policy', data: { policyName: 'Wallets', effect: 'EFFECT_ALLOW', condition: "wallet.id in ['wallet-prod', 'wallet-old']" } },
+      {
+        file: 'traditional.json',
+        fileType: 'policy',
+        data: { ...allowSigner, allowed_activities: [{ type: 'SIGN_TRANSACTION', resources: ['*'], parameters: { condition: "'wallet-dev' == wallet.id" } }] }
+      }
+    ];
+
+    const results = await analyzeWorkspace(files, { env: {} });
+
+    expect(results.get('simple.json')).toEqual([expect.objectContaining({ ruleId: 'workspace/unknown-wallet', pointer: '/condition' })]);
+    expect(results.get('simple.json')![0].message).toContain('wallet wallet-old,');
+    expect(results.get('traditional.json')).toEqual([
+      expect.objectContaining({ ruleId: 'workspace/unknown-wallet', pointer: '/allowed_activities/0/parameters/condition' })
+    ]);
+  });
+
+  test('should report policies that cannot be evaluated on the policy file and simulate the others', async () => {
+    const broken = JSON.parse('{ "required_approvals": 1, "signing_keys": [], "allowed_activities": { "type": "SIGN_TRANSACTION" } }');
+    const simulate = simulation.simulatePolicies;
+    jest.spyOn(simulation, 'simulatePolicies').mockImplementation((policies, input) => {
+      if (policies.some(policy => policy.policy === broken)) {
+        throw new Error('allowed_activities.map is not a function');
+      }
+      return simulate(policies, input);
+    });
+    try {
+      const results = await analyzeWorkspace([
+        { file: 'broken.json', fileType: 'policy', data: broken },
+        { file: 'policy.json', fileType: 'policy', data: allowSigner },
+        { file: 'request.json', fileType: 'transaction', data: request }
+      ], { env: {} });
+
+      expect([...results.keys()]).toEqual(['broken.json']);
+      expect(results.get('broken.json')).toEqual([expect.objectContaining({
+        ruleId: 'workspace/simulation-failed',
+        message: 'Unable to evaluate the policy against request.json: allowed_activities.map is not a function'
+      })]);
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  test('should add located workspace findings to the file reports', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'turnkey-workspace-'));
+    try {
+      const configPath = path.join(directory, 'config.json');
+      const requestPath = path.join(directory, 'request.json');
+      await fs.writeFile(configPath, JSON.stringify(config, null, 2));
+      await fs.writeFile(requestPath, JSON.stringify({ ...request, organizationId: 'staging-org' }, null, 2));
+
+      const reports = await Promise.all([configPath, requestPath].map(file => analyzeFile(file, { env: {} })));
+      const [configReport, requestReport] = await addWorkspaceFindings(reports, { env: {} });
+
+      expect(configReport).toBe(reports[0]);
+      expect(requestReport.findings).toContainEqual(expect.objectContaining({
+        ruleId: 'workspace/organization-mismatch',
+        location: expect.objectContaining({ start: expect.objectContaining({ line: 4 }) })
+      }));
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});